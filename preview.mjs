@@ -1,7 +1,9 @@
-import { readFileSync, writeFileSync } from "node:fs";
+import { writeFileSync } from "node:fs";
 import path from "node:path";
 import { renderTemplate } from "./render.mjs";
 import { loadConfig, loadProfile } from "./protocol.mjs";
+import { TemplateService } from "./dist/services/templateService.js";
+import { CounterService, templateCounters } from "./dist/services/counterService.js";
 
 // Usage: node preview.mjs <template.json> <line1> <line2> [out.png]
 // Mismo renderizador que print-usb.mjs -> preview fiel a la impresión.
@@ -19,8 +21,10 @@ const renderCtx = {
   textMarginPx: cfg.render?.textMarginPx ?? 8,
 };
 
-const template = JSON.parse(readFileSync(templateFile, "utf8"));
-const canvas = renderTemplate(template, { line1, line2 }, renderCtx);
+const template = await new TemplateService().loadTemplateFromFile(templateFile);
+// Los contadores muestran el siguiente número sin reservarlo
+const counters = await new CounterService().peek(templateCounters(template));
+const canvas = renderTemplate(template, { line1, line2, ...counters }, renderCtx);
 
 writeFileSync(outFile, canvas.toBuffer("image/png"));
 console.log(`preview -> ${outFile} (${canvas.width}x${canvas.height}) | printer: ${profile.name}`);
@@ -1,13 +1,28 @@
-import { readFileSync, writeFileSync } from "node:fs";
-import { fileURLToPath, pathToFileURL } from "node:url";
-import { renderTemplate, canvasToImageData } from "./render.mjs";
+import { pathToFileURL } from "node:url";
+import { writeFileSync } from "node:fs";
+import { renderTemplate, canvasToImageData, rotateCanvas, extendCanvas } from "./render.mjs";
 import { loadConfig, loadProfile, buildPayload } from "./protocol.mjs";
+// Carga + composición (extends, partials, slots) + validación, compartido con el core TS
+import { TemplateService } from "./dist/services/templateService.js";
+// Contadores persistentes ({{counter:asset}}), compartidos con el core TS
+import { CounterService, templateCounters } from "./dist/services/counterService.js";
+// Banners (papel continuo): tamaño y límites, compartido con el core TS
+import { planBanner } from "./dist/utils/banner.js";
+// orientation de la plantilla (0/90/180/270), compartido con el core TS
+import { labelQuarterTurns } from "./dist/utils/transform.js";
+// units (mm, in, px, dots) a números al DPI del perfil, compartido con el core TS
+import { resolveTemplateUnits } from "./dist/utils/units.js";
+// Catálogo de stocks de etiquetas del perfil (media.stocks), compartido con el core TS
+import { resolveMedia, placeLabel } from "./dist/utils/labelMedia.js";
+// Transporte según el dispositivo: serie, archivo (usblp), tcp:// (9100) o memory://
+import { createTransport } from "./dist/services/printerTransport.js";
 
-// Uso como CLI: sudo node print-usb.mjs [template.json] [line1] [line2] [--dry-run]
+// Uso como CLI: sudo node print-usb.mjs [template.json] [line1] [line2] [--dry-run] [--save-payload label.bin]
+//   --save-payload guarda los bytes generados (para npm run inspect)
 // Uso como biblioteca: import { printJob } from "label-printer-core/print";
 //
 // Todo configurable: printers/*.json (perfil de impresora), config.json
-// (impresora activa, dispositivo, tipo de papel), env PRINTER_DEVICE/PRINTER_CONFIG.
+// (impresora activa, dispositivo, stock o tipo de papel), env PRINTER_DEVICE/PRINTER_CONFIG.
 
 /**
  * Renderiza una plantilla y la envía a la impresora (o solo la genera).
@@ -16,12 +31,14 @@ import { loadConfig, loadProfile, buildPayload } from "./protocol.mjs";
  * @param {string|object} opts.template - Ruta al JSON de plantilla o plantilla ya parseada.
  * @param {Record<string,string|number>} [opts.variables] - Variables para la plantilla ({{line1}}, {{name}}, ...).
  * @param {boolean} [opts.dryRun] - true => genera payload sin enviar.
- * @param {string} [opts.device] - Dispositivo/serie explícito (gana a config y env).
+ * @param {string} [opts.device] - Dispositivo explícito (gana a config y env): COM3, /dev/usb/lp0,
+ *   serial:///dev/ttyUSB0, file:///dev/usb/lp0 o tcp://host:9100.
  * @param {string} [opts.configPath] - Ruta alternativa a config.json (env PRINTER_CONFIG también vale).
- * @returns {Promise<{canvas: any, raster: any, payload: Buffer, device: string, mediaType: string, bytes: number, dryRun: boolean}>}
+ * @param {string} [opts.countersFile] - Fichero de estado de los contadores (env COUNTERS_FILE, por defecto .label-counters.json).
+ * @returns {Promise<{canvas: any, raster: any, payload: Buffer, device: string, mediaType: string, media: object, bytes: number, dryRun: boolean}>}
  */
 export async function printJob(opts = {}) {
-  const { template, variables = {}, dryRun = false, device: deviceOverride, configPath } = opts;
+  const { template, variables = {}, dryRun = false, device: deviceOverride, configPath, countersFile } = opts;
 
   const cfg = loadConfig(configPath);
   const profile = loadProfile(cfg.printer);
@@ -33,83 +50,122 @@ export async function printJob(opts = {}) {
     profile.connection.defaultDevice[process.platform] ??
     "/dev/usb/lp0";
 
-  const mediaType = cfg.media?.type ?? profile.media.defaultType; // diecut | continuous
-  if (!profile.media.paperTypes.includes(mediaType)) {
-    throw new Error(`Tipo de papel "${mediaType}" no soportado por ${profile.name} (${profile.media.paperTypes.join(", ")})`);
+  const templates = new TemplateService();
+  const loaded = typeof template === "string"
+    ? await templates.loadTemplateFromFile(template)
+    : await templates.resolveTemplate(template);
+  // Medidas en mm/in/dots a px y puntos: el mismo tamaño físico a 203 o 300 dpi
+  const tpl = resolveTemplateUnits(loaded, profile.dpi, cfg.render?.scaleDpi ?? 96);
+
+  // --- Papel -------------------------------------------------------------------
+  // Stock del catálogo del perfil: config media.stock, "stock" de la plantilla o
+  // media.defaultStock (config media.type elige el tipo si no se nombra stock;
+  // los banners van a papel continuo). Sin catálogo, media.diecut/continuous.
+  const stock = cfg.media?.stock ?? tpl.stock;
+  const media = resolveMedia(profile, {
+    stock,
+    type: cfg.media?.type ?? (!stock && tpl.banner ? "continuous" : undefined),
+  });
+  if (media.type === "diecut" && cfg.media?.label) {
+    // Tamaño de etiqueta a mano (px), sin márgenes
+    const { widthPx, heightPx } = cfg.media.label;
+    Object.assign(media, { widthPx, heightPx, printable: { x: 0, y: 0, width: widthPx, height: heightPx } });
   }
+  const mediaType = media.type; // diecut | continuous
 
-  const tpl = typeof template === "string" ? JSON.parse(readFileSync(template, "utf8")) : template;
-  const tplW = tpl.dimensions?.width ?? profile.media.diecut?.labelWidthPx ?? 227;
-  const tplH = tpl.dimensions?.height ?? profile.media.diecut?.labelHeightPx ?? 136;
+  // Banner: se maqueta a lo largo (width = largo, height = ancho del papel) y se
+  // gira al avance del papel; el ancho limitado es el height, el largo tiene su máximo
+  const banner = tpl.banner
+    ? planBanner(tpl, profile, { maxLengthPx: cfg.media?.maxLengthPx ?? undefined, mediaType })
+    : null;
 
-  // Validación de límites del firmware
-  const maxW = profile.limits.maxWidthPx;
-  if (maxW && tplW > maxW) {
-    throw new Error(`Ancho ${tplW}px excede el máximo del ${profile.name} (${maxW}px) — papel en blanco`);
-  }
+  // La plantilla se dibuja en orientación de lectura y se gira al imprimir:
+  // orientation 90/270 (y los banners) intercambian ancho y alto impresos.
+  // Sin dimensions, la plantilla ocupa el área imprimible del papel.
+  const quarterTurns = labelQuarterTurns(tpl.orientation) + (banner ? 1 : 0);
+  const sideways = quarterTurns % 2 === 1;
+  const tplW = tpl.dimensions?.width ?? (sideways ? media.printable.height : media.printable.width) ?? profile.limits.safeWidthPx;
+  const tplH = tpl.dimensions?.height ?? (sideways ? media.printable.width : media.printable.height) ?? profile.limits.safeHeightPx;
+  const printW = banner ? banner.acrossPx : sideways ? tplH : tplW;
+  const printH = banner ? banner.lengthPx : sideways ? tplW : tplH;
 
-  // --- Tipo de papel -----------------------------------------------------------
   // diecut (precortado): la altura del raster debe ser la de la etiqueta para que
-  //   el sensor de huecos alinee bien; si la plantilla es más baja se rellena.
+  //   el sensor de huecos alinee bien; si la plantilla es más baja se rellena
+  //   (una plantilla girada, después de girarla: el relleno sale al final).
   // continuous (rollo continuo): la altura la define el contenido; se añade
   //   alimentación extra configurable al final.
-  let canvasH = tplH;
-  let feedAfterDots = 0;
-  if (mediaType === "diecut") {
-    const labelH = cfg.media?.label?.heightPx ?? profile.media.diecut.labelHeightPx;
-    const labelW = cfg.media?.label?.widthPx ?? profile.media.diecut.labelWidthPx;
-    if (tplH > labelH) {
-      throw new Error(`Plantilla ${tplH}px > etiqueta precortada ${labelH}px (${profile.name}) — se saldría de la etiqueta`);
-    }
-    if (tplH < labelH) {
-      console.warn(`[media] plantilla ${tplH}px < etiqueta ${labelH}px: se rellena hasta la altura de la etiqueta`);
-      canvasH = labelH;
+  // Más ancha o larga que el área imprimible: error.
+  const placement = placeLabel(media, printW, printH, `Template "${tpl.name}"`);
+  if (mediaType === "diecut" && placement.height > printH) {
+    console.warn(`[media] plantilla ${printH}px < etiqueta ${placement.height}px (${media.name}): se rellena hasta la altura de la etiqueta`);
+  }
+  const feedAfterDots = cfg.media?.feedAfterDots ?? media.feedAfterDots ?? 0;
+  const feedAfterLines = media.feedAfterLines ?? 0;
+
+  // --- Contadores --------------------------------------------------------------
+  // Se reserva el número antes de renderizar y solo se consume cuando el envío
+  // termina bien; en dry-run solo se consulta el siguiente valor.
+  const counters = new CounterService(countersFile);
+  const counterNames = templateCounters(tpl);
+  let reservation;
+  let counterVars = {};
+  if (counterNames.length > 0) {
+    if (dryRun) {
+      counterVars = await counters.peek(counterNames);
+    } else {
+      reservation = await counters.reserve(counterNames, 1);
+      counterVars = counters.valuesFor(reservation, 0);
     }
-    if (tplW !== labelW) console.warn(`[media] ancho ${tplW}px != etiqueta ${labelW}px: el raster se imprime desde el borde izquierdo`);
-  } else {
-    feedAfterDots = cfg.media?.feedAfterDots ?? profile.media.continuous.feedAfterDots ?? 0;
   }
 
-  // --- Render + raster + payload ----------------------------------------------
-  const renderCtx = {
-    dpi: profile.dpi,
-    scaleDpi: cfg.render?.scaleDpi ?? 96,
-    textMarginPx: cfg.render?.textMarginPx ?? 8,
-  };
-  const canvas = renderTemplate({ ...tpl, dimensions: { width: tplW, height: canvasH } }, variables, renderCtx);
-  const raster = canvasToImageData(canvas, profile.raster.orientation, profile.raster.byteOrder);
-  const payload = buildPayload(profile, raster, canvas.width, canvas.height, { feedAfterDots });
-
-  const result = { canvas, raster, payload, device, mediaType, bytes: payload.length, dryRun };
-  console.log(
-    `[render] "${Object.values(variables).join('" / "')}" | canvas ${canvas.width}x${canvas.height}px | papel: ${mediaType} | payload ${payload.length} bytes | device: ${device}${dryRun ? " (dry-run)" : ""}`
-  );
-  if (dryRun) return result;
-
-  // --- Envío (serie o dispositivo directo) -------------------------------------
-  const isSerial = (dev) => new RegExp(profile.connection.serialPattern ?? "^COM\\d+$").test(dev);
-
-  async function sendSerial(dev) {
-    const { SerialPort } = await import("serialport");
-    return new Promise((resolve, reject) => {
-      const port = new SerialPort({ path: dev, baudRate: profile.connection.defaultBaudRate ?? 57600 });
-      port.on("open", () => {
-        port.write(payload, (err) => {
-          if (err) return reject(err);
-          port.drain(() => port.close(() => resolve()));
-        });
-      });
-      port.on("error", reject);
-    });
+  try {
+    return await renderAndSend();
+  } finally {
+    if (reservation) await counters.release(reservation);
   }
 
-  if (isSerial(device)) {
-    await sendSerial(device);
-  } else {
-    writeFileSync(device, payload); // usblp / archivo de dispositivo
+  async function renderAndSend() {
+    // --- Render + raster + payload --------------------------------------------
+    const renderCtx = {
+      dpi: profile.dpi,
+      scaleDpi: cfg.render?.scaleDpi ?? 96,
+      textMarginPx: cfg.render?.textMarginPx ?? 8,
+    };
+    const dimensions = banner ? { width: banner.lengthPx, height: banner.acrossPx } : { width: tplW, height: tplH };
+    const drawn = renderTemplate({ ...tpl, dimensions }, { ...variables, ...counterVars }, renderCtx);
+    const turned = quarterTurns % 4 !== 0 ? rotateCanvas(drawn, quarterTurns) : drawn;
+    const canvas = placement.width !== turned.width || placement.height !== turned.height
+      ? extendCanvas(turned, placement.height, tpl.background, placement)
+      : turned;
+    const raster = canvasToImageData(canvas, profile.raster.orientation, profile.raster.byteOrder);
+    const payload = mediaType === "continuous"
+      ? buildPayload(profile, raster, canvas.width, canvas.height, { feedAfterDots, feedAfterLines })
+      : buildPayload(profile, raster, canvas.width, canvas.height);
+
+    const result = { canvas, raster, payload, device, mediaType, media, bytes: payload.length, dryRun };
+    console.log(
+      `[render] "${Object.values(variables).join('" / "')}" | canvas ${canvas.width}x${canvas.height}px | papel: ${media.name} (${mediaType}) | payload ${payload.length} bytes | device: ${device}${dryRun ? " (dry-run)" : ""}`
+    );
+    if (dryRun) return result;
+
+    // --- Envío ------------------------------------------------------------------
+    // Un nombre sin esquema es serie si casa con connection.serialPattern del
+    // perfil y archivo de dispositivo si no (como antes)
+    const transport = createTransport(device, {
+      baudRate: profile.connection.defaultBaudRate ?? 57600,
+      serialPattern: profile.connection.serialPattern,
+    });
+    await transport.open();
+    try {
+      await transport.write(payload);
+      await transport.drain();
+    } finally {
+      await transport.close();
+    }
+    if (reservation) await counters.commit(reservation, 1);
+    console.log(`[OK] enviado a ${transport.uri}`);
+    return result;
   }
-  console.log(`[OK] enviado a ${device}`);
-  return result;
 }
 
 // --- CLI (solo cuando se ejecuta directamente) ----------------------------------
@@ -118,13 +174,22 @@ const isMain =
 if (isMain) {
   const args = process.argv.slice(2);
   const dryRun = args.includes("--dry-run");
-  const positional = args.filter((a) => a !== "--dry-run");
+  const saveAt = args.indexOf("--save-payload");
+  const payloadFile = saveAt >= 0 ? args[saveAt + 1] : undefined;
+  const positional = args.filter((a, i) => a !== "--dry-run" && (saveAt < 0 || (i !== saveAt && i !== saveAt + 1)));
   const templateFile = positional[0] ?? "./templates/backups-term-vt323.json";
   const line1 = positional[1] ?? "BACKUPS";
   const line2 = positional[2] ?? "USB STORAGE";
 
-  printJob({ template: templateFile, variables: { line1, line2 }, dryRun }).catch((e) => {
-    console.error(`[ERROR] no se pudo enviar:`, e.message);
-    process.exit(1);
-  });
+  printJob({ template: templateFile, variables: { line1, line2 }, dryRun })
+    .then((result) => {
+      if (payloadFile) {
+        writeFileSync(payloadFile, result.payload);
+        console.log(`[payload] ${result.payload.length} bytes -> ${payloadFile}`);
+      }
+    })
+    .catch((e) => {
+      console.error(`[ERROR] no se pudo enviar:`, e.message);
+      process.exit(1);
+    });
 }
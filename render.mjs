@@ -1,5 +1,21 @@
 import { createCanvas } from "canvas";
-import { registerAllFonts } from "./fonts.mjs";
+import { fonts, registerAllFonts } from "./fonts.mjs";
+// Codificadores compartidos con el core TS (compilado en dist/ por `npm run build` / prepare)
+import { layoutBarcode } from "./dist/utils/barcode.js";
+import { layoutMatrixCode } from "./dist/utils/matrixCode.js";
+import { ditherPixels, thresholdInk } from "./dist/utils/dither.js";
+import { renderRasterImage, DEFAULT_IMAGE_DITHER } from "./dist/utils/rasterImage.js";
+import { layoutTextBox, fitFontSize, availableTextSpace, aliasedTextThreshold, DEFAULT_TEXT_FIT } from "./dist/utils/textLayout.js";
+// Fuentes bitmap integradas (5x7, 8x16): cada punto del glifo, puntos enteros de la impresora
+import { findBitmapFont, measureBitmapText, bitmapTextRects } from "./dist/utils/bitmapFont.js";
+// Giros de elementos (rotate/pivot), misma geometría que el core TS
+import { elementTurn, rotatePoint } from "./dist/utils/transform.js";
+// {{ expresiones }}: variables anidadas, ?? por defecto, filtros; variable ausente = error
+import { interpolate } from "./dist/utils/templateExpression.js";
+// units (mm, in, px, dots) a números al DPI del perfil, compartido con el core TS
+import { resolveTemplateUnits } from "./dist/utils/units.js";
+// Familia + fontFallback del elemento (o defaultFont) a la fuente registrada más cercana
+import { elementFont, cssFont } from "./dist/utils/fontRegistry.js";
 
 registerAllFonts();
 
@@ -7,14 +23,23 @@ registerAllFonts();
 // márgenes, escala) vienen de la configuración/perfil, no hardcodeados.
 // ctx = { dpi, scaleDpi, textMarginPx } (desde config.json + printers/*.json)
 
-export function renderTemplate(tpl, vars, ctx = {}) {
+export function renderTemplate(template, vars, ctx = {}) {
   const dpi = ctx.dpi ?? 203;
   const scaleDpi = ctx.scaleDpi ?? 96;
   const margin = ctx.textMarginPx ?? 8;
   const SCALE = dpi / scaleDpi;
+  // px de la plantilla = 1/scaleDpi pulgadas; mm, in y dots se convierten al dpi
+  const tpl = resolveTemplateUnits(template, dpi, scaleDpi);
+
+  // Fuentes que trae la plantilla (fonts[].src ya resuelto por TemplateService)
+  // y las de sistema que pida, registradas antes de crear el canvas
+  fonts.addTemplateFonts(tpl.fonts);
+  fonts.prepare(tpl.elements.filter((el) => (el.type === "text" && !el.bitmapFont) || el.type === "barcode").map((el) => elementFont(el, tpl.defaultFont)));
+  const fontOf = (el) => fonts.resolve(elementFont(el, tpl.defaultFont));
 
   const bg = tpl.background === "black" ? "#000000" : "#ffffff";
   const ink = tpl.background === "black" ? "#ffffff" : "#000000";
+  const inkRgb = tpl.background === "black" ? [255, 255, 255] : [0, 0, 0];
   const dimW = tpl.dimensions?.width ?? 227;
   const dimH = tpl.dimensions?.height ?? 136; // en PÍXELES
   const canvas = createCanvas(dimW, dimH);
@@ -22,39 +47,74 @@ export function renderTemplate(tpl, vars, ctx = {}) {
   ctx2d.fillStyle = bg;
   ctx2d.fillRect(0, 0, dimW, dimH);
 
-  const defaultFamily = tpl.defaultFont?.family ?? "Norwester Condensed";
   const defaultSize = tpl.defaultFont?.size ?? 16;
 
-  // Pass 1: auto-fit text sizes (solo ancho; el alto se controla en la plantilla)
+  // Pass 1: auto-fit text sizes (el.fit: width, height, box o none).
+  // Misma lógica y mismo valor por defecto que el core TS (dist/utils/textLayout.js)
   for (const el of tpl.elements) {
     if (el.type !== "text") continue;
-    const text = substitute(el.content, vars);
-    const family = el.fontFamily ?? defaultFamily;
-    const base = el.fontSize ?? defaultSize;
+    const text = interpolate(el.content, vars);
+    const font = fontOf(el);
+    const scaled = Math.round((el.fontSize ?? defaultSize) * SCALE);
+    // Las cajas de texto se ajustan solas (overflow) en el pass 2
+    if (el.box) { el._size = scaled; continue; }
     const x = Math.round((el.position?.x ?? 0) * SCALE);
-    const avail = el.align === "center" ? dimW - 2 * margin : dimW - x - margin;
-    const scaled = base * SCALE;
-    const width = measure(text, family, scaled, el.weight ?? "normal");
-    el._size = width > avail
-      ? Math.round(scaled * (avail / width) * 0.97)
-      : Math.round(scaled);
+    const y = Math.round((el.position?.y ?? 0) * SCALE);
+    // Texto girado: el espacio se mide a lo largo de su línea base, desde el ancla girada
+    const turn = elementTurn(el, SCALE);
+    const anchor = turn ? rotatePoint({ x, y }, turn.pivot, turn.degrees) : { x, y };
+    el._size = fitFontSize(text, textMeasure(el, font), {
+      fit: el.fit ?? DEFAULT_TEXT_FIT,
+      fontSize: scaled,
+      minFontSize: scaleOptional(el.minFontSize, SCALE),
+      maxFontSize: scaleOptional(el.maxFontSize, SCALE),
+      ...availableTextSpace(anchor.x, anchor.y, el.align, dimW, dimH, margin, turn?.degrees),
+    });
   }
 
-  // Pass 2: dibujar
+  // Pass 2: dibujar (cada elemento con rotate se gira alrededor de su pivot).
+  // Texto aliased y fuentes bitmap van en una capa aparte que se corta a
+  // puntos enteros en su umbral: los bordes grises no salen como puntos sueltos
   for (const el of tpl.elements) {
+    const threshold = aliasedTextThreshold(el, tpl);
+    const layer = threshold !== undefined ? createCanvas(dimW, dimH) : canvas;
+    const g = layer.getContext("2d");
+    const turn = elementTurn(el, SCALE);
+    g.save();
+    if (turn) {
+      g.translate(turn.pivot.x, turn.pivot.y);
+      g.rotate((turn.degrees * Math.PI) / 180);
+      g.translate(-turn.pivot.x, -turn.pivot.y);
+    }
+    drawElement(el, g);
+    g.restore();
+    if (layer !== canvas) {
+      const pixels = g.getImageData(0, 0, dimW, dimH);
+      thresholdInk(pixels, threshold, inkRgb);
+      g.putImageData(pixels, 0, 0);
+      ctx2d.drawImage(layer, 0, 0);
+    }
+  }
+
+  function drawElement(el, ctx2d) {
     switch (el.type) {
       case "text": {
-        const text = substitute(el.content, vars);
-        const family = el.fontFamily ?? defaultFamily;
-        const weight = el.weight ?? "normal";
-        ctx2d.font = `${weight} ${el._size}px "${family}"`;
-        ctx2d.textAlign = el.align || "left";
+        const text = interpolate(el.content, vars);
+        const font = fontOf(el);
+        if (el.box) {
+          drawTextBox(ctx2d, el, text, font, ink, SCALE);
+          break;
+        }
+        const x = Math.round((el.position?.x ?? 0) * SCALE);
+        const y = Math.round((el.position?.y ?? 0) * SCALE);
         ctx2d.fillStyle = ink;
-        ctx2d.fillText(
-          text,
-          Math.round((el.position?.x ?? 0) * SCALE),
-          Math.round((el.position?.y ?? 0) * SCALE)
-        );
+        if (el.bitmapFont) {
+          fillRects(ctx2d, bitmapTextRects(text, findBitmapFont(el.bitmapFont), el._size, x, y, el.align));
+          break;
+        }
+        ctx2d.font = cssFont(font, el._size);
+        ctx2d.textAlign = el.align || "left";
+        ctx2d.fillText(text, x, y);
         break;
       }
       case "rectangle": {
@@ -118,24 +178,159 @@ export function renderTemplate(tpl, vars, ctx = {}) {
         for (let y = b.y; y <= b.y + b.h; y += ch) { ctx2d.beginPath(); ctx2d.moveTo(b.x, y); ctx2d.lineTo(b.x + b.w, y); ctx2d.stroke(); }
         break;
       }
+      case "barcode": {
+        // Barras en dots enteros (moduleWidth no se escala) -> raster exacto, legible por lector
+        const data = interpolate(el.data, vars);
+        const layout = layoutBarcode(el.symbology, data, {
+          moduleWidth: el.moduleWidth,
+          quietZone: el.quietZone,
+          checkDigit: el.checkDigit,
+        });
+        const x = Math.round(el.position.x * SCALE);
+        const y = Math.round(el.position.y * SCALE);
+        const h = Math.round((el.height ?? 40) * SCALE);
+        ctx2d.fillStyle = ink;
+        for (const bar of layout.bars) ctx2d.fillRect(x + bar.x, y, bar.width, h);
+        if (el.humanReadable) {
+          const size = Math.round((el.fontSize ?? 10) * SCALE);
+          ctx2d.font = cssFont(fontOf(el), size);
+          ctx2d.textAlign = "center";
+          ctx2d.fillText(layout.text, x + Math.round(layout.width / 2), y + h + 2 + size);
+        }
+        break;
+      }
+      case "qrcode":
+      case "datamatrix": {
+        // Módulos en dots enteros: moduleSize en dots, o size (escalado) repartido sin decimales
+        const data = interpolate(el.data, vars);
+        const layout = layoutMatrixCode(el.type, data, {
+          errorCorrection: el.errorCorrection,
+          moduleSize: el.moduleSize,
+          targetSize: el.size !== undefined ? el.size * SCALE : undefined,
+          quietZone: el.quietZone,
+        });
+        const x = Math.round(el.position.x * SCALE);
+        const y = Math.round(el.position.y * SCALE);
+        ctx2d.fillStyle = ink;
+        for (const c of layout.cells) ctx2d.fillRect(x + c.x, y + c.y, c.width, c.height);
+        break;
+      }
+      case "image": {
+        // Imagen (ruta o data URI) encajada en su caja y tramada a 1 bit
+        const img = renderRasterImage(interpolate(el.src, vars), {
+          width: el.width !== undefined ? Math.round(el.width * SCALE) : undefined,
+          height: el.height !== undefined ? Math.round(el.height * SCALE) : undefined,
+          fit: el.fit,
+          dither: el.dither ?? tpl.dither ?? DEFAULT_IMAGE_DITHER,
+        });
+        ctx2d.drawImage(img, Math.round(el.position.x * SCALE), Math.round(el.position.y * SCALE));
+        break;
+      }
     }
   }
+
+  // Tramado global opcional: sin él, cualquier píxel no blanco se imprime
+  if (tpl.dither) {
+    const pixels = ctx2d.getImageData(0, 0, dimW, dimH);
+    ditherPixels(pixels, tpl.dither);
+    ctx2d.putImageData(pixels, 0, 0);
+  }
   return canvas;
 }
 
-const substitute = (content, vars) =>
-  Object.entries(vars).reduce(
-    (r, [k, v]) => r.replace(new RegExp(`{{${k}}}`, "g"), String(v)),
-    content
-  );
+// Modo caja de texto: líneas partidas por palabras dentro de el.box
+// (position = esquina superior izquierda). Misma maquetación que el core TS.
+const drawTextBox = (ctx2d, el, text, font, ink, SCALE) => {
+  const x = Math.round((el.position?.x ?? 0) * SCALE);
+  const y = Math.round((el.position?.y ?? 0) * SCALE);
+  const w = Math.round(el.box.width * SCALE);
+  const h = el.box.height !== undefined ? Math.round(el.box.height * SCALE) : undefined;
+  const layout = layoutTextBox(text, (t, px) => textMeasure(el, font)(t, px).width, {
+    width: w,
+    height: h,
+    fontSize: el._size,
+    lineHeight: el.lineHeight,
+    maxLines: el.maxLines,
+    overflow: el.overflow,
+    minFontSize: scaleOptional(el.minFontSize, SCALE),
+  });
 
-const measure = (text, family, px, weight = "normal") => {
+  ctx2d.save();
+  if (h !== undefined && el.overflow !== "wrap") {
+    ctx2d.beginPath();
+    ctx2d.rect(x, y, w, h);
+    ctx2d.clip();
+  }
+  const align = el.align || "left";
+  const lineX = align === "center" ? x + w / 2 : align === "right" ? x + w : x;
+  const free = h !== undefined ? h - layout.lines.length * layout.lineHeightPx : 0;
+  const offset = el.verticalAlign === "bottom" ? free : el.verticalAlign === "middle" ? free / 2 : 0;
+  ctx2d.font = cssFont(font, layout.fontSize);
+  ctx2d.textAlign = align;
+  ctx2d.textBaseline = "middle";
+  ctx2d.fillStyle = ink;
+  layout.lines.forEach((line, i) => {
+    const lineY = Math.round(y + offset + (i + 0.5) * layout.lineHeightPx);
+    if (el.bitmapFont) {
+      fillRects(ctx2d, bitmapTextRects(line, findBitmapFont(el.bitmapFont), layout.fontSize, lineX, lineY, align, "middle"));
+    } else {
+      ctx2d.fillText(line, lineX, lineY);
+    }
+  });
+  ctx2d.restore();
+};
+
+const measureExtent = (text, font, px) => {
   const c = createCanvas(4, 4);
   const x = c.getContext("2d");
-  x.font = `${weight} ${px}px "${family}"`;
-  return x.measureText(text).width;
+  x.font = cssFont(font, px);
+  const m = x.measureText(text);
+  return { width: m.width, ascent: m.actualBoundingBoxAscent, descent: m.actualBoundingBoxDescent };
 };
 
+// Medida del texto en su fuente, o en la fuente bitmap del elemento
+const textMeasure = (el, font) => {
+  const bitmap = el.bitmapFont ? findBitmapFont(el.bitmapFont) : undefined;
+  return (text, px) => (bitmap ? measureBitmapText(text, bitmap, px) : measureExtent(text, font, px));
+};
+
+const fillRects = (ctx2d, rects) => {
+  for (const r of rects) ctx2d.fillRect(r.x, r.y, r.width, r.height);
+};
+
+const scaleOptional = (value, SCALE) => (value !== undefined ? Math.round(value * SCALE) : undefined);
+
+// Gira el canvas cuartos de vuelta en sentido horario (1 por defecto). Las
+// plantillas se dibujan en orientación de lectura y se giran al imprimir: la
+// orientation de la plantilla y, en un banner, un cuarto más para que el largo
+// vaya en la dirección de avance (el principio del texto sale primero).
+// Mismo giro que rotateBitmap del core TS.
+export function rotateCanvas(canvas, quarterTurns = 1) {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const { width, height } = canvas;
+  const rotated = turns % 2 === 1 ? createCanvas(height, width) : createCanvas(width, height);
+  const ctx2d = rotated.getContext("2d");
+  ctx2d.imageSmoothingEnabled = false;
+  if (turns === 1) ctx2d.translate(height, 0);
+  if (turns === 2) ctx2d.translate(width, height);
+  if (turns === 3) ctx2d.translate(0, width);
+  ctx2d.rotate((turns * Math.PI) / 2);
+  ctx2d.drawImage(canvas, 0, 0);
+  return rotated;
+}
+
+// Alarga el canvas hasta height con el color de fondo (etiqueta precortada
+// más alta que la plantilla): el contenido queda arriba, o en x/y (márgenes
+// del stock) en un canvas de width de ancho
+export function extendCanvas(canvas, height, background = "white", { x = 0, y = 0, width = canvas.width } = {}) {
+  const extended = createCanvas(width, height);
+  const ctx2d = extended.getContext("2d");
+  ctx2d.fillStyle = background === "black" ? "#000000" : "#ffffff";
+  ctx2d.fillRect(0, 0, width, height);
+  ctx2d.drawImage(canvas, x, y);
+  return extended;
+}
+
 // Convierte el canvas a raster 1-bit según la orientación/orden del perfil:
 //   column-major (L1): 1 byte = 8 px verticales; byteOrder topLSB (arriba = bit 0) o topMSB
 //   row-major (ESC/POS estándar): cada fila = ceil(w/8) bytes; byteOrder leftLSB (izquierda = bit 0) o leftMSB
@@ -1,7 +1,27 @@
 #!/usr/bin/env node
 
 import { JsonPrinterApp } from "./jsonPrinterApp.js";
-import { ArgumentParser } from "./utils/argumentParser.js";
+import { ArgumentParser, ParsedArguments } from "./utils/argumentParser.js";
+import { ProfileService } from "./services/profileService.js";
+import { TemplateService } from "./services/templateService.js";
+import { CounterService } from "./services/counterService.js";
+import { PrinterEmulator } from "./services/printerEmulator.js";
+import { PrintCancelledError } from "./services/printQueue.js";
+import { Logger } from "./utils/logger.js";
+import { getDebugConfigWithArgs, getPrinterConfigWithArgs } from "./utils/config.js";
+import { listStocks, stockMedia } from "./utils/labelMedia.js";
+import { FontRegistry } from "./utils/fontRegistry.js";
+import { encodePng } from "./utils/monoImage.js";
+import {
+  bitmapToAscii,
+  diffPayloads,
+  formatInspection,
+  formatPayloadDiff,
+  inspectPayload,
+} from "./utils/payloadInspector.js";
+import { readdirSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
 
 function showHelp(): void {
   console.log(ArgumentParser.getHelpText());
@@ -16,6 +36,39 @@ async function main(): Promise<void> {
     return;
   }
 
+  // validate [template|file.json ...]: schema check only, no printer needed
+  if (args[0] === "validate") {
+    process.exitCode = (await validateTemplates(args.slice(1))) ? 0 : 1;
+    return;
+  }
+
+  // counters [list] | counters reset <name> [value]: inspect/reset serial counters
+  if (args[0] === "counters") {
+    process.exitCode = (await manageCounters(args.slice(1))) ? 0 : 1;
+    return;
+  }
+
+  // serve [--host h] [--http-port n] [printer options]: local HTTP print server
+  if (args[0] === "serve") {
+    const parsedArgs = ArgumentParser.parse(args.slice(1));
+    const app = new JsonPrinterApp(parsedArgs);
+    const server = await app.serve(parsedArgs.server);
+    onStopSignal(() => server.close().finally(() => app.close()));
+    return;
+  }
+
+  // emulate [--printer id] [--host h] [--tcp-port n] [--out-dir dir]: printer emulator
+  if (args[0] === "emulate") {
+    await runEmulator(ArgumentParser.parse(args.slice(1)));
+    return;
+  }
+
+  // inspect <payload.bin> [other.bin] [--printer id] [--ascii] [--png file]: list or diff payload commands
+  if (args[0] === "inspect") {
+    process.exitCode = (await inspectPayloads(args.slice(1))) ? 0 : 1;
+    return;
+  }
+
   // Parse arguments using the enhanced ArgumentParser
   const parsedArgs = ArgumentParser.parse(args);
 
@@ -25,6 +78,21 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (parsedArgs.listPrinters) {
+    showPrinterList();
+    return;
+  }
+
+  if (parsedArgs.listStocks) {
+    showStockList(parsedArgs);
+    return;
+  }
+
+  if (parsedArgs.listFonts) {
+    showFontList(parsedArgs);
+    return;
+  }
+
   // Determine the template name
   const templateName = await determineTemplateName(parsedArgs, args);
 
@@ -34,7 +102,30 @@ async function main(): Promise<void> {
   }
 
   const jsonApp = new JsonPrinterApp(parsedArgs);
-  await executeTemplate(jsonApp, parsedArgs, templateName);
+  const controller = new AbortController();
+  onStopSignal(() => controller.abort());
+  try {
+    process.exitCode = (await executeTemplate(jsonApp, parsedArgs, templateName, controller.signal)) ? 0 : 1;
+  } catch (error) {
+    // The app already logged it; Ctrl+C is 130 like any interrupted command
+    process.exitCode = error instanceof PrintCancelledError ? 130 : 1;
+  } finally {
+    await jsonApp.close();
+  }
+}
+
+/**
+ * Runs stop on the first SIGINT/SIGTERM; a second one ends the process as usual
+ */
+function onStopSignal(stop: () => unknown): void {
+  const handler = (signal: NodeJS.Signals) => {
+    process.off("SIGINT", handler);
+    process.off("SIGTERM", handler);
+    console.log(`Received ${signal}, stopping`);
+    void stop();
+  };
+  process.on("SIGINT", handler);
+  process.on("SIGTERM", handler);
 }
 
 function showTemplateList(): void {
@@ -45,6 +136,188 @@ function showTemplateList(): void {
   console.log("  measurement-grid  - Grid for alignment testing");
   console.log("  test-dimensions   - Test dimensions template");
   console.log("  example-custom    - Example custom template");
+  console.log("  asset-barcode     - Code 128 asset tag");
+  console.log("  asset-qr          - QR code asset tag");
+  console.log("  asset-serial      - Numbered asset tag ({{counter:asset}})");
+}
+
+function showPrinterList(): void {
+  const profileService = new ProfileService();
+  console.log("Available Printer Profiles:");
+  for (const id of profileService.listProfiles()) {
+    const profile = profileService.loadProfile(id);
+    console.log(`  ${id.padEnd(17)} - ${profile.name} (${profile.dpi} DPI, max ${profile.limits.maxWidthPx ?? "-"}px)`);
+  }
+}
+
+function showFontList(parsedArgs: ParsedArguments): void {
+  const fonts = new FontRegistry({ systemDirs: false });
+  fonts.addBundledFonts();
+  for (const dir of getPrinterConfigWithArgs(parsedArgs).fontDirs ?? []) {
+    fonts.addDirectory(dir);
+  }
+  console.log("Registered Fonts:");
+  for (const family of fonts.families()) {
+    const variants = fonts.variants(family).map((face) => `${face.weight}${face.style === "italic" ? " italic" : ""}`);
+    console.log(`  ${family.padEnd(24)} - ${[...new Set(variants)].join(", ")}`);
+  }
+  console.log("System fonts are looked up when a template asks for a family not listed here.");
+}
+
+function showStockList(parsedArgs: ParsedArguments): void {
+  const profile = new ProfileService().loadProfile(getPrinterConfigWithArgs(parsedArgs).profile);
+  const stocks = listStocks(profile);
+  if (stocks.length === 0) {
+    console.log(`${profile.name} has no label stock catalogue (media.stocks)`);
+    return;
+  }
+  console.log(`Label Stocks for ${profile.name}:`);
+  for (const stock of stocks) {
+    const media = stockMedia(profile, stock);
+    const size = media.heightPx !== undefined ? `${media.widthPx}x${media.heightPx}` : `${media.widthPx} across`;
+    const marker = stock.id === profile.media.defaultStock ? " (default)" : "";
+    console.log(`  ${stock.id.padEnd(24)} - ${media.name}: ${media.type}, ${size} dots${marker}`);
+  }
+}
+
+/**
+ * Validates templates by name or path (all of templates/ when none is given),
+ * after resolving extends/partials, and prints each issue with its JSON
+ * pointer. Returns true if all are valid.
+ */
+async function validateTemplates(targets: string[]): Promise<boolean> {
+  const files = targets.length > 0
+    ? targets.map((target) => (target.endsWith(".json") ? target : path.join("templates", `${target}.json`)))
+    : readdirSync("templates").filter((file) => file.endsWith(".json")).map((file) => path.join("templates", file));
+  const templateService = new TemplateService();
+
+  let allValid = true;
+  for (const file of files) {
+    try {
+      await templateService.loadTemplateFromFile(file);
+      console.log(`✅ ${file}`);
+    } catch (error) {
+      // Validation errors already list one "  /pointer: message" line per issue
+      console.log(`❌ ${file}\n  ${(error as Error).message}`);
+      allValid = false;
+    }
+  }
+  return allValid;
+}
+
+/**
+ * Lists the counters or resets one. Returns false on bad usage or errors.
+ */
+async function manageCounters(args: string[]): Promise<boolean> {
+  const counterService = new CounterService();
+  const [command = "list", name, value] = args;
+
+  try {
+    if (command === "list") {
+      const counters = Object.entries(await counterService.list());
+      if (counters.length === 0) {
+        console.log(`No counters yet (${counterService.stateFile})`);
+        return true;
+      }
+      console.log(`Counters (${counterService.stateFile}):`);
+      for (const [counter, info] of counters) {
+        const reserved = info.reserved > 0 ? `, ${info.reserved} reserved by a running job` : "";
+        console.log(`  ${counter.padEnd(17)} - next ${info.next}${reserved}`);
+      }
+      return true;
+    }
+
+    if (command === "reset" && name) {
+      const next = value === undefined ? 1 : Number(value);
+      await counterService.reset(name, next);
+      console.log(`✅ Counter "${name}" reset, next label gets ${next}`);
+      return true;
+    }
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    return false;
+  }
+
+  console.error("Usage: npm run dev -- counters [list] | counters reset <name> [next]");
+  return false;
+}
+
+/**
+ * Lists the commands of a captured payload (optionally drawing its raster as
+ * ASCII or PNG), or diffs two payloads. Returns false on errors, bad usage
+ * or payloads that differ, like diff.
+ */
+async function inspectPayloads(args: string[]): Promise<boolean> {
+  const files: string[] = [];
+  const options = new Map<string, string>();
+  let ascii = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--ascii") {
+      ascii = true;
+    } else if (["--printer", "--other-printer", "--png"].includes(args[i]) && args[i + 1] !== undefined) {
+      options.set(args[i], args[++i]);
+    } else if (!args[i].startsWith("--")) {
+      files.push(args[i]);
+    } else {
+      files.length = 0;
+      break;
+    }
+  }
+  if (files.length < 1 || files.length > 2) {
+    console.error(
+      "Usage: npm run dev -- inspect <payload.bin> [--printer id] [--ascii] [--png file.png]\n" +
+        "       npm run dev -- inspect <before.bin> <after.bin> [--printer id] [--other-printer id]"
+    );
+    return false;
+  }
+
+  try {
+    const profileService = new ProfileService();
+    const profile = profileService.loadProfile(options.get("--printer") ?? process.env.PRINTER_PROFILE ?? "makeid-l1");
+    const payloads = await Promise.all(files.map((file) => readFile(file)));
+
+    if (payloads.length === 2) {
+      const otherProfile = options.has("--other-printer") ? profileService.loadProfile(options.get("--other-printer")!) : profile;
+      const diff = diffPayloads(payloads[0], payloads[1], profile, otherProfile);
+      console.log(`--- ${files[0]}\n+++ ${files[1]}`);
+      console.log(formatPayloadDiff(diff, profile, otherProfile));
+      return diff.identical;
+    }
+
+    const inspection = inspectPayload(payloads[0], profile);
+    console.log(formatInspection(inspection));
+    if (ascii && inspection.bitmap) {
+      console.log(`\n${bitmapToAscii(inspection.bitmap)}`);
+    }
+    const pngFile = options.get("--png");
+    if (pngFile && inspection.bitmap) {
+      await writeFile(pngFile, encodePng(inspection.bitmap));
+      console.log(`\n✅ Raster saved to ${pngFile}`);
+    }
+    return true;
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Runs a printer emulator on TCP until Ctrl+C, logging (and saving with
+ * --out-dir) every label it receives
+ */
+async function runEmulator(parsedArgs: ParsedArguments): Promise<void> {
+  const profileId = parsedArgs.printerConfig.profile ?? process.env.PRINTER_PROFILE ?? "makeid-l1";
+  const profile = new ProfileService().loadProfile(profileId);
+  const emulator = new PrinterEmulator(profile, {
+    outDir: parsedArgs.emulator?.outDir,
+    logger: new Logger(getDebugConfigWithArgs(parsedArgs)),
+  });
+  const { host, port } = await emulator.listen(parsedArgs.emulator?.port, parsedArgs.server?.host);
+  console.log(`🖨️ Emulating ${profile.name} on tcp://${host}:${port} (print with --port tcp://${host}:${port})`);
+
+  process.on("SIGINT", () => {
+    void emulator.close().finally(() => process.exit(0));
+  });
 }
 
 function showTemplateError(): void {
@@ -77,23 +350,48 @@ async function determineTemplateName(parsedArgs: any, args: string[]): Promise<s
   return templateName;
 }
 
-async function executeTemplate(jsonApp: any, parsedArgs: any, templateName: string): Promise<void> {
+/**
+ * Runs the selected mode; returns false when a batch had failed rows or was cancelled
+ */
+async function executeTemplate(
+  jsonApp: JsonPrinterApp,
+  parsedArgs: ParsedArguments,
+  templateName: string,
+  signal: AbortSignal
+): Promise<boolean> {
+  if (parsedArgs.batch) {
+    if (parsedArgs.output) {
+      console.error("❌ --output writes a single label, it cannot be used with --data");
+      return false;
+    }
+    // Batch mode: one label per data row (--render-only checks every row renders)
+    const batch = { ...parsedArgs.batch, variables: parsedArgs.variables, renderOnly: parsedArgs.renderOnly };
+    const report = parsedArgs.templateFile
+      ? await jsonApp.runBatchWithFile(parsedArgs.templateFile, batch, { signal })
+      : await jsonApp.runBatch(templateName, batch, { signal });
+    return report.failed === 0 && !report.aborted;
+  }
+
+  // --output also saves what was printed
+  const options = { signal, output: parsedArgs.output, scale: parsedArgs.scale };
+
   if (parsedArgs.renderOnly) {
     // Render-only mode: generate image without connecting to printer
     if (parsedArgs.templateFile) {
-      await jsonApp.renderFileOnly(parsedArgs.templateFile, parsedArgs.variables);
-      return;
+      await jsonApp.renderFileOnly(parsedArgs.templateFile, parsedArgs.variables, options);
+      return true;
     }
-    await jsonApp.renderOnly(templateName, parsedArgs.variables);
-    return;
+    await jsonApp.renderOnly(templateName, parsedArgs.variables, options);
+    return true;
   }
 
   // Normal mode: connect to printer and print
   if (parsedArgs.templateFile) {
-    await jsonApp.runWithFile(parsedArgs.templateFile, parsedArgs.variables);
-    return;
+    await jsonApp.runWithFile(parsedArgs.templateFile, parsedArgs.variables, options);
+    return true;
   }
-  await jsonApp.run(templateName, parsedArgs.variables);
+  await jsonApp.run(templateName, parsedArgs.variables, options);
+  return true;
 }
 
 // Legacy function for backwards compatibility
@@ -1,25 +1,74 @@
 import { Logger } from "./utils/logger.js";
-import { ImageProcessor } from "./utils/imageProcessor.js";
+import { ImageProcessor, createCanvasFontRegistry } from "./utils/imageProcessor.js";
 import { PrinterService } from "./services/printerService.js";
 import { TemplateService } from "./services/templateService.js";
-import { RenderTemplate, JsonRenderOptions } from "./types/index.js";
+import { CounterReservation, CounterService, templateCounters } from "./services/counterService.js";
+import { PrintCancelledError, PrintJob, PrintQueue, PrintQueueBackend } from "./services/printQueue.js";
+import { ProfileService } from "./services/profileService.js";
+import { PrintServer, PrintServerOptions, PrinterSummary } from "./services/printServer.js";
+import {
+  RenderTemplate,
+  JsonRenderOptions,
+  ImageDimensions,
+  PrinterProfile,
+  TemplateVariables,
+  PrinterConfig,
+  BatchOptions,
+  BatchReport,
+  LabelMedia,
+  LabelOutput,
+  LabelResult,
+  PrintResult,
+  RenderOnlyOptions,
+  RunOptions,
+} from "./types/index.js";
 import { TemplateLoader } from "./types/templateTypes.js";
 import {
-  IMAGE_DIMENSIONS,
-  getPrinterProtocol,
+  getImageDimensions,
   getPrinterConfigWithArgs,
   getDebugConfigWithArgs,
 } from "./utils/config.js";
 import { ParsedArguments } from "./utils/argumentParser.js";
+import { DataRow, loadDataFile, parseRowFilter, selectRows } from "./utils/batchData.js";
+import { planBanner } from "./utils/banner.js";
+import { resolveTemplateUnits } from "./utils/units.js";
+import { placeLabel, resolveMedia } from "./utils/labelMedia.js";
+import { labelQuarterTurns } from "./utils/transform.js";
+import { createBitmap, drawBitmap, encodePng, GrayImage, MonoBitmap, packBitmap } from "./utils/monoImage.js";
+import { checkOutputScale, encodeLabelOutput, labelOutputFormat } from "./utils/labelOutput.js";
+import { writeFile } from "fs/promises";
+
+/**
+ * A rendered label as produced by ImageProcessor.createImageFromJson, placed
+ * on its media, with the options it was rendered with (variables and
+ * counters included)
+ */
+type RenderedLabel = {
+  imageData: number[];
+  config: { width: number; height: number };
+  bitmap: MonoBitmap;
+  printed: MonoBitmap;
+  gray: GrayImage;
+  options: JsonRenderOptions;
+  media: LabelMedia;
+};
 
 /**
- * JSON-driven printer application
+ * JSON-driven printer application. Its calls resolve with results or reject
+ * with typed errors; they never exit the process nor handle its signals,
+ * which is left to the CLI (src/index.ts). Call close() when done printing.
  */
 export class JsonPrinterApp {
   private readonly logger: Logger;
   private readonly imageProcessor: ImageProcessor;
   private readonly printerService: PrinterService;
   private readonly templateService: TemplateService;
+  private readonly counterService: CounterService;
+  private readonly printerConfig: PrinterConfig;
+  private queue?: PrintQueue<RenderedLabel>;
+  private printerChecked = false;
+  private readonly profile: PrinterProfile;
+  private readonly imageDimensions: ImageDimensions;
   private readonly parsedArgs?: ParsedArguments;
 
   constructor(parsedArgs?: ParsedArguments) {
@@ -27,15 +76,32 @@ export class JsonPrinterApp {
     
     const debugConfig = getDebugConfigWithArgs(parsedArgs);
     const printerConfig = getPrinterConfigWithArgs(parsedArgs);
+    this.printerConfig = printerConfig;
 
     this.logger = new Logger(debugConfig);
-    this.imageProcessor = new ImageProcessor(IMAGE_DIMENSIONS, this.logger);
+    this.profile = new ProfileService().loadProfile(printerConfig.profile);
+    this.imageDimensions = getImageDimensions(this.profile);
+    this.logger.debug(
+      `Printer profile: ${this.profile.name} (${this.profile.id}) at ${this.imageDimensions.dpi} DPI`
+    );
+
+    this.imageProcessor = new ImageProcessor(
+      this.imageDimensions,
+      this.logger,
+      this.profile.raster,
+      createCanvasFontRegistry({
+        logger: this.logger,
+        strict: printerConfig.strictFonts,
+        dirs: printerConfig.fontDirs,
+      })
+    );
     this.printerService = new PrinterService(
       printerConfig,
-      getPrinterProtocol(IMAGE_DIMENSIONS),
+      this.profile,
       this.logger
     );
     this.templateService = new TemplateService();
+    this.counterService = new CounterService();
   }
 
   /**
@@ -43,8 +109,8 @@ export class JsonPrinterApp {
    */
   private async renderTemplate(
     template: RenderTemplate,
-    variables?: Record<string, string | number>
-  ) {
+    variables?: TemplateVariables
+  ): Promise<RenderedLabel> {
     this.logger.info(`🎨 Rendering template: ${template.name}`);
 
     if (template.description) {
@@ -55,11 +121,12 @@ export class JsonPrinterApp {
       this.logger.info(`📝 Variables: ${JSON.stringify(variables)}`);
     }
 
-    // Create render options
-    const options: JsonRenderOptions = {
-      template,
-      variables,
-    };
+    const media = this.mediaFor(template);
+    this.logger.debug(`Media: ${media.name} (${media.type}${media.stock ? `, stock ${media.stock}` : ""})`);
+    const options = this.renderOptions(template, variables, media);
+    if (options.banner) {
+      this.logger.info(`🎏 Banner: ${options.banner.lengthPx} dots long, ${options.banner.acrossPx} across`);
+    }
 
     // Generate image from template
     const imageData = await this.imageProcessor.createImageFromJson(options);
@@ -70,83 +137,535 @@ export class JsonPrinterApp {
       `✅ Generated ${imageData.imageData.length} bytes from ${template.elements.length} elements`
     );
 
-    return imageData;
+    return this.placeOnMedia({ ...imageData, options, media });
   }
 
-  private async handleConnection(
+  /**
+   * The media a template prints on: the configured stock (--stock,
+   * LABEL_STOCK), the template's, then the profile's default; banners
+   * default to continuous media (MediaError for unknown stocks)
+   */
+  private mediaFor(template: RenderTemplate): LabelMedia {
+    const stock = this.printerConfig.stock ?? template.stock;
+    return resolveMedia(
+      this.profile,
+      { stock, ...(!stock && template.banner && { type: "continuous" as const }) },
+      this.imageDimensions.dpi
+    );
+  }
+
+  /**
+   * Render options for a template on this printer: lengths in mm, in or
+   * dots are converted at the printer's DPI, a missing size is the media's
+   * printable area, and banner templates get their size checked against the
+   * profile and media (BannerError if they do not fit)
+   */
+  private renderOptions(
     template: RenderTemplate,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    try {
-      this.logger.info("🔌 Printer connected!");
+    variables?: TemplateVariables,
+    media: LabelMedia = this.mediaFor(template)
+  ): JsonRenderOptions {
+    const resolved = resolveTemplateUnits(template, this.imageDimensions.dpi);
+    if (resolved.banner) {
+      return {
+        template: resolved,
+        variables,
+        banner: planBanner(resolved, this.profile, {
+          maxLengthPx: this.printerConfig.maxBannerLength,
+          mediaType: media.type,
+        }),
+      };
+    }
 
-      // Get firmware version
-      const firmwareVersion = await this.printerService.getFirmwareVersion();
-      this.logger.info(`🔧 Printer firmware: ${firmwareVersion}`);
+    // Templates are drawn in reading orientation: 90 and 270 swap the printed sides
+    const sideways = labelQuarterTurns(resolved.orientation) % 2 === 1;
+    const { width, height } = media.printable;
+    const dimensions = {
+      width: resolved.dimensions?.width ?? (sideways ? height : width),
+      height: resolved.dimensions?.height ?? (sideways ? width : height),
+    };
+    return {
+      template: dimensions.width !== undefined || dimensions.height !== undefined
+        ? { ...resolved, dimensions }
+        : resolved,
+      variables,
+    };
+  }
 
-      // Render the template
-      const imageData = await this.renderTemplate(template, variables);
+  /**
+   * Puts a rendered label in its media's printable area, padding die-cut
+   * labels to the whole label so the gap sensor stays in step (MediaError if
+   * the label does not fit)
+   */
+  private placeOnMedia(label: RenderedLabel): RenderedLabel {
+    const { printed, media } = label;
+    const placement = placeLabel(media, printed.width, printed.height, `Template "${label.options.template.name}"`);
+    if (placement.width === printed.width && placement.height === printed.height) {
+      return label;
+    }
+
+    this.logger.debug(
+      `Placed ${printed.width}x${printed.height} dots at ${placement.x},${placement.y} on ${placement.width}x${placement.height} (${media.name})`
+    );
+    const placed = createBitmap(placement.width, placement.height);
+    drawBitmap(placed, printed, placement.x, placement.y);
+    return {
+      ...label,
+      imageData: packBitmap(placed, this.profile.raster),
+      config: { ...label.config, width: placed.width, height: placed.height },
+      printed: placed,
+    };
+  }
 
-      // Send to printer
-      await this.printerService.sendImageData(imageData.imageData, {
-        ...IMAGE_DIMENSIONS,
-        width: imageData.config.width,
+  /**
+   * The app's print queue (created on first use): jobs print one at a time
+   * on this printer connection, retrying transient serial errors
+   */
+  getQueue(): PrintQueue<RenderedLabel> {
+    if (!this.queue) {
+      this.queue = new PrintQueue(this.createQueueBackend(), { device: this.printerConfig.portPath });
+      this.queue.on("job", (job: PrintJob) => {
+        if (job.error) {
+          this.logger.info(`🧾 Job ${job.id.slice(0, 8)}: ${job.state} (${job.error})`);
+        } else {
+          this.logger.debug(`Job ${job.id.slice(0, 8)}: ${job.state} (${job.copiesPrinted}/${job.copies} printed)`);
+        }
       });
+    }
+    return this.queue;
+  }
 
-      this.logger.info("📤 Image data sent successfully");
+  /**
+   * Queues a template (name, path to a .json file or template object)
+   */
+  async enqueue(
+    template: string | RenderTemplate | object,
+    options: { variables?: TemplateVariables; copies?: number } = {}
+  ): Promise<PrintJob> {
+    const resolved = typeof template !== "string"
+      ? await this.templateService.resolveTemplate(template)
+      : template.endsWith(".json")
+        ? await this.templateService.loadTemplateFromFile(template)
+        : await this.templateService.loadTemplate(template);
+    return this.getQueue().enqueue({ template: resolved, ...options });
+  }
+
+  /**
+   * Starts the local HTTP print server (loopback only unless options.host
+   * says otherwise); its print jobs share this app's queue
+   */
+  async serve(options: PrintServerOptions = {}): Promise<PrintServer<RenderedLabel>> {
+    const server = new PrintServer(
+      {
+        templateService: this.templateService,
+        queue: this.getQueue(),
+        preview: async (template, variables) =>
+          this.imageProcessor.renderPreview(
+            this.renderOptions(template, { ...variables, ...(await this.previewCounters(template)) })
+          ),
+        printers: () => this.printerSummaries(),
+        logger: this.logger,
+      },
+      options
+    );
 
-      // Wait for completion
-      await this.printerService.waitForCompletion();
+    const { host, port } = await server.listen();
+    this.logger.info(`🌐 Print server listening on http://${host.includes(":") ? `[${host}]` : host}:${port}`);
+    return server;
+  }
 
-      this.logger.info("🎉 Print job completed!");
-      this.logger.info("📋 Check your printer output");
+  /**
+   * Bundled printer profiles, marking the one this app prints with
+   */
+  private printerSummaries(): PrinterSummary[] {
+    const profileService = new ProfileService();
+    return profileService.listProfiles().map((id) => {
+      const profile = profileService.loadProfile(id);
+      const active = profile.id === this.profile.id;
+      return {
+        id,
+        name: profile.name,
+        dpi: profile.dpi,
+        maxWidthPx: profile.limits.maxWidthPx,
+        active,
+        ...(active && { device: this.printerConfig.portPath }),
+      };
+    });
+  }
+
+  /**
+   * Renders once per job (reserving its counter numbers) and sends each
+   * copy; copies are identical labels, so they share the numbers
+   */
+  private createQueueBackend(): PrintQueueBackend<RenderedLabel> {
+    const reservations = new Map<string, CounterReservation>();
+
+    return {
+      render: async (job) => {
+        // Counter numbers are reserved now and only used up once a copy is sent
+        const reservation = await this.reserveCounters(job.template, 1);
+        if (reservation) {
+          reservations.set(job.id, reservation);
+        }
+        return this.renderTemplate(job.template, {
+          ...job.variables,
+          ...(reservation && this.counterService.valuesFor(reservation, 0)),
+        });
+      },
+      send: async (job, label) => {
+        await this.printerService.open();
+        if (!this.printerChecked) {
+          await this.checkPrinter();
+          this.printerChecked = true;
+        }
+        const reservation = reservations.get(job.id);
+        await this.sendLabel(label, reservation && (() => this.counterService.commit(reservation, 1)));
+      },
+      finish: async (job) => {
+        await this.releaseCounters(reservations.get(job.id));
+        reservations.delete(job.id);
+      },
+    };
+  }
+
+  /**
+   * Checks a just-opened printer answers and can print (PrinterNotReadyError if not)
+   */
+  private async checkPrinter(): Promise<void> {
+    this.logger.info(`🔌 Printer connected! (${this.printerService.device})`);
+    const status = await this.printerService.checkReady();
+    this.logger.info(`🔧 Printer firmware: ${status.firmware ?? "unknown"}`);
+  }
+
+  /**
+   * Sends one rendered label and waits for the printer to finish it.
+   * onSent runs as soon as the printer accepted the data.
+   */
+  private async sendLabel(
+    rendered: RenderedLabel,
+    onSent?: () => Promise<void>
+  ): Promise<void> {
+    await this.printerService.sendImageData(rendered.imageData, this.labelDimensions(rendered), rendered.media);
+
+    this.logger.info("📤 Image data sent successfully");
+    await onSent?.();
+
+    await this.printerService.waitForCompletion();
+  }
+
+  /**
+   * Dimensions PrinterService expects for a rendered label (height in 8-dot bytes)
+   */
+  private labelDimensions(label: RenderedLabel): ImageDimensions {
+    return { ...this.imageDimensions, width: label.config.width, height: Math.ceil(label.config.height / 8) };
+  }
+
+  /**
+   * What a print or render call resolves with: the PNG, the raster and the
+   * exact payload of one copy
+   */
+  private labelResult(label: RenderedLabel, startedAt: number): LabelResult {
+    const { width, height } = label.config;
+    const payload = this.printerService.buildPayload(label.imageData, this.labelDimensions(label), label.media);
+    return {
+      png: encodePng(label.bitmap),
+      raster: {
+        widthPx: width,
+        heightPx: height,
+        lineBytes: this.profile.raster.orientation === "column-major" ? Math.ceil(height / 8) : Math.ceil(width / 8),
+        data: Buffer.from(label.imageData),
+      },
+      payload,
+      bytes: payload.length,
+      media: label.media,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Rejects an output file or scale before anything is rendered or printed
+   */
+  private checkOutput(options: RenderOnlyOptions): void {
+    if (options.output) {
+      labelOutputFormat(options.output);
+    }
+    checkOutputScale(options.scale);
+  }
+
+  /**
+   * Writes a rendered label to options.output, in the format its extension
+   * names (LabelOutputError for other files)
+   */
+  private async writeOutput(label: RenderedLabel, payload: Buffer, options: RenderOnlyOptions): Promise<LabelOutput | undefined> {
+    if (!options.output) {
+      return undefined;
+    }
+    const format = labelOutputFormat(options.output);
+    const scale = checkOutputScale(options.scale);
+    const data = encodeLabelOutput(format, {
+      gray: label.gray,
+      printed: label.printed,
+      payload,
+      svg: (factor) => this.imageProcessor.renderSvg(label.options, factor),
+    }, scale);
+    await writeFile(options.output, data);
+    this.logger.info(`🖼️ ${format.toUpperCase()} saved to ${options.output}${scale > 1 && format !== "bin" ? ` (${scale}x)` : ""}`);
+    return { file: options.output, format, bytes: data.length };
+  }
+
+  /**
+   * Stops a call whose AbortSignal fired
+   */
+  private checkAborted(signal: AbortSignal | undefined, what: string): void {
+    if (signal?.aborted) {
+      throw new PrintCancelledError(`${what} was cancelled`);
+    }
+  }
+
+  /**
+   * Reserves count numbers of every counter the template uses (none: undefined)
+   */
+  private async reserveCounters(template: RenderTemplate, count: number): Promise<CounterReservation | undefined> {
+    const counters = templateCounters(template);
+    if (counters.length === 0) {
+      return undefined;
+    }
+    const reservation = await this.counterService.reserve(counters, count);
+    this.logger.info(
+      `🔢 Reserved ${Object.entries(reservation.start).map(([name, start]) =>
+        count > 1 ? `${name} ${start}-${start + count - 1}` : `${name} ${start}`).join(", ")}`
+    );
+    return reservation;
+  }
 
-      process.exit(0);
+  /**
+   * Returns the unused numbers; a failure here only leaves a gap, so it is logged
+   */
+  private async releaseCounters(reservation?: CounterReservation): Promise<void> {
+    if (!reservation) {
+      return;
+    }
+    try {
+      await this.counterService.release(reservation);
     } catch (error) {
-      this.logger.error(
-        "❌ Error during JSON template printing",
-        error as Error
-      );
-      process.exit(1);
+      this.logger.error("❌ Could not release the counter reservation", error as Error);
     }
   }
 
   /**
-   * Generic method to execute operations with template
+   * Counter values for previews: what the next labels would get, nothing reserved
    */
-  private async executeWithTemplate(
-    getTemplate: TemplateLoader,
-    variables?: Record<string, string | number>,
-    renderOnly: boolean = false
+  private async previewCounters(template: RenderTemplate, index = 0): Promise<TemplateVariables> {
+    const next = await this.counterService.peek(templateCounters(template));
+    return Object.fromEntries(Object.entries(next).map(([name, value]) => [name, (value as number) + index]));
+  }
+
+  /**
+   * Prints every selected row over the one printer connection. A row that
+   * fails to render is reported and skipped; a printer error or the abort
+   * signal stops the batch, and the report says which row to resume from.
+   */
+  private async handleBatchConnection(
+    template: RenderTemplate,
+    rows: DataRow[],
+    report: BatchReport,
+    batch: BatchOptions,
+    signal?: AbortSignal
   ): Promise<void> {
+    let current = rows[0];
+    let reservation: CounterReservation | undefined;
+    try {
+      await this.printerService.open();
+      await this.checkPrinter();
+
+      // One block for the whole batch; numbers follow the labels actually printed
+      reservation = await this.reserveCounters(template, rows.length);
+      let printed = 0;
+
+      for (const [index, row] of rows.entries()) {
+        current = row;
+        if (signal?.aborted) {
+          report.aborted = true;
+          report.resumeRow = row.row;
+          break;
+        }
+        let imageData;
+        try {
+          imageData = await this.renderTemplate(template, {
+            ...batch.variables,
+            ...row.variables,
+            ...(reservation && this.counterService.valuesFor(reservation, printed)),
+          });
+        } catch (error) {
+          this.recordBatchFailure(report, row, error as Error);
+          continue;
+        }
+
+        await this.sendLabel(imageData, reservation && (() => this.counterService.commit(reservation!, printed + 1)));
+        printed++;
+        report.results.push({ row: row.row, status: "printed" });
+        this.logger.info(`🏷️ Row ${row.row}: printed (${index + 1}/${rows.length})`);
+      }
+    } catch (error) {
+      this.recordBatchFailure(report, current, error as Error);
+      report.resumeRow = current.row;
+    }
+
+    await this.releaseCounters(reservation);
+  }
+
+  /**
+   * Render-only batch: checks every row renders, without a printer
+   */
+  private async renderBatch(
+    template: RenderTemplate,
+    rows: DataRow[],
+    report: BatchReport,
+    batch: BatchOptions,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let rendered = 0;
+    for (const [index, row] of rows.entries()) {
+      if (signal?.aborted) {
+        report.aborted = true;
+        report.resumeRow = row.row;
+        break;
+      }
+      try {
+        await this.renderTemplate(template, {
+          ...batch.variables,
+          ...row.variables,
+          ...(await this.previewCounters(template, rendered)),
+        });
+        rendered++;
+        report.results.push({ row: row.row, status: "rendered" });
+        this.logger.info(`🖼️ Row ${row.row}: rendered (${index + 1}/${rows.length})`);
+      } catch (error) {
+        this.recordBatchFailure(report, row, error as Error);
+      }
+    }
+  }
+
+  private recordBatchFailure(report: BatchReport, row: DataRow, error: Error): void {
+    report.results.push({ row: row.row, status: "failed", error: error.message });
+    this.logger.error(`❌ Row ${row.row}: ${error.message}`, error);
+  }
+
+  /**
+   * Logs the summary, writes the report file and closes the printer
+   */
+  private async finishBatch(report: BatchReport, batch: BatchOptions): Promise<void> {
+    report.results.sort((a, b) => a.row - b.row);
+    const count = (...statuses: string[]) =>
+      report.results.filter((result) => statuses.includes(result.status)).length;
+    report.printed = count("printed", "rendered");
+    report.failed = count("failed");
+    report.filtered = count("filtered");
+
+    this.logger.info(
+      `📊 Batch finished: ${report.printed} ${batch.renderOnly ? "rendered" : "printed"}, `
+      + `${report.failed} failed, ${report.filtered} filtered out`
+    );
+    if (report.resumeRow !== undefined) {
+      this.logger.info(`⏯️ ${report.aborted ? "Batch cancelled" : "Printer error"}, resume with --start-row ${report.resumeRow}`);
+    }
+
+    if (batch.report) {
+      await writeFile(batch.report, JSON.stringify(report, null, 2));
+      this.logger.info(`📝 Report written to ${batch.report}`);
+    }
+
+    await this.printerService.close();
+    this.printerChecked = false;
+  }
+
+  /**
+   * Loads the data file, selects the rows and prints (or renders) them
+   */
+  private async executeBatch(getTemplate: TemplateLoader, batch: BatchOptions, signal?: AbortSignal): Promise<BatchReport> {
     try {
       const template = await getTemplate();
-      
-      if (renderOnly) {
-        await this.performRenderOnly(template, variables);
+      const { rows, filtered } = selectRows(await loadDataFile(batch.data), {
+        map: batch.map,
+        where: (batch.where ?? []).map(parseRowFilter),
+        startRow: batch.startRow,
+      });
+
+      this.logger.info(
+        `📚 Batch: ${rows.length} label(s) from ${batch.data}`
+        + (filtered.length > 0 ? `, ${filtered.length} filtered out` : "")
+      );
+
+      const report: BatchReport = {
+        template: template.name,
+        data: batch.data,
+        results: filtered.map((row) => ({ row: row.row, status: "filtered" })),
+        printed: 0,
+        failed: 0,
+        filtered: 0,
+      };
+
+      if (batch.renderOnly || rows.length === 0) {
+        await this.renderBatch(template, rows, report, batch, signal);
       } else {
-        await this.performPrint(template, variables);
+        await this.handleBatchConnection(template, rows, report, batch, signal);
       }
+      await this.finishBatch(report, batch);
+      return report;
     } catch (error) {
-      this.logger.error(
-        `❌ Failed to ${renderOnly ? 'render' : 'print'} template`,
-        error as Error
-      );
-      process.exit(1);
+      this.logger.error("❌ Failed to start batch", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads the template and runs the print or render step on it, logging
+   * what went wrong before passing the error on
+   */
+  private async executeWithTemplate<T>(
+    getTemplate: TemplateLoader,
+    action: "print" | "render",
+    perform: (template: RenderTemplate) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await perform(await getTemplate());
+    } catch (error) {
+      if (error instanceof PrintCancelledError) {
+        this.logger.info(`⏹️ ${error.message}`);
+      } else {
+        this.logger.error(`❌ Failed to ${action} template`, error as Error);
+      }
+      throw error;
     }
   }
 
   /**
-   * Perform print operation with printer connection
+   * Perform print operation as a job on the print queue
    */
   private async performPrint(
     template: RenderTemplate,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    this.printerService.onOpen(() =>
-      this.handleConnection(template, variables)
-    );
-    this.setupProcessHandlers();
+    variables: TemplateVariables | undefined,
+    options: RunOptions
+  ): Promise<PrintResult> {
+    const startedAt = Date.now();
+    const { signal } = options;
+    this.checkAborted(signal, `Printing "${template.name}"`);
+    this.checkOutput(options);
+
+    const queue = this.getQueue();
+    const { id } = queue.enqueue({ template, variables, copies: options.copies ?? this.parsedArgs?.copies });
+    const cancel = () => queue.cancel(id);
+    signal?.addEventListener("abort", cancel, { once: true });
+    try {
+      const { job, label } = await queue.settle(id);
+      this.logger.info(`🎉 Print job completed!${job.copies > 1 ? ` (${job.copies} copies)` : ""}`);
+      this.logger.info("📋 Check your printer output");
+      const result = this.labelResult(label, startedAt);
+      result.output = await this.writeOutput(label, result.payload, options);
+      return { ...result, jobId: job.id, device: job.device, copies: job.copies };
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+    }
   }
 
   /**
@@ -154,48 +673,57 @@ export class JsonPrinterApp {
    */
   private async performRenderOnly(
     template: RenderTemplate,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
+    variables: TemplateVariables | undefined,
+    options: RenderOnlyOptions
+  ): Promise<LabelResult> {
+    const startedAt = Date.now();
+    const { signal } = options;
+    this.checkAborted(signal, `Rendering "${template.name}"`);
+    this.checkOutput(options);
     this.logger.info(`🎨 Rendering template: ${template.name} (render-only mode)`);
     
-    await this.renderTemplate(template, variables);
+    const label = await this.renderTemplate(template, { ...variables, ...(await this.previewCounters(template)) });
+    this.checkAborted(signal, `Rendering "${template.name}"`);
     
-    this.logger.info("🖼️ Image saved to debug-render.png");
+    const result = this.labelResult(label, startedAt);
+    result.output = await this.writeOutput(label, result.payload, options);
     this.logger.info("🎉 Render completed!");
-    
-    process.exit(0);
+    return result;
   }
 
   async run(
     templateName: string,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    await this.executeWithTemplate(
+    variables?: TemplateVariables,
+    options: RunOptions = {}
+  ): Promise<PrintResult> {
+    return this.executeWithTemplate(
       () => this.templateService.loadTemplate(templateName),
-      variables,
-      false
+      "print",
+      (template) => this.performPrint(template, variables, options)
     );
   }
 
   async runWithFile(
     templateFilePath: string,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    await this.executeWithTemplate(
+    variables?: TemplateVariables,
+    options: RunOptions = {}
+  ): Promise<PrintResult> {
+    return this.executeWithTemplate(
       () => this.templateService.loadTemplateFromFile(templateFilePath),
-      variables,
-      false
+      "print",
+      (template) => this.performPrint(template, variables, options)
     );
   }
 
   async runWithTemplate(
     template: RenderTemplate | object,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    await this.executeWithTemplate(
-      () => Promise.resolve(this.templateService.validateTemplate(template)),
-      variables,
-      false
+    variables?: TemplateVariables,
+    options: RunOptions = {}
+  ): Promise<PrintResult> {
+    return this.executeWithTemplate(
+      () => this.templateService.resolveTemplate(template),
+      "print",
+      (resolved) => this.performPrint(resolved, variables, options)
     );
   }
 
@@ -204,12 +732,13 @@ export class JsonPrinterApp {
    */
   async renderOnly(
     templateName: string,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    await this.executeWithTemplate(
+    variables?: TemplateVariables,
+    options: RenderOnlyOptions = {}
+  ): Promise<LabelResult> {
+    return this.executeWithTemplate(
       () => this.templateService.loadTemplate(templateName),
-      variables,
-      true
+      "render",
+      (template) => this.performRenderOnly(template, variables, options)
     );
   }
 
@@ -218,26 +747,52 @@ export class JsonPrinterApp {
    */
   async renderFileOnly(
     templateFilePath: string,
-    variables?: Record<string, string | number>
-  ): Promise<void> {
-    await this.executeWithTemplate(
+    variables?: TemplateVariables,
+    options: RenderOnlyOptions = {}
+  ): Promise<LabelResult> {
+    return this.executeWithTemplate(
       () => this.templateService.loadTemplateFromFile(templateFilePath),
-      variables,
-      true
+      "render",
+      (template) => this.performRenderOnly(template, variables, options)
     );
   }
 
-  private setupProcessHandlers(): void {
-    process.on("SIGINT", () => {
-      this.logger.info("Received SIGINT, closing printer connection");
-      this.printerService.close();
-      process.exit(0);
-    });
+  /**
+   * Render a template object to image only (no printer connection)
+   */
+  async renderWithTemplate(
+    template: RenderTemplate | object,
+    variables?: TemplateVariables,
+    options: RenderOnlyOptions = {}
+  ): Promise<LabelResult> {
+    return this.executeWithTemplate(
+      () => this.templateService.resolveTemplate(template),
+      "render",
+      (resolved) => this.performRenderOnly(resolved, variables, options)
+    );
+  }
 
-    process.on("SIGTERM", () => {
-      this.logger.info("Received SIGTERM, closing printer connection");
-      this.printerService.close();
-      process.exit(0);
-    });
+  /**
+   * Print one label per row of a CSV / JSON Lines file with a built-in template
+   */
+  async runBatch(templateName: string, batch: BatchOptions, options: Pick<RunOptions, "signal"> = {}): Promise<BatchReport> {
+    return this.executeBatch(() => this.templateService.loadTemplate(templateName), batch, options.signal);
+  }
+
+  /**
+   * Print one label per row of a CSV / JSON Lines file with a template file
+   */
+  async runBatchWithFile(templateFilePath: string, batch: BatchOptions, options: Pick<RunOptions, "signal"> = {}): Promise<BatchReport> {
+    return this.executeBatch(() => this.templateService.loadTemplateFromFile(templateFilePath), batch, options.signal);
+  }
+
+  /**
+   * Closes the printer connection once the queued jobs are done. The app
+   * keeps it open between calls; close it when done printing.
+   */
+  async close(): Promise<void> {
+    await this.queue?.idle();
+    await this.printerService.close();
+    this.printerChecked = false;
   }
 }
@@ -2,31 +2,226 @@
 export { JsonPrinterApp } from './jsonPrinterApp.js';
 
 // Export core services  
-export { PrinterService } from './services/printerService.js';
+export {
+  PrinterService,
+  PrinterError,
+  PrinterTimeoutError,
+  PrinterNotReadyError,
+  PrinterPayloadError,
+} from './services/printerService.js';
+export type { PrinterStatus, PrinterErrorReason } from './services/printerService.js';
+export {
+  createTransport,
+  parseDeviceUri,
+  SerialTransport,
+  DeviceFileTransport,
+  TcpRawTransport,
+  MemoryTransport,
+  EmulatorTransport,
+  TransportError,
+  DEFAULT_RAW_TCP_PORT,
+} from './services/printerTransport.js';
+export type {
+  PrinterTransport,
+  TransportKind,
+  TransportOptions,
+  DeviceAddress,
+} from './services/printerTransport.js';
+export { PrinterEmulator, EmulatorSession } from './services/printerEmulator.js';
+export type { EmulatedLabel, PrinterEmulatorOptions } from './services/printerEmulator.js';
+export { ProfileService } from './services/profileService.js';
+export { TemplateService, TemplateCompositionError } from './services/templateService.js';
+export {
+  CounterService,
+  CounterError,
+  templateCounters,
+  DEFAULT_COUNTERS_FILE,
+} from './services/counterService.js';
+export type { CounterInfo, CounterReservation, CounterServiceOptions } from './services/counterService.js';
+export { PrintQueue, PrintQueueError, PrintCancelledError, isTransientPrinterError } from './services/printQueue.js';
+export {
+  PrintServer,
+  PrintServerError,
+  DEFAULT_SERVER_HOST,
+  DEFAULT_SERVER_PORT,
+} from './services/printServer.js';
+export type { PrintServerDependencies, PrintServerOptions, PrinterSummary } from './services/printServer.js';
+export type {
+  PrintJob,
+  PrintJobRequest,
+  PrintJobState,
+  PrintQueueBackend,
+  PrintQueueOptions,
+} from './services/printQueue.js';
 
 // Export types
 export * from './types/index.js';
 
 // Export utilities
 export { Logger } from './utils/logger.js';
-export { ImageProcessor } from './utils/imageProcessor.js';
+export { ImageProcessor, createCanvasFontRegistry } from './utils/imageProcessor.js';
+export { ImageLoadError } from './utils/imageSource.js';
+export {
+  interpolate,
+  referencedVariables,
+  TemplateExpressionError,
+  TEMPLATE_FILTERS,
+  COUNTER_PREFIX,
+} from './utils/templateExpression.js';
+export {
+  validateTemplate,
+  formatSchemaIssues,
+  loadTemplateSchema,
+  TemplateValidationError,
+  TEMPLATE_SCHEMA_PATH,
+} from './utils/templateValidator.js';
+export type { TemplateValidationResult } from './utils/templateValidator.js';
+export type { SchemaIssue, JsonSchema } from './utils/jsonSchema.js';
+export {
+  loadDataFile,
+  parseCsv,
+  parseJsonLines,
+  parseColumnMapping,
+  parseRowFilter,
+  selectRows,
+  BatchDataError,
+} from './utils/batchData.js';
+export type { DataRow, RowFilter, RowSelection } from './utils/batchData.js';
+export { decodePayload, rasterToBitmap, payloadBitmap } from './utils/payloadDecoder.js';
+export type { DecodedRaster, DecodeOptions, HeightUnit, PayloadCommand, PayloadDecoding } from './utils/payloadDecoder.js';
+export {
+  inspectPayload,
+  describeCommand,
+  formatInspection,
+  bitmapToAscii,
+  diffPayloads,
+  formatPayloadDiff,
+} from './utils/payloadInspector.js';
+export type { PayloadInspection, PayloadDiff, CommandDiff, CommandChange } from './utils/payloadInspector.js';
+export {
+  createBitmap,
+  countInk,
+  drawBitmap,
+  rotateBitmap,
+  scaleImage,
+  packBitmap,
+  encodePng,
+  encodeGrayPng,
+  encodePbm,
+  encodePgm,
+} from './utils/monoImage.js';
+export type { MonoBitmap, GrayImage } from './utils/monoImage.js';
+export {
+  labelOutputFormat,
+  checkOutputScale,
+  encodeLabelOutput,
+  LabelOutputError,
+  MAX_OUTPUT_SCALE,
+} from './utils/labelOutput.js';
+export type { LabelOutputSource } from './utils/labelOutput.js';
+export { renderSvgLabel } from './utils/svgLabel.js';
+export type { SvgLabelOptions, SvgImage, MeasureFontText } from './utils/svgLabel.js';
+export { planBanner, BannerError, DEFAULT_BANNER_MAX_LENGTH_PX } from './utils/banner.js';
+export type { BannerOptions } from './utils/banner.js';
+export {
+  rotatePoint,
+  rotatedBounds,
+  exceedsLabel,
+  distanceToEdge,
+  elementTurn,
+  labelQuarterTurns,
+} from './utils/transform.js';
+export type { Rect, ElementTurn } from './utils/transform.js';
+export {
+  resolveTemplateUnits,
+  parseLength,
+  lengthToDots,
+  addLengths,
+  withExplicitUnits,
+  mapTemplateLengths,
+  mapElementLengths,
+  plainUnit,
+  UnitsError,
+  LENGTH_UNITS,
+  REFERENCE_DPI,
+} from './utils/units.js';
+export type { LengthKind, LengthConverter } from './utils/units.js';
+export {
+  resolveMedia,
+  stockMedia,
+  findStock,
+  listStocks,
+  placeLabel,
+  MediaError,
+} from './utils/labelMedia.js';
+export type { MediaSelection, LabelPlacement } from './utils/labelMedia.js';
+export {
+  FontRegistry,
+  FontError,
+  readFontInfo,
+  elementFont,
+  fontWeight,
+  cssFont,
+  DEFAULT_FONT_FAMILY,
+  FONTS_DIR,
+  FONT_MANIFEST,
+} from './utils/fontRegistry.js';
+export type {
+  FontInfo,
+  FontFace,
+  FontRequest,
+  ResolvedFont,
+  RegisterFontFile,
+  FontRegistryOptions,
+} from './utils/fontRegistry.js';
+export {
+  findBitmapFont,
+  bitmapScale,
+  bitmapGlyph,
+  measureBitmapText,
+  bitmapTextRects,
+  BITMAP_FONT_NAMES,
+} from './utils/bitmapFont.js';
+export type { BitmapFont, BitmapTextBaseline } from './utils/bitmapFont.js';
 export { ArgumentParser } from './utils/argumentParser.js';
 export * from './utils/config.js';
 export * from './utils/dpiPresets.js';
 
-// Convenience functions for easier usage
+// Convenience functions for easier usage: each one opens the printer, does
+// its job and closes it again; none of them exits the process
 import { JsonPrinterApp } from './jsonPrinterApp.js';
-import { RenderTemplate } from './types/index.js';
+import {
+  BatchOptions,
+  BatchReport,
+  LabelResult,
+  PrintResult,
+  RenderTemplate,
+  RenderOnlyOptions,
+  RunOptions,
+  TemplateVariables,
+} from './types/index.js';
+
+/**
+ * Runs one call on a fresh app and closes its printer connection afterwards
+ */
+async function withApp<T>(call: (app: JsonPrinterApp) => Promise<T>): Promise<T> {
+  const app = new JsonPrinterApp();
+  try {
+    return await call(app);
+  } finally {
+    await app.close();
+  }
+}
 
 /**
  * Print using a built-in template by name
  */
 export async function printTemplate(
   templateName: string,
-  variables?: Record<string, string | number>
-): Promise<void> {
-  const app = new JsonPrinterApp();
-  return app.run(templateName, variables);
+  variables?: TemplateVariables,
+  options?: RunOptions
+): Promise<PrintResult> {
+  return withApp((app) => app.run(templateName, variables, options));
 }
 
 /**
@@ -34,10 +229,10 @@ export async function printTemplate(
  */
 export async function printFromFile(
   templateFilePath: string,
-  variables?: Record<string, string | number>
-): Promise<void> {
-  const app = new JsonPrinterApp();
-  return app.runWithFile(templateFilePath, variables);
+  variables?: TemplateVariables,
+  options?: RunOptions
+): Promise<PrintResult> {
+  return withApp((app) => app.runWithFile(templateFilePath, variables, options));
 }
 
 /**
@@ -45,8 +240,30 @@ export async function printFromFile(
  */
 export async function printFromTemplate(
   template: RenderTemplate | object,
-  variables?: Record<string, string | number>
-): Promise<void> {
-  const app = new JsonPrinterApp();
-  return app.runWithTemplate(template, variables);
+  variables?: TemplateVariables,
+  options?: RunOptions
+): Promise<PrintResult> {
+  return withApp((app) => app.runWithTemplate(template, variables, options));
+}
+
+/**
+ * Render a JSON template object without a printer
+ */
+export async function renderFromTemplate(
+  template: RenderTemplate | object,
+  variables?: TemplateVariables,
+  options?: RenderOnlyOptions
+): Promise<LabelResult> {
+  return withApp((app) => app.renderWithTemplate(template, variables, options));
+}
+
+/**
+ * Print one label per row of a CSV / JSON Lines file with a built-in template
+ */
+export async function printBatch(
+  templateName: string,
+  batch: BatchOptions,
+  options?: Pick<RunOptions, 'signal'>
+): Promise<BatchReport> {
+  return withApp((app) => app.runBatch(templateName, batch, options));
 }
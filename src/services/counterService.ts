@@ -0,0 +1,326 @@
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import { RenderTemplate, TemplateVariables } from "../types/index.js";
+import { COUNTER_PREFIX, referencedVariables } from "../utils/templateExpression.js";
+
+/**
+ * State file used when neither the constructor nor COUNTERS_FILE names one
+ */
+export const DEFAULT_COUNTERS_FILE = ".label-counters.json";
+
+/**
+ * A lock older than this belongs to a crashed run and is taken over
+ */
+const STALE_LOCK_MS = 30_000;
+
+const COUNTER_NAME = /^[A-Za-z_][\w-]*$/;
+
+export interface CounterInfo {
+  /** next number a new reservation starts at */
+  next: number;
+  /** numbers held by running jobs that have not been printed yet */
+  reserved: number;
+  updatedAt?: string;
+}
+
+/**
+ * A block of numbers set aside for one job: label i of the job gets
+ * start + i for every counter
+ */
+export interface CounterReservation {
+  id: string;
+  /** counter name -> first reserved number */
+  start: Record<string, number>;
+  count: number;
+}
+
+interface ReservationRecord extends CounterReservation {
+  pid: number;
+  createdAt: string;
+}
+
+interface CounterFile {
+  counters: Record<string, { next: number; updatedAt?: string }>;
+  reservations: ReservationRecord[];
+}
+
+export interface CounterServiceOptions {
+  /** how long to wait for another run to release the state file */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Raised for unknown or invalid counters, live reservations on reset and
+ * lock timeouts
+ */
+export class CounterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CounterError";
+  }
+}
+
+const isAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Names of the counters a template uses ({{counter:asset}} -> "asset")
+ */
+export function templateCounters(template: RenderTemplate): string[] {
+  const names = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      for (const name of referencedVariables(value)) {
+        if (name.startsWith(COUNTER_PREFIX)) names.add(name.slice(COUNTER_PREFIX.length));
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value !== null && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template.elements);
+  return [...names];
+}
+
+/**
+ * Persistent auto-incrementing counters, kept in a JSON state file.
+ *
+ * Numbers are handed out in two steps so that a failed print does not use
+ * one up: reserve() sets a block aside for the job, commit() advances the
+ * counter once labels were actually sent, and release() returns whatever
+ * was not used. Every change happens under a lock file, and a reservation
+ * keeps its numbers away from concurrent runs until it is released (or its
+ * process is gone), so two runs never print the same number.
+ */
+export class CounterService {
+  private readonly file: string;
+  private readonly lockTimeoutMs: number;
+
+  constructor(
+    file: string = process.env.COUNTERS_FILE ?? DEFAULT_COUNTERS_FILE,
+    options: CounterServiceOptions = {}
+  ) {
+    this.file = file;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+  }
+
+  get stateFile(): string {
+    return this.file;
+  }
+
+  /**
+   * Every counter with its next number and how many are reserved
+   */
+  async list(): Promise<Record<string, CounterInfo>> {
+    const state = await this.read();
+    const names = new Set([
+      ...Object.keys(state.counters),
+      ...state.reservations.flatMap((record) => Object.keys(record.start)),
+    ]);
+    return Object.fromEntries(
+      [...names].sort().map((name) => [
+        name,
+        {
+          next: this.firstFree(state, name),
+          reserved: this.reserved(state, name),
+          updatedAt: state.counters[name]?.updatedAt,
+        },
+      ])
+    );
+  }
+
+  /**
+   * The values the next label would get, without reserving them (previews)
+   */
+  async peek(names: string[]): Promise<TemplateVariables> {
+    names.forEach((name) => this.checkName(name));
+    const state = await this.read();
+    return Object.fromEntries(names.map((name) => [COUNTER_PREFIX + name, this.firstFree(state, name)]));
+  }
+
+  /**
+   * Sets aside count consecutive numbers of each counter for one job.
+   * Counters that do not exist yet start at 1.
+   */
+  async reserve(names: string[], count = 1): Promise<CounterReservation> {
+    names.forEach((name) => this.checkName(name));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new CounterError(`Reservation size must be a positive integer, got ${count}`);
+    }
+
+    return this.update((state) => {
+      const reservation: ReservationRecord = {
+        id: randomUUID(),
+        start: Object.fromEntries(names.map((name) => [name, this.firstFree(state, name)])),
+        count,
+        pid: process.pid,
+        createdAt: new Date().toISOString(),
+      };
+      state.reservations.push(reservation);
+      return { id: reservation.id, start: reservation.start, count };
+    });
+  }
+
+  /**
+   * Variables for label index (0-based) of a reservation
+   */
+  valuesFor(reservation: CounterReservation, index: number): TemplateVariables {
+    if (index < 0 || index >= reservation.count) {
+      throw new CounterError(`Label ${index + 1} is outside the reservation of ${reservation.count}`);
+    }
+    return Object.fromEntries(
+      Object.entries(reservation.start).map(([name, start]) => [COUNTER_PREFIX + name, start + index])
+    );
+  }
+
+  /**
+   * Marks the first used numbers of a reservation as printed. Safe to call
+   * after every label; the counter never moves backwards.
+   */
+  async commit(reservation: CounterReservation, used: number): Promise<void> {
+    if (used <= 0) {
+      return;
+    }
+    await this.update((state) => {
+      const updatedAt = new Date().toISOString();
+      for (const [name, start] of Object.entries(reservation.start)) {
+        const next = Math.max(state.counters[name]?.next ?? 1, start + Math.min(used, reservation.count));
+        state.counters[name] = { next, updatedAt };
+      }
+    });
+  }
+
+  /**
+   * Drops a reservation; numbers that were not committed become free again
+   * unless a later reservation already follows them
+   */
+  async release(reservation: CounterReservation): Promise<void> {
+    await this.update((state) => {
+      state.reservations = state.reservations.filter((record) => record.id !== reservation.id);
+    });
+  }
+
+  /**
+   * Sets the next number of a counter (creating it), refusing while a
+   * running job holds numbers of it
+   */
+  async reset(name: string, next = 1): Promise<void> {
+    this.checkName(name);
+    if (!Number.isInteger(next) || next < 0) {
+      throw new CounterError(`Counter value must be a non-negative integer, got ${next}`);
+    }
+    await this.update((state) => {
+      const holder = state.reservations.find((record) => name in record.start);
+      if (holder) {
+        throw new CounterError(
+          `Counter "${name}" is reserved by a running job (pid ${holder.pid}); reset it when the job ends`
+        );
+      }
+      state.counters[name] = { next, updatedAt: new Date().toISOString() };
+    });
+  }
+
+  private checkName(name: string): void {
+    if (!COUNTER_NAME.test(name)) {
+      throw new CounterError(`Invalid counter name "${name}" (letters, digits, "_" and "-")`);
+    }
+  }
+
+  /**
+   * First number not yet printed or held by a reservation
+   */
+  private firstFree(state: CounterFile, name: string): number {
+    return state.reservations.reduce(
+      (next, record) => (name in record.start ? Math.max(next, record.start[name] + record.count) : next),
+      state.counters[name]?.next ?? 1
+    );
+  }
+
+  private reserved(state: CounterFile, name: string): number {
+    const printed = state.counters[name]?.next ?? 1;
+    return state.reservations
+      .filter((record) => name in record.start)
+      .reduce((total, record) => {
+        const end = record.start[name] + record.count;
+        return total + Math.max(0, end - Math.max(record.start[name], printed));
+      }, 0);
+  }
+
+  private async read(): Promise<CounterFile> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { counters: {}, reservations: [] };
+      }
+      throw error;
+    }
+
+    let state: Partial<CounterFile>;
+    try {
+      state = JSON.parse(content);
+    } catch (error) {
+      throw new CounterError(`Counter state file "${this.file}" is not valid JSON: ${(error as Error).message}`);
+    }
+    return {
+      counters: state.counters ?? {},
+      // Reservations of processes that are gone (crash, kill -9) are void
+      reservations: (state.reservations ?? []).filter((record) => isAlive(record.pid)),
+    };
+  }
+
+  /**
+   * Read-modify-write under the lock; the file is replaced atomically
+   */
+  private async update<T>(change: (state: CounterFile) => T): Promise<T> {
+    const unlock = await this.lock();
+    try {
+      const state = await this.read();
+      const result = change(state);
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(state, null, 2) + "\n");
+      await fs.rename(temporary, this.file);
+      return result;
+    } finally {
+      await unlock();
+    }
+  }
+
+  private async lock(): Promise<() => Promise<void>> {
+    const lockFile = `${this.file}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const handle = await fs.open(lockFile, "wx");
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return () => fs.rm(lockFile, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(lockFile).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new CounterError(`Timed out waiting for ${lockFile}; remove it if no other print job is running`);
+      }
+      await delay(Math.min(20 * attempt, 200));
+    }
+  }
+}
@@ -0,0 +1,357 @@
+import EventEmitter from "node:events";
+import { randomUUID } from "crypto";
+import { RenderTemplate, TemplateVariables } from "../types/index.js";
+import { PrinterError, PrinterErrorReason } from "./printerService.js";
+
+export type PrintJobState = "queued" | "rendering" | "sending" | "done" | "failed" | "cancelled";
+
+const FINAL_STATES: readonly PrintJobState[] = ["done", "failed", "cancelled"];
+
+export interface PrintJobRequest {
+  template: RenderTemplate;
+  variables?: TemplateVariables;
+  /** identical labels to print (default 1) */
+  copies?: number;
+  /** queue to join; jobs of the same device print one at a time (default: the queue's device) */
+  device?: string;
+}
+
+/**
+ * Snapshot of a job; the queue hands out copies, never its own objects
+ */
+export interface PrintJob {
+  id: string;
+  device: string;
+  template: RenderTemplate;
+  variables: TemplateVariables;
+  copies: number;
+  state: PrintJobState;
+  copiesPrinted: number;
+  /** send attempts of the current copy, retries included */
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What the queue drives: rendering once per job, sending once per copy
+ */
+export interface PrintQueueBackend<Label = unknown> {
+  render(job: PrintJob): Promise<Label>;
+  send(job: PrintJob, label: Label): Promise<void>;
+  /** runs once when the job ends, whatever the outcome (release resources) */
+  finish?(job: PrintJob): Promise<void>;
+}
+
+export interface PrintQueueOptions {
+  /** device for jobs that do not name one */
+  device?: string;
+  /** extra send attempts after a transient error (default 3) */
+  retries?: number;
+  /** wait before the first retry, doubled on each one (default 500 ms) */
+  backoffMs?: number;
+  /** finished jobs kept for get()/list() (default 100) */
+  historyLimit?: number;
+  /** which send errors are worth retrying (default isTransientPrinterError) */
+  isTransient?: (error: Error) => boolean;
+}
+
+const TRANSIENT_CODES = ["EBUSY", "EAGAIN", "EIO", "ETIMEDOUT", "ECONNRESET", "EPIPE"];
+const TRANSIENT_MESSAGES = /resource busy|temporarily unavailable|cannot lock port|port is not open|timed? ?out/i;
+const PERMANENT_REASONS: readonly PrinterErrorReason[] = ["no-printer", "not-ready", "bad-payload"];
+
+/**
+ * Serial/USB errors that usually go away on their own: a busy or locked
+ * port, a device that stopped answering for a moment. A missing or not ready
+ * printer and a rejected payload are not, whatever code the transport gave.
+ */
+export function isTransientPrinterError(error: Error): boolean {
+  if (error instanceof PrinterError && PERMANENT_REASONS.includes(error.reason)) {
+    return false;
+  }
+  const code = (error as NodeJS.ErrnoException).code;
+  return (code !== undefined && TRANSIENT_CODES.includes(code)) || TRANSIENT_MESSAGES.test(error.message);
+}
+
+/**
+ * Raised for unknown job ids and invalid requests
+ */
+export class PrintQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrintQueueError";
+  }
+}
+
+/**
+ * A job, or a library call waiting on one, was cancelled (queue.cancel or
+ * an AbortSignal) before it finished
+ */
+export class PrintCancelledError extends PrintQueueError {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrintCancelledError";
+  }
+}
+
+interface JobEntry<Label = unknown> {
+  job: PrintJob;
+  cancelRequested: boolean;
+  /** rendered label, once rendering succeeded */
+  label?: Label;
+  /** the error that failed the job, as thrown by the backend */
+  failure?: Error;
+  /** wakes a job sleeping before a retry when it is cancelled */
+  wake?: () => void;
+}
+
+/**
+ * Print job queue: jobs wait in FIFO order per device and print one at a
+ * time on it (different devices print in parallel). A send that fails with
+ * a transient error is retried with exponential backoff.
+ *
+ * Emits "job" with a snapshot on every state change, so callers can track
+ * queued -> rendering -> sending -> done | failed | cancelled.
+ */
+export class PrintQueue<Label = unknown> extends EventEmitter {
+  private readonly backend: PrintQueueBackend<Label>;
+  private readonly options: Required<Omit<PrintQueueOptions, "device">> & { device: string };
+  private readonly entries = new Map<string, JobEntry<Label>>();
+  private readonly pending = new Map<string, string[]>();
+  private readonly busyDevices = new Set<string>();
+
+  constructor(backend: PrintQueueBackend<Label>, options: PrintQueueOptions = {}) {
+    super();
+    this.backend = backend;
+    this.options = {
+      device: options.device ?? "default",
+      retries: options.retries ?? 3,
+      backoffMs: options.backoffMs ?? 500,
+      historyLimit: options.historyLimit ?? 100,
+      isTransient: options.isTransient ?? isTransientPrinterError,
+    };
+  }
+
+  /**
+   * Adds a job; it starts as soon as its device is free
+   */
+  enqueue(request: PrintJobRequest): PrintJob {
+    const copies = request.copies ?? 1;
+    if (!Number.isInteger(copies) || copies < 1) {
+      throw new PrintQueueError(`Copies must be a positive integer, got ${copies}`);
+    }
+
+    const now = new Date();
+    const job: PrintJob = {
+      id: randomUUID(),
+      device: request.device ?? this.options.device,
+      template: request.template,
+      variables: request.variables ?? {},
+      copies,
+      state: "queued",
+      copiesPrinted: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.entries.set(job.id, { job, cancelRequested: false });
+    this.pending.set(job.device, [...(this.pending.get(job.device) ?? []), job.id]);
+    const queued = this.snapshot(job);
+    this.emit("job", queued);
+
+    void this.drain(job.device);
+    return queued;
+  }
+
+  /**
+   * Cancels a job. A queued job is dropped at once; a running one stops
+   * before its next copy or retry. Returns false if the job already ended.
+   */
+  cancel(id: string): boolean {
+    const entry = this.entry(id);
+    if (FINAL_STATES.includes(entry.job.state)) {
+      return false;
+    }
+    if (entry.job.state === "queued") {
+      const queue = this.pending.get(entry.job.device) ?? [];
+      this.pending.set(entry.job.device, queue.filter((queued) => queued !== id));
+      this.setState(entry, "cancelled");
+      return true;
+    }
+    entry.cancelRequested = true;
+    entry.wake?.();
+    return true;
+  }
+
+  get(id: string): PrintJob | undefined {
+    const entry = this.entries.get(id);
+    return entry && this.snapshot(entry.job);
+  }
+
+  /**
+   * Every known job, oldest first
+   */
+  list(): PrintJob[] {
+    return [...this.entries.values()].map((entry) => this.snapshot(entry.job));
+  }
+
+  /**
+   * Resolves with the job once it is done, failed or cancelled
+   */
+  wait(id: string): Promise<PrintJob> {
+    const entry = this.entry(id);
+    if (FINAL_STATES.includes(entry.job.state)) {
+      return Promise.resolve(this.snapshot(entry.job));
+    }
+    return new Promise((resolve) => {
+      const listener = (job: PrintJob) => {
+        if (job.id === id && FINAL_STATES.includes(job.state)) {
+          this.off("job", listener);
+          resolve(job);
+        }
+      };
+      this.on("job", listener);
+    });
+  }
+
+  /**
+   * Like wait, for callers that need the outcome: resolves with the job and
+   * its rendered label once it is done, rejects with the error that failed
+   * it, or with a PrintCancelledError if it was cancelled
+   */
+  async settle(id: string): Promise<{ job: PrintJob; label: Label }> {
+    const entry = this.entry(id);
+    const job = await this.wait(id);
+    if (job.state === "cancelled") {
+      throw new PrintCancelledError(`Print job ${id} was cancelled after ${job.copiesPrinted}/${job.copies} copies`);
+    }
+    if (job.state === "failed") {
+      throw entry.failure ?? new PrintQueueError(job.error ?? `Print job ${id} failed`);
+    }
+    return { job, label: entry.label as Label };
+  }
+
+  /**
+   * Resolves when no job is queued or running
+   */
+  async idle(): Promise<void> {
+    const open = [...this.entries.values()].filter((entry) => !FINAL_STATES.includes(entry.job.state));
+    await Promise.all(open.map((entry) => this.wait(entry.job.id)));
+  }
+
+  private entry(id: string): JobEntry<Label> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new PrintQueueError(`Unknown print job "${id}"`);
+    }
+    return entry;
+  }
+
+  private snapshot(job: PrintJob): PrintJob {
+    return { ...job, variables: { ...job.variables } };
+  }
+
+  private setState(entry: JobEntry<Label>, state: PrintJobState, error?: string): void {
+    entry.job.state = state;
+    entry.job.error = error;
+    entry.job.updatedAt = new Date();
+    this.emit("job", this.snapshot(entry.job));
+    if (FINAL_STATES.includes(state)) {
+      this.pruneHistory();
+    }
+  }
+
+  private pruneHistory(): void {
+    const finished = [...this.entries.values()].filter((entry) => FINAL_STATES.includes(entry.job.state));
+    for (const entry of finished.slice(0, Math.max(0, finished.length - this.options.historyLimit))) {
+      this.entries.delete(entry.job.id);
+    }
+  }
+
+  /**
+   * Runs the device's jobs one after another; one worker per device
+   */
+  private async drain(device: string): Promise<void> {
+    if (this.busyDevices.has(device)) {
+      return;
+    }
+    this.busyDevices.add(device);
+    try {
+      let id: string | undefined;
+      while ((id = this.pending.get(device)?.shift()) !== undefined) {
+        const entry = this.entries.get(id);
+        if (entry) {
+          await this.process(entry);
+        }
+      }
+    } finally {
+      this.busyDevices.delete(device);
+    }
+  }
+
+  private async process(entry: JobEntry<Label>): Promise<void> {
+    const { job } = entry;
+    try {
+      this.setState(entry, "rendering");
+      const label = await this.backend.render(this.snapshot(job));
+      entry.label = label;
+
+      while (job.copiesPrinted < job.copies) {
+        if (entry.cancelRequested) {
+          this.setState(entry, "cancelled");
+          return;
+        }
+        job.attempts = 0;
+        this.setState(entry, "sending");
+        await this.sendWithRetries(entry, label);
+        if (entry.cancelRequested && job.state === "cancelled") {
+          return;
+        }
+        job.copiesPrinted++;
+      }
+      this.setState(entry, "done");
+    } catch (error) {
+      entry.failure = error as Error;
+      this.setState(entry, "failed", (error as Error).message);
+    } finally {
+      await this.backend.finish?.(this.snapshot(job)).catch(() => undefined);
+    }
+  }
+
+  private async sendWithRetries(entry: JobEntry<Label>, label: Label): Promise<void> {
+    const { job } = entry;
+    for (;;) {
+      job.attempts++;
+      try {
+        await this.backend.send(this.snapshot(job), label);
+        return;
+      } catch (error) {
+        const retriesLeft = this.options.retries - (job.attempts - 1);
+        if (retriesLeft <= 0 || !this.options.isTransient(error as Error)) {
+          throw error;
+        }
+        const wait = this.options.backoffMs * 2 ** (job.attempts - 1);
+        job.error = `${(error as Error).message} (retry ${job.attempts}/${this.options.retries} in ${wait} ms)`;
+        this.emit("job", this.snapshot(job));
+        await this.sleep(entry, wait);
+        if (entry.cancelRequested) {
+          this.setState(entry, "cancelled");
+          return;
+        }
+      }
+    }
+  }
+
+  private sleep(entry: JobEntry<Label>, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        entry.wake = undefined;
+        resolve();
+      }
+      entry.wake = done;
+    });
+  }
+}
@@ -0,0 +1,339 @@
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { RenderTemplate, TemplateVariables } from "../types/index.js";
+import { Logger } from "../utils/logger.js";
+import { TemplateValidationError } from "../utils/templateValidator.js";
+import { TemplateExpressionError } from "../utils/templateExpression.js";
+import { BarcodeError } from "../utils/barcode.js";
+import { BannerError } from "../utils/banner.js";
+import { MediaError } from "../utils/labelMedia.js";
+import { FontError } from "../utils/fontRegistry.js";
+import { ImageLoadError } from "../utils/imageSource.js";
+import { TemplateCompositionError, TemplateService } from "./templateService.js";
+import { PrintJob, PrintQueue, PrintQueueError } from "./printQueue.js";
+
+export const DEFAULT_SERVER_HOST = "127.0.0.1";
+export const DEFAULT_SERVER_PORT = 8631;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+const TEMPLATE_NAME = /^[A-Za-z0-9_-]+$/;
+const REQUEST_KEYS = ["template", "variables", "copies"];
+
+export interface PrintServerOptions {
+  /** interface to listen on (default 127.0.0.1, loopback only) */
+  host?: string;
+  /** TCP port, 0 picks a free one (default 8631) */
+  port?: number;
+  /** largest request body accepted (default 1 MiB) */
+  maxBodyBytes?: number;
+  /** most copies one request may ask for (default 100) */
+  maxCopies?: number;
+}
+
+/**
+ * One entry of GET /printers
+ */
+export interface PrinterSummary {
+  id: string;
+  name: string;
+  dpi: number;
+  maxWidthPx: number | null;
+  /** the profile jobs are printed with */
+  active: boolean;
+  /** serial device of the active profile */
+  device?: string;
+}
+
+/**
+ * What the server is built on; the queue's backend decides where labels go,
+ * so a fake backend serves the whole API without a printer
+ */
+export interface PrintServerDependencies<Label = unknown> {
+  templateService: TemplateService;
+  queue: PrintQueue<Label>;
+  /** PNG of the label as it would print */
+  preview(template: RenderTemplate, variables: TemplateVariables): Promise<Buffer>;
+  printers(): PrinterSummary[];
+  logger?: Logger;
+}
+
+/**
+ * Raised for requests the server refuses; status is the HTTP status sent back
+ */
+export class PrintServerError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = "PrintServerError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+interface LabelRequest {
+  template: RenderTemplate;
+  variables: TemplateVariables;
+  copies: number;
+}
+
+type Route = (request: IncomingMessage, response: ServerResponse, id?: string) => Promise<void>;
+
+/**
+ * Local HTTP API over the template service, the renderer and the print queue:
+ *
+ *   POST /preview    { template, variables }          -> image/png
+ *   POST /print      { template, variables, copies }  -> 202 { job }
+ *   GET  /templates                                    -> { templates }
+ *   GET  /printers                                     -> { printers }
+ *   GET  /jobs/:id                                     -> { job }
+ *
+ * "template" is the name of a template in the templates directory or a
+ * template object; the paths in an object are relative to, and confined
+ * to, the templates directory. Errors come back as { error, details? } JSON.
+ */
+export class PrintServer<Label = unknown> {
+  private readonly dependencies: PrintServerDependencies<Label>;
+  private readonly options: Required<PrintServerOptions>;
+  private readonly server: http.Server;
+  private readonly routes: Record<string, Record<string, Route>>;
+
+  constructor(dependencies: PrintServerDependencies<Label>, options: PrintServerOptions = {}) {
+    this.dependencies = dependencies;
+    this.options = {
+      host: options.host ?? DEFAULT_SERVER_HOST,
+      port: options.port ?? DEFAULT_SERVER_PORT,
+      maxBodyBytes: options.maxBodyBytes ?? 1024 * 1024,
+      maxCopies: options.maxCopies ?? 100,
+    };
+    this.routes = {
+      "/preview": { POST: (request, response) => this.handlePreview(request, response) },
+      "/print": { POST: (request, response) => this.handlePrint(request, response) },
+      "/templates": { GET: (_request, response) => this.handleTemplates(response) },
+      "/printers": { GET: async (_request, response) => this.sendJson(response, 200, { printers: dependencies.printers() }) },
+      "/jobs/:id": { GET: async (_request, response, id) => this.handleJob(response, id!) },
+    };
+    this.server = http.createServer((request, response) => void this.handle(request, response));
+  }
+
+  /**
+   * Starts listening; resolves with the address actually bound
+   */
+  async listen(): Promise<{ host: string; port: number }> {
+    const { host, port } = this.options;
+    if (!LOOPBACK_HOSTS.includes(host)) {
+      this.dependencies.logger?.info(`⚠️ Listening on ${host}: anyone who can reach it can print`);
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    return { host: address.address, port: address.port };
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    const jobMatch = /^\/jobs\/([^/]+)$/.exec(pathname);
+    const methods = jobMatch ? this.routes["/jobs/:id"] : this.routes[pathname];
+
+    try {
+      if (!methods) {
+        throw new PrintServerError(404, `No route ${pathname}`);
+      }
+      const route = methods[request.method ?? "GET"];
+      if (!route) {
+        response.setHeader("Allow", Object.keys(methods).join(", "));
+        throw new PrintServerError(405, `${request.method} is not allowed on ${pathname}`);
+      }
+      await route(request, response, jobMatch ? this.decodeJobId(jobMatch[1]) : undefined);
+    } catch (error) {
+      const failure = this.toServerError(error as Error);
+      if (failure.status >= 500) {
+        this.dependencies.logger?.error(`❌ ${request.method} ${pathname}`, error as Error);
+      }
+      if (!response.headersSent) {
+        this.sendJson(response, failure.status, {
+          error: failure.message,
+          ...(failure.details !== undefined && { details: failure.details }),
+        });
+      } else {
+        response.destroy();
+      }
+    }
+    this.dependencies.logger?.debug(`${request.method} ${pathname} -> ${response.statusCode}`);
+  }
+
+  private async handlePreview(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const label = await this.readLabelRequest(request, false);
+    const png = await this.dependencies.preview(label.template, label.variables);
+    response.writeHead(200, { "Content-Type": "image/png", "Content-Length": png.length });
+    response.end(png);
+  }
+
+  private async handlePrint(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const label = await this.readLabelRequest(request, true);
+    const job = this.dependencies.queue.enqueue(label);
+    response.setHeader("Location", `/jobs/${job.id}`);
+    this.sendJson(response, 202, { job: this.describeJob(job) });
+  }
+
+  private async handleTemplates(response: ServerResponse): Promise<void> {
+    const { templateService } = this.dependencies;
+    const templates = await Promise.all(
+      (await templateService.listTemplates()).map(async (name) => {
+        try {
+          const { description, dimensions } = await templateService.loadTemplate(name);
+          return { name, description, dimensions };
+        } catch (error) {
+          return { name, error: (error as Error).message };
+        }
+      })
+    );
+    this.sendJson(response, 200, { templates });
+  }
+
+  /**
+   * The id in /jobs/:id; a malformed escape cannot name any job
+   */
+  private decodeJobId(raw: string): string {
+    try {
+      return decodeURIComponent(raw);
+    } catch {
+      throw new PrintServerError(404, `Unknown print job "${raw}"`);
+    }
+  }
+
+  private handleJob(response: ServerResponse, id: string): void {
+    const job = this.dependencies.queue.get(id);
+    if (!job) {
+      throw new PrintServerError(404, `Unknown print job "${id}"`);
+    }
+    this.sendJson(response, 200, { job: this.describeJob(job) });
+  }
+
+  /**
+   * Jobs go out with the template name, not the whole resolved template
+   */
+  private describeJob(job: PrintJob): Omit<PrintJob, "template"> & { template: string } {
+    return { ...job, template: job.template.name };
+  }
+
+  /**
+   * Reads and checks a { template, variables, copies } body
+   */
+  private async readLabelRequest(request: IncomingMessage, withCopies: boolean): Promise<LabelRequest> {
+    const body = await this.readJson(request);
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      throw new PrintServerError(400, "Request body must be a JSON object");
+    }
+
+    const allowed = withCopies ? REQUEST_KEYS : REQUEST_KEYS.filter((key) => key !== "copies");
+    const unknown = Object.keys(body).filter((key) => !allowed.includes(key));
+    if (unknown.length > 0) {
+      throw new PrintServerError(400, `Unknown field(s) ${unknown.map((key) => `"${key}"`).join(", ")}; expected ${allowed.join(", ")}`);
+    }
+
+    const { template, variables = {}, copies = 1 } = body as Record<string, unknown>;
+    if (variables === null || typeof variables !== "object" || Array.isArray(variables)) {
+      throw new PrintServerError(400, '"variables" must be an object');
+    }
+    if (!Number.isInteger(copies) || (copies as number) < 1 || (copies as number) > this.options.maxCopies) {
+      throw new PrintServerError(400, `"copies" must be an integer from 1 to ${this.options.maxCopies}`);
+    }
+
+    return {
+      template: await this.resolveTemplate(template),
+      variables: variables as TemplateVariables,
+      copies: copies as number,
+    };
+  }
+
+  /**
+   * A template name (looked up in the templates directory only) or a template
+   * object, which may only name files inside the templates directory
+   */
+  private async resolveTemplate(template: unknown): Promise<RenderTemplate> {
+    const { templateService } = this.dependencies;
+    if (typeof template === "string") {
+      const available = await templateService.listTemplates();
+      if (!TEMPLATE_NAME.test(template) || !available.includes(template)) {
+        throw new PrintServerError(404, `Template "${template}" not found`, { available });
+      }
+      return templateService.loadTemplate(template);
+    }
+    if (template !== null && typeof template === "object" && !Array.isArray(template)) {
+      return templateService.resolveRequestTemplate(template, "Request template");
+    }
+    throw new PrintServerError(400, '"template" must be a template name or a template object');
+  }
+
+  private async readJson(request: IncomingMessage): Promise<unknown> {
+    const contentType = request.headers["content-type"] ?? "";
+    if (!/^application\/json\b/i.test(contentType)) {
+      throw new PrintServerError(415, "Request body must be application/json");
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += (chunk as Buffer).length;
+      if (size > this.options.maxBodyBytes) {
+        throw new PrintServerError(413, `Request body is larger than ${this.options.maxBodyBytes} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch (error) {
+      throw new PrintServerError(400, `Request body is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Maps known failures to client errors; anything else is a 500
+   */
+  private toServerError(error: Error): PrintServerError {
+    if (error instanceof PrintServerError) {
+      return error;
+    }
+    if (error instanceof TemplateValidationError) {
+      return new PrintServerError(422, error.message, { issues: error.issues });
+    }
+    // Errors caused by the request's own content are 422
+    if (
+      error instanceof TemplateCompositionError
+      || error instanceof TemplateExpressionError
+      || error instanceof BarcodeError
+      || error instanceof BannerError
+      || error instanceof MediaError
+      || error instanceof FontError
+      || error instanceof ImageLoadError
+      || error instanceof PrintQueueError
+    ) {
+      return new PrintServerError(422, error.message);
+    }
+    return new PrintServerError(500, error.message);
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body);
+    response.writeHead(status, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(json),
+    });
+    response.end(json);
+  }
+}
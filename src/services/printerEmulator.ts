@@ -0,0 +1,279 @@
+import EventEmitter from "node:events";
+import fs from "fs";
+import net, { AddressInfo } from "node:net";
+import path from "path";
+import { PrinterProfile } from "../types/index.js";
+import { Logger } from "../utils/logger.js";
+import { encodePng, MonoBitmap } from "../utils/monoImage.js";
+import { decodePayload, payloadBitmap, PayloadCommand } from "../utils/payloadDecoder.js";
+import { DEFAULT_RAW_TCP_PORT } from "./printerTransport.js";
+
+export interface PrinterEmulatorOptions {
+  /** answer to the profile's firmware request (default "EMULATOR") */
+  firmwareVersion?: string;
+  /**
+   * answer to the profile's status request (default 0x12, ESC/POS for "no
+   * problem"); set the profile's flag bits to emulate a printer out of paper
+   */
+  statusByte?: number;
+  /** silence after which buffered data counts as a whole label (default 500 ms) */
+  idleMs?: number;
+  /** directory to save each label as label-0001.png, label-0002.png... */
+  outDir?: string;
+  logger?: Logger;
+}
+
+/**
+ * A label the emulator received: what would have come out of the printer
+ */
+export interface EmulatedLabel {
+  /** 1, 2, 3... across every connection */
+  index: number;
+  /** printed dots, rasters joined in the paper direction */
+  bitmap: MonoBitmap;
+  commands: PayloadCommand[];
+  /** feed after the image, in the printer's units */
+  feed: { dots: number; lines: number };
+  warnings: string[];
+  /** bytes received for this label */
+  bytes: number;
+  /** where it was saved, with outDir */
+  file?: string;
+}
+
+/**
+ * One stream of bytes into the emulator (a TCP connection, a transport)
+ */
+export class EmulatorSession {
+  private readonly emulator: PrinterEmulator;
+  private readonly reply: (data: Buffer) => void;
+  private pending = Buffer.alloc(0);
+  /** stream position of pending[0] */
+  private offset = 0;
+  private commands: PayloadCommand[] = [];
+  private warnings: string[] = [];
+  private bytes = 0;
+  /** last bytes of the label, to spot the postfix */
+  private tail: number[] = [];
+  /** postfix seen after a raster: only feeds still belong to the label */
+  private complete = false;
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(emulator: PrinterEmulator, reply: (data: Buffer) => void) {
+    this.emulator = emulator;
+    this.reply = reply;
+  }
+
+  /**
+   * Takes bytes as they arrive; complete commands are decoded at once
+   */
+  receive(data: Uint8Array): void {
+    this.pending = Buffer.concat([this.pending, data]);
+    this.decode(false);
+    clearTimeout(this.idleTimer);
+    if (this.pending.length > 0 || this.commands.length > 0) {
+      this.idleTimer = setTimeout(() => this.flush(), this.emulator.idleMs);
+    }
+  }
+
+  /**
+   * Decodes whatever is buffered as final and emits the label, if it has an image
+   */
+  flush(): EmulatedLabel | undefined {
+    clearTimeout(this.idleTimer);
+    this.decode(true);
+    return this.finishLabel();
+  }
+
+  /** the stream ended */
+  end(): EmulatedLabel | undefined {
+    return this.flush();
+  }
+
+  private decode(final: boolean): void {
+    const { profile } = this.emulator;
+    const decoding = decodePayload(this.pending, profile, { final, offset: this.offset });
+    this.warnings.push(...decoding.warnings);
+
+    for (const command of decoding.commands) {
+      if (command.type === "firmware-request") {
+        this.reply(Buffer.from(this.emulator.firmwareVersion));
+        continue;
+      }
+      if (command.type === "status-request") {
+        this.reply(Buffer.from([this.emulator.statusByte]));
+        continue;
+      }
+      if (this.complete && command.type !== "feed") {
+        this.finishLabel();
+      }
+      this.commands.push(command);
+      this.bytes += command.length;
+      const start = command.offset - this.offset;
+      this.remember(this.pending.subarray(start, start + command.length));
+    }
+
+    this.pending = this.pending.subarray(decoding.consumed);
+    this.offset += decoding.consumed;
+  }
+
+  /**
+   * Keeps the label's last bytes; once they are the postfix after a raster,
+   * the label is complete
+   */
+  private remember(data: Buffer): void {
+    const { postfix } = this.emulator.profile.protocol;
+    if (this.complete || postfix.length === 0) {
+      return;
+    }
+    this.tail = [...this.tail, ...data.subarray(-postfix.length)].slice(-postfix.length);
+    this.complete =
+      this.tail.length === postfix.length &&
+      this.tail.every((value, index) => value === postfix[index]) &&
+      this.commands.some((command) => command.type === "raster");
+  }
+
+  private finishLabel(): EmulatedLabel | undefined {
+    const { commands, warnings, bytes } = this;
+    this.commands = [];
+    this.warnings = [];
+    this.bytes = 0;
+    this.tail = [];
+    this.complete = false;
+
+    const bitmap = payloadBitmap(commands, this.emulator.profile);
+    if (!bitmap) {
+      return undefined;
+    }
+    const feed = { dots: 0, lines: 0 };
+    for (const command of commands) {
+      if (command.type === "feed") {
+        feed[command.unit] += command.amount;
+      }
+    }
+    return this.emulator.addLabel({ bitmap, commands, feed, warnings, bytes });
+  }
+}
+
+/**
+ * Stand-in printer for development and CI: takes the byte stream
+ * PrinterService or buildPayload would send, decodes the framing and GS v 0
+ * rasters with the printer profile and rebuilds each label as an image.
+ * Answers firmware and status requests. Reachable over TCP (like a 9100 printer) or
+ * in-process through EmulatorTransport.
+ *
+ * Emits "label" with each EmulatedLabel.
+ */
+export class PrinterEmulator extends EventEmitter {
+  readonly profile: PrinterProfile;
+  readonly firmwareVersion: string;
+  statusByte: number;
+  readonly idleMs: number;
+  /** every label received, oldest first */
+  readonly labels: EmulatedLabel[] = [];
+  private readonly outDir?: string;
+  private readonly logger?: Logger;
+  private readonly sessions = new Set<EmulatorSession>();
+  private readonly sockets = new Set<net.Socket>();
+  private server?: net.Server;
+
+  constructor(profile: PrinterProfile, options: PrinterEmulatorOptions = {}) {
+    super();
+    this.profile = profile;
+    this.firmwareVersion = options.firmwareVersion ?? "EMULATOR";
+    this.statusByte = options.statusByte ?? 0x12;
+    this.idleMs = options.idleMs ?? 500;
+    this.outDir = options.outDir;
+    this.logger = options.logger;
+  }
+
+  /**
+   * New input stream; reply gets the emulator's answers
+   */
+  openSession(reply: (data: Buffer) => void = () => undefined): EmulatorSession {
+    const session = new EmulatorSession(this, reply);
+    this.sessions.add(session);
+    return session;
+  }
+
+  /**
+   * Ends a session, emitting its last label
+   */
+  endSession(session: EmulatorSession): EmulatedLabel | undefined {
+    this.sessions.delete(session);
+    return session.end();
+  }
+
+  /**
+   * Emits the labels still buffered in every session
+   */
+  flush(): EmulatedLabel[] {
+    return [...this.sessions].flatMap((session) => session.flush() ?? []);
+  }
+
+  /** @internal called by sessions */
+  addLabel(label: Omit<EmulatedLabel, "index" | "file">): EmulatedLabel {
+    const emulated: EmulatedLabel = { index: this.labels.length + 1, ...label };
+    if (this.outDir) {
+      fs.mkdirSync(this.outDir, { recursive: true });
+      emulated.file = path.join(this.outDir, `label-${String(emulated.index).padStart(4, "0")}.png`);
+      fs.writeFileSync(emulated.file, encodePng(emulated.bitmap));
+    }
+    this.labels.push(emulated);
+    this.logger?.info(
+      `🖨️ Label ${emulated.index}: ${emulated.bitmap.width}x${emulated.bitmap.height} dots, ${emulated.bytes} bytes` +
+        (emulated.file ? ` -> ${emulated.file}` : "")
+    );
+    for (const warning of emulated.warnings) {
+      this.logger?.info(`⚠️ ${warning}`);
+    }
+    this.emit("label", emulated);
+    return emulated;
+  }
+
+  /**
+   * Accepts raw print connections like a network printer (default 127.0.0.1:9100)
+   */
+  async listen(port = DEFAULT_RAW_TCP_PORT, host = "127.0.0.1"): Promise<{ host: string; port: number }> {
+    const server = net.createServer((socket) => {
+      const session = this.openSession((data) => socket.write(data));
+      this.sockets.add(socket);
+      socket.on("data", (data: Buffer) => session.receive(data));
+      socket.on("error", (error) => this.logger?.error("Emulator connection error", error));
+      socket.on("close", () => {
+        this.sockets.delete(socket);
+        this.endSession(session);
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return { host: address.address, port: address.port };
+  }
+
+  /**
+   * Stops listening and emits what open connections had buffered
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Connections end through their close handlers
+        for (const socket of this.sockets) {
+          socket.destroy();
+        }
+      });
+    }
+    for (const session of [...this.sessions]) {
+      this.endSession(session);
+    }
+  }
+}
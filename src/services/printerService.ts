@@ -1,12 +1,105 @@
-import { SerialPort } from "serialport";
-import EventEmitter from "node:events";
 import {
   ImageDimensions,
+  LabelMedia,
   PrinterConfig,
-  PrinterProtocol,
+  PrinterProfile,
+  PrinterStatusFlag,
 } from "../types/index.js";
 import { Logger } from "../utils/logger.js";
-import { getPrinterProtocol } from "../utils/config.js";
+import { getFeedCommand, getPrinterProtocol } from "../utils/config.js";
+import { createTransport, PrinterTransport } from "./printerTransport.js";
+
+const DEFAULT_RESPONSE_TIMEOUT = 2000;
+/** silence after which an answer with no terminator is taken as complete */
+const REPLY_GAP_MS = 50;
+/** firmware versions end with CR, LF or NUL */
+const REPLY_TERMINATOR = /[\r\n\0]$/;
+
+/** errno codes of a device that is not there (unplugged, off, wrong address) */
+const NO_PRINTER_CODES = ["ENOENT", "ENODEV", "ENXIO", "ECONNREFUSED", "EHOSTUNREACH", "ENETUNREACH", "ENOTFOUND", "ETIMEDOUT"];
+const BUSY_CODES = ["EBUSY", "EAGAIN"];
+const BUSY_MESSAGES = /resource busy|cannot lock port|access denied/i;
+
+/** flags that stop a print; paperNearEnd only warns */
+const BLOCKING_FLAGS: PrinterStatusFlag[] = ["offline", "coverOpen", "paperOut", "busy", "error"];
+
+export type PrinterErrorReason = "no-printer" | "busy" | "not-ready" | "timeout" | "bad-payload";
+
+/**
+ * Printer failure with a reason callers can act on: nothing at the device
+ * (no-printer), in use by someone else (busy), reporting a problem such as
+ * no paper (not-ready), silent (timeout) or given data it cannot print
+ * (bad-payload). code keeps Node's errno code where there is one, so the
+ * print queue still retries transient failures.
+ */
+export class PrinterError extends Error {
+  readonly reason: PrinterErrorReason;
+  readonly code?: string;
+
+  constructor(reason: PrinterErrorReason, message: string, code?: string) {
+    super(message);
+    this.name = "PrinterError";
+    this.reason = reason;
+    this.code = code;
+  }
+}
+
+/**
+ * The printer did not answer a request in time
+ */
+export class PrinterTimeoutError extends PrinterError {
+  readonly operation: string;
+  readonly timeoutMs: number;
+
+  constructor(operation: string, timeoutMs: number, device: string) {
+    super("timeout", `No answer to the ${operation} from ${device} within ${timeoutMs} ms`, "ETIMEDOUT");
+    this.name = "PrinterTimeoutError";
+    this.operation = operation;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The printer cannot print now: not there, busy, or reporting a problem
+ * (status has the flags it reported)
+ */
+export class PrinterNotReadyError extends PrinterError {
+  readonly status?: PrinterStatus;
+
+  constructor(reason: "no-printer" | "busy" | "not-ready", message: string, code?: string, status?: PrinterStatus) {
+    super(reason, message, code);
+    this.name = "PrinterNotReadyError";
+    this.status = status;
+  }
+}
+
+/**
+ * The image data does not fit the printer or its own dimensions
+ */
+export class PrinterPayloadError extends PrinterError {
+  constructor(message: string) {
+    super("bad-payload", message);
+    this.name = "PrinterPayloadError";
+  }
+}
+
+/**
+ * What the printer said about itself. Fields are only set when the profile
+ * has the request and the connection can read answers.
+ */
+export interface PrinterStatus {
+  device: string;
+  /** the profile's model name */
+  model: string;
+  /** firmware reply, trimmed */
+  firmware?: string;
+  /** flags from the status reply, only those the profile maps */
+  flags: Partial<Record<PrinterStatusFlag, boolean>>;
+  /** raw status reply byte */
+  statusByte?: number;
+  /** no blocking flag is set */
+  ready: boolean;
+}
 
 interface ImageSplit {
   data: number[];
@@ -16,62 +109,38 @@ interface ImageSplit {
 }
 
 export class PrinterService {
-  private static readonly MAX_PRINTER_WIDTH = 255;
-
-  private readonly port: SerialPort;
+  private readonly transport: PrinterTransport;
   private readonly config: PrinterConfig;
+  private readonly profile: PrinterProfile;
   private readonly logger: Logger;
-  private readonly portData: EventEmitter;
-  private protocol: PrinterProtocol;
+  private opening?: Promise<void>;
 
+  /**
+   * transport defaults to the one config.portPath names (serial port,
+   * device file, tcp:// network printer...), see createTransport
+   */
   constructor(
     config: PrinterConfig,
-    protocol: PrinterProtocol,
-    logger: Logger
+    profile: PrinterProfile,
+    logger: Logger,
+    transport?: PrinterTransport
   ) {
     this.config = config;
+    this.profile = profile;
     this.logger = logger;
-    this.portData = new EventEmitter();
-    this.protocol = protocol;
-
-    this.port = new SerialPort({
-      path: config.portPath,
+    this.transport = transport ?? createTransport(config.portPath, {
       baudRate: config.baudRate,
+      serialPattern: profile.connection.serialPattern,
+      profile,
     });
-
-    this.setupEventHandlers();
   }
 
-  private setupEventHandlers(): void {
-    this.port.on("data", (buf: Buffer) => {
-      this.portData.emit("data", buf);
-    });
-
-    this.port.on("error", (error: Error) => {
-      this.logger.error("Serial port error", error);
-    });
-
-    this.port.on("close", () => {
-      this.logger.debug("Serial port closed");
-    });
-  }
-
-  private async waitForData(): Promise<Buffer> {
-    return new Promise((resolve) => {
-      this.portData.once("data", (buf: Buffer) => resolve(buf));
-    });
+  get device(): string {
+    return this.transport.uri;
   }
 
   private async writeData(data: number[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.port.write(Buffer.from(data), (error) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve();
-        }
-      });
-    });
+    await this.transport.write(data);
   }
 
   private async delay(ms: number): Promise<void> {
@@ -80,11 +149,131 @@ export class PrinterService {
     }
   }
 
+  /**
+   * Firmware version as the printer reports it, "unknown" if the profile has
+   * no firmware request or the connection cannot read. Throws
+   * PrinterTimeoutError if the printer does not answer.
+   */
   async getFirmwareVersion(): Promise<string> {
+    const { firmwareRequest } = getPrinterProtocol(this.profile, {
+      width: 0,
+      height: 0,
+      dpi: this.profile.dpi,
+    });
+    if (firmwareRequest.length === 0) {
+      this.logger.debug(`Profile ${this.profile.id} has no firmware request`);
+      return "unknown";
+    }
+    if (!this.transport.readable) {
+      this.logger.debug(`${this.transport.uri} cannot answer a firmware request`);
+      return "unknown";
+    }
+
     this.logger.debug("Requesting firmware version");
-    await this.writeData(this.protocol.firmwareRequest);
-    const firmwareVersion = await this.waitForData();
-    return firmwareVersion.toString();
+    const reply = await this.request(firmwareRequest, "firmware request");
+    // Printers pad the version with NULs or end it with CR/LF
+    return reply.toString("latin1").replace(/[\x00-\x1f\x7f]+/g, " ").trim() || "unknown";
+  }
+
+  /**
+   * Asks for the firmware version and the status flags the profile knows
+   * how to read. Throws PrinterTimeoutError if the printer does not answer.
+   */
+  async getStatus(): Promise<PrinterStatus> {
+    const status: PrinterStatus = { device: this.transport.uri, model: this.profile.name, flags: {}, ready: true };
+    const firmware = await this.getFirmwareVersion();
+    if (firmware !== "unknown") {
+      status.firmware = firmware;
+    }
+
+    const query = this.profile.protocol.status;
+    if (query && query.request.length > 0 && this.transport.readable) {
+      this.logger.debug("Requesting printer status");
+      const [statusByte] = await this.request(query.request, "status request", 1);
+      status.statusByte = statusByte;
+      for (const [flag, mask] of Object.entries(query.flags) as [PrinterStatusFlag, number][]) {
+        status.flags[flag] = (statusByte & mask) !== 0;
+      }
+      status.ready = !BLOCKING_FLAGS.some((flag) => status.flags[flag]);
+    }
+    return status;
+  }
+
+  /**
+   * Status check before printing: resolves with the status if the printer
+   * can print, otherwise throws PrinterNotReadyError. A printer that does
+   * not answer at all counts as no printer (a Bluetooth serial port opens
+   * even when the printer is off).
+   */
+  async checkReady(): Promise<PrinterStatus> {
+    let status: PrinterStatus;
+    try {
+      status = await this.getStatus();
+    } catch (error) {
+      if (error instanceof PrinterTimeoutError) {
+        throw new PrinterNotReadyError(
+          "no-printer",
+          `${error.message}: is the printer on and connected?`,
+          error.code
+        );
+      }
+      throw error;
+    }
+
+    if (!status.ready) {
+      const problems = BLOCKING_FLAGS.filter((flag) => status.flags[flag]);
+      throw new PrinterNotReadyError(
+        status.flags.busy ? "busy" : "not-ready",
+        `Printer is not ready (${problems.join(", ")})`,
+        status.flags.busy ? "EBUSY" : undefined,
+        status
+      );
+    }
+    if (status.flags.paperNearEnd) {
+      this.logger.info("⚠️ Paper is running out");
+    }
+    return status;
+  }
+
+  /**
+   * Sends a request and waits for the whole answer, at most
+   * config.responseTimeout ms. Serial answers can arrive in several chunks:
+   * reads go on until expectedBytes arrived or, without it, until a
+   * terminator or a short silence. Anything left over from an earlier
+   * answer is dropped first, so it is not taken for this one.
+   */
+  private async request(command: number[], operation: string, expectedBytes?: number): Promise<Buffer> {
+    const timeoutMs = this.config.responseTimeout ?? DEFAULT_RESPONSE_TIMEOUT;
+    const deadline = Date.now() + timeoutMs;
+    this.transport.discard();
+    await this.writeData(command);
+
+    let reply = Buffer.alloc(0);
+    const complete = (): boolean => reply.length > 0
+      && (expectedBytes !== undefined ? reply.length >= expectedBytes : REPLY_TERMINATOR.test(reply.toString("latin1")));
+    while (!complete()) {
+      // Without a byte count, a silence after the first chunk ends the answer
+      const gap = reply.length > 0 && expectedBytes === undefined;
+      const remaining = deadline - Date.now();
+      let chunk: Buffer | undefined;
+      if (remaining > 0) {
+        try {
+          chunk = await this.transport.read(gap ? Math.min(REPLY_GAP_MS, remaining) : remaining);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ETIMEDOUT") {
+            throw error;
+          }
+        }
+      }
+      if (!chunk) {
+        if (gap) {
+          break;
+        }
+        throw new PrinterTimeoutError(operation, timeoutMs, this.transport.uri);
+      }
+      reply = Buffer.concat([reply, chunk]);
+    }
+    return reply;
   }
 
   private calculateImageSplits(
@@ -92,14 +281,26 @@ export class PrinterService {
     imageDimensions: ImageDimensions
   ): ImageSplit[] {
     const { width: totalWidth, height, dpi } = imageDimensions;
-    const splits = Math.ceil(totalWidth / PrinterService.MAX_PRINTER_WIDTH);
+    const maxWidth = this.profile.limits.maxWidthPx ?? totalWidth;
+
+    // Only column-major rasters can be cut into contiguous blocks of columns
+    if (this.profile.raster.orientation !== "column-major") {
+      if (totalWidth > maxWidth) {
+        throw new PrinterPayloadError(
+          `Image width ${totalWidth}px exceeds the ${this.profile.name} maximum (${maxWidth}px)`
+        );
+      }
+      return [{ data: imageData, dimensions: imageDimensions, splitIndex: 0, totalSplits: 1 }];
+    }
+
+    const splits = Math.ceil(totalWidth / maxWidth);
     const imageSplits: ImageSplit[] = [];
 
     for (let splitIndex = 0; splitIndex < splits; splitIndex++) {
-      const startPos = splitIndex * PrinterService.MAX_PRINTER_WIDTH * height;
+      const startPos = splitIndex * maxWidth * height;
       const currentWidth = Math.min(
-        PrinterService.MAX_PRINTER_WIDTH,
-        totalWidth - splitIndex * PrinterService.MAX_PRINTER_WIDTH
+        maxWidth,
+        totalWidth - splitIndex * maxWidth
       );
 
       const splitDimensions: ImageDimensions = {
@@ -124,18 +325,23 @@ export class PrinterService {
     return imageSplits;
   }
 
-  private async sendImageSplit(split: ImageSplit): Promise<void> {
-    const { data, dimensions, splitIndex, totalSplits } = split;
+  /**
+   * Header for the split's own dimensions followed by its raster data
+   */
+  private splitMessage({ data, dimensions }: ImageSplit): number[] {
+    const protocol = getPrinterProtocol(this.profile, dimensions);
+    return [...protocol.prefix, ...data];
+  }
 
-    // Recalculate protocol for current split dimensions
-    this.protocol = getPrinterProtocol(dimensions);
+  private async sendImageSplit(split: ImageSplit): Promise<void> {
+    const { dimensions, splitIndex, totalSplits } = split;
     this.logger.debug(
       `Sending split ${splitIndex + 1}/${totalSplits} with dimensions: ${
         dimensions.width
       }x${dimensions.height} at ${dimensions.dpi} DPI`
     );
 
-    const message = [...this.protocol.prefix, ...data];
+    const message = this.splitMessage(split);
     this.logger.debug(`Split message size: ${message.length} bytes`);
 
     await this.sendDataInPackets(message, splitIndex + 1, totalSplits);
@@ -165,8 +371,10 @@ export class PrinterService {
 
   async sendImageData(
     imageData: number[],
-    imageDimensions: ImageDimensions
+    imageDimensions: ImageDimensions,
+    media?: LabelMedia
   ): Promise<void> {
+    this.checkImageData(imageData, imageDimensions);
     const imageSplits = this.calculateImageSplits(imageData, imageDimensions);
 
     this.logger.debug(`Image will be sent in ${imageSplits.length} split(s)`);
@@ -176,25 +384,101 @@ export class PrinterService {
       await this.sendImageSplit(split);
     }
 
-    // Send final postfix if defined
+    // Send final postfix if defined, and the feed continuous media asks for
     this.logger.debug("Sending postfix data");
-    await this.writeData(this.protocol.postfix);
+    await this.writeData(this.postfix(media));
+    await this.transport.drain();
 
     this.logger.info("Image data sent successfully");
   }
 
+  /**
+   * The bytes sendImageData writes for this image (every split with its
+   * header, then the postfix), without touching the printer
+   */
+  buildPayload(
+    imageData: number[],
+    imageDimensions: ImageDimensions,
+    media?: LabelMedia
+  ): Buffer {
+    this.checkImageData(imageData, imageDimensions);
+    const messages = this.calculateImageSplits(imageData, imageDimensions).map((split) => this.splitMessage(split));
+    return Buffer.concat([...messages, this.postfix(media)].map((bytes) => Buffer.from(bytes)));
+  }
+
+  /**
+   * Bytes after the raster: the profile's postfix, then the feed after a
+   * label on continuous media
+   */
+  private postfix(media?: LabelMedia): number[] {
+    return media?.type === "continuous"
+      ? [...this.profile.protocol.postfix, ...getFeedCommand(this.profile, media)]
+      : this.profile.protocol.postfix;
+  }
+
+  /**
+   * Rejects image data whose size does not match its dimensions, before any
+   * byte reaches the printer (a short raster shifts every later command)
+   */
+  private checkImageData(imageData: number[], { width, height }: ImageDimensions): void {
+    if (!(width > 0) || !(height > 0) || !Number.isInteger(width) || !Number.isInteger(height)) {
+      throw new PrinterPayloadError(`Invalid image dimensions ${width}x${height}`);
+    }
+    // column-major: height is bytes per column; row-major: rows of ceil(width / 8) bytes
+    const rowBytes = Math.ceil(width / 8);
+    const fits = this.profile.raster.orientation === "column-major"
+      ? imageData.length === width * height
+      : imageData.length > 0 && imageData.length % rowBytes === 0;
+    if (!fits) {
+      throw new PrinterPayloadError(
+        `Image data is ${imageData.length} bytes, which does not match ${width}x${height} (${this.profile.raster.orientation})`
+      );
+    }
+  }
+
   async waitForCompletion(): Promise<void> {
     this.logger.debug(`Waiting ${this.config.exitDelay}ms before exit`);
     await this.delay(this.config.exitDelay);
   }
 
-  onOpen(callback: () => Promise<void>): void {
-    this.port.on("open", callback);
+  /**
+   * Opens the transport; resolves at once if it is open, and concurrent
+   * callers share one attempt. After a failed open or a close, it opens again.
+   */
+  async open(): Promise<void> {
+    if (this.transport.isOpen) {
+      return;
+    }
+    this.opening ??= this.transport.open().catch((error: Error) => {
+      throw this.openError(error);
+    }).finally(() => {
+      this.opening = undefined;
+    });
+    await this.opening;
+    this.logger.debug(`Connected to ${this.transport.uri}`);
+  }
+
+  /**
+   * Tells "nothing there" and "in use" apart from other open failures
+   */
+  private openError(error: Error): Error {
+    const code = (error as NodeJS.ErrnoException).code;
+    const device = this.transport.uri;
+    if ((code && NO_PRINTER_CODES.includes(code)) || /no such file|not found/i.test(error.message)) {
+      return new PrinterNotReadyError("no-printer", `No printer at ${device}: ${error.message}`, code);
+    }
+    if ((code && BUSY_CODES.includes(code)) || BUSY_MESSAGES.test(error.message)) {
+      return new PrinterNotReadyError("busy", `${device} is in use by another program: ${error.message}`, code ?? "EBUSY");
+    }
+    return error;
   }
 
-  close(): void {
-    if (this.port.isOpen) {
-      this.port.close();
+  async close(): Promise<void> {
+    try {
+      await this.transport.close();
+      this.logger.debug(`Closed ${this.transport.uri}`);
+    } catch (error) {
+      this.logger.error(`Could not close ${this.transport.uri}`, error as Error);
     }
   }
 }
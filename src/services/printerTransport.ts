@@ -0,0 +1,575 @@
+import { SerialPort } from "serialport";
+import fs from "fs/promises";
+import net from "node:net";
+import { PrinterProfile } from "../types/index.js";
+import { PrinterEmulator, EmulatorSession } from "./printerEmulator.js";
+import { ProfileService } from "./profileService.js";
+
+/**
+ * Bare device names matching this are serial ports unless the profile
+ * gives its own connection.serialPattern
+ */
+const DEFAULT_SERIAL_PATTERN = "^COM\\d+$";
+
+export const DEFAULT_RAW_TCP_PORT = 9100;
+
+/**
+ * Byte pipe to a printer. Writes resolve once the data was handed to the
+ * OS; drain() waits until it actually left.
+ */
+export interface PrinterTransport {
+  /** the device as a URI, for logs ("tcp://10.0.0.5:9100") */
+  readonly uri: string;
+  readonly isOpen: boolean;
+  /** whether read() can get answers from the printer */
+  readonly readable: boolean;
+  open(): Promise<void>;
+  write(data: Uint8Array | number[]): Promise<void>;
+  drain(): Promise<void>;
+  /**
+   * Next chunk the printer sent (data received since open is kept until
+   * read). With timeoutMs, rejects with code ETIMEDOUT if nothing arrives.
+   */
+  read(timeoutMs?: number): Promise<Buffer>;
+  /** drops data received but not read yet (a late or unread answer) */
+  discard(): void;
+  close(): Promise<void>;
+}
+
+export type TransportKind = "serial" | "file" | "tcp" | "memory" | "emulator";
+
+export interface DeviceAddress {
+  kind: TransportKind;
+  /** serial port or file path, host for tcp, name for memory, profile id for emulator */
+  path: string;
+  /** tcp only */
+  port?: number;
+  /** serial only, from ?baud= */
+  baudRate?: number;
+  /** emulator only, from ?out= */
+  outDir?: string;
+}
+
+export interface TransportOptions {
+  /** serial speed when the URI has no ?baud= */
+  baudRate?: number;
+  /** which bare device names are serial ports (profile connection.serialPattern) */
+  serialPattern?: string;
+  /** how long to wait for a tcp connection (default 5000 ms) */
+  connectTimeoutMs?: number;
+  /** profile an emulator:// device emulates when the URI names none */
+  profile?: PrinterProfile;
+}
+
+/**
+ * Raised for bad device URIs and I/O on a closed transport. code mirrors
+ * Node's errno codes where one applies, so transient failures are retried.
+ */
+export class TransportError extends Error {
+  readonly code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = "TransportError";
+    this.code = code;
+  }
+}
+
+/**
+ * Reads a device string:
+ *
+ *   serial:///dev/ttyUSB0  serial://COM3?baud=115200
+ *   tcp://192.168.1.50     tcp://printer.lan:9101
+ *   file:///dev/usb/lp0    memory://test
+ *   emulator://makeid-l1?out=labels
+ *
+ * A bare name keeps working: serial if it matches serialPattern, else a device file.
+ */
+export function parseDeviceUri(device: string, serialPattern = DEFAULT_SERIAL_PATTERN): DeviceAddress {
+  const scheme = /^([a-z]+):\/\//i.exec(device);
+  if (!scheme) {
+    if (!device) {
+      throw new TransportError("Empty printer device");
+    }
+    return new RegExp(serialPattern).test(device)
+      ? { kind: "serial", path: device }
+      : { kind: "file", path: device };
+  }
+
+  const rest = device.slice(scheme[0].length);
+  switch (scheme[1].toLowerCase()) {
+    case "serial": {
+      const [path, query = ""] = rest.split("?");
+      const baud = new URLSearchParams(query).get("baud");
+      if (!path || (baud !== null && !(Number(baud) > 0))) {
+        throw new TransportError(`Invalid serial device "${device}" (serial:///dev/ttyUSB0 or serial://COM3?baud=57600)`);
+      }
+      return { kind: "serial", path, ...(baud !== null && { baudRate: Number(baud) }) };
+    }
+    case "file":
+      if (!rest) {
+        throw new TransportError(`Invalid device file "${device}" (file:///dev/usb/lp0)`);
+      }
+      return { kind: "file", path: rest };
+    case "tcp": {
+      // [v6]:port, host:port or host
+      const match = /^(\[[^\]]+\]|[^:/?]+)(?::(\d+))?\/?$/.exec(rest);
+      if (!match) {
+        throw new TransportError(`Invalid network printer "${device}" (tcp://host:9100)`);
+      }
+      return {
+        kind: "tcp",
+        path: match[1].replace(/^\[|\]$/g, ""),
+        port: match[2] ? Number(match[2]) : DEFAULT_RAW_TCP_PORT,
+      };
+    }
+    case "memory":
+      return { kind: "memory", path: rest };
+    case "emulator": {
+      const [path, query = ""] = rest.split("?");
+      const outDir = new URLSearchParams(query).get("out");
+      return { kind: "emulator", path: path.replace(/\/$/, ""), ...(outDir && { outDir }) };
+    }
+    default:
+      throw new TransportError(`Unknown printer device scheme "${scheme[1]}:" (serial, file, tcp, memory or emulator)`);
+  }
+}
+
+/**
+ * Transport for a device string (see parseDeviceUri)
+ */
+export function createTransport(device: string, options: TransportOptions = {}): PrinterTransport {
+  const address = parseDeviceUri(device, options.serialPattern);
+  switch (address.kind) {
+    case "serial":
+      return new SerialTransport(address.path, address.baudRate ?? options.baudRate ?? 57600);
+    case "file":
+      return new DeviceFileTransport(address.path);
+    case "tcp":
+      return new TcpRawTransport(address.path, address.port, options.connectTimeoutMs);
+    case "memory":
+      return new MemoryTransport(address.path);
+    case "emulator": {
+      const profile = address.path ? new ProfileService().loadProfile(address.path) : options.profile;
+      if (!profile) {
+        throw new TransportError(`${device} needs a printer profile (emulator://makeid-l1)`);
+      }
+      return new EmulatorTransport(new PrinterEmulator(profile, { outDir: address.outDir }));
+    }
+  }
+}
+
+/**
+ * Data received from the printer, queued until read() asks for it
+ */
+class IncomingData {
+  private readonly chunks: Buffer[] = [];
+  private readonly waiting: { resolve: (data: Buffer) => void; reject: (error: Error) => void }[] = [];
+
+  push(data: Buffer): void {
+    const reader = this.waiting.shift();
+    if (reader) {
+      reader.resolve(data);
+    } else {
+      this.chunks.push(data);
+    }
+  }
+
+  next(uri: string, timeoutMs?: number): Promise<Buffer> {
+    const data = this.chunks.shift();
+    if (data) {
+      return Promise.resolve(data);
+    }
+    return new Promise((resolve, reject) => {
+      if (timeoutMs === undefined) {
+        this.waiting.push({ resolve, reject });
+        return;
+      }
+      const reader = {
+        resolve: (data: Buffer) => {
+          clearTimeout(timer);
+          resolve(data);
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiting.splice(this.waiting.indexOf(reader), 1);
+        reject(new TransportError(`No answer from ${uri} within ${timeoutMs} ms`, "ETIMEDOUT"));
+      }, timeoutMs);
+      this.waiting.push(reader);
+    });
+  }
+
+  clear(): void {
+    this.chunks.length = 0;
+  }
+
+  /** rejects pending reads (the connection went away) and drops unread data */
+  fail(error: Error): void {
+    this.chunks.length = 0;
+    for (const reader of this.waiting.splice(0)) {
+      reader.reject(error);
+    }
+  }
+}
+
+const notOpen = (uri: string): TransportError => new TransportError(`Printer port is not open (${uri})`, "EPIPE");
+
+/**
+ * Serial / USB-serial port (COM3, /dev/ttyUSB0, /dev/cu.*)
+ */
+export class SerialTransport implements PrinterTransport {
+  readonly readable = true;
+  private readonly path: string;
+  private readonly baudRate: number;
+  private readonly incoming = new IncomingData();
+  private port?: SerialPort;
+
+  constructor(path: string, baudRate = 57600) {
+    this.path = path;
+    this.baudRate = baudRate;
+  }
+
+  get uri(): string {
+    return `serial://${this.path}?baud=${this.baudRate}`;
+  }
+
+  get isOpen(): boolean {
+    return this.port?.isOpen ?? false;
+  }
+
+  async open(): Promise<void> {
+    if (this.isOpen) {
+      return;
+    }
+    const port = new SerialPort({ path: this.path, baudRate: this.baudRate, autoOpen: false });
+    port.on("data", (data: Buffer) => this.incoming.push(data));
+    port.on("close", () => this.incoming.fail(notOpen(this.uri)));
+    // Errors reach the callers through the callbacks below
+    port.on("error", () => undefined);
+    await new Promise<void>((resolve, reject) => port.open((error) => (error ? reject(error) : resolve())));
+    this.port = port;
+  }
+
+  async write(data: Uint8Array | number[]): Promise<void> {
+    const port = this.openPort();
+    await new Promise<void>((resolve, reject) =>
+      port.write(Buffer.from(data), (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  async drain(): Promise<void> {
+    const port = this.openPort();
+    await new Promise<void>((resolve, reject) => port.drain((error) => (error ? reject(error) : resolve())));
+  }
+
+  async read(timeoutMs?: number): Promise<Buffer> {
+    this.openPort();
+    return this.incoming.next(this.uri, timeoutMs);
+  }
+
+  discard(): void {
+    this.incoming.clear();
+  }
+
+  async close(): Promise<void> {
+    const port = this.port;
+    this.port = undefined;
+    if (port?.isOpen) {
+      await new Promise<void>((resolve) => port.close(() => resolve()));
+    }
+  }
+
+  private openPort(): SerialPort {
+    if (!this.port?.isOpen) {
+      throw notOpen(this.uri);
+    }
+    return this.port;
+  }
+}
+
+/**
+ * Printer exposed as a device file (Linux usblp /dev/usb/lp0), written to
+ * directly. Any other path works too, which is handy to capture payloads.
+ */
+export class DeviceFileTransport implements PrinterTransport {
+  readonly readable = false;
+  private readonly path: string;
+  private handle?: fs.FileHandle;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  get uri(): string {
+    return `file://${this.path}`;
+  }
+
+  get isOpen(): boolean {
+    return this.handle !== undefined;
+  }
+
+  async open(): Promise<void> {
+    this.handle ??= await fs.open(this.path, "w");
+  }
+
+  async write(data: Uint8Array | number[]): Promise<void> {
+    if (!this.handle) {
+      throw notOpen(this.uri);
+    }
+    await this.handle.write(Buffer.from(data));
+  }
+
+  async drain(): Promise<void> {
+    // Writes are unbuffered: each one already reached the driver
+  }
+
+  async read(): Promise<Buffer> {
+    throw new TransportError(`Reading is not supported on ${this.uri}`);
+  }
+
+  discard(): void {
+    // Nothing is ever read
+  }
+
+  async close(): Promise<void> {
+    const handle = this.handle;
+    this.handle = undefined;
+    await handle?.close();
+  }
+}
+
+/**
+ * Network printer taking raw print data on a TCP port (JetDirect / 9100)
+ */
+export class TcpRawTransport implements PrinterTransport {
+  readonly readable = true;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly connectTimeoutMs: number;
+  private readonly incoming = new IncomingData();
+  private socket?: net.Socket;
+
+  constructor(host: string, port = DEFAULT_RAW_TCP_PORT, connectTimeoutMs = 5000) {
+    this.host = host;
+    this.port = port;
+    this.connectTimeoutMs = connectTimeoutMs;
+  }
+
+  get uri(): string {
+    return `tcp://${this.host.includes(":") ? `[${this.host}]` : this.host}:${this.port}`;
+  }
+
+  get isOpen(): boolean {
+    return this.socket !== undefined && !this.socket.destroyed;
+  }
+
+  async open(): Promise<void> {
+    if (this.isOpen) {
+      return;
+    }
+    const socket = net.connect({ host: this.host, port: this.port });
+    await new Promise<void>((resolve, reject) => {
+      const failed = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        socket.destroy();
+        failed(new TransportError(`Timed out connecting to ${this.uri}`, "ETIMEDOUT"));
+      }, this.connectTimeoutMs);
+      socket.once("error", failed);
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        socket.off("error", failed);
+        resolve();
+      });
+    });
+
+    socket.on("data", (data: Buffer) => this.incoming.push(data));
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      this.incoming.fail(notOpen(this.uri));
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+    this.socket = socket;
+  }
+
+  async write(data: Uint8Array | number[]): Promise<void> {
+    const socket = this.openSocket();
+    await new Promise<void>((resolve, reject) =>
+      socket.write(Buffer.from(data), (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  async drain(): Promise<void> {
+    const socket = this.openSocket();
+    if (socket.writableNeedDrain) {
+      await new Promise<void>((resolve) => socket.once("drain", resolve));
+    }
+  }
+
+  async read(timeoutMs?: number): Promise<Buffer> {
+    this.openSocket();
+    return this.incoming.next(this.uri, timeoutMs);
+  }
+
+  discard(): void {
+    this.incoming.clear();
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket && !socket.destroyed) {
+      await new Promise<void>((resolve) => socket.end(resolve));
+      socket.destroy();
+    }
+  }
+
+  private openSocket(): net.Socket {
+    if (!this.socket || this.socket.destroyed) {
+      throw notOpen(this.uri);
+    }
+    return this.socket;
+  }
+}
+
+/**
+ * In-memory printer for tests and dry runs: keeps everything written and
+ * answers with whatever respond() returns for each write
+ */
+export class MemoryTransport implements PrinterTransport {
+  readonly readable = true;
+  readonly name: string;
+  /** every write, in order */
+  readonly writes: Buffer[] = [];
+  /** printer answer to a write (firmware version, status...), if any */
+  respond?: (data: Buffer) => Uint8Array | string | undefined;
+  private readonly incoming = new IncomingData();
+  private opened = false;
+  private failure?: Error;
+
+  constructor(name = "", respond?: (data: Buffer) => Uint8Array | string | undefined) {
+    this.name = name;
+    this.respond = respond;
+  }
+
+  get uri(): string {
+    return `memory://${this.name}`;
+  }
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  /** everything written so far as one buffer */
+  get data(): Buffer {
+    return Buffer.concat(this.writes);
+  }
+
+  /** makes the next write fail with error (simulates a busy or unplugged printer) */
+  failNextWrite(error: Error): void {
+    this.failure = error;
+  }
+
+  async open(): Promise<void> {
+    this.opened = true;
+  }
+
+  async write(data: Uint8Array | number[]): Promise<void> {
+    if (!this.opened) {
+      throw notOpen(this.uri);
+    }
+    if (this.failure) {
+      const error = this.failure;
+      this.failure = undefined;
+      throw error;
+    }
+    const buffer = Buffer.from(data);
+    this.writes.push(buffer);
+    const answer = this.respond?.(buffer);
+    if (answer !== undefined) {
+      this.incoming.push(Buffer.from(answer));
+    }
+  }
+
+  async drain(): Promise<void> {}
+
+  read(timeoutMs?: number): Promise<Buffer> {
+    if (!this.opened) {
+      return Promise.reject(notOpen(this.uri));
+    }
+    return this.incoming.next(this.uri, timeoutMs);
+  }
+
+  discard(): void {
+    this.incoming.clear();
+  }
+
+  async close(): Promise<void> {
+    this.opened = false;
+    this.incoming.fail(notOpen(this.uri));
+  }
+}
+
+/**
+ * In-process printer emulator: bytes go to a PrinterEmulator, which rebuilds
+ * the labels and answers firmware requests. Closing emits the last label.
+ */
+export class EmulatorTransport implements PrinterTransport {
+  readonly readable = true;
+  readonly emulator: PrinterEmulator;
+  private readonly incoming = new IncomingData();
+  private session?: EmulatorSession;
+
+  constructor(emulator: PrinterEmulator) {
+    this.emulator = emulator;
+  }
+
+  get uri(): string {
+    return `emulator://${this.emulator.profile.id}`;
+  }
+
+  get isOpen(): boolean {
+    return this.session !== undefined;
+  }
+
+  async open(): Promise<void> {
+    this.session ??= this.emulator.openSession((data) => this.incoming.push(data));
+  }
+
+  async write(data: Uint8Array | number[]): Promise<void> {
+    if (!this.session) {
+      throw notOpen(this.uri);
+    }
+    this.session.receive(Uint8Array.from(data));
+  }
+
+  async drain(): Promise<void> {}
+
+  async read(timeoutMs?: number): Promise<Buffer> {
+    if (!this.session) {
+      throw notOpen(this.uri);
+    }
+    return this.incoming.next(this.uri, timeoutMs);
+  }
+
+  discard(): void {
+    this.incoming.clear();
+  }
+
+  async close(): Promise<void> {
+    const session = this.session;
+    this.session = undefined;
+    this.incoming.fail(notOpen(this.uri));
+    if (session) {
+      this.emulator.endSession(session);
+    }
+  }
+}
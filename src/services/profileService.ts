@@ -0,0 +1,129 @@
+import { PrinterProfile } from "../types/index.js";
+import { findStock, stockMedia } from "../utils/labelMedia.js";
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+/**
+ * Bundled printer profiles (printers/*.json at the package root)
+ */
+const PRINTERS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "..",
+  "printers"
+);
+
+const HEADER_FORMATS = ["heightBytesBE-widthPxBE", "widthBytesLE-heightDotsLE"];
+const ORIENTATIONS = ["column-major", "row-major"];
+const STATUS_FLAGS = ["offline", "coverOpen", "paperOut", "paperNearEnd", "busy", "error"];
+
+/**
+ * Service for loading and validating printer profiles.
+ *
+ * Profiles are read synchronously: they are configuration, needed before
+ * the image processor and the printer connection can be created.
+ */
+export class ProfileService {
+  private readonly printersDir: string;
+
+  constructor(printersDir: string = PRINTERS_DIR) {
+    this.printersDir = printersDir;
+  }
+
+  /**
+   * Load a profile by id (e.g. "makeid-l1") or by path to a .json file
+   */
+  loadProfile(idOrPath: string): PrinterProfile {
+    const profilePath = idOrPath.endsWith(".json")
+      ? idOrPath
+      : path.join(this.printersDir, `${idOrPath}.json`);
+
+    try {
+      const profile = JSON.parse(readFileSync(profilePath, "utf-8"));
+      return this.validateProfile(profile);
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        throw new Error(
+          `Printer profile "${idOrPath}" not found. Available profiles: ${this.listProfiles().join(", ")}`
+        );
+      }
+      throw new Error(`Failed to load printer profile "${idOrPath}": ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List the ids of the profiles available in the printers directory
+   */
+  listProfiles(): string[] {
+    try {
+      return readdirSync(this.printersDir)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => path.basename(file, ".json"));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Validate profile object structure
+   */
+  validateProfile(profile: any): PrinterProfile {
+    if (!profile || typeof profile !== "object") {
+      throw new Error("Profile must be a valid object");
+    }
+    if (!profile.id || typeof profile.id !== "string") {
+      throw new Error("Profile must have an id property");
+    }
+    if (typeof profile.dpi !== "number" || profile.dpi <= 0) {
+      throw new Error(`Profile "${profile.id}" must have a positive dpi`);
+    }
+    if (!HEADER_FORMATS.includes(profile.protocol?.gsV0?.headerFormat)) {
+      throw new Error(
+        `Profile "${profile.id}" has an unknown GS v 0 headerFormat: ${profile.protocol?.gsV0?.headerFormat}`
+      );
+    }
+    if (!ORIENTATIONS.includes(profile.raster?.orientation)) {
+      throw new Error(
+        `Profile "${profile.id}" has an unknown raster orientation: ${profile.raster?.orientation}`
+      );
+    }
+    if (!Array.isArray(profile.media?.paperTypes) || profile.media.paperTypes.length === 0) {
+      throw new Error(`Profile "${profile.id}" must declare media.paperTypes`);
+    }
+    const maxLengthPx = profile.media.continuous?.maxLengthPx;
+    if (maxLengthPx !== undefined && !(Number.isInteger(maxLengthPx) && maxLengthPx > 0)) {
+      throw new Error(`Profile "${profile.id}" media.continuous.maxLengthPx must be a positive number of dots`);
+    }
+    if (profile.media.stocks !== undefined && !Array.isArray(profile.media.stocks)) {
+      throw new Error(`Profile "${profile.id}" media.stocks must be a list of label stocks`);
+    }
+    const stockIds = new Set<string>();
+    for (const stock of profile.media.stocks ?? []) {
+      if (!stock?.id || typeof stock.id !== "string" || stockIds.has(stock.id)) {
+        throw new Error(`Profile "${profile.id}" has a label stock without an id or with a repeated one: ${stock?.id}`);
+      }
+      stockIds.add(stock.id);
+      // Sizes, margins and paper type, converted at the profile DPI
+      stockMedia(profile, stock);
+    }
+    if (profile.media.defaultStock !== undefined) {
+      findStock(profile, profile.media.defaultStock);
+    }
+    const status = profile.protocol.status;
+    if (status) {
+      const isByte = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 255;
+      if (!Array.isArray(status.request) || status.request.length === 0 || !status.request.every(isByte)) {
+        throw new Error(`Profile "${profile.id}" protocol.status.request must be a list of bytes`);
+      }
+      for (const [flag, mask] of Object.entries(status.flags ?? {})) {
+        if (!STATUS_FLAGS.includes(flag) || !isByte(mask) || mask === 0) {
+          throw new Error(
+            `Profile "${profile.id}" has an invalid status flag "${flag}": ${mask} (flags: ${STATUS_FLAGS.join(", ")}; masks 1-255)`
+          );
+        }
+      }
+    }
+    return profile as PrinterProfile;
+  }
+}
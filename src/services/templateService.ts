@@ -1,30 +1,119 @@
-import { RenderTemplate } from "../types/index.js";
+import {
+  IncludeElement,
+  LengthUnit,
+  Position,
+  RenderTemplate,
+  SlotElement,
+  TemplateDefinition,
+  TemplateElement,
+  TemplateFont,
+  TemplatePartial,
+  TemplateValue,
+} from "../types/index.js";
+import { TemplateValidationError, validateTemplate } from "../utils/templateValidator.js";
+import { suggest } from "../utils/jsonSchema.js";
+import { UnitsError, addLengths, withExplicitUnits } from "../utils/units.js";
 import fs from "fs/promises";
 import path from "path";
 
 /**
- * Service for loading and validating templates
+ * Partials live next to the templates: templates/partials/<name>.json
+ */
+const PARTIALS_DIR = "partials";
+
+/**
+ * Element properties holding coordinates, shifted by an include offset
+ */
+const COORDINATE_KEYS = ["position", "start", "end", "center", "bounds", "pivot"] as const;
+
+const PARAM_REFERENCE = /\$\{(\w+)\}/g;
+
+/**
+ * File name a request template is resolved under, in the templates directory
+ */
+const REQUEST_FILE = "<request>.json";
+
+/**
+ * Raised when extends/slots/partials cannot be resolved: missing parent or
+ * partial, inheritance or include cycle, unknown slot or parameter
+ */
+export class TemplateCompositionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateCompositionError";
+  }
+}
+
+const isSlot = (element: TemplateElement): element is SlotElement => element.type === "slot";
+const isInclude = (element: TemplateElement): element is IncludeElement => element.type === "include";
+
+const displayPath = (file: string): string => path.relative(process.cwd(), file) || file;
+
+const sameUnits = (a?: LengthUnit, b?: LengthUnit): boolean => (a ?? "px") === (b ?? "px");
+
+const didYouMean = (word: string, candidates: string[]): string => {
+  const suggestion = suggest(word, candidates);
+  return suggestion ? ` (did you mean "${suggestion}"?)` : "";
+};
+
+/**
+ * Service for loading, composing and validating templates.
+ *
+ * Composition happens before validation:
+ *   - "extends": "<name or path.json>" inherits the parent's elements, then
+ *     appends its own; dimensions/defaultFont are merged key by key and
+ *     its fonts are added to the parent's.
+ *   - { "type": "slot", "name": ... } in a parent is replaced by the child's
+ *     "slots"[name] (or by the slot's own default elements).
+ *   - { "type": "include", "partial": ..., "params": {...}, "offset": {x, y} }
+ *     inlines templates/partials/<name>.json, replacing ${param} references.
+ * Plain numbers are in the "units" of the file they come from (inherited
+ * from the parent or the including file): when two files differ, the
+ * numbers of the one being merged in get their unit written out ("12mm").
+ * Names resolve against the template's directory (templates/ for objects);
+ * "*.json" paths, font src and image src are relative to the file that
+ * uses them.
  */
 export class TemplateService {
+  private readonly templatesDir: string;
+
+  constructor(templatesDir: string = "templates") {
+    this.templatesDir = templatesDir;
+  }
+
   /**
    * Load template by name from templates directory
    */
   async loadTemplate(templateName: string): Promise<RenderTemplate> {
+    const templatePath = path.join(this.templatesDir, `${templateName}.json`);
     try {
-      const templatePath = path.join("templates", `${templateName}.json`);
       const templateContent = await fs.readFile(templatePath, "utf-8");
       const template = JSON.parse(templateContent);
-      return this.validateTemplate(template);
+      return await this.resolveTemplate(template, `Template "${templateName}"`, templatePath);
     } catch (error) {
       if ((error as any).code === "ENOENT") {
         throw new Error(
           `Template "${templateName}" not found. Available templates: labeled-lines, debug-stripes, simple-text, measurement-grid`
         );
       }
+      if (error instanceof TemplateValidationError || error instanceof TemplateCompositionError) {
+        throw error;
+      }
       throw new Error(`Failed to load template "${templateName}": ${error}`);
     }
   }
 
+  /**
+   * Names of the templates in the templates directory (partials excluded)
+   */
+  async listTemplates(): Promise<string[]> {
+    const entries = await fs.readdir(this.templatesDir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+      .map((entry) => path.basename(entry.name, ".json"))
+      .sort();
+  }
+
   /**
    * Load template from file path
    */
@@ -32,28 +121,382 @@ export class TemplateService {
     try {
       const templateContent = await fs.readFile(filePath, "utf-8");
       const template = JSON.parse(templateContent);
-      return this.validateTemplate(template);
+      return await this.resolveTemplate(template, `Template file "${filePath}"`, filePath);
     } catch (error) {
       if ((error as any).code === "ENOENT") {
         throw new Error(`Template file "${filePath}" not found`);
       }
+      if (error instanceof TemplateValidationError || error instanceof TemplateCompositionError) {
+        throw error;
+      }
       throw new Error(`Failed to load template from file "${filePath}": ${error}`);
     }
   }
 
   /**
-   * Validate template object structure
+   * Validates a template definition, resolves extends/slots/partials and
+   * validates the result. filePath anchors relative parent and partial names.
    */
-  validateTemplate(template: any): RenderTemplate {
-    if (!template || typeof template !== 'object') {
-      throw new Error('Template must be a valid object');
+  async resolveTemplate(template: unknown, source = "Template", filePath?: string): Promise<RenderTemplate> {
+    this.validateTemplate(template, source);
+
+    const file = filePath ? path.resolve(filePath) : undefined;
+    const composed = await this.compose(template as TemplateDefinition, file, file ? [file] : []);
+    const resolved = { ...composed, elements: this.applySlotDefaults(composed.elements ?? []) };
+    delete resolved.extends;
+    delete resolved.slots;
+
+    return this.validateTemplate(resolved, `${source} (after extends/partials)`);
+  }
+
+  /**
+   * Resolves a template from outside the tree (a request body) as if it were
+   * a file in the templates directory, refusing every file it names outside
+   * that directory: parent, partials, fonts and images. Images may also be
+   * data URIs; an expression anywhere else in an image src could name any
+   * file, so it is refused too.
+   */
+  async resolveRequestTemplate(template: unknown, source = "Template"): Promise<RenderTemplate> {
+    this.validateTemplate(template, source);
+    const root = path.resolve(this.templatesDir);
+    const definition = template as TemplateDefinition;
+
+    // Parents and partials are read while composing: check them first
+    const partialsDir = path.join(root, PARTIALS_DIR);
+    const references = (elements: TemplateElement[]): string[] => elements.flatMap((element) => {
+      if (isSlot(element)) {
+        return references(element.elements ?? []);
+      }
+      return isInclude(element) ? [this.locate(element.partial, partialsDir, root)] : [];
+    });
+    const files = [
+      ...(definition.extends ? [this.locate(definition.extends, root)] : []),
+      ...references(definition.elements ?? []),
+      ...Object.values(definition.slots ?? {}).flatMap(references),
+    ];
+    for (const file of files) {
+      this.confine(file, root, source);
     }
-    if (!template.name || typeof template.name !== 'string') {
-      throw new Error('Template must have a name property');
+
+    const resolved = await this.resolveTemplate(template, source, path.join(root, REQUEST_FILE));
+    for (const font of resolved.fonts ?? []) {
+      this.confine(font.src, root, source);
     }
-    if (!Array.isArray(template.elements)) {
-      throw new Error('Template must have an elements array');
+    for (const element of resolved.elements) {
+      if (element.type === "image" && !element.src.trim().startsWith("data:")) {
+        if (element.src.includes("{{")) {
+          throw new TemplateCompositionError(
+            `${source} uses an expression in image src "${element.src}": only data URIs may, files must be named as they are`
+          );
+        }
+        this.confine(element.src, root, source);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Validate a template against schema/template.schema.json.
+   * Throws a TemplateValidationError listing every issue with its JSON pointer.
+   */
+  validateTemplate(template: unknown, source = "Template"): RenderTemplate {
+    const { valid, issues } = validateTemplate(template);
+    if (!valid) {
+      throw new TemplateValidationError(issues, source);
     }
     return template as RenderTemplate;
   }
+
+  /**
+   * Resolves one level of inheritance. Unfilled slots are kept so that
+   * templates further down the chain can still fill them.
+   */
+  private async compose(definition: TemplateDefinition, file: string | undefined, chain: string[]): Promise<TemplateDefinition> {
+    const baseDir = file ? path.dirname(file) : this.templatesDir;
+    const { extends: parentRef, slots, $schema, ...own } = definition;
+
+    let base: TemplateDefinition = { name: own.name, elements: [] };
+    if (parentRef) {
+      const parentFile = this.locate(parentRef, baseDir);
+      if (chain.includes(parentFile)) {
+        const cycle = [...chain, parentFile].map(displayPath).join(" -> ");
+        throw new TemplateCompositionError(`Template inheritance cycle: ${cycle}`);
+      }
+      const parent = await this.readJson(
+        parentFile,
+        `Template "${definition.name}" extends "${parentRef}"`
+      ) as TemplateDefinition;
+      this.validateTemplate(parent, `Parent template "${displayPath(parentFile)}"`);
+      base = await this.compose(parent, parentFile, [...chain, parentFile]);
+    } else if (slots) {
+      throw new TemplateCompositionError(
+        `Template "${definition.name}" fills slots but does not extend a template`
+      );
+    }
+
+    const units = own.units ?? base.units;
+    if (!sameUnits(base.units, units)) {
+      base = withExplicitUnits(base, base.units);
+    }
+
+    const ownSlots = Object.fromEntries(
+      Object.entries(slots ?? {}).map(([name, content]) => [name, this.locateImages(content, file)])
+    );
+    const inherited = await this.fillSlots(base.elements ?? [], ownSlots, baseDir, definition.name, units);
+    const ownElements = this.locateImages(own.elements ?? [], file);
+    const elements = [...inherited, ...(await this.expandIncludes(ownElements, baseDir, [], baseDir, units))];
+
+    const merged: TemplateDefinition = { ...base, ...own, elements };
+    if (base.dimensions || own.dimensions) {
+      merged.dimensions = { ...base.dimensions, ...own.dimensions };
+    }
+    if (base.defaultFont || own.defaultFont) {
+      merged.defaultFont = { ...base.defaultFont, ...own.defaultFont };
+    }
+    if (base.fonts || own.fonts) {
+      merged.fonts = [...(base.fonts ?? []), ...this.locateFonts(own.fonts ?? [], file)];
+    }
+    return merged;
+  }
+
+  /**
+   * Template fonts with their src relative to the file declaring them
+   * (templates given as objects keep theirs, relative to the working directory)
+   */
+  private locateFonts(fonts: TemplateFont[], file: string | undefined): TemplateFont[] {
+    return file ? fonts.map((font) => ({ ...font, src: path.resolve(path.dirname(file), font.src) })) : fonts;
+  }
+
+  /**
+   * Image elements (slot defaults included) with their src relative to the
+   * file declaring them, like fonts. Data URIs, URLs, absolute paths and a
+   * src starting with an expression (the variable gives the whole path) are
+   * kept as they are; so are templates given as objects.
+   */
+  private locateImages(elements: TemplateElement[], file: string | undefined): TemplateElement[] {
+    if (!file) {
+      return elements;
+    }
+    return elements.map((element) => {
+      if (isSlot(element)) {
+        return element.elements ? { ...element, elements: this.locateImages(element.elements, file) } : element;
+      }
+      if (element.type !== "image" || /^(data:|https?:\/\/|\{\{)/.test(element.src.trim()) || path.isAbsolute(element.src)) {
+        return element;
+      }
+      // Expressions are joined, not normalized, so a "/" or ".." inside {{ }} survives
+      const dir = path.dirname(file);
+      return { ...element, src: element.src.includes("{{") ? `${dir}${path.sep}${element.src}` : path.resolve(dir, element.src) };
+    });
+  }
+
+  /**
+   * Replaces the parent's slots with the child's content for them
+   */
+  private async fillSlots(
+    elements: TemplateElement[],
+    slots: Record<string, TemplateElement[]>,
+    baseDir: string,
+    templateName: string,
+    units?: LengthUnit
+  ): Promise<TemplateElement[]> {
+    const available = elements.filter(isSlot).map((slot) => slot.name);
+    for (const name of Object.keys(slots)) {
+      if (!available.includes(name)) {
+        throw new TemplateCompositionError(
+          `Template "${templateName}" fills slot "${name}" but its parent has no such slot${didYouMean(name, available)}. `
+          + `Available slots: ${available.join(", ") || "none"}`
+        );
+      }
+    }
+
+    const filled: TemplateElement[] = [];
+    for (const element of elements) {
+      if (isSlot(element) && slots[element.name]) {
+        filled.push(...(await this.expandIncludes(slots[element.name], baseDir, [], baseDir, units)));
+      } else {
+        filled.push(element);
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * Inlines partials (recursively) and the partials used by slot defaults.
+   * relativeTo is the directory of the file the elements come from, units
+   * the unit of their plain numbers.
+   */
+  private async expandIncludes(
+    elements: TemplateElement[],
+    baseDir: string,
+    chain: string[],
+    relativeTo: string = baseDir,
+    units?: LengthUnit
+  ): Promise<TemplateElement[]> {
+    const expanded: TemplateElement[] = [];
+
+    for (const element of elements) {
+      if (isSlot(element)) {
+        expanded.push(element.elements
+          ? { ...element, elements: await this.expandIncludes(element.elements, baseDir, chain, relativeTo, units) }
+          : element);
+        continue;
+      }
+      if (!isInclude(element)) {
+        expanded.push(element);
+        continue;
+      }
+
+      const partialFile = this.locate(element.partial, path.join(baseDir, PARTIALS_DIR), relativeTo);
+      if (chain.includes(partialFile)) {
+        const cycle = [...chain, partialFile].map(displayPath).join(" -> ");
+        throw new TemplateCompositionError(`Partial include cycle: ${cycle}`);
+      }
+      const partial = await this.readJson(partialFile, `Partial "${element.partial}"`) as TemplatePartial;
+      if (!Array.isArray(partial.elements)) {
+        throw new TemplateCompositionError(`Partial "${displayPath(partialFile)}" must have an elements array`);
+      }
+
+      const params = this.partialParams(partial, element, partialFile);
+      const partialUnits = partial.units ?? units;
+      const inlined = this.locateImages(
+        this.substituteParams(partial.elements, params, element.partial) as TemplateElement[],
+        partialFile
+      );
+      let children = await this.expandIncludes(inlined, baseDir, [...chain, partialFile], path.dirname(partialFile), partialUnits);
+      if (!sameUnits(partialUnits, units)) {
+        children = withExplicitUnits({ elements: children }, partialUnits).elements;
+      }
+      if (element.offset) {
+        const offset = element.offset;
+        try {
+          children = children.map((child) => this.translate(child, offset, units));
+        } catch (error) {
+          if (error instanceof UnitsError) {
+            throw new TemplateCompositionError(`Partial "${element.partial}" cannot be offset: ${error.message}`);
+          }
+          throw error;
+        }
+      }
+      expanded.push(...children);
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Partial defaults overridden by the include's params; a param the partial
+   * neither declares nor references is most likely a typo
+   */
+  private partialParams(partial: TemplatePartial, include: IncludeElement, partialFile: string): Record<string, TemplateValue> {
+    const referenced = new Set(
+      Array.from(JSON.stringify(partial.elements).matchAll(PARAM_REFERENCE), (match) => match[1])
+    );
+    const known = [...new Set([...Object.keys(partial.params ?? {}), ...referenced])];
+
+    for (const name of Object.keys(include.params ?? {})) {
+      if (!known.includes(name)) {
+        throw new TemplateCompositionError(
+          `Partial "${include.partial}" (${displayPath(partialFile)}) has no parameter "${name}"${didYouMean(name, known)}. `
+          + `Parameters: ${known.join(", ") || "none"}`
+        );
+      }
+    }
+    return { ...partial.params, ...include.params };
+  }
+
+  /**
+   * Replaces ${param} in every string. A string that is exactly "${param}"
+   * takes the parameter's value with its type (numbers stay numbers), and a
+   * property whose value resolves to null is left out (optional params).
+   */
+  private substituteParams(value: unknown, params: Record<string, TemplateValue>, partialName: string): unknown {
+    const lookup = (name: string): TemplateValue => {
+      if (!(name in params)) {
+        throw new TemplateCompositionError(
+          `Partial "${partialName}" uses \${${name}} but no value was given (add it to "params")`
+        );
+      }
+      return params[name];
+    };
+
+    if (typeof value === "string") {
+      const whole = /^\$\{(\w+)\}$/.exec(value);
+      return whole ? lookup(whole[1]) : value.replace(PARAM_REFERENCE, (_, name: string) => String(lookup(name)));
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.substituteParams(item, params, partialName));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value)
+          .map(([key, item]) => [key, this.substituteParams(item, params, partialName)])
+          .filter(([, item]) => item !== null)
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Shifts every coordinate of an element (and of slot defaults inside it).
+   * Plain numbers are in units.
+   */
+  private translate(element: TemplateElement, offset: Position, units?: LengthUnit): TemplateElement {
+    const moved: Record<string, any> = { ...element };
+    for (const key of COORDINATE_KEYS) {
+      const point = moved[key];
+      if (point && point.x !== undefined && point.y !== undefined) {
+        moved[key] = { ...point, x: addLengths(point.x, offset.x, units), y: addLengths(point.y, offset.y, units) };
+      }
+    }
+    if (isSlot(element) && element.elements) {
+      moved.elements = element.elements.map((child) => this.translate(child, offset, units));
+    }
+    return moved as TemplateElement;
+  }
+
+  /**
+   * Slots nobody filled fall back to their default content
+   */
+  private applySlotDefaults(elements: TemplateElement[]): TemplateElement[] {
+    return elements.flatMap((element) =>
+      isSlot(element) ? this.applySlotDefaults(element.elements ?? []) : [element]
+    );
+  }
+
+  /**
+   * Refuses a file outside dir (request templates)
+   */
+  private confine(file: string, dir: string, source: string): void {
+    const relative = path.relative(dir, path.resolve(dir, file));
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new TemplateCompositionError(`${source} names "${file}", which is outside the templates directory`);
+    }
+  }
+
+  /**
+   * A name resolves to <dir>/<name>.json, a .json path relative to relativeTo
+   */
+  private locate(reference: string, dir: string, relativeTo: string = dir): string {
+    return reference.endsWith(".json")
+      ? path.resolve(relativeTo, reference)
+      : path.resolve(dir, `${reference}.json`);
+  }
+
+  private async readJson(file: string, context: string): Promise<unknown> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf-8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        throw new TemplateCompositionError(`${context}, but ${displayPath(file)} was not found`);
+      }
+      throw error;
+    }
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new TemplateCompositionError(`${displayPath(file)} is not valid JSON: ${(error as Error).message}`);
+    }
+  }
 }
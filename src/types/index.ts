@@ -1,9 +1,23 @@
+export * from './printerTypes.js';
+import type { LabelMedia } from './printerTypes.js';
+
 export interface PrinterConfig {
+  profile: string;
   portPath: string;
   baudRate: number;
   packetSize: number;
   exitDelay: number;
   packetDelay: number;
+  /** how long to wait for the printer to answer a request, in ms (default 2000) */
+  responseTimeout?: number;
+  /** longest banner allowed, in dots (default: from the profile, see planBanner) */
+  maxBannerLength?: number;
+  /** label stock to print on, from the profile's media.stocks (default: the template's, then the profile's) */
+  stock?: string;
+  /** font directories scanned on top of the bundled fonts/ */
+  fontDirs?: string[];
+  /** fail (FontError) instead of warning when a template asks for a font that is not registered */
+  strictFonts?: boolean;
 }
 
 export interface PrintOptions {
@@ -37,23 +51,87 @@ export interface Position {
   y: number;
 }
 
-export interface TextElement {
+export type TextOverflow = 'wrap' | 'shrink' | 'ellipsis' | 'clip';
+
+export type TextFit = 'none' | 'width' | 'height' | 'box';
+
+/**
+ * Turn of a single element: clockwise degrees around pivot, which defaults
+ * to the element's anchor (position, circle center, line start)
+ */
+export interface ElementRotation {
+  rotate?: number;
+  pivot?: Position;
+}
+
+/**
+ * CSS font weight: normal (400), bold (700) or 100 to 900
+ */
+export type FontWeight = 'normal' | 'bold' | number;
+
+export type FontStyle = 'normal' | 'italic';
+
+/**
+ * Font of an element with text: its family, then families to try when that
+ * one is not registered (default: the template's defaultFont)
+ */
+export interface ElementFont {
+  fontFamily?: string;
+  fontFallback?: string[];
+  weight?: FontWeight;
+  fontStyle?: FontStyle;
+}
+
+/**
+ * How glyph edges reach the paper: antialiased leaves grey edge pixels,
+ * each printed as a whole dot; aliased keeps only the pixels the glyphs
+ * cover enough for the text threshold
+ */
+export type TextRendering = 'antialiased' | 'aliased';
+
+/**
+ * Built-in 1-bit fonts, glyph width x height in dots at scale 1
+ */
+export type BitmapFontName = '5x7' | '8x16';
+
+/**
+ * Rendering mode of an element with text (default: the template's)
+ */
+export interface ElementTextRendering {
+  textRendering?: TextRendering;
+  textThreshold?: number; // aliased text: luminance 0-255 on white paper below which a pixel prints (default 128)
+}
+
+export interface TextBox {
+  width: number;
+  height?: number; // without it only maxLines limits the text
+}
+
+export interface TextElement extends ElementRotation, ElementFont, ElementTextRendering {
   type: 'text';
   content: string;
-  position: Position;
+  position: Position; // baseline anchor, or the top-left corner in text-box mode
   fontSize?: number;
-  fontFamily?: string;
+  bitmapFont?: BitmapFontName; // drawn dot for dot in a built-in bitmap font instead of fontFamily
   align?: 'left' | 'center' | 'right';
+  fit?: TextFit; // single-line auto-fit to the label (default none)
+  minFontSize?: number;
+  maxFontSize?: number; // fit may grow the text up to this size (default fontSize)
+  box?: TextBox; // enables text-box mode: word wrap inside the rectangle
+  lineHeight?: number; // multiple of the font size (default 1.2)
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  maxLines?: number;
+  overflow?: TextOverflow;
 }
 
-export interface LineElement {
+export interface LineElement extends ElementRotation {
   type: 'line';
   start: Position;
   end: Position;
   width?: number;
 }
 
-export interface RectangleElement {
+export interface RectangleElement extends ElementRotation {
   type: 'rectangle';
   position: Position;
   width: number;
@@ -61,7 +139,7 @@ export interface RectangleElement {
   filled?: boolean;
 }
 
-export interface CircleElement {
+export interface CircleElement extends ElementRotation {
   type: 'circle';
   center: Position;
   radius: number;
@@ -94,13 +172,146 @@ export interface GridElement {
   };
 }
 
+export type BarcodeSymbology = 'code128' | 'code39' | 'ean13' | 'upca';
+
+export interface BarcodeElement extends ElementRotation, ElementFont, ElementTextRendering {
+  type: 'barcode';
+  symbology: BarcodeSymbology;
+  data: string;
+  position: Position;
+  moduleWidth?: number; // printer dots per narrow module
+  height?: number;
+  quietZone?: number; // modules on each side
+  checkDigit?: boolean; // optional mod 43 check character (Code 39 only)
+  humanReadable?: boolean;
+  fontSize?: number;
+}
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCodeElement extends ElementRotation {
+  type: 'qrcode';
+  data: string;
+  position: Position;
+  errorCorrection?: QrErrorCorrection;
+  moduleSize?: number; // printer dots per module
+  size?: number; // target width incl. quiet zone, snapped down to whole dots per module
+  quietZone?: number; // modules on each side
+}
+
+export interface DataMatrixElement extends ElementRotation {
+  type: 'datamatrix';
+  data: string;
+  position: Position;
+  moduleSize?: number; // printer dots per module
+  size?: number; // target width incl. quiet zone, snapped down to whole dots per module
+  quietZone?: number; // modules on each side
+}
+
+export type DitherAlgorithm = 'threshold' | 'floyd-steinberg' | 'atkinson' | 'ordered';
+
+export interface DitherOptions {
+  algorithm?: DitherAlgorithm;
+  threshold?: number; // luminance 0-255, darker prints (default 128)
+}
+
+export type ImageFit = 'fill' | 'contain' | 'cover' | 'none';
+
+export interface ImageElement extends ElementRotation {
+  type: 'image';
+  src: string; // file path (relative to the template file) or data URI (base64)
+  position: Position;
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  dither?: DitherOptions;
+}
+
 export type RenderElement = 
   | TextElement 
   | LineElement 
   | RectangleElement 
   | CircleElement 
   | StripeElement 
-  | GridElement;
+  | GridElement
+  | BarcodeElement
+  | QrCodeElement
+  | DataMatrixElement
+  | ImageElement;
+
+/**
+ * Placeholder in a parent template, filled by the "slots" of templates extending it
+ */
+export interface SlotElement {
+  type: 'slot';
+  name: string;
+  elements?: TemplateElement[]; // default content
+}
+
+/**
+ * Inlines the elements of a partial (templates/partials/<name>.json)
+ */
+export interface IncludeElement {
+  type: 'include';
+  partial: string;
+  params?: Record<string, TemplateValue>;
+  offset?: Position; // added to every coordinate of the partial
+}
+
+/**
+ * Elements as written in template files, before composition
+ */
+export type TemplateElement = RenderElement | SlotElement | IncludeElement;
+
+/**
+ * Template file as written: may extend a parent and use slots/partials.
+ * TemplateService resolves it into a RenderTemplate.
+ */
+export interface TemplateDefinition extends Omit<RenderTemplate, 'elements' | 'defaultFont'> {
+  $schema?: string;
+  defaultFont?: Partial<NonNullable<RenderTemplate['defaultFont']>>; // merged with the parent's
+  extends?: string;
+  slots?: Record<string, TemplateElement[]>;
+  elements?: TemplateElement[];
+}
+
+/**
+ * Reusable element group; ${param} in its strings is replaced on inclusion
+ */
+export interface TemplatePartial {
+  name: string;
+  description?: string;
+  params?: Record<string, TemplateValue>; // defaults
+  units?: LengthUnit; // of its plain numbers (default: those of the template including it)
+  elements: TemplateElement[];
+}
+
+/**
+ * Units of template lengths: px (1/96 in), printer dots, millimetres, inches
+ */
+export type LengthUnit = 'px' | 'dots' | 'mm' | 'in';
+
+/**
+ * A number in the template's units (printer dots in stocks), or a length
+ * with its unit: "12mm"
+ */
+export type Length = number | string;
+
+/**
+ * Clockwise turn of a whole label, in degrees
+ */
+export type LabelOrientation = 0 | 90 | 180 | 270;
+
+/**
+ * A font file a template brings along, registered under family before the
+ * label is drawn. src is relative to the template file that declares it.
+ */
+export interface TemplateFont {
+  family: string;
+  src: string;
+  weight?: FontWeight; // default: read from the file
+  style?: FontStyle;
+}
 
 export interface RenderTemplate {
   name: string;
@@ -112,11 +323,157 @@ export interface RenderTemplate {
   defaultFont?: {
     family: string;
     size: number;
+    fallback?: string[]; // families to try when family is not registered
   };
+  fonts?: TemplateFont[]; // font files shipped with the template
+  dither?: DitherOptions; // applied to the whole label before rasterization
+  textRendering?: TextRendering; // of text and barcode text (default antialiased)
+  textThreshold?: number; // aliased text: luminance 0-255 below which a pixel prints (default 128)
+  banner?: boolean; // laid out along the roll: width is the length, height the width across the paper
+  orientation?: LabelOrientation; // clockwise turn of the whole label before rasterization
+  units?: LengthUnit; // of plain numbers; lengths may also be strings like "12mm" until resolveTemplateUnits
+  stock?: string; // label stock it is designed for, from the printer profile's media.stocks
   elements: RenderElement[];
 }
 
+/**
+ * Values available to {{ placeholders }}; objects are reached with dotted keys
+ */
+export type TemplateValue = string | number | boolean | null | Date | TemplateValue[] | { [key: string]: TemplateValue };
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+/**
+ * Size of a banner, as planned for a printer by planBanner
+ */
+export interface BannerLayout {
+  /** along the feed direction: the template width, in whole 8-dot rows */
+  lengthPx: number;
+  /** across the paper: the template height, the width of the raster */
+  acrossPx: number;
+}
+
 export interface JsonRenderOptions {
   template: RenderTemplate;
-  variables?: Record<string, string | number>;
+  variables?: TemplateVariables;
+  /** render as a banner: drawn lengthPx x acrossPx, then turned into the feed direction */
+  banner?: BannerLayout;
+}
+
+/**
+ * Batch printing: one label per row of a CSV / JSON Lines file
+ */
+export interface BatchOptions {
+  /** CSV or JSON Lines (.jsonl / .ndjson) file */
+  data: string;
+  /** template variable -> data column */
+  map?: Record<string, string>;
+  /** shared by every row; a column with the same name wins */
+  variables?: TemplateVariables;
+  /** row filters such as "qty>0" or "status!=done"; all must match */
+  where?: string[];
+  /** 1-based data row to start at, to resume an interrupted batch */
+  startRow?: number;
+  /** write the per-row results as JSON to this file */
+  report?: string;
+  /** render every row without connecting to the printer */
+  renderOnly?: boolean;
+}
+
+export type BatchRowStatus = 'printed' | 'rendered' | 'filtered' | 'failed';
+
+export interface BatchRowResult {
+  row: number;
+  status: BatchRowStatus;
+  error?: string;
+}
+
+export interface BatchReport {
+  template: string;
+  data: string;
+  results: BatchRowResult[];
+  /** labels printed (rendered in render-only mode) */
+  printed: number;
+  failed: number;
+  filtered: number;
+  /** set when the printer connection failed or the batch was aborted: rerun with --start-row <resumeRow> */
+  resumeRow?: number;
+  /** the AbortSignal stopped the batch before resumeRow */
+  aborted?: boolean;
+}
+
+/**
+ * File formats a label can be written as, named by the file extension
+ * (see utils/labelOutput.ts)
+ */
+export type LabelOutputFormat = 'png' | 'pgm' | 'pbm' | 'svg' | 'bin';
+
+/**
+ * Options of a library call that prints or renders one template
+ */
+export interface RunOptions {
+  /**
+   * Cancels the call, which rejects with a PrintCancelledError. A label
+   * being sent still finishes; later copies and queued labels do not print.
+   */
+  signal?: AbortSignal;
+  /** identical labels to print (default 1, or --copies) */
+  copies?: number;
+  /** also write the label to this file (--output); the extension picks the format */
+  output?: string;
+  /** output pixels per printer dot: 1 (default) is dot-accurate, more is a scaled preview */
+  scale?: number;
+}
+
+/**
+ * Options of a library call that only renders one template
+ */
+export type RenderOnlyOptions = Omit<RunOptions, 'copies'>;
+
+/**
+ * A label written to a file
+ */
+export interface LabelOutput {
+  file: string;
+  format: LabelOutputFormat;
+  bytes: number;
+}
+
+/**
+ * Packed 1-bit raster of a label, in the printer profile's raster format
+ */
+export interface LabelRaster {
+  widthPx: number;
+  heightPx: number;
+  /** bytes per column (column-major) or per row (row-major) */
+  lineBytes: number;
+  data: Buffer;
+}
+
+/**
+ * A rendered label: what render-only calls resolve with
+ */
+export interface LabelResult {
+  /** 1-bit PNG of the label as it is read, before orientation/banner turns */
+  png: Buffer;
+  /** the raster as it goes to the printer */
+  raster: LabelRaster;
+  /** every byte sent for one copy: headers, raster, postfix and feed */
+  payload: Buffer;
+  /** payload.length */
+  bytes: number;
+  /** the label stock (or profile media) it was laid out for */
+  media: LabelMedia;
+  durationMs: number;
+  /** the file written when options.output was given */
+  output?: LabelOutput;
+}
+
+/**
+ * A printed label: what print calls resolve with
+ */
+export interface PrintResult extends LabelResult {
+  jobId: string;
+  device: string;
+  copies: number;
 }
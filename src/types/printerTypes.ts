@@ -0,0 +1,159 @@
+/**
+ * Printer profile model (mirrors printers/*.json)
+ */
+
+import type { Length } from './index.js';
+
+/**
+ * GS v 0 header layouts supported by the payload builder
+ */
+export type GsV0HeaderFormat = 'heightBytesBE-widthPxBE' | 'widthBytesLE-heightDotsLE';
+
+/**
+ * Raster byte layout: column-major (8 vertical px per byte) or row-major (8 horizontal px per byte)
+ */
+export type RasterOrientation = 'column-major' | 'row-major';
+
+export type RasterByteOrder = 'topLSB' | 'topMSB' | 'leftLSB' | 'leftMSB';
+
+export type PaperType = 'diecut' | 'continuous';
+
+/**
+ * How the printer finds the start of each label: the gap between die-cut
+ * labels, a black mark printed on the back, or nothing (continuous roll)
+ */
+export type MediaSensing = 'gap' | 'black-mark' | 'none';
+
+/**
+ * Unprintable border of a label, from the paper edges to the printable area
+ */
+export interface LabelMargins {
+  top?: Length;
+  right?: Length;
+  bottom?: Length;
+  left?: Length;
+}
+
+/**
+ * A named label stock in a profile's catalogue. Lengths are printer dots or
+ * strings with a unit ("28.4mm"); width runs across the print head, height
+ * along the feed.
+ */
+export interface LabelStock {
+  id: string;
+  name?: string;
+  type: PaperType;
+  sensing?: MediaSensing; // default: gap for diecut, none for continuous
+  width: Length;
+  height?: Length; // label length, required for diecut
+  gap?: Length; // between labels, or the height of the black mark
+  margins?: LabelMargins;
+  feedAfter?: Length; // continuous: extra feed after each label (default: the profile's)
+}
+
+export interface RasterFormat {
+  orientation: RasterOrientation;
+  pixelsPerByte: number;
+  byteOrder: RasterByteOrder;
+  whiteValue: number;
+}
+
+export interface FeedCommand {
+  opcode: number[];
+  unit: 'dots' | 'lines';
+}
+
+/**
+ * Conditions a printer status reply can report
+ */
+export type PrinterStatusFlag = 'offline' | 'coverOpen' | 'paperOut' | 'paperNearEnd' | 'busy' | 'error';
+
+/**
+ * Status query answered with one byte of flags (ESC/POS DLE EOT n)
+ */
+export interface StatusCommand {
+  request: number[];
+  /** bit mask of each flag in the reply byte */
+  flags: Partial<Record<PrinterStatusFlag, number>>;
+}
+
+export interface PrinterProfileProtocol {
+  rasterCommand: 'gs-v0';
+  firmwareRequest?: number[] | null;
+  status?: StatusCommand | null;
+  prefix: number[];
+  gsV0: {
+    m: number | null;
+    headerFormat: GsV0HeaderFormat;
+    trailer: number[] | null;
+  };
+  postfix: number[];
+  feedCommand?: FeedCommand | null;
+}
+
+/**
+ * The media a label prints on, in dots at the printer's DPI: a catalogue
+ * stock, or the profile's own media settings when it has no catalogue
+ */
+export interface LabelMedia {
+  type: PaperType;
+  /** catalogue id */
+  stock?: string;
+  name: string;
+  sensing: MediaSensing;
+  widthPx: number;
+  /** label length; continuous media has none */
+  heightPx?: number;
+  /** where labels are drawn, inside the margins */
+  printable: { x: number; y: number; width: number; height?: number };
+  /** extra feed after each label (continuous), in the profile's feed unit */
+  feedAfterDots?: number;
+  feedAfterLines?: number;
+}
+
+export interface PrinterProfileLimits {
+  maxWidthPx: number | null;
+  maxHeightPx: number | null;
+  safeWidthPx: number;
+  safeHeightPx: number;
+}
+
+export interface PrinterProfileMedia {
+  paperTypes: PaperType[];
+  defaultType: PaperType;
+  diecut?: {
+    labelWidthPx: number;
+    labelHeightPx: number;
+  };
+  continuous?: {
+    feedAfterDots?: number;
+    feedAfterLines?: number;
+    /** longest banner, in dots */
+    maxLengthPx?: number;
+  };
+  /** label stock catalogue, selectable by id (--stock, template "stock") */
+  stocks?: LabelStock[];
+  /** stock used when none is selected */
+  defaultStock?: string;
+}
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  aliases?: string[];
+  usb?: {
+    vendorId: string | null;
+    productId: string | null;
+  };
+  dpi: number;
+  connection: {
+    defaultBaudRate: number;
+    defaultDevice: Partial<Record<NodeJS.Platform, string>>;
+    serialPattern?: string;
+  };
+  protocol: PrinterProfileProtocol;
+  raster: RasterFormat;
+  limits: PrinterProfileLimits;
+  media: PrinterProfileMedia;
+  notes?: string;
+}
@@ -1,4 +1,4 @@
-import { RenderTemplate } from './index.js';
+import { RenderTemplate, TemplateVariables } from './index.js';
 
 /**
  * Template loading strategies
@@ -18,7 +18,7 @@ export enum OperationMode {
  */
 export interface TemplateExecutionContext {
   template: RenderTemplate;
-  variables?: Record<string, string | number>;
+  variables?: TemplateVariables;
   mode: OperationMode;
 }
 
@@ -1,4 +1,10 @@
-import { PrinterConfig, PrintOptions, DebugConfig } from '../types/index.js';
+import { PrinterConfig, PrintOptions, DebugConfig, BatchOptions } from '../types/index.js';
+import { parseColumnMapping } from './batchData.js';
+
+/**
+ * Flags that may be given more than once; their values are collected in order
+ */
+const REPEATABLE_FLAGS = ['--var', '--map', '--where', '--font-dir'];
 
 export interface ParsedArguments {
   printerConfig: Partial<PrinterConfig>;
@@ -11,8 +17,21 @@ export interface ParsedArguments {
   variables?: Record<string, string | number>;
   // Additional flags
   renderOnly?: boolean;
+  copies?: number;
+  // Label file (--output, --scale)
+  output?: string;
+  scale?: number;
   listTemplates?: boolean;
+  listPrinters?: boolean;
+  listStocks?: boolean;
+  listFonts?: boolean;
   templateFile?: string;
+  // Batch mode (--data)
+  batch?: BatchOptions;
+  // HTTP server (serve)
+  server?: { host?: string; port?: number };
+  // Printer emulator (emulate)
+  emulator?: { port?: number; outDir?: string };
 }
 
 export class ArgumentParser {
@@ -75,13 +94,17 @@ export class ArgumentParser {
       variables: {}
     };
 
-    const { flags, variables } = this.extractFlags(args);
+    const { flags, repeated } = this.extractFlags(args);
     
-    this.applyTemplateFlags(flags, variables, result);
+    this.applyTemplateFlags(flags, repeated.get('--var') ?? [], result);
+    this.applyBatchFlags(flags, repeated, result);
     this.applyPrinterFlags(flags, result);
+    this.applyFontFlags(flags, repeated.get('--font-dir') ?? [], result);
     this.applyPrintOptionsFlags(flags, result);
     this.applyDebugFlags(flags, result);
     this.applySpecialModeFlags(flags, result);
+    this.applyServerFlags(flags, result);
+    this.applyEmulatorFlags(flags, result);
 
     // Clean up variables if empty
     if (Object.keys(result.variables || {}).length === 0) {
@@ -91,9 +114,12 @@ export class ArgumentParser {
     return result;
   }
 
-  private static extractFlags(args: string[]): { flags: Map<string, string | boolean>; variables: string[] } {
+  private static extractFlags(args: string[]): {
+    flags: Map<string, string | boolean>;
+    repeated: Map<string, string[]>;
+  } {
     const flags = new Map<string, string | boolean>();
-    const variables: string[] = [];
+    const repeated = new Map<string, string[]>();
     const processedIndices = new Set<number>();
     
     for (let i = 0; i < args.length; i++) {
@@ -106,8 +132,8 @@ export class ArgumentParser {
 
       if (arg.startsWith('--')) {
         if (nextArg && !nextArg.startsWith('--')) {
-          if (arg === '--var') {
-            variables.push(nextArg);
+          if (REPEATABLE_FLAGS.includes(arg)) {
+            repeated.set(arg, [...(repeated.get(arg) ?? []), nextArg]);
           } else {
             flags.set(arg, nextArg);
           }
@@ -118,7 +144,7 @@ export class ArgumentParser {
       }
     }
     
-    return { flags, variables };
+    return { flags, repeated };
   }
 
   private static applyTemplateFlags(
@@ -147,7 +173,45 @@ export class ArgumentParser {
     }
   }
 
+  private static applyBatchFlags(
+    flags: Map<string, string | boolean>,
+    repeated: Map<string, string[]>,
+    result: ParsedArguments
+  ): void {
+    const dataFlag = flags.get('--data');
+    if (typeof dataFlag !== 'string') {
+      return;
+    }
+
+    const batch: BatchOptions = { data: dataFlag };
+    const mappings = repeated.get('--map');
+    if (mappings) {
+      batch.map = parseColumnMapping(mappings);
+    }
+    batch.where = repeated.get('--where');
+
+    const startRowFlag = flags.get('--start-row');
+    if (typeof startRowFlag === 'string') {
+      const startRow = parseInt(startRowFlag);
+      if (!isNaN(startRow)) {
+        batch.startRow = startRow;
+      }
+    }
+
+    const reportFlag = flags.get('--report');
+    if (typeof reportFlag === 'string') {
+      batch.report = reportFlag;
+    }
+
+    result.batch = batch;
+  }
+
   private static applyPrinterFlags(flags: Map<string, string | boolean>, result: ParsedArguments): void {
+    const printerFlag = flags.get('--printer');
+    if (typeof printerFlag === 'string') {
+      result.printerConfig.profile = printerFlag;
+    }
+
     const portFlag = flags.get('--port') || flags.get('--port-path');
     if (typeof portFlag === 'string') {
       result.printerConfig.portPath = portFlag;
@@ -184,6 +248,39 @@ export class ArgumentParser {
         result.printerConfig.packetDelay = packetDelay;
       }
     }
+
+    const responseTimeoutFlag = flags.get('--response-timeout');
+    if (typeof responseTimeoutFlag === 'string') {
+      const responseTimeout = parseInt(responseTimeoutFlag);
+      if (!isNaN(responseTimeout)) {
+        result.printerConfig.responseTimeout = responseTimeout;
+      }
+    }
+
+    const maxBannerLengthFlag = flags.get('--max-banner-length');
+    if (typeof maxBannerLengthFlag === 'string') {
+      const maxBannerLength = parseInt(maxBannerLengthFlag);
+      if (!isNaN(maxBannerLength)) {
+        result.printerConfig.maxBannerLength = maxBannerLength;
+      }
+    }
+
+    const stockFlag = flags.get('--stock');
+    if (typeof stockFlag === 'string') {
+      result.printerConfig.stock = stockFlag;
+    }
+  }
+
+  private static applyFontFlags(flags: Map<string, string | boolean>, fontDirs: string[], result: ParsedArguments): void {
+    if (fontDirs.length > 0) {
+      result.printerConfig.fontDirs = fontDirs;
+    }
+    if (flags.has('--strict-fonts')) {
+      result.printerConfig.strictFonts = true;
+    }
+    if (flags.has('--list-fonts')) {
+      result.listFonts = true;
+    }
   }
 
   private static applyPrintOptionsFlags(flags: Map<string, string | boolean>, result: ParsedArguments): void {
@@ -235,9 +332,36 @@ export class ArgumentParser {
     if (flags.has('--render-only')) {
       result.renderOnly = true;
     }
+
+    const outputFlag = flags.get('--output');
+    if (typeof outputFlag === 'string') {
+      result.output = outputFlag;
+    }
+
+    const scaleFlag = flags.get('--scale');
+    if (typeof scaleFlag === 'string') {
+      const scale = Number(scaleFlag);
+      if (!isNaN(scale)) {
+        result.scale = scale;
+      }
+    }
+
+    const copiesFlag = flags.get('--copies');
+    if (typeof copiesFlag === 'string') {
+      const copies = parseInt(copiesFlag);
+      if (!isNaN(copies)) {
+        result.copies = copies;
+      }
+    }
     if (flags.has('--list-templates')) {
       result.listTemplates = true;
     }
+    if (flags.has('--list-printers')) {
+      result.listPrinters = true;
+    }
+    if (flags.has('--list-stocks')) {
+      result.listStocks = true;
+    }
     if (flags.has('--test')) {
       result.isTestMode = true;
     }
@@ -252,6 +376,44 @@ export class ArgumentParser {
     }
   }
 
+  private static applyServerFlags(flags: Map<string, string | boolean>, result: ParsedArguments): void {
+    const hostFlag = flags.get('--host');
+    const httpPortFlag = flags.get('--http-port');
+    if (typeof hostFlag !== 'string' && typeof httpPortFlag !== 'string') {
+      return;
+    }
+
+    result.server = {};
+    if (typeof hostFlag === 'string') {
+      result.server.host = hostFlag;
+    }
+    if (typeof httpPortFlag === 'string') {
+      const port = parseInt(httpPortFlag);
+      if (!isNaN(port)) {
+        result.server.port = port;
+      }
+    }
+  }
+
+  private static applyEmulatorFlags(flags: Map<string, string | boolean>, result: ParsedArguments): void {
+    const tcpPortFlag = flags.get('--tcp-port');
+    const outDirFlag = flags.get('--out-dir');
+    if (typeof tcpPortFlag !== 'string' && typeof outDirFlag !== 'string') {
+      return;
+    }
+
+    result.emulator = {};
+    if (typeof tcpPortFlag === 'string') {
+      const port = parseInt(tcpPortFlag);
+      if (!isNaN(port)) {
+        result.emulator.port = port;
+      }
+    }
+    if (typeof outDirFlag === 'string') {
+      result.emulator.outDir = outDirFlag;
+    }
+  }
+
   static mergeWithDefaults(
     parsed: ParsedArguments,
     defaultPrinterConfig: PrinterConfig,
@@ -311,6 +473,12 @@ Printer Control - Enhanced Command Line Options
 Usage:
   npm run dev [options]                     - Start with options
   npm run dev -- --json <template> [opts]  - JSON template mode
+  npm run dev -- validate [template|file]  - Check templates against the JSON Schema
+  npm run dev -- counters [list]           - Show the serial counters ({{counter:name}})
+  npm run dev -- counters reset <name> [n] - Make the next label of a counter get n (default 1)
+  npm run dev -- serve [opts]              - Start the local HTTP print server
+  npm run dev -- emulate [opts]            - Start a printer emulator on TCP (no printer needed)
+  npm run dev -- inspect <payload> [other] - List a payload's commands, or diff two payloads
   npm run dev -- --help                    - Show this help
 
 Template Options:
@@ -319,13 +487,49 @@ Template Options:
   --var key=value                  - Set template variable
   --list-templates                 - List available templates
   --render-only                    - Only render to image, don't print
+  --output <file>                  - Write the label to a file; the extension picks the format:
+                                     .png canvas, .pgm canvas (grayscale), .pbm printed dots,
+                                     .svg vector, .bin printer payload
+  --scale <n>                      - Pixels per printer dot in --output images (default: 1)
+  --copies <n>                     - Print n identical labels (default: 1)
+
+Batch Options (one label per data row, one printer connection):
+  --data <file.csv|file.jsonl>     - Rows to print; CSV header names the variables
+  --map variable=column            - Take a variable from another column (repeatable)
+  --where <column op value>        - Only rows matching (=, !=, >, >=, <, <=; repeatable)
+  --start-row <n>                  - Resume at data row n (1 = first row after header)
+  --report <file.json>             - Write the per-row results as JSON
+
+Server Options (serve):
+  --host <address>                 - Interface to listen on (default: 127.0.0.1, loopback only)
+  --http-port <port>               - HTTP port (default: 8631)
+
+Emulator Options (emulate):
+  --printer <id|path.json>         - Profile to emulate (default: makeid-l1)
+  --host <address>                 - Interface to listen on (default: 127.0.0.1)
+  --tcp-port <port>                - Raw print port (default: 9100)
+  --out-dir <dir>                  - Save each received label as a PNG
+
+Inspector Options (inspect):
+  --printer <id|path.json>         - Profile to decode with (default: makeid-l1)
+  --other-printer <id|path.json>   - Profile of the second payload when diffing
+  --ascii                          - Draw the raster as text
+  --png <file.png>                 - Save the raster as a PNG
 
 Printer Configuration:
-  --port, --port-path <path>       - Serial port (default: COM3)
+  --printer <id|path.json>         - Printer profile from printers/ (default: makeid-l1)
+  --list-printers                  - List available printer profiles
+  --port, --port-path <device>     - Serial port, device file or URI (default: COM3)
+                                     serial:///dev/ttyUSB0, file:///dev/usb/lp0, tcp://host:9100,
+                                     emulator:// (in-process emulator, see emulate)
   --baud-rate <rate>               - Baud rate (default: 57600)
   --packet-size <size>             - Packet size (default: 122)
   --exit-delay <ms>                - Exit delay in ms (default: 2000)
   --packet-delay <ms>              - Packet delay in ms (default: 0)
+  --response-timeout <ms>          - Wait for a printer answer (firmware, status) (default: 2000)
+  --max-banner-length <dots>       - Longest banner template allowed (default: profile, else 4800)
+  --stock <id>                     - Label stock to print on (default: the template's, else the profile's)
+  --list-stocks                    - List the label stocks of the printer profile
 
 Print Options:
   --line1, --first-line <text>     - First line of text
@@ -334,6 +538,11 @@ Print Options:
   --font-size <size>               - Font size (default: 32)
   --font-family <family>           - Font family (default: Norwester Condensed)
 
+Font Options:
+  --font-dir <dir>                 - Register the fonts in a directory, on top of fonts/ (repeatable)
+  --strict-fonts                   - Fail instead of warning when a template asks for a missing font
+  --list-fonts                     - List the registered font families and their variants
+
 Debug Options:
   --debug                          - Enable debug mode
   --verbose                        - Enable verbose logging
@@ -349,8 +558,19 @@ Examples:
   npm run dev -- --json simple-text --var line1="Test" --var line2="Print"
   npm run dev -- --template labeled-lines --debug --verbose
   npm run dev -- --template-file ./my-template.json --render-only
+  npm run dev -- --json asset-qr --render-only --output label.svg --scale 4
+  npm run dev -- --json simple-text --data labels.csv --map line1=Name --where "qty>0"
   npm run dev -- --list-templates
+  npm run dev -- serve --http-port 8631 --port /dev/ttyUSB0
+  npm run dev -- emulate --printer makeid-l1 --out-dir labels
+  npm run dev -- inspect label.bin --ascii
+  npm run dev -- inspect before.bin after.bin
+  npm run dev -- validate ./my-template.json
   npm run dev -- --port COM4 --baud-rate 115200 --debug
+  npm run dev -- --json simple-text --printer escpos-58 --port /dev/ttyUSB0
+  npm run dev -- --json simple-text --printer escpos-58 --port tcp://192.168.1.50:9100
+  npm run dev -- --json asset-metric --stock l1-14x40mm-diecut --render-only
+  npm run dev -- --json backups-term-vt323 --font-dir ./my-fonts --strict-fonts --render-only
 
 Note: Command line arguments override environment variables.
 `;
@@ -0,0 +1,74 @@
+import { BannerLayout, PaperType, PrinterProfile, RenderTemplate } from '../types/index.js';
+
+/**
+ * Banners: templates laid out along a roll of continuous media. The template
+ * is drawn in reading orientation, dimensions.width long and dimensions.height
+ * across, then turned a quarter clockwise so its length runs in the feed
+ * direction (the start of the text leaves the printer first). The result is
+ * one raster no wider than the printer, however long the banner is.
+ */
+
+/**
+ * Longest banner when neither the caller nor the profile says (about 60 cm at 203 dpi)
+ */
+export const DEFAULT_BANNER_MAX_LENGTH_PX = 4800;
+
+/**
+ * Tallest raster a 16-bit GS v 0 height field holds in any header layout
+ * (protocol.mjs writes the L1 height in dots, the TypeScript core in bytes)
+ */
+const MAX_RASTER_HEIGHT_PX = 0xFFFF;
+
+export class BannerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BannerError';
+  }
+}
+
+export interface BannerOptions {
+  /** longest banner, in dots (default: the profile's media.continuous.maxLengthPx, then 4800) */
+  maxLengthPx?: number;
+  /** paper in the printer, when known: banners need continuous media */
+  mediaType?: PaperType;
+}
+
+/**
+ * Checks a banner template fits the printer and returns its size. Throws
+ * BannerError if the printer has no continuous media, the banner is wider
+ * across than the printer or longer than the maximum.
+ */
+export function planBanner(template: RenderTemplate, profile: PrinterProfile, options: BannerOptions = {}): BannerLayout {
+  const label = `Banner "${template.name}"`;
+  if (!profile.media.paperTypes.includes('continuous')) {
+    throw new BannerError(`${label}: ${profile.name} has no continuous media to print banners on`);
+  }
+  if (options.mediaType && options.mediaType !== 'continuous') {
+    throw new BannerError(`${label} needs continuous media, the printer is set up for ${options.mediaType}`);
+  }
+
+  const length = template.dimensions?.width;
+  if (!length || !(length > 0)) {
+    throw new BannerError(`${label} needs dimensions.width, its length in dots`);
+  }
+  const acrossPx = template.dimensions?.height ?? profile.limits.safeWidthPx;
+  const maxAcross = profile.limits.maxWidthPx;
+  if (maxAcross !== null && acrossPx > maxAcross) {
+    throw new BannerError(
+      `${label} is ${acrossPx}px across (dimensions.height), over the ${profile.name} maximum of ${maxAcross}px`
+    );
+  }
+
+  // Whole 8-dot rows, so both header layouts describe the raster exactly
+  const lengthPx = Math.ceil(length / 8) * 8;
+  const maxLength = Math.min(
+    options.maxLengthPx ?? profile.media.continuous?.maxLengthPx ?? DEFAULT_BANNER_MAX_LENGTH_PX,
+    profile.limits.maxHeightPx ?? Infinity,
+    MAX_RASTER_HEIGHT_PX
+  );
+  if (lengthPx > maxLength) {
+    throw new BannerError(`${label} is ${lengthPx}px long, over the maximum of ${maxLength}px`);
+  }
+
+  return { lengthPx, acrossPx };
+}
@@ -0,0 +1,334 @@
+import { BarcodeSymbology } from '../types/index.js';
+
+/**
+ * Raised when the data cannot be encoded by the requested symbology
+ */
+export class BarcodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BarcodeError';
+  }
+}
+
+/**
+ * A single bar, in printer dots relative to the left edge of the quiet zone
+ */
+export interface BarcodeBar {
+  x: number;
+  width: number;
+}
+
+export interface BarcodeLayout {
+  bars: BarcodeBar[];
+  /** Total width in dots, quiet zones included */
+  width: number;
+  /** Human-readable text, check digits included */
+  text: string;
+}
+
+export interface BarcodeLayoutOptions {
+  moduleWidth?: number;
+  quietZone?: number;
+  checkDigit?: boolean;
+}
+
+/**
+ * Quiet zone per symbology, in modules
+ */
+export const DEFAULT_QUIET_ZONE: Record<BarcodeSymbology, number> = {
+  code128: 10,
+  code39: 10,
+  ean13: 11,
+  upca: 9,
+};
+
+/**
+ * Bar height and human-readable text size when the element gives none (template
+ * units), and the gap between bars and text (dots)
+ */
+export const DEFAULT_BARCODE_HEIGHT = 40;
+export const DEFAULT_BARCODE_FONT_SIZE = 10;
+export const BARCODE_TEXT_GAP = 2;
+
+/**
+ * Code 128 symbol widths (bar, space, bar, ...) for values 0-106
+ */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+] as const;
+
+const CODE128 = {
+  CODE_C: 99,
+  CODE_B: 100,
+  CODE_A: 101,
+  START_A: 103,
+  START_B: 104,
+  START_C: 105,
+  STOP: 106,
+} as const;
+
+/**
+ * Code 39 characters in check-digit (mod 43) order, with their
+ * narrow/wide element patterns (bar, space, bar, ...)
+ */
+const CODE39_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn', '4': 'nnnwwnnnw',
+  '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw', '8': 'wnnwnnwnn', '9': 'nnwwnnwnn',
+  'A': 'wnnnnwnnw', 'B': 'nnwnnwnnw', 'C': 'wnwnnwnnn', 'D': 'nnnnwwnnw', 'E': 'wnnnwwnnn',
+  'F': 'nnwnwwnnn', 'G': 'nnnnnwwnw', 'H': 'wnnnnwwnn', 'I': 'nnwnnwwnn', 'J': 'nnnnwwwnn',
+  'K': 'wnnnnnnww', 'L': 'nnwnnnnww', 'M': 'wnwnnnnwn', 'N': 'nnnnwnnww', 'O': 'wnnnwnnwn',
+  'P': 'nnwnwnnwn', 'Q': 'nnnnnnwww', 'R': 'wnnnnnwwn', 'S': 'nnwnnnwwn', 'T': 'nnnnwnwwn',
+  'U': 'wwnnnnnnw', 'V': 'nwwnnnnnw', 'W': 'wwwnnnnnn', 'X': 'nwnnwnnnw', 'Y': 'wwnnwnnnn',
+  'Z': 'nwwnwnnnn', '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '$': 'nwnwnwnnn',
+  '/': 'nwnwnnnwn', '+': 'nwnnnwnwn', '%': 'nnnwnwnwn', '*': 'nwnnwnwnn',
+};
+
+/** Wide elements are 3 modules: integer ratio keeps bars on whole dots */
+const CODE39_WIDE = 3;
+
+/**
+ * EAN/UPC digit encodings (L = odd parity, G = even parity, R = right half)
+ */
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/**
+ * Expands a widths string (bar, space, bar, ...) into modules
+ */
+function widthsToModules(widths: string): number[] {
+  const modules: number[] = [];
+  for (let i = 0; i < widths.length; i++) {
+    const bit = i % 2 === 0 ? 1 : 0;
+    for (let j = 0; j < Number(widths[i]); j++) {
+      modules.push(bit);
+    }
+  }
+  return modules;
+}
+
+const isDigit = (char: string | undefined): boolean => char !== undefined && char >= '0' && char <= '9';
+
+/**
+ * Number of consecutive digits starting at index
+ */
+function digitRun(data: string, index: number): number {
+  let end = index;
+  while (isDigit(data[end])) end++;
+  return end - index;
+}
+
+/**
+ * Code 128 value of a character in code set A or B
+ */
+function code128Value(char: string, set: 'A' | 'B'): number {
+  const code = char.charCodeAt(0);
+  if (set === 'A') {
+    return code < 32 ? code + 64 : code - 32;
+  }
+  return code - 32;
+}
+
+/**
+ * Encodes data as Code 128 values, switching between code sets A, B and C
+ * (C for runs of 4+ digits, A only for control characters)
+ */
+function encodeCode128Values(data: string): number[] {
+  for (const char of data) {
+    if (char.charCodeAt(0) > 127) {
+      throw new BarcodeError(`Code 128 cannot encode "${char}" in "${data}": only ASCII characters are supported`);
+    }
+  }
+
+  const values: number[] = [];
+  const leadingDigits = digitRun(data, 0);
+  let set: 'A' | 'B' | 'C';
+
+  if (leadingDigits >= 4 || (leadingDigits === data.length && leadingDigits % 2 === 0)) {
+    set = 'C';
+    values.push(CODE128.START_C);
+  } else if (data.charCodeAt(0) < 32) {
+    set = 'A';
+    values.push(CODE128.START_A);
+  } else {
+    set = 'B';
+    values.push(CODE128.START_B);
+  }
+
+  let i = 0;
+  while (i < data.length) {
+    if (set === 'C') {
+      if (digitRun(data, i) >= 2) {
+        values.push(Number(data.slice(i, i + 2)));
+        i += 2;
+        continue;
+      }
+      set = data.charCodeAt(i) < 32 ? 'A' : 'B';
+      values.push(set === 'A' ? CODE128.CODE_A : CODE128.CODE_B);
+      continue;
+    }
+
+    const run = digitRun(data, i);
+    if (run >= 4 && run % 2 === 0) {
+      set = 'C';
+      values.push(CODE128.CODE_C);
+      continue;
+    }
+
+    const code = data.charCodeAt(i);
+    if (set === 'B' && code < 32) {
+      set = 'A';
+      values.push(CODE128.CODE_A);
+    } else if (set === 'A' && code >= 96) {
+      set = 'B';
+      values.push(CODE128.CODE_B);
+    }
+    values.push(code128Value(data[i], set));
+    i++;
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, CODE128.STOP];
+}
+
+function encodeCode128(data: string): { modules: number[]; text: string } {
+  if (data.length === 0) {
+    throw new BarcodeError('Code 128 data cannot be empty');
+  }
+  const modules = encodeCode128Values(data).flatMap((value) => widthsToModules(CODE128_PATTERNS[value]));
+  return { modules, text: data };
+}
+
+function encodeCode39(data: string, checkDigit: boolean): { modules: number[]; text: string } {
+  if (data.length === 0) {
+    throw new BarcodeError('Code 39 data cannot be empty');
+  }
+  for (const char of data) {
+    if (!CODE39_CHARS.includes(char)) {
+      throw new BarcodeError(
+        `Code 39 cannot encode "${char}" in "${data}": only 0-9, A-Z, space and - . $ / + % are supported`
+      );
+    }
+  }
+
+  const text = checkDigit
+    ? data + CODE39_CHARS[[...data].reduce((sum, char) => sum + CODE39_CHARS.indexOf(char), 0) % 43]
+    : data;
+
+  const modules: number[] = [];
+  [...`*${text}*`].forEach((char, index) => {
+    if (index > 0) modules.push(0); // narrow inter-character gap
+    const widths = [...CODE39_PATTERNS[char]].map((e) => (e === 'w' ? CODE39_WIDE : 1)).join('');
+    modules.push(...widthsToModules(widths));
+  });
+
+  return { modules, text };
+}
+
+/**
+ * GS1 mod-10 check digit (weights 3 and 1 from the rightmost digit)
+ */
+function gs1CheckDigit(digits: string): number {
+  const sum = [...digits].reverse().reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Accepts data with or without its check digit and returns the full number
+ */
+function withGs1CheckDigit(data: string, length: number, name: string): string {
+  if (!/^\d+$/.test(data) || (data.length !== length - 1 && data.length !== length)) {
+    throw new BarcodeError(`${name} requires ${length - 1} digits (or ${length} with check digit), got "${data}"`);
+  }
+
+  const payload = data.slice(0, length - 1);
+  const check = gs1CheckDigit(payload);
+  if (data.length === length && Number(data[length - 1]) !== check) {
+    throw new BarcodeError(`${name} check digit mismatch in "${data}": expected ${check}`);
+  }
+  return `${payload}${check}`;
+}
+
+function encodeEan13Digits(digits: string): number[] {
+  const parity = EAN_PARITY[Number(digits[0])];
+  const left = [...digits.slice(1, 7)].map((d, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[Number(d)]).join('');
+  const right = [...digits.slice(7)].map((d) => EAN_R[Number(d)]).join('');
+  return [...`101${left}01010${right}101`].map(Number);
+}
+
+function encodeEan13(data: string): { modules: number[]; text: string } {
+  const digits = withGs1CheckDigit(data, 13, 'EAN-13');
+  return { modules: encodeEan13Digits(digits), text: digits };
+}
+
+function encodeUpcA(data: string): { modules: number[]; text: string } {
+  const digits = withGs1CheckDigit(data, 12, 'UPC-A');
+  // UPC-A is EAN-13 with a leading 0 (all-odd parity on the left half)
+  return { modules: encodeEan13Digits(`0${digits}`), text: digits };
+}
+
+/**
+ * Encodes data into modules (1 = bar, 0 = space), without quiet zones
+ */
+export function encodeBarcode(
+  symbology: BarcodeSymbology,
+  data: string,
+  checkDigit: boolean = false
+): { modules: number[]; text: string } {
+  switch (symbology) {
+    case 'code128':
+      return encodeCode128(data);
+    case 'code39':
+      return encodeCode39(data, checkDigit);
+    case 'ean13':
+      return encodeEan13(data);
+    case 'upca':
+      return encodeUpcA(data);
+    default:
+      throw new BarcodeError(`Unknown barcode symbology: ${symbology}`);
+  }
+}
+
+/**
+ * Lays out a barcode in whole printer dots so it can be drawn pixel-exact
+ */
+export function layoutBarcode(
+  symbology: BarcodeSymbology,
+  data: string,
+  options: BarcodeLayoutOptions = {}
+): BarcodeLayout {
+  const moduleWidth = Math.max(1, Math.round(options.moduleWidth ?? 2));
+  const quietZone = options.quietZone ?? DEFAULT_QUIET_ZONE[symbology];
+  const { modules, text } = encodeBarcode(symbology, data, options.checkDigit);
+
+  const bars: BarcodeBar[] = [];
+  let runStart = -1;
+  modules.forEach((module, index) => {
+    if (module === 1 && runStart < 0) runStart = index;
+    if (module === 1 && modules[index + 1] !== 1) {
+      bars.push({
+        x: (quietZone + runStart) * moduleWidth,
+        width: (index - runStart + 1) * moduleWidth,
+      });
+      runStart = -1;
+    }
+  });
+
+  return {
+    bars,
+    width: (modules.length + 2 * quietZone) * moduleWidth,
+    text,
+  };
+}
@@ -0,0 +1,304 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { TemplateValue, TemplateVariables } from '../types/index.js';
+import { suggest } from './jsonSchema.js';
+
+/**
+ * Data files for batch printing: every CSV row / JSON line becomes the
+ * variables of one label.
+ *
+ * CSV follows RFC 4180 (quoted fields, "" escapes, CRLF, line breaks inside
+ * quotes). The first row is the header; the delimiter (, ; or tab) is
+ * detected from it, so spreadsheet exports with ";" work as is. CSV values
+ * stay strings to keep leading zeros ("00123"); use the number filter to
+ * format them.
+ */
+
+export type DataFormat = 'csv' | 'jsonl';
+
+export interface DataRow {
+  /** 1-based data row (header and blank lines not counted) */
+  row: number;
+  variables: TemplateVariables;
+}
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface RowFilter {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface RowSelection {
+  /** template variable -> data column */
+  map?: Record<string, string>;
+  /** every filter must match (AND) */
+  where?: RowFilter[];
+  /** first data row to print; earlier rows are left out (resume) */
+  startRow?: number;
+}
+
+export interface SelectedRows {
+  rows: DataRow[];
+  /** rows at or after startRow left out by the filters */
+  filtered: DataRow[];
+}
+
+/**
+ * Raised for unreadable data files and bad --map / --where / --start-row values
+ */
+export class BatchDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchDataError';
+  }
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Splits CSV text into records of raw fields
+ */
+function csvRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new BatchDataError(`Unclosed quoted field (line ${line})`);
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines are a single empty field
+  return records.filter((fields) => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * Delimiter with the most occurrences outside quotes in the header line
+ */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map((delimiter) => header.split(delimiter).length);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Parses CSV with a header row into one DataRow per record
+ */
+export function parseCsv(text: string, delimiter?: string): DataRow[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const [header, ...records] = csvRecords(content, delimiter ?? detectDelimiter(content));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (duplicate !== undefined) {
+    throw new BatchDataError(`Duplicate CSV column "${duplicate}"`);
+  }
+
+  return records.map((fields, index) => {
+    if (fields.length > columns.length) {
+      throw new BatchDataError(
+        `CSV row ${index + 1} has ${fields.length} fields but the header has ${columns.length} columns`
+      );
+    }
+    // Short rows: trailing empty cells are often dropped by exporters
+    const variables = Object.fromEntries(columns.map((column, i) => [column, fields[i] ?? '']));
+    return { row: index + 1, variables };
+  });
+}
+
+/**
+ * Parses JSON Lines: one object per non-blank line
+ */
+export function parseJsonLines(text: string): DataRow[] {
+  const rows: DataRow[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new BatchDataError(`Invalid JSON on line ${index + 1}: ${(error as Error).message}`);
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new BatchDataError(`Line ${index + 1} must be a JSON object`);
+    }
+    rows.push({ row: rows.length + 1, variables: value as TemplateVariables });
+  });
+  return rows;
+}
+
+/**
+ * Format from the extension: .jsonl/.ndjson are JSON Lines, anything else CSV
+ */
+export function dataFormatOf(file: string): DataFormat {
+  return ['.jsonl', '.ndjson'].includes(path.extname(file).toLowerCase()) ? 'jsonl' : 'csv';
+}
+
+/**
+ * Reads and parses a CSV or JSON Lines data file
+ */
+export async function loadDataFile(file: string, format: DataFormat = dataFormatOf(file)): Promise<DataRow[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as any).code === 'ENOENT') {
+      throw new BatchDataError(`Data file "${file}" not found`);
+    }
+    throw error;
+  }
+  try {
+    return format === 'jsonl' ? parseJsonLines(text) : parseCsv(text);
+  } catch (error) {
+    if (error instanceof BatchDataError) {
+      throw new BatchDataError(`${file}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses "variable=column" pairs
+ */
+export function parseColumnMapping(entries: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const variable = entry.slice(0, separator).trim();
+    const column = entry.slice(separator + 1).trim();
+    if (separator < 0 || !variable || !column) {
+      throw new BatchDataError(`Invalid column mapping "${entry}", expected variable=column`);
+    }
+    mapping[variable] = column;
+  }
+  return mapping;
+}
+
+/**
+ * Parses "column<op>value" with op one of = != > >= < <=
+ */
+export function parseRowFilter(expression: string): RowFilter {
+  const match = /^\s*([^=!<>]+?)\s*(!=|>=|<=|=|>|<)\s*(.*?)\s*$/.exec(expression);
+  if (!match) {
+    throw new BatchDataError(`Invalid row filter "${expression}", expected column=value (or != > >= < <=)`);
+  }
+  return { column: match[1], operator: match[2] as FilterOperator, value: match[3] };
+}
+
+const asNumber = (value: string): number | undefined =>
+  value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+/**
+ * Compares numerically when both sides are numbers, as text otherwise
+ */
+export function matchesFilter(variables: TemplateVariables, filter: RowFilter): boolean {
+  const cell = variables[filter.column];
+  const actual = cell === undefined || cell === null ? '' : String(cell);
+  const [left, right] = [asNumber(actual), asNumber(filter.value)];
+  const order = left !== undefined && right !== undefined
+    ? Math.sign(left - right)
+    : actual === filter.value ? 0 : actual < filter.value ? -1 : 1;
+
+  switch (filter.operator) {
+    case '=': return order === 0;
+    case '!=': return order !== 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+  }
+}
+
+/**
+ * Adds the mapped variables; the original columns stay available too
+ */
+export function mapColumns(variables: TemplateVariables, mapping: Record<string, string>): TemplateVariables {
+  const mapped: Record<string, TemplateValue> = { ...variables };
+  for (const [variable, column] of Object.entries(mapping)) {
+    mapped[variable] = variables[column] ?? '';
+  }
+  return mapped;
+}
+
+function checkColumns(names: string[], columns: string[], what: string): void {
+  for (const name of names) {
+    if (!columns.includes(name)) {
+      const suggestion = suggest(name, columns);
+      throw new BatchDataError(
+        `${what} "${name}" is not a column of the data file`
+        + (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+        + `. Columns: ${columns.join(', ')}`
+      );
+    }
+  }
+}
+
+/**
+ * Applies the column mapping, start row and filters. Unknown columns are
+ * reported up front so a typo does not print 500 labels with blanks.
+ */
+export function selectRows(rows: DataRow[], selection: RowSelection = {}): SelectedRows {
+  const { map = {}, where = [], startRow = 1 } = selection;
+  if (!Number.isInteger(startRow) || startRow < 1) {
+    throw new BatchDataError(`Start row must be a positive integer, got ${startRow}`);
+  }
+  if (rows.length > 0 && startRow > rows.length) {
+    throw new BatchDataError(`Start row ${startRow} is past the last data row (${rows.length})`);
+  }
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row.variables)))];
+  if (rows.length > 0) {
+    checkColumns(Object.values(map), columns, 'Mapped column');
+    checkColumns(where.map((filter) => filter.column), [...columns, ...Object.keys(map)], 'Filter column');
+  }
+
+  const selected: SelectedRows = { rows: [], filtered: [] };
+  for (const row of rows) {
+    if (row.row < startRow) {
+      continue;
+    }
+    const mapped = { row: row.row, variables: mapColumns(row.variables, map) };
+    const matches = where.every((filter) => matchesFilter(mapped.variables, filter));
+    (matches ? selected.rows : selected.filtered).push(mapped);
+  }
+  return selected;
+}
@@ -0,0 +1,361 @@
+import { BitmapFontName, TextElement } from '../types/index.js';
+import { FontError } from './fontRegistry.js';
+import { suggest } from './jsonSchema.js';
+import { TextExtent } from './textLayout.js';
+import { Rect } from './transform.js';
+
+/**
+ * A 1-bit font drawn dot for dot: each glyph dot becomes a square of whole
+ * printer dots, so text prints without anti-aliasing grey at any size
+ */
+export interface BitmapFont {
+  name: BitmapFontName;
+  /** dots in each glyph row */
+  width: number;
+  /** dots each character advances: the glyph and a blank column */
+  advance: number;
+  /** rows of a line, from the top of the tallest glyph to the bottom of the descenders */
+  height: number;
+  /** rows above the baseline */
+  ascent: number;
+  /** rows of each character, top first; the highest of width bits is the leftmost dot */
+  glyphs: ReadonlyMap<string, readonly number[]>;
+}
+
+export const BITMAP_FONT_NAMES: readonly BitmapFontName[] = ['5x7', '8x16'];
+
+/**
+ * Glyphs as 2 hex digits per row, printable ASCII plus the accented letters,
+ * ñ/Ñ, ¿¡, ° and € labels in Spanish need. 5x7: 9 rows, 7 above the
+ * baseline and 2 for descenders.
+ */
+const GLYPHS_5X7: Record<string, string> = {
+  ' ': '000000000000000000',
+  '!': '040404040400040000',
+  '"': '0a0a0a000000000000',
+  '#': '0a0a1f0a1f0a0a0000',
+  '$': '040f140e051e040000',
+  '%': '181902040813030000',
+  '&': '0c12140815120d0000',
+  "'": '040408000000000000',
+  '(': '020408080804020000',
+  ')': '080402020204080000',
+  '*': '0004150e1504000000',
+  '+': '0004041f0404000000',
+  ',': '000000000c04080000',
+  '-': '0000001f0000000000',
+  '.': '00000000000c0c0000',
+  '/': '000102040810000000',
+  '0': '0e11131519110e0000',
+  '1': '040c040404040e0000',
+  '2': '0e11010204081f0000',
+  '3': '1f02040201110e0000',
+  '4': '02060a121f02020000',
+  '5': '1f101e0101110e0000',
+  '6': '0608101e11110e0000',
+  '7': '1f0102040808080000',
+  '8': '0e11110e11110e0000',
+  '9': '0e11110f01020c0000',
+  ':': '000c0c000c0c000000',
+  ';': '000c0c000c04080000',
+  '<': '020408100804020000',
+  '=': '00001f001f00000000',
+  '>': '080402010204080000',
+  '?': '0e1101020400040000',
+  '@': '0e11010d15150e0000',
+  'A': '0e1111111f11110000',
+  'B': '1e11111e11111e0000',
+  'C': '0e11101010110e0000',
+  'D': '1c12111111121c0000',
+  'E': '1f10101e10101f0000',
+  'F': '1f10101e1010100000',
+  'G': '0e11101711110f0000',
+  'H': '1111111f1111110000',
+  'I': '0e04040404040e0000',
+  'J': '0702020202120c0000',
+  'K': '111214181412110000',
+  'L': '1010101010101f0000',
+  'M': '111b15151111110000',
+  'N': '111119151311110000',
+  'O': '0e11111111110e0000',
+  'P': '1e11111e1010100000',
+  'Q': '0e11111115120d0000',
+  'R': '1e11111e1412110000',
+  'S': '0f10100e01011e0000',
+  'T': '1f0404040404040000',
+  'U': '1111111111110e0000',
+  'V': '11111111110a040000',
+  'W': '1111111515150a0000',
+  'X': '11110a040a11110000',
+  'Y': '1111110a0404040000',
+  'Z': '1f01020408101f0000',
+  '[': '0e08080808080e0000',
+  '\\': '001008040201000000',
+  ']': '0e02020202020e0000',
+  '^': '040a11000000000000',
+  '_': '0000000000001f0000',
+  '`': '080402000000000000',
+  'a': '00000e010f110f0000',
+  'b': '1010161911111e0000',
+  'c': '00000e1010110e0000',
+  'd': '01010d1311110f0000',
+  'e': '00000e111f100e0000',
+  'f': '0609081c0808080000',
+  'g': '00000f1111110f010e',
+  'h': '101016191111110000',
+  'i': '04000c0404040e0000',
+  'j': '02000602020202120c',
+  'k': '101012141814120000',
+  'l': '0c04040404040e0000',
+  'm': '00001a151515150000',
+  'n': '000016191111110000',
+  'o': '00000e1111110e0000',
+  'p': '00001e1111111e1010',
+  'q': '00000f1111110f0101',
+  'r': '000016191010100000',
+  's': '00000f100e011e0000',
+  't': '08081c080809060000',
+  'u': '0000111111130d0000',
+  'v': '00001111110a040000',
+  'w': '0000111115150a0000',
+  'x': '0000110a040a110000',
+  'y': '0000111111110f010e',
+  'z': '00001f0204081f0000',
+  '{': '020404080404020000',
+  '|': '040404040404040000',
+  '}': '080404020404080000',
+  '~': '000008150200000000',
+  'á': '02040e010f110f0000',
+  'é': '02040e111f100e0000',
+  'í': '02040c0404040e0000',
+  'ó': '02040e1111110e0000',
+  'ú': '0204111111130d0000',
+  'ü': '0a00111111130d0000',
+  'ñ': '0d1216191111110000',
+  'Ñ': '0e0011191513110000',
+  '¿': '0400040810110e0000',
+  '¡': '040004040404040000',
+  '°': '0c12120c0000000000',
+  '€': '07081e081e08070000',
+};
+
+/**
+ * 8x16: 16 rows, capitals on rows 2-11 (accents above them), descenders on 12-14
+ */
+const GLYPHS_8X16: Record<string, string> = {
+  ' ': '00000000000000000000000000000000',
+  '!': '0000183c3c3c18181800181800000000',
+  '"': '00006666662400000000000000000000',
+  '#': '00000036367f3636367f363600000000',
+  '$': '0000183e63613e0343633e1818000000',
+  '%': '000000006163060c1830634300000000',
+  '&': '00001c36361c3b6e6666663b00000000',
+  "'": '00001818183000000000000000000000',
+  '(': '0000060c1818181818180c0600000000',
+  ')': '000030180c0c0c0c0c0c183000000000',
+  '*': '0000000000361c7f1c36000000000000',
+  '+': '000000000018187e1818000000000000',
+  ',': '00000000000000000018181830000000',
+  '-': '000000000000007f0000000000000000',
+  '.': '00000000000000000000181800000000',
+  '/': '000000000103060c1830604000000000',
+  '0': '00001c3663636b6b6363361c00000000',
+  '1': '00000c1c3c0c0c0c0c0c0c3f00000000',
+  '2': '00003e6303060c183060637f00000000',
+  '3': '00003e6303031e030303633e00000000',
+  '4': '0000060e1e36667f0606060f00000000',
+  '5': '00007f6060607e030303633e00000000',
+  '6': '00001c3060607e636363633e00000000',
+  '7': '00007f6303060c181818181800000000',
+  '8': '00003e6363633e636363633e00000000',
+  '9': '00003e6363633f030303063c00000000',
+  ':': '00000000181800000018180000000000',
+  ';': '00000000181800000018183000000000',
+  '<': '000000060c18306030180c0600000000',
+  '=': '0000000000007e00007e000000000000',
+  '>': '00000030180c0603060c183000000000',
+  '?': '00003e6363060c181800181800000000',
+  '@': '0000003e63636f6f6f6e603e00000000',
+  'A': '0000081c3663637f6363636300000000',
+  'B': '00007e3333333e333333337e00000000',
+  'C': '00001e33616060606061331e00000000',
+  'D': '00007c36333333333333367c00000000',
+  'E': '00007f3331343c343031337f00000000',
+  'F': '00007f3331343c343030307800000000',
+  'G': '00001e336160606f6363331d00000000',
+  'H': '0000636363637f636363636300000000',
+  'I': '00003c18181818181818183c00000000',
+  'J': '00000f06060606066666663c00000000',
+  'K': '0000733336363c3c3633337300000000',
+  'L': '00007830303030303031337f00000000',
+  'M': '000063777f7f6b636363636300000000',
+  'N': '000063737b7f6f676363636300000000',
+  'O': '00001c36636363636363361c00000000',
+  'P': '00007e3333333e303030307800000000',
+  'Q': '00001c36636363636b6f361d00000000',
+  'R': '00007e3333333e363333337300000000',
+  'S': '00003e6360301c060363633e00000000',
+  'T': '00007e18181818181818181800000000',
+  'U': '00006363636363636363633e00000000',
+  'V': '000063636363636363361c0800000000',
+  'W': '0000636363636b6b6b7f363600000000',
+  'X': '00006363363e1c1c3e36636300000000',
+  'Y': '0000666666663c181818181800000000',
+  'Z': '00007f0306060c183030607f00000000',
+  '[': '00003c30303030303030303c00000000',
+  '\\': '000000406030180c0603010000000000',
+  ']': '00003c0c0c0c0c0c0c0c0c3c00000000',
+  '^': '0000081c366300000000000000000000',
+  '_': '000000000000000000000000007f0000',
+  '`': '000030180c0000000000000000000000',
+  'a': '00000000003c063e6666663b00000000',
+  'b': '00007030303c36333333333e00000000',
+  'c': '00000000003e63606060633e00000000',
+  'd': '00000e06061e36666666663b00000000',
+  'e': '00000000003e637f6060633e00000000',
+  'f': '00001c36323078303030307800000000',
+  'g': '00000000003b66666666663e06663c00',
+  'h': '0000703030363b333333337300000000',
+  'i': '00001818003818181818183c00000000',
+  'j': '00000606000e06060606060666663c00',
+  'k': '000070303033363c3c36337300000000',
+  'l': '00003818181818181818183c00000000',
+  'm': '0000000000767f6b6b6b6b6300000000',
+  'n': '00000000006e33333333333300000000',
+  'o': '00000000003e63636363633e00000000',
+  'p': '00000000006e33333333333e30307800',
+  'q': '00000000003b66666666663e06060f00',
+  'r': '00000000006e3b333030307800000000',
+  's': '00000000003e63301c06633e00000000',
+  't': '00000818187e181818181b0e00000000',
+  'u': '00000000006666666666663b00000000',
+  'v': '000000000063636363361c0800000000',
+  'w': '000000000063636b6b6b7f3600000000',
+  'x': '000000000063361c1c1c366300000000',
+  'y': '00000000006363636363633f03067c00',
+  'z': '00000000007f660c1830637f00000000',
+  '{': '0000070c0c0c380c0c0c0c0700000000',
+  '|': '00001818181818181818181818180000',
+  '}': '0000701818180e181818187000000000',
+  '~': '00003b6e000000000000000000000000',
+  'á': '00000c18003c063e6666663b00000000',
+  'é': '00000c18003e637f6060633e00000000',
+  'í': '00000c18003818181818183c00000000',
+  'ó': '00000c18003e63636363633e00000000',
+  'ú': '00000c18006666666666663b00000000',
+  'ü': '00000066006666666666663b00000000',
+  'ñ': '00003b6e006e33333333333300000000',
+  '¿': '00001818001818306063633e00000000',
+  '¡': '00001818001818183c3c3c1800000000',
+  '°': '00001c36361c00000000000000000000',
+  '€': '00000f18307c307c30180f0000000000',
+  'Ñ': '3b6e63737b7f6f676363636300000000',
+};
+
+const FONTS: Record<BitmapFontName, Omit<BitmapFont, 'glyphs'> & { table: Record<string, string> }> = {
+  '5x7': { name: '5x7', width: 5, advance: 6, height: 9, ascent: 7, table: GLYPHS_5X7 },
+  '8x16': { name: '8x16', width: 7, advance: 8, height: 16, ascent: 12, table: GLYPHS_8X16 },
+};
+
+const loaded = new Map<BitmapFontName, BitmapFont>();
+
+/**
+ * Text lines are laid out around: the baseline, or the middle of the line
+ * (text boxes)
+ */
+export type BitmapTextBaseline = 'alphabetic' | 'middle';
+
+/**
+ * Built-in bitmap font by name; unknown names fail with a FontError
+ */
+export function findBitmapFont(name: string): BitmapFont {
+  const font = loaded.get(name as BitmapFontName);
+  if (font) {
+    return font;
+  }
+  if (!Object.prototype.hasOwnProperty.call(FONTS, name)) {
+    const suggestion = suggest(name, BITMAP_FONT_NAMES);
+    throw new FontError(
+      `Unknown bitmap font "${name}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}, use ${BITMAP_FONT_NAMES.join(', ')}`
+    );
+  }
+  const spec = FONTS[name as BitmapFontName];
+  const { table, ...metrics } = spec;
+  const glyphs = new Map<string, number[]>();
+  for (const [char, hex] of Object.entries(table)) {
+    glyphs.set(char, hex.match(/../g)!.map((row) => parseInt(row, 16)));
+  }
+  const result = { ...metrics, glyphs };
+  loaded.set(spec.name, result);
+  return result;
+}
+
+/**
+ * Printer dots per glyph dot: the largest whole multiple whose lines fit in
+ * fontSize, at least 1
+ */
+export function bitmapScale(font: BitmapFont, fontSize: number): number {
+  return Math.max(1, Math.floor(fontSize / font.height));
+}
+
+/**
+ * Rows of a character: its own glyph, the letter without its accent when
+ * the font has no glyph for it ("Á" → "A"), else "?"
+ */
+export function bitmapGlyph(font: BitmapFont, char: string): readonly number[] {
+  return font.glyphs.get(char)
+    ?? font.glyphs.get(char.normalize('NFD').charAt(0))
+    ?? font.glyphs.get('?')!;
+}
+
+/**
+ * Extent of a line of bitmap text at fontSize, in dots (for fitFontSize and
+ * layoutTextBox); the blank column after the last character is not counted
+ */
+export function measureBitmapText(text: string, font: BitmapFont, fontSize: number): TextExtent {
+  const scale = bitmapScale(font, fontSize);
+  const chars = [...text].length;
+  return {
+    width: chars ? (chars * font.advance - (font.advance - font.width)) * scale : 0,
+    ascent: font.ascent * scale,
+    descent: (font.height - font.ascent) * scale,
+  };
+}
+
+/**
+ * The dots of a line of bitmap text as filled rectangles, one per run of
+ * dots in a glyph row; x is where align anchors the line
+ */
+export function bitmapTextRects(
+  text: string,
+  font: BitmapFont,
+  fontSize: number,
+  x: number,
+  y: number,
+  align: NonNullable<TextElement['align']> = 'left',
+  baseline: BitmapTextBaseline = 'alphabetic'
+): Rect[] {
+  const scale = bitmapScale(font, fontSize);
+  const { width } = measureBitmapText(text, font, fontSize);
+  const left = Math.round(align === 'center' ? x - width / 2 : align === 'right' ? x - width : x);
+  const top = Math.round(baseline === 'middle' ? y - (font.height * scale) / 2 : y - font.ascent * scale);
+
+  const rects: Rect[] = [];
+  [...text].forEach((char, index) => {
+    const cellX = left + index * font.advance * scale;
+    bitmapGlyph(font, char).forEach((bits, row) => {
+      for (let col = 0; col < font.width; col++) {
+        if (!(bits & (1 << (font.width - 1 - col)))) {
+          continue;
+        }
+        let run = 1;
+        while (col + run < font.width && bits & (1 << (font.width - 1 - col - run))) {
+          run++;
+        }
+        rects.push({ x: cellX + col * scale, y: top + row * scale, width: run * scale, height: scale });
+        col += run;
+      }
+    });
+  });
+  return rects;
+}
@@ -1,35 +1,112 @@
 import dotenv from 'dotenv';
-import { PrinterConfig, PrintOptions, ImageDimensions, PrinterProtocol, DebugConfig } from '../types/index.js';
+import path from 'path';
+import {
+  PrinterConfig,
+  PrintOptions,
+  ImageDimensions,
+  PrinterProtocol,
+  DebugConfig,
+  PrinterProfile,
+  GsV0HeaderFormat,
+  LabelMedia,
+} from '../types/index.js';
 import { ParsedArguments } from './argumentParser.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * @deprecated Use getImageDimensions(profile): label size and DPI now come from the printer profile
+ */
 export const IMAGE_DIMENSIONS: ImageDimensions = {
   width: 0xE3,
   height: 0x11, 
   dpi: parseInt(process.env.PRINTER_DPI ?? '203')
 };
 
-export const getPrinterProtocol = (imageDimensions: ImageDimensions): PrinterProtocol => {
+const GS_V0_COMMAND = [0x1D, 0x76, 0x30];
+
+/**
+ * GS v 0 header encoders, keyed by the profile's headerFormat
+ */
+const HEADER_ENCODERS: Record<GsV0HeaderFormat, (widthPx: number, heightDots: number) => number[]> = {
+  'heightBytesBE-widthPxBE': (widthPx, heightDots) => {
+    const heightBytes = Math.ceil(heightDots / 8);
+    return [heightBytes >> 8, heightBytes & 0xFF, widthPx >> 8, widthPx & 0xFF];
+  },
+  'widthBytesLE-heightDotsLE': (widthPx, heightDots) => {
+    const widthBytes = Math.ceil(widthPx / 8);
+    return [widthBytes & 0xFF, widthBytes >> 8, heightDots & 0xFF, heightDots >> 8];
+  }
+};
+
+/**
+ * Default image dimensions for a profile: the diecut label size, or the safe area
+ */
+export function getImageDimensions(profile: PrinterProfile): ImageDimensions {
+  const widthPx = profile.media.diecut?.labelWidthPx ?? profile.limits.safeWidthPx;
+  const heightPx = profile.media.diecut?.labelHeightPx ?? profile.limits.safeHeightPx;
+  return {
+    width: widthPx,
+    height: Math.ceil(heightPx / 8),
+    dpi: parseInt(process.env.PRINTER_DPI ?? String(profile.dpi))
+  };
+}
+
+/**
+ * Builds the framing bytes for one raster block from the printer profile
+ */
+export const getPrinterProtocol = (profile: PrinterProfile, imageDimensions: ImageDimensions): PrinterProtocol => {
+  const { protocol } = profile;
+  const encodeHeader = HEADER_ENCODERS[protocol.gsV0.headerFormat];
+  if (!encodeHeader) {
+    throw new Error(`Unknown GS v 0 headerFormat: ${protocol.gsV0.headerFormat}`);
+  }
+
   return {
-    firmwareRequest: [0x10, 0xFF, 0x20, 0xF1],
+    firmwareRequest: protocol.firmwareRequest ?? [],
     prefix: [
-      0x10, 0xFF, 0xFE, 0x01, 0x10, 0xFF, 0xFE, 0x40, 0x1D, 0x76, 0x30,
-      imageDimensions.height >> 8, imageDimensions.height & 0xFF,
-      imageDimensions.width >> 8, imageDimensions.width & 0xFF, 0x00
+      ...protocol.prefix,
+      ...GS_V0_COMMAND,
+      ...(typeof protocol.gsV0.m === 'number' ? [protocol.gsV0.m] : []),
+      ...encodeHeader(imageDimensions.width, imageDimensions.height * 8),
+      ...(protocol.gsV0.trailer ?? [])
     ],
-    postfix: [0x1B, 0x4A, 0x40, 0x10, 0xFF, 0xFE, 0x45]
+    postfix: protocol.postfix
   };
 };
 
+/**
+ * Extra feed after a label on continuous media, with the profile's feed
+ * command (ESC J n in dots, ESC d n in lines, up to 255 per command)
+ */
+export function getFeedCommand(profile: PrinterProfile, media: Pick<LabelMedia, 'feedAfterDots' | 'feedAfterLines'>): number[] {
+  const command = profile.protocol.feedCommand;
+  if (!command) {
+    return [];
+  }
+  const bytes: number[] = [];
+  let remaining = (command.unit === 'dots' ? media.feedAfterDots : media.feedAfterLines) ?? 0;
+  while (remaining > 0) {
+    bytes.push(...command.opcode, Math.min(remaining, 0xFF));
+    remaining -= 0xFF;
+  }
+  return bytes;
+}
+
 export function getPrinterConfig(): PrinterConfig {
   return {
+    profile: process.env.PRINTER_PROFILE ?? 'makeid-l1',
     portPath: process.env.PORT_PATH ?? 'COM3',
     baudRate: parseInt(process.env.BAUD_RATE ?? '57600'),
     packetSize: 122,
     exitDelay: parseInt(process.env.EXIT_DELAY ?? '2000'),
-    packetDelay: parseInt(process.env.PACKET_DELAY ?? '0')
+    packetDelay: parseInt(process.env.PACKET_DELAY ?? '0'),
+    responseTimeout: parseInt(process.env.RESPONSE_TIMEOUT ?? '2000'),
+    ...(process.env.MAX_BANNER_LENGTH && { maxBannerLength: parseInt(process.env.MAX_BANNER_LENGTH) }),
+    ...(process.env.LABEL_STOCK && { stock: process.env.LABEL_STOCK }),
+    ...(process.env.FONT_DIRS && { fontDirs: process.env.FONT_DIRS.split(path.delimiter).filter(Boolean) }),
+    ...(process.env.STRICT_FONTS === 'true' && { strictFonts: true })
   };
 }
 
@@ -0,0 +1,248 @@
+import { BarcodeError } from './barcode.js';
+import { ReedSolomonEncoder } from './reedSolomon.js';
+
+/**
+ * Self-contained Data Matrix ECC200 encoder (ISO/IEC 16022), square symbols
+ * 10x10 to 144x144 with ASCII encodation (digit pairs packed, Latin-1 via
+ * upper shift).
+ */
+
+interface SymbolSize {
+  size: number;
+  regionSize: number;
+  regionsPerSide: number;
+  dataCodewords: number;
+  eccCodewords: number;
+  blocks: number;
+}
+
+const SYMBOL_SIZES: SymbolSize[] = [
+  { size: 10, regionSize: 8, regionsPerSide: 1, dataCodewords: 3, eccCodewords: 5, blocks: 1 },
+  { size: 12, regionSize: 10, regionsPerSide: 1, dataCodewords: 5, eccCodewords: 7, blocks: 1 },
+  { size: 14, regionSize: 12, regionsPerSide: 1, dataCodewords: 8, eccCodewords: 10, blocks: 1 },
+  { size: 16, regionSize: 14, regionsPerSide: 1, dataCodewords: 12, eccCodewords: 12, blocks: 1 },
+  { size: 18, regionSize: 16, regionsPerSide: 1, dataCodewords: 18, eccCodewords: 14, blocks: 1 },
+  { size: 20, regionSize: 18, regionsPerSide: 1, dataCodewords: 22, eccCodewords: 18, blocks: 1 },
+  { size: 22, regionSize: 20, regionsPerSide: 1, dataCodewords: 30, eccCodewords: 20, blocks: 1 },
+  { size: 24, regionSize: 22, regionsPerSide: 1, dataCodewords: 36, eccCodewords: 24, blocks: 1 },
+  { size: 26, regionSize: 24, regionsPerSide: 1, dataCodewords: 44, eccCodewords: 28, blocks: 1 },
+  { size: 32, regionSize: 14, regionsPerSide: 2, dataCodewords: 62, eccCodewords: 36, blocks: 1 },
+  { size: 36, regionSize: 16, regionsPerSide: 2, dataCodewords: 86, eccCodewords: 42, blocks: 1 },
+  { size: 40, regionSize: 18, regionsPerSide: 2, dataCodewords: 114, eccCodewords: 48, blocks: 1 },
+  { size: 44, regionSize: 20, regionsPerSide: 2, dataCodewords: 144, eccCodewords: 56, blocks: 1 },
+  { size: 48, regionSize: 22, regionsPerSide: 2, dataCodewords: 174, eccCodewords: 68, blocks: 1 },
+  { size: 52, regionSize: 24, regionsPerSide: 2, dataCodewords: 204, eccCodewords: 84, blocks: 2 },
+  { size: 64, regionSize: 14, regionsPerSide: 4, dataCodewords: 280, eccCodewords: 112, blocks: 2 },
+  { size: 72, regionSize: 16, regionsPerSide: 4, dataCodewords: 368, eccCodewords: 144, blocks: 4 },
+  { size: 80, regionSize: 18, regionsPerSide: 4, dataCodewords: 456, eccCodewords: 192, blocks: 4 },
+  { size: 88, regionSize: 20, regionsPerSide: 4, dataCodewords: 576, eccCodewords: 224, blocks: 4 },
+  { size: 96, regionSize: 22, regionsPerSide: 4, dataCodewords: 696, eccCodewords: 272, blocks: 4 },
+  { size: 104, regionSize: 24, regionsPerSide: 4, dataCodewords: 816, eccCodewords: 336, blocks: 6 },
+  { size: 120, regionSize: 18, regionsPerSide: 6, dataCodewords: 1050, eccCodewords: 408, blocks: 6 },
+  { size: 132, regionSize: 20, regionsPerSide: 6, dataCodewords: 1304, eccCodewords: 496, blocks: 8 },
+  { size: 144, regionSize: 22, regionsPerSide: 6, dataCodewords: 1558, eccCodewords: 620, blocks: 10 },
+];
+
+const ASCII = {
+  PAD: 129,
+  DIGIT_PAIR_OFFSET: 130,
+  UPPER_SHIFT: 235,
+} as const;
+
+const rs = new ReedSolomonEncoder(0x12D, 1);
+
+const isDigit = (code: number): boolean => code >= 0x30 && code <= 0x39;
+
+/**
+ * ASCII encodation: digit pairs in one codeword, 0-127 as value + 1,
+ * 128-255 behind an upper shift
+ */
+function encodeAscii(data: string): number[] {
+  const codewords: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i);
+    const next = data.charCodeAt(i + 1);
+    if (isDigit(code) && isDigit(next)) {
+      codewords.push(ASCII.DIGIT_PAIR_OFFSET + (code - 0x30) * 10 + (next - 0x30));
+      i++;
+    } else if (code < 128) {
+      codewords.push(code + 1);
+    } else if (code < 256) {
+      codewords.push(ASCII.UPPER_SHIFT, code - 128 + 1);
+    } else {
+      throw new BarcodeError(
+        `Data Matrix cannot encode "${data[i]}" in "${data}": only ASCII and Latin-1 characters are supported`
+      );
+    }
+  }
+  return codewords;
+}
+
+/**
+ * Pads to capacity: first pad is 129, the rest use the 253-state randomising algorithm
+ */
+function padCodewords(codewords: number[], capacity: number): number[] {
+  const padded = [...codewords];
+  if (padded.length < capacity) padded.push(ASCII.PAD);
+  while (padded.length < capacity) {
+    const position = padded.length + 1;
+    let pad = ASCII.PAD + ((149 * position) % 253) + 1;
+    if (pad > 254) pad -= 254;
+    padded.push(pad);
+  }
+  return padded;
+}
+
+/**
+ * Appends the interleaved Reed-Solomon codewords. A codeword belongs to block
+ * (position mod blocks) over the whole stream, which only matters for 144x144,
+ * where the data length is not a multiple of the block count.
+ */
+function addEcc(data: number[], symbol: SymbolSize): number[] {
+  const { blocks } = symbol;
+  const eccPerBlock = symbol.eccCodewords / blocks;
+  const eccOffset = data.length % blocks;
+  const result = [...data, ...new Array(symbol.eccCodewords).fill(0)];
+
+  for (let block = 0; block < blocks; block++) {
+    const blockData = data.filter((_, i) => i % blocks === block);
+    const slot = (block - eccOffset + blocks) % blocks;
+    rs.remainder(blockData, eccPerBlock).forEach((codeword, i) => {
+      result[data.length + i * blocks + slot] = codeword;
+    });
+  }
+  return result;
+}
+
+/**
+ * ECC200 module placement (ISO/IEC 16022 annex F). Each cell holds
+ * 10 * codeword + bit (1 = MSB), 1 for a fixed dark module or 0 for light.
+ */
+function placeCodewords(nrow: number, ncol: number): number[] {
+  const grid = new Array(nrow * ncol).fill(0);
+
+  const module = (row: number, col: number, chr: number, bit: number): void => {
+    if (row < 0) {
+      row += nrow;
+      col += 4 - ((nrow + 4) % 8);
+    }
+    if (col < 0) {
+      col += ncol;
+      row += 4 - ((ncol + 4) % 8);
+    }
+    grid[row * ncol + col] = 10 * chr + bit;
+  };
+
+  const utah = (row: number, col: number, chr: number): void => {
+    module(row - 2, col - 2, chr, 1);
+    module(row - 2, col - 1, chr, 2);
+    module(row - 1, col - 2, chr, 3);
+    module(row - 1, col - 1, chr, 4);
+    module(row - 1, col, chr, 5);
+    module(row, col - 2, chr, 6);
+    module(row, col - 1, chr, 7);
+    module(row, col, chr, 8);
+  };
+
+  const corner = (cells: Array<[number, number]>, chr: number): void => {
+    cells.forEach(([row, col], i) => module(row, col, chr, i + 1));
+  };
+
+  let chr = 1;
+  let row = 4;
+  let col = 0;
+  do {
+    if (row === nrow && col === 0) {
+      corner([[nrow - 1, 0], [nrow - 1, 1], [nrow - 1, 2], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]], chr++);
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 4 !== 0) {
+      corner([[nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 4], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1]], chr++);
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 8 === 4) {
+      corner([[nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]], chr++);
+    }
+    if (row === nrow + 4 && col === 2 && ncol % 8 === 0) {
+      corner([[nrow - 1, 0], [nrow - 1, ncol - 1], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 3], [1, ncol - 2], [1, ncol - 1]], chr++);
+    }
+
+    // Sweep upward diagonally
+    do {
+      if (row < nrow && col >= 0 && grid[row * ncol + col] === 0) utah(row, col, chr++);
+      row -= 2;
+      col += 2;
+    } while (row >= 0 && col < ncol);
+    row += 1;
+    col += 3;
+
+    // Sweep downward diagonally
+    do {
+      if (row >= 0 && col < ncol && grid[row * ncol + col] === 0) utah(row, col, chr++);
+      row += 2;
+      col -= 2;
+    } while (row < nrow && col >= 0);
+    row += 3;
+    col += 1;
+  } while (row < nrow || col < ncol);
+
+  // Unfilled lower-right corner gets the fixed pattern
+  if (grid[nrow * ncol - 1] === 0) {
+    grid[nrow * ncol - 1] = 1;
+    grid[nrow * ncol - ncol - 2] = 1;
+  }
+
+  return grid;
+}
+
+/**
+ * Encodes data as a Data Matrix ECC200 symbol and returns its module matrix
+ * (true = dark), without quiet zone
+ */
+export function encodeDataMatrix(data: string): boolean[][] {
+  if (data.length === 0) {
+    throw new BarcodeError('Data Matrix data cannot be empty');
+  }
+
+  const encoded = encodeAscii(data);
+  const symbol = SYMBOL_SIZES.find((candidate) => candidate.dataCodewords >= encoded.length);
+  if (!symbol) {
+    throw new BarcodeError(
+      `Data Matrix data too long: ${encoded.length} codewords exceed the 144x144 capacity (1558)`
+    );
+  }
+
+  const codewords = addEcc(padCodewords(encoded, symbol.dataCodewords), symbol);
+  const mappingSize = symbol.regionSize * symbol.regionsPerSide;
+  const placement = placeCodewords(mappingSize, mappingSize);
+
+  const { size, regionSize } = symbol;
+  const block = regionSize + 2;
+  const matrix = Array.from({ length: size }, () => new Array(size).fill(false));
+
+  // Finder (solid left/bottom) and timing (alternating top/right) per region
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const bx = x % block;
+      const by = y % block;
+      if (bx === 0 || by === block - 1) {
+        matrix[y][x] = true;
+      } else if (by === 0) {
+        matrix[y][x] = bx % 2 === 0;
+      } else if (bx === block - 1) {
+        matrix[y][x] = by % 2 === 1;
+      }
+    }
+  }
+
+  for (let row = 0; row < mappingSize; row++) {
+    for (let col = 0; col < mappingSize; col++) {
+      const cell = placement[row * mappingSize + col];
+      const dark = cell === 1
+        || (cell >= 10 && (codewords[Math.floor(cell / 10) - 1] & (1 << (8 - (cell % 10)))) !== 0);
+      const y = 1 + Math.floor(row / regionSize) * block + (row % regionSize);
+      const x = 1 + Math.floor(col / regionSize) * block + (col % regionSize);
+      matrix[y][x] = dark;
+    }
+  }
+
+  return matrix;
+}
@@ -0,0 +1,146 @@
+import { DitherAlgorithm, DitherOptions } from '../types/index.js';
+
+/**
+ * Minimal RGBA pixel buffer (structurally compatible with canvas ImageData)
+ */
+export interface RgbaPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_DITHER_THRESHOLD = 128;
+
+export const DITHER_ALGORITHMS: readonly DitherAlgorithm[] = ['threshold', 'floyd-steinberg', 'atkinson', 'ordered'];
+
+/**
+ * 8x8 Bayer matrix for ordered dithering
+ */
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
+
+/**
+ * Error diffusion kernels: [dx, dy, weight]
+ */
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson', Array<[number, number, number]>> = {
+  'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+  // Atkinson only spreads 6/8 of the error: highlights and shadows stay clean
+  atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+};
+
+/**
+ * Luminance (0 = black, 255 = white) of each pixel, alpha composited on white paper
+ */
+export function toLuminance(pixels: RgbaPixels): Float32Array {
+  const { data, width, height } = pixels;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const lum = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    const alpha = data[i * 4 + 3] / 255;
+    luminance[i] = 255 - alpha * (255 - lum);
+  }
+  return luminance;
+}
+
+/**
+ * Reduces a luminance map to 1 bit per pixel (1 = printed dot)
+ */
+export function ditherLuminance(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  options: DitherOptions = {}
+): Uint8Array {
+  const algorithm = options.algorithm ?? 'threshold';
+  const threshold = options.threshold ?? DEFAULT_DITHER_THRESHOLD;
+  const ink = new Uint8Array(width * height);
+
+  switch (algorithm) {
+    case 'threshold':
+      luminance.forEach((lum, i) => {
+        ink[i] = lum < threshold ? 1 : 0;
+      });
+      break;
+
+    case 'ordered': {
+      // Threshold shifts the whole Bayer map: 128 keeps it centred
+      const bias = threshold - DEFAULT_DITHER_THRESHOLD;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const level = ((BAYER_8X8[y % 8][x % 8] + 0.5) / 64) * 255 + bias;
+          ink[y * width + x] = luminance[y * width + x] < level ? 1 : 0;
+        }
+      }
+      break;
+    }
+
+    case 'floyd-steinberg':
+    case 'atkinson': {
+      const kernel = DIFFUSION_KERNELS[algorithm];
+      const work = Float32Array.from(luminance);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          const printed = work[i] < threshold;
+          ink[i] = printed ? 1 : 0;
+          const error = work[i] - (printed ? 0 : 255);
+          for (const [dx, dy, weight] of kernel) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx >= 0 && nx < width && ny < height) {
+              work[ny * width + nx] += error * weight;
+            }
+          }
+        }
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown dither algorithm: ${algorithm} (use ${DITHER_ALGORITHMS.join(', ')})`);
+  }
+
+  return ink;
+}
+
+/**
+ * Dithers RGBA pixels in place to pure black and white
+ */
+export function ditherPixels(pixels: RgbaPixels, options: DitherOptions = {}): void {
+  const ink = ditherLuminance(toLuminance(pixels), pixels.width, pixels.height, options);
+  ink.forEach((bit, i) => {
+    const value = bit ? 0 : 255;
+    pixels.data[i * 4] = value;
+    pixels.data[i * 4 + 1] = value;
+    pixels.data[i * 4 + 2] = value;
+    pixels.data[i * 4 + 3] = 255;
+  });
+}
+
+/**
+ * Cuts a layer of antialiased drawing to whole dots in place: pixels whose
+ * coverage would print darker than threshold on white paper become opaque
+ * ink, the rest transparent
+ */
+export function thresholdInk(
+  pixels: RgbaPixels,
+  threshold: number = DEFAULT_DITHER_THRESHOLD,
+  ink: readonly [number, number, number] = [0, 0, 0]
+): void {
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const printed = 255 - data[i + 3] < threshold;
+    data[i] = ink[0];
+    data[i + 1] = ink[1];
+    data[i + 2] = ink[2];
+    data[i + 3] = printed ? 255 : 0;
+  }
+}
@@ -0,0 +1,473 @@
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ElementFont, FontStyle, FontWeight, RenderTemplate, TemplateFont } from '../types/index.js';
+import { suggest } from './jsonSchema.js';
+import { Logger } from './logger.js';
+
+/**
+ * Font registry: the families text can be drawn in. The bundled fonts/ are
+ * always there, font directories and template-declared files are added on
+ * top, and system font directories are only scanned the first time a family
+ * is missing. Families and weights are read from the font files themselves
+ * (a fonts.json next to them can rename them or add aliases). Canvas-free:
+ * the renderer passes the function that loads a file into its engine.
+ *
+ * A family that is not registered is never substituted silently: the
+ * element's fontFallback chain is tried first, then the registry warns and
+ * draws in the default family, or throws FontError when strict.
+ */
+
+/**
+ * Fonts shipped with the package (fonts/ at the package root)
+ */
+export const FONTS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  '..',
+  'fonts'
+);
+
+/**
+ * Family of text that names none, and of the template's defaultFont
+ */
+export const DEFAULT_FONT_FAMILY = 'Norwester Condensed';
+
+/**
+ * Optional manifest in a font directory: file name -> family, weight,
+ * style and aliases
+ */
+export const FONT_MANIFEST = 'fonts.json';
+
+const FONT_EXTENSIONS = ['.ttf', '.otf', '.ttc'];
+
+/**
+ * CSS generic families: always available, the font engine picks the font
+ */
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+const SYSTEM_FONT_DIRS: Partial<Record<NodeJS.Platform, string[]>> = {
+  linux: ['/usr/share/fonts', '/usr/local/share/fonts'],
+  darwin: ['/Library/Fonts', '/System/Library/Fonts'],
+  win32: [path.join(process.env.WINDIR ?? 'C:\\Windows', 'Fonts')],
+};
+
+/**
+ * A family that is not registered (strict registries), a font file that
+ * cannot be read or a weight that is not a CSS weight
+ */
+export class FontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontError';
+  }
+}
+
+/**
+ * What a font file says about itself
+ */
+export interface FontInfo {
+  family: string;
+  weight: number;
+  style: FontStyle;
+}
+
+/**
+ * A registered font file
+ */
+export interface FontFace extends FontInfo {
+  file: string;
+}
+
+/**
+ * Families in order of preference, and the variant wanted
+ */
+export interface FontRequest {
+  families: string[];
+  weight?: FontWeight;
+  style?: FontStyle;
+}
+
+/**
+ * The family and variant to draw with
+ */
+export interface ResolvedFont {
+  family: string;
+  weight: number;
+  style: FontStyle;
+}
+
+/**
+ * Loads a font file into the renderer (node-canvas registerFont)
+ */
+export type RegisterFontFile = (file: string, face: { family: string; weight: string; style: string }) => void;
+
+export interface FontRegistryOptions {
+  register?: RegisterFontFile;
+  logger?: Logger;
+  /** throw FontError instead of warning when no family of a request is registered */
+  strict?: boolean;
+  /** family drawn instead of a missing one (default DEFAULT_FONT_FAMILY) */
+  defaultFamily?: string;
+  /** scanned when a family is missing (default: the platform's font directories; false for none) */
+  systemDirs?: string[] | false;
+}
+
+interface ManifestEntry {
+  family?: string;
+  weight?: FontWeight;
+  style?: FontStyle;
+  aliases?: string[];
+}
+
+/**
+ * CSS weight as a number: normal 400, bold 700, 1 to 1000 as given
+ */
+export function fontWeight(weight: FontWeight = 'normal'): number {
+  if (weight === 'normal') {
+    return 400;
+  }
+  if (weight === 'bold') {
+    return 700;
+  }
+  if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1 || weight > 1000) {
+    throw new FontError(`Invalid font weight ${JSON.stringify(weight)}: use normal, bold or 100 to 900`);
+  }
+  return weight;
+}
+
+/**
+ * CSS font shorthand for a canvas context
+ */
+export function cssFont(font: ResolvedFont, size: number): string {
+  return `${font.style} ${font.weight} ${size}px "${font.family}"`;
+}
+
+/**
+ * Font request of an element with text: its own family and fallbacks, or
+ * the template's defaultFont ones
+ */
+export function elementFont(element: ElementFont, defaultFont?: RenderTemplate['defaultFont']): FontRequest {
+  const families = element.fontFamily
+    ? [element.fontFamily, ...(element.fontFallback ?? [])]
+    : [defaultFont?.family ?? DEFAULT_FONT_FAMILY, ...(element.fontFallback ?? defaultFont?.fallback ?? [])];
+  return { families, weight: element.weight, style: element.fontStyle };
+}
+
+/**
+ * Reads bytes of a file at an offset
+ */
+function readBytes(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const read = readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, read);
+}
+
+/**
+ * Decodes a name table string (UTF-16BE for Unicode and Windows, Latin-1 for Mac)
+ */
+function decodeName(bytes: Buffer, platformId: number): string {
+  if (platformId === 1) {
+    return bytes.toString('latin1');
+  }
+  const chars: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    chars.push(bytes.readUInt16BE(i));
+  }
+  return String.fromCharCode(...chars);
+}
+
+/**
+ * Family, weight and style of a TrueType/OpenType file (the first font of a
+ * collection), from its name and OS/2 tables. Only the table directory and
+ * those two tables are read.
+ */
+export function readFontInfo(file: string): FontInfo {
+  let fd: number;
+  try {
+    fd = openSync(file, 'r');
+  } catch (error) {
+    throw new FontError(`Cannot read font "${file}": ${(error as Error).message}`);
+  }
+  try {
+    let start = 0;
+    let header = readBytes(fd, 0, 12);
+    if (header.length === 12 && header.toString('latin1', 0, 4) === 'ttcf') {
+      start = readBytes(fd, 12, 4).readUInt32BE(0);
+      header = readBytes(fd, start, 12);
+    }
+    const version = header.length === 12 ? header.readUInt32BE(0) : 0;
+    if (version !== 0x00010000 && header.toString('latin1', 0, 4) !== 'OTTO' && header.toString('latin1', 0, 4) !== 'true') {
+      throw new FontError(`"${file}" is not a TrueType or OpenType font`);
+    }
+
+    const tableCount = header.readUInt16BE(4);
+    const directory = readBytes(fd, start + 12, tableCount * 16);
+    const tables = new Map<string, { offset: number; length: number }>();
+    for (let i = 0; i + 16 <= directory.length; i += 16) {
+      tables.set(directory.toString('latin1', i, i + 4), {
+        offset: directory.readUInt32BE(i + 8),
+        length: directory.readUInt32BE(i + 12),
+      });
+    }
+
+    const nameTable = tables.get('name');
+    if (!nameTable) {
+      throw new FontError(`"${file}" has no name table`);
+    }
+    const names = readBytes(fd, nameTable.offset, nameTable.length);
+    const count = names.readUInt16BE(2);
+    const stringsAt = names.readUInt16BE(4);
+    // Preference: Windows English, any Windows, Unicode, Mac
+    const found = new Map<number, { rank: number; value: string }>();
+    for (let i = 0; i < count; i++) {
+      const record = 6 + i * 12;
+      const platformId = names.readUInt16BE(record);
+      const languageId = names.readUInt16BE(record + 4);
+      const nameId = names.readUInt16BE(record + 6);
+      if (![1, 2, 16, 17].includes(nameId)) {
+        continue;
+      }
+      const rank = platformId === 3 ? (languageId === 0x409 ? 0 : 1) : platformId === 0 ? 2 : 3;
+      const at = stringsAt + names.readUInt16BE(record + 10);
+      const value = decodeName(names.subarray(at, at + names.readUInt16BE(record + 8)), platformId).trim();
+      if (value && rank < (found.get(nameId)?.rank ?? Infinity)) {
+        found.set(nameId, { rank, value });
+      }
+    }
+    const family = found.get(16)?.value ?? found.get(1)?.value;
+    if (!family) {
+      throw new FontError(`"${file}" names no font family`);
+    }
+    const subfamily = found.get(17)?.value ?? found.get(2)?.value ?? '';
+
+    const os2 = tables.get('OS/2');
+    const metrics = os2 ? readBytes(fd, os2.offset, 64) : Buffer.alloc(0);
+    const weight = metrics.length >= 6 && metrics.readUInt16BE(4) > 0
+      ? metrics.readUInt16BE(4)
+      : /bold/i.test(subfamily) ? 700 : 400;
+    const italic = metrics.length >= 64 ? (metrics.readUInt16BE(62) & 1) === 1 : /italic|oblique/i.test(subfamily);
+    return { family, weight, style: italic ? 'italic' : 'normal' };
+  } catch (error) {
+    if (error instanceof FontError) {
+      throw error;
+    }
+    throw new FontError(`Cannot read font "${file}": ${(error as Error).message}`);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Registered font families and their weight/style variants
+ */
+export class FontRegistry {
+  private readonly faces = new Map<string, FontFace[]>();
+  private readonly registered = new Set<string>();
+  private readonly warned = new Set<string>();
+  private readonly register?: RegisterFontFile;
+  private readonly logger?: Logger;
+  private readonly strict: boolean;
+  private readonly defaultFamily: string;
+  private systemDirs: string[];
+
+  constructor(options: FontRegistryOptions = {}) {
+    this.register = options.register;
+    this.logger = options.logger;
+    this.strict = options.strict ?? false;
+    this.defaultFamily = options.defaultFamily ?? DEFAULT_FONT_FAMILY;
+    this.systemDirs = options.systemDirs === false ? [] : options.systemDirs ?? SYSTEM_FONT_DIRS[process.platform] ?? [];
+  }
+
+  /**
+   * Registers a font file. Family, weight and style default to the file's
+   * own; the same file can be registered under several families.
+   */
+  addFont(file: string, face: Partial<FontInfo> = {}): FontFace {
+    const resolved = path.resolve(file);
+    const info = face.family && face.weight !== undefined && face.style ? face as FontInfo : { ...readFontInfo(resolved), ...face };
+    const font: FontFace = { file: resolved, family: info.family, weight: info.weight, style: info.style };
+    const key = `${resolved}\n${font.family}\n${font.weight}\n${font.style}`;
+    if (this.registered.has(key)) {
+      return font;
+    }
+
+    this.register?.(resolved, { family: font.family, weight: String(font.weight), style: font.style });
+    this.registered.add(key);
+    const id = font.family.toLowerCase();
+    this.faces.set(id, [...(this.faces.get(id) ?? []), font]);
+    this.logger?.debug(`Font registered: ${font.family} ${font.weight} ${font.style} (${path.basename(resolved)})`);
+    return font;
+  }
+
+  /**
+   * Registers the font files of a directory and its subdirectories, named
+   * as in its fonts.json if it has one. Files that cannot be read are
+   * skipped with a warning.
+   */
+  addDirectory(dir: string): FontFace[] {
+    if (!existsSync(dir)) {
+      throw new FontError(`Font directory "${dir}" does not exist`);
+    }
+    const manifestFile = path.join(dir, FONT_MANIFEST);
+    let manifest: Record<string, ManifestEntry> = {};
+    if (existsSync(manifestFile)) {
+      try {
+        manifest = JSON.parse(readFileSync(manifestFile, 'utf-8'));
+      } catch (error) {
+        throw new FontError(`Invalid font manifest "${manifestFile}": ${(error as Error).message}`);
+      }
+    }
+
+    const added: FontFace[] = [];
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        added.push(...this.addDirectory(file));
+        continue;
+      }
+      if (!FONT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        continue;
+      }
+      const { family, weight, style, aliases = [] } = manifest[entry.name] ?? {};
+      try {
+        const face = this.addFont(file, {
+          ...(family && { family }),
+          ...(weight !== undefined && { weight: fontWeight(weight) }),
+          ...(style && { style }),
+        });
+        added.push(face);
+        for (const alias of aliases) {
+          added.push(this.addFont(file, { ...face, family: alias }));
+        }
+      } catch (error) {
+        this.logger?.error(`Skipping font "${file}"`, error as Error);
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Registers the fonts shipped with the package
+   */
+  addBundledFonts(): FontFace[] {
+    return this.addDirectory(FONTS_DIR);
+  }
+
+  /**
+   * Registers the fonts a template declares (src already resolved by
+   * TemplateService). A file that cannot be read fails the label.
+   */
+  addTemplateFonts(fonts: TemplateFont[] = []): void {
+    for (const font of fonts) {
+      try {
+        this.addFont(font.src, {
+          family: font.family,
+          ...(font.weight !== undefined && { weight: fontWeight(font.weight) }),
+          ...(font.style && { style: font.style }),
+        });
+      } catch (error) {
+        throw new FontError(`Template font "${font.family}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Whether a family is registered (or is a CSS generic family)
+   */
+  has(family: string): boolean {
+    return this.faces.has(family.toLowerCase()) || GENERIC_FAMILIES.includes(family.toLowerCase());
+  }
+
+  /**
+   * Registered families, sorted
+   */
+  families(): string[] {
+    return [...this.faces.values()].map((faces) => faces[0].family).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Registered variants of a family
+   */
+  variants(family: string): FontFace[] {
+    return this.faces.get(family.toLowerCase()) ?? [];
+  }
+
+  /**
+   * The first registered family of a request, in its closest variant
+   * (same style first, then the nearest weight, heavier on a tie from bold
+   * up). System fonts are scanned when none is registered yet; if still none
+   * is, the default family is drawn with a warning, or FontError when strict.
+   */
+  resolve(request: FontRequest): ResolvedFont {
+    const weight = fontWeight(request.weight);
+    const style = request.style ?? 'normal';
+
+    let family = request.families.find((candidate) => this.has(candidate));
+    if (!family && this.systemDirs.length > 0) {
+      this.scanSystemFonts();
+      family = request.families.find((candidate) => this.has(candidate));
+    }
+    if (!family) {
+      family = this.substitute(request.families);
+    }
+
+    const faces = this.variants(family);
+    if (faces.length === 0) {
+      return { family, weight, style };
+    }
+    const sameStyle = faces.filter((face) => face.style === style);
+    const best = (sameStyle.length > 0 ? sameStyle : faces).reduce((a, b) => {
+      const [da, db] = [Math.abs(a.weight - weight), Math.abs(b.weight - weight)];
+      if (da !== db) {
+        return db < da ? b : a;
+      }
+      return (weight >= 500) === (b.weight > a.weight) ? b : a;
+    });
+    return { family: best.family, weight: best.weight, style: best.style };
+  }
+
+  /**
+   * Scans the system fonts now if a request has no registered family yet:
+   * renderers that only see fonts registered before their canvas was
+   * created (node-canvas) call it before creating one
+   */
+  prepare(requests: FontRequest[]): void {
+    if (this.systemDirs.length > 0 && requests.some((request) => !request.families.some((family) => this.has(family)))) {
+      this.scanSystemFonts();
+    }
+  }
+
+  /**
+   * Scans the system font directories, once
+   */
+  private scanSystemFonts(): void {
+    const dirs = this.systemDirs;
+    this.systemDirs = [];
+    for (const dir of dirs.filter((candidate) => existsSync(candidate) && statSync(candidate).isDirectory())) {
+      const before = this.faces.size;
+      this.addDirectory(dir);
+      this.logger?.verbose(`Scanned system fonts in ${dir}: ${this.faces.size - before} new families`);
+    }
+  }
+
+  /**
+   * Family drawn when none of a request is registered
+   */
+  private substitute(families: string[]): string {
+    const [wanted] = families;
+    const suggestion = suggest(wanted, this.families());
+    const missing = `Font ${families.map((family) => `"${family}"`).join(', ')} ${families.length > 1 ? 'are' : 'is'} not registered`
+      + (suggestion ? ` (did you mean "${suggestion}"?)` : '');
+    if (this.strict) {
+      throw new FontError(`${missing}. Fonts: ${this.families().join(', ') || 'none'}`);
+    }
+    const fallback = this.has(this.defaultFamily) ? this.defaultFamily : this.families()[0] ?? wanted;
+    const key = families.join('\n');
+    if (!this.warned.has(key)) {
+      this.warned.add(key);
+      this.logger?.info(`⚠️ ${missing}, drawing in "${fallback}"`);
+    }
+    return fallback;
+  }
+}
@@ -11,8 +11,27 @@ import {
   CircleElement,
   StripeElement,
   GridElement,
+  BarcodeElement,
+  QrCodeElement,
+  DataMatrixElement,
+  ImageElement,
+  DitherOptions,
+  RasterFormat,
+  TemplateVariables,
 } from '../types/index.js';
 import { Logger } from './logger.js';
+import { BarcodeError, layoutBarcode, DEFAULT_BARCODE_HEIGHT, DEFAULT_BARCODE_FONT_SIZE, BARCODE_TEXT_GAP } from './barcode.js';
+import { interpolate, TemplateExpressionError } from './templateExpression.js';
+import { layoutMatrixCode } from './matrixCode.js';
+import { ditherPixels, thresholdInk } from './dither.js';
+import { renderRasterImage, DEFAULT_IMAGE_DITHER } from './rasterImage.js';
+import { ImageLoadError } from './imageSource.js';
+import { layoutTextBox, fitFontSize, availableTextSpace, aliasedTextThreshold, TextExtent } from './textLayout.js';
+import { createBitmap, GrayImage, MonoBitmap, packBitmap, rotateBitmap } from './monoImage.js';
+import { renderSvgLabel } from './svgLabel.js';
+import { ElementTurn, Rect, elementTurn, exceedsLabel, labelQuarterTurns, rotatePoint, rotatedBounds } from './transform.js';
+import { DEFAULT_FONT_FAMILY, FontError, FontRegistry, FontRegistryOptions, ResolvedFont, cssFont, elementFont } from './fontRegistry.js';
+import { BitmapFont, bitmapTextRects, findBitmapFont, measureBitmapText } from './bitmapFont.js';
 
 /**
  * Configuration constants for image processing
@@ -20,15 +39,27 @@ import { Logger } from './logger.js';
 const IMAGE_CONFIG = {
   STANDARD_DPI: 96,
   HEIGHT_MULTIPLIER: 8,
-  BITS_PER_BYTE: 8,
   DEBUG_CANVAS_PADDING: 60,
   DEBUG_FONT_SIZE: 12,
   DEBUG_LINE_HEIGHT: 15,
   DEBUG_MARGIN: 5,
   WHITE_PIXEL_VALUE: 0xFF,
-  FONT_PATH: 'norwester.ttf',
+  BARCODE_HEIGHT: DEFAULT_BARCODE_HEIGHT,
+  BARCODE_FONT_SIZE: DEFAULT_BARCODE_FONT_SIZE,
+  BARCODE_TEXT_GAP,
+  TEXT_MARGIN: 8, // same default as render.textMarginPx in config.json
 } as const;
 
+/**
+ * Raster layout used when no printer profile is given (MakeID L1)
+ */
+const DEFAULT_RASTER: RasterFormat = {
+  orientation: 'column-major',
+  pixelsPerByte: 8,
+  byteOrder: 'topLSB',
+  whiteValue: 1,
+};
+
 /**
  * Color constants
  */
@@ -48,12 +79,45 @@ interface CanvasConfig {
   adjustedFontSize: number;
 }
 
+/**
+ * A JSON template rendered for the printer
+ */
+export interface JsonRenderResult {
+  /** raster bytes in the profile format, as printed */
+  imageData: number[];
+  /** canvas config, width/height as printed */
+  config: CanvasConfig;
+  /** the label's dots as it is read (before orientation/banner turns) */
+  bitmap: MonoBitmap;
+  /** the dots as printed */
+  printed: MonoBitmap;
+  /** the canvas as drawn, in reading orientation */
+  gray: GrayImage;
+}
+
+/**
+ * Font registry drawing with node-canvas: the bundled fonts, then the
+ * given font directories
+ */
+export function createCanvasFontRegistry(options: Omit<FontRegistryOptions, 'register'> & { dirs?: string[] } = {}): FontRegistry {
+  const { dirs = [], ...registryOptions } = options;
+  const fonts = new FontRegistry({
+    ...registryOptions,
+    register: (file, face) => registerFont(file, face),
+  });
+  fonts.addBundledFonts();
+  for (const dir of dirs) {
+    fonts.addDirectory(dir);
+  }
+  return fonts;
+}
+
 /**
  * Image processor for creating printer-ready bitmap data from text and graphics.
  * 
  * This class handles the complete pipeline of:
  * 1. Canvas setup with DPI awareness
- * 2. Font registration and text rendering
+ * 2. Font resolution (see FontRegistry) and text rendering
  * 3. Graphics drawing (stripes, patterns)
  * 4. Image data conversion to printer format
  * 5. Debug image generation
@@ -67,7 +131,7 @@ interface CanvasConfig {
  * const options = {
  *   firstLine: "Hello",
  *   secondLine: "World",
- *   fontFamily: "Arial",
+ *   fontFamily: "Norwester Condensed",
  *   fontSize: 12
  * };
  * 
@@ -77,19 +141,19 @@ interface CanvasConfig {
 export class ImageProcessor {
   private readonly dimensions: ImageDimensions;
   private readonly logger: Logger;
+  private readonly raster: RasterFormat;
+  private readonly fonts: FontRegistry;
 
-  constructor(dimensions: ImageDimensions, logger: Logger) {
+  constructor(
+    dimensions: ImageDimensions,
+    logger: Logger,
+    raster: RasterFormat = DEFAULT_RASTER,
+    fonts: FontRegistry = createCanvasFontRegistry({ logger })
+  ) {
     this.dimensions = dimensions;
     this.logger = logger;
-  }
-
-  /**
-   * Converts an 8-bit array to a byte value
-   */
-  private bitArrayToByte(bitArray: readonly number[]): number {
-    return bitArray.reduce((value, bit, index) => {
-      return bit === 1 ? value | (1 << index) : value;
-    }, 0);
+    this.raster = raster;
+    this.fonts = fonts;
   }
 
   /**
@@ -109,29 +173,17 @@ export class ImageProcessor {
     };
   }
 
-  /**
-   * Registers the custom font safely
-   */
-  private registerCustomFont(fontFamily: string): void {
-    try {
-      registerFont(IMAGE_CONFIG.FONT_PATH, { family: fontFamily });
-      this.logger.debug(`Font registered: ${fontFamily}`);
-    } catch (error) {
-      this.logger.error('Failed to register font, using default', error as Error);
-    }
-  }
-
   /**
    * Configures canvas context with appropriate settings
    */
-  private configureContext(ctx: CanvasRenderingContext2D, config: CanvasConfig, options: PrintOptions): void {   
+  private configureContext(ctx: CanvasRenderingContext2D, config: CanvasConfig, options: PrintOptions, font: ResolvedFont): void {   
     // Fill background with white
     ctx.fillStyle = COLORS.WHITE;
     ctx.fillRect(0, 0, config.width, config.height);
     
     // Set text properties
     ctx.fillStyle = COLORS.BLACK;
-    ctx.font = `${config.adjustedFontSize}px "${options.fontFamily}" normal`;
+    ctx.font = cssFont(font, config.adjustedFontSize);
     
     this.logger.debug(`Font size adjusted from ${options.fontSize}px to ${config.adjustedFontSize}px for ${this.dimensions.dpi} DPI`);
   }
@@ -140,8 +192,8 @@ export class ImageProcessor {
    * Sets up and configures the canvas for printing
    */
   private setupCanvas(options: PrintOptions): { canvas: Canvas; config: CanvasConfig } {
-    this.registerCustomFont(options.fontFamily);
-
+    // Resolved first: fonts must be registered before the canvas is created
+    const font = this.fonts.resolve({ families: [options.fontFamily] });
     const config = this.getCanvasConfig(options);
     
     this.logger.debug(`Canvas setup: ${config.width}x${config.height}px at ${this.dimensions.dpi} DPI (scale: ${config.scaleFactor.toFixed(2)})`);
@@ -149,7 +201,7 @@ export class ImageProcessor {
     const canvas = createCanvas(config.width, config.height);
     const ctx = canvas.getContext('2d');
 
-    this.configureContext(ctx, config, options);
+    this.configureContext(ctx, config, options, font);
 
     return { canvas, config };
   }
@@ -173,45 +225,159 @@ export class ImageProcessor {
   }
 
   /**
-   * Processes variable substitution in content
+   * Evaluates the {{ expressions }} in content
    */
-  private processVariables(content: string, variables?: Record<string, string | number>): string {
-    if (!variables) return content;
-    
-    return Object.entries(variables).reduce((result, [key, value]) => {
-      const placeholder = `{{${key}}}`;
-      return result.replace(new RegExp(placeholder, 'g'), String(value));
-    }, content);
+  private processVariables(content: string, variables?: TemplateVariables): string {
+    return interpolate(content, variables);
   }
 
   /**
    * Renders a text element on the canvas
    */
-  private renderTextElement(ctx: CanvasRenderingContext2D, element: TextElement, config: CanvasConfig, variables?: Record<string, string | number>): void {
+  private renderTextElement(ctx: CanvasRenderingContext2D, element: TextElement, font: ResolvedFont, config: CanvasConfig, variables?: TemplateVariables, turn?: ElementTurn): void {
     const content = this.processVariables(element.content, variables);
     const fontSize = element.fontSize ? Math.round(element.fontSize * config.scaleFactor) : config.adjustedFontSize;
-    const fontFamily = element.fontFamily || 'Arial';
+    const bitmap = element.bitmapFont ? findBitmapFont(element.bitmapFont) : undefined;
+
+    if (element.box) {
+      this.renderTextBox(ctx, element, element.box, content, fontSize, font, config, bitmap);
+      return;
+    }
     
     // Save current context
     ctx.save();
     
-    // Set font and alignment
-    ctx.font = `${fontSize}px "${fontFamily}" normal`;
-    ctx.textAlign = element.align || 'left';
-    ctx.fillStyle = COLORS.BLACK;
-    
     // Scale position
     const x = Math.round(element.position.x * config.scaleFactor);
     const y = Math.round(element.position.y * config.scaleFactor);
+
+    // Auto-fit to the room left on the label, along the baseline as turned
+    const anchor = turn ? rotatePoint({ x, y }, turn.pivot, turn.degrees) : { x, y };
+    const fittedSize = fitFontSize(content, (text, size) => this.measureText(ctx, text, size, font, bitmap), {
+      fit: element.fit,
+      fontSize,
+      minFontSize: this.scaleOptional(element.minFontSize, config),
+      maxFontSize: this.scaleOptional(element.maxFontSize, config),
+      ...availableTextSpace(anchor.x, anchor.y, element.align, config.width, config.height, IMAGE_CONFIG.TEXT_MARGIN, turn?.degrees),
+    });
+    
+    // Set font and alignment
+    ctx.font = cssFont(font, fittedSize);
+    ctx.textAlign = element.align || 'left';
+    ctx.fillStyle = COLORS.BLACK;
     
-    ctx.fillText(content, x, y);
+    if (bitmap) {
+      this.fillRects(ctx, bitmapTextRects(content, bitmap, fittedSize, x, y, element.align));
+    } else {
+      ctx.fillText(content, x, y);
+    }
     
     // Restore context
     ctx.restore();
     
+    if (fittedSize !== fontSize) {
+      this.logger.verbose(`Text "${content}" fitted from ${fontSize}px to ${fittedSize}px`);
+    }
     this.logger.verbose(`Rendered text: "${content}" at (${x}, ${y})`);
   }
 
+  /**
+   * Ink extent of text in a font, or in a bitmap font when one is given
+   */
+  private measureText(ctx: CanvasRenderingContext2D, text: string, size: number, font: ResolvedFont, bitmap?: BitmapFont): TextExtent {
+    if (bitmap) {
+      return measureBitmapText(text, bitmap, size);
+    }
+    ctx.font = cssFont(font, size);
+    const metrics = ctx.measureText(text);
+    return {
+      width: metrics.width,
+      ascent: metrics.actualBoundingBoxAscent,
+      descent: metrics.actualBoundingBoxDescent,
+    };
+  }
+
+  /**
+   * Fills whole-dot rectangles (bitmap font glyphs) in black
+   */
+  private fillRects(ctx: CanvasRenderingContext2D, rects: Rect[]): void {
+    ctx.fillStyle = COLORS.BLACK;
+    for (const rect of rects) {
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    }
+  }
+
+  /**
+   * Scales an optional template size to printer dots
+   */
+  private scaleOptional(value: number | undefined, config: CanvasConfig): number | undefined {
+    return value !== undefined ? Math.round(value * config.scaleFactor) : undefined;
+  }
+
+  /**
+   * Renders a text element in text-box mode: word-wrapped lines inside a
+   * rectangle whose top-left corner is the element position
+   */
+  private renderTextBox(
+    ctx: CanvasRenderingContext2D,
+    element: TextElement,
+    box: NonNullable<TextElement['box']>,
+    content: string,
+    fontSize: number,
+    font: ResolvedFont,
+    config: CanvasConfig,
+    bitmap?: BitmapFont
+  ): void {
+    const x = Math.round(element.position.x * config.scaleFactor);
+    const y = Math.round(element.position.y * config.scaleFactor);
+    const width = Math.round(box.width * config.scaleFactor);
+    const height = box.height !== undefined ? Math.round(box.height * config.scaleFactor) : undefined;
+
+    ctx.save();
+
+    const layout = layoutTextBox(content, (text, size) => this.measureText(ctx, text, size, font, bitmap).width, {
+      width,
+      height,
+      fontSize,
+      lineHeight: element.lineHeight,
+      maxLines: element.maxLines,
+      overflow: element.overflow,
+      minFontSize: this.scaleOptional(element.minFontSize, config),
+    });
+
+    if (height !== undefined && element.overflow !== 'wrap') {
+      ctx.beginPath();
+      ctx.rect(x, y, width, height);
+      ctx.clip();
+    }
+
+    const align = element.align || 'left';
+    const lineX = align === 'center' ? x + width / 2 : align === 'right' ? x + width : x;
+    const blockHeight = layout.lines.length * layout.lineHeightPx;
+    const free = height !== undefined ? height - blockHeight : 0;
+    const offset = element.verticalAlign === 'bottom' ? free : element.verticalAlign === 'middle' ? free / 2 : 0;
+
+    ctx.font = cssFont(font, layout.fontSize);
+    ctx.textAlign = align;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.BLACK;
+    layout.lines.forEach((line, i) => {
+      const lineY = Math.round(y + offset + (i + 0.5) * layout.lineHeightPx);
+      if (bitmap) {
+        this.fillRects(ctx, bitmapTextRects(line, bitmap, layout.fontSize, lineX, lineY, align, 'middle'));
+      } else {
+        ctx.fillText(line, lineX, lineY);
+      }
+    });
+
+    ctx.restore();
+
+    if (layout.overflowed) {
+      this.logger.verbose(`Text box at (${x}, ${y}) overflows (${element.overflow ?? 'wrap'})`);
+    }
+    this.logger.verbose(`Rendered text box: ${layout.lines.length} line(s) at ${layout.fontSize}px at (${x}, ${y})`);
+  }
+
   /**
    * Renders a line element on the canvas
    */
@@ -368,12 +534,173 @@ export class ImageProcessor {
   }
 
   /**
-   * Renders a single element based on its type
+   * Renders a barcode element on the canvas. Bars are laid out in whole
+   * printer dots (moduleWidth is not scaled) so they rasterize exactly.
    */
-  private renderElement(ctx: CanvasRenderingContext2D, element: RenderElement, config: CanvasConfig, variables?: Record<string, string | number>): void {
+  private renderBarcodeElement(ctx: CanvasRenderingContext2D, element: BarcodeElement, font: ResolvedFont, config: CanvasConfig, variables?: TemplateVariables, turn?: ElementTurn): void {
+    const data = this.processVariables(element.data, variables);
+    const layout = layoutBarcode(element.symbology, data, {
+      moduleWidth: element.moduleWidth,
+      quietZone: element.quietZone,
+      checkDigit: element.checkDigit,
+    });
+
+    const x = Math.round(element.position.x * config.scaleFactor);
+    const y = Math.round(element.position.y * config.scaleFactor);
+    const height = Math.round((element.height ?? IMAGE_CONFIG.BARCODE_HEIGHT) * config.scaleFactor);
+
+    const bounds = this.turnedBounds({ x, y, width: layout.width, height }, turn);
+    if (exceedsLabel(bounds, config.width, config.height)) {
+      this.logger.error(`Barcode "${data}" is ${layout.width}x${height}px at (${x}, ${y})${this.describeTurn(turn)} and exceeds the ${config.width}x${config.height}px canvas`);
+    }
+
+    ctx.save();
+    ctx.fillStyle = COLORS.BLACK;
+    for (const bar of layout.bars) {
+      ctx.fillRect(x + bar.x, y, bar.width, height);
+    }
+
+    if (element.humanReadable) {
+      const fontSize = Math.round((element.fontSize ?? IMAGE_CONFIG.BARCODE_FONT_SIZE) * config.scaleFactor);
+      ctx.font = cssFont(font, fontSize);
+      ctx.textAlign = 'center';
+      ctx.fillText(layout.text, x + Math.round(layout.width / 2), y + height + IMAGE_CONFIG.BARCODE_TEXT_GAP + fontSize);
+    }
+    ctx.restore();
+
+    this.logger.verbose(`Rendered ${element.symbology} barcode "${layout.text}" at (${x}, ${y}) ${layout.width}x${height}`);
+  }
+
+  /**
+   * Renders a QR code or Data Matrix element. Modules are snapped to whole
+   * printer dots: moduleSize is in dots, size is scaled then divided evenly.
+   */
+  private renderMatrixCodeElement(ctx: CanvasRenderingContext2D, element: QrCodeElement | DataMatrixElement, config: CanvasConfig, variables?: TemplateVariables, turn?: ElementTurn): void {
+    const data = this.processVariables(element.data, variables);
+    const layout = layoutMatrixCode(element.type, data, {
+      errorCorrection: element.type === 'qrcode' ? element.errorCorrection : undefined,
+      moduleSize: element.moduleSize,
+      targetSize: element.size !== undefined ? element.size * config.scaleFactor : undefined,
+      quietZone: element.quietZone,
+    });
+
+    const x = Math.round(element.position.x * config.scaleFactor);
+    const y = Math.round(element.position.y * config.scaleFactor);
+
+    const bounds = this.turnedBounds({ x, y, width: layout.size, height: layout.size }, turn);
+    if (exceedsLabel(bounds, config.width, config.height)) {
+      this.logger.error(`${element.type} "${data}" is ${layout.size}px at (${x}, ${y})${this.describeTurn(turn)} and exceeds the ${config.width}x${config.height}px canvas`);
+    }
+
+    ctx.save();
+    ctx.fillStyle = COLORS.BLACK;
+    for (const cell of layout.cells) {
+      ctx.fillRect(x + cell.x, y + cell.y, cell.width, cell.height);
+    }
+    ctx.restore();
+
+    this.logger.verbose(`Rendered ${element.type} ${layout.modules}x${layout.modules} modules at (${x}, ${y}), ${layout.moduleSize} dots/module`);
+  }
+
+  /**
+   * Renders an image element: fitted into its box and dithered to 1 bit
+   * (element dither, else template dither, else Floyd-Steinberg)
+   */
+  private renderImageElement(ctx: CanvasRenderingContext2D, element: ImageElement, config: CanvasConfig, variables?: TemplateVariables, templateDither?: DitherOptions): void {
+    const src = this.processVariables(element.src, variables);
+    const image = renderRasterImage(src, {
+      width: element.width !== undefined ? Math.round(element.width * config.scaleFactor) : undefined,
+      height: element.height !== undefined ? Math.round(element.height * config.scaleFactor) : undefined,
+      fit: element.fit,
+      dither: element.dither ?? templateDither ?? DEFAULT_IMAGE_DITHER,
+    });
+
+    const x = Math.round(element.position.x * config.scaleFactor);
+    const y = Math.round(element.position.y * config.scaleFactor);
+    ctx.drawImage(image, x, y);
+
+    this.logger.verbose(`Rendered image ${image.width}x${image.height} at (${x}, ${y})`);
+  }
+
+  /**
+   * Dithering stage: reduces the whole canvas to pure black and white
+   */
+  private ditherCanvas(canvas: Canvas, dither: DitherOptions): void {
+    const ctx = canvas.getContext('2d');
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    ditherPixels(pixels, dither);
+    ctx.putImageData(pixels, 0, 0);
+    this.logger.debug(`Dithered canvas with ${dither.algorithm ?? 'threshold'} (threshold ${dither.threshold ?? 128})`);
+  }
+
+  /**
+   * Box an element covers on the label once turned
+   */
+  private turnedBounds(rect: Rect, turn?: ElementTurn): Rect {
+    return turn ? rotatedBounds(rect, turn.pivot, turn.degrees) : rect;
+  }
+
+  /**
+   * How an element is turned, for bounds errors
+   */
+  private describeTurn(turn?: ElementTurn): string {
+    return turn ? ` turned ${turn.degrees}° around (${turn.pivot.x}, ${turn.pivot.y})` : '';
+  }
+
+  /**
+   * Renders a single element. Aliased text is drawn on a layer of its own,
+   * cut to whole dots at its threshold, then laid on the label: grey glyph
+   * edges would otherwise each print as a dot.
+   */
+  private renderElement(ctx: CanvasRenderingContext2D, element: RenderElement, config: CanvasConfig, template: RenderTemplate, variables?: TemplateVariables): void {
+    const threshold = aliasedTextThreshold(element, template);
+    if (threshold === undefined) {
+      this.renderTurnedElement(ctx, element, config, template, variables);
+      return;
+    }
+
+    const layer = createCanvas(config.width, config.height);
+    const layerCtx = layer.getContext('2d');
+    this.renderTurnedElement(layerCtx, element, config, template, variables);
+    const pixels = layerCtx.getImageData(0, 0, layer.width, layer.height);
+    thresholdInk(pixels, threshold);
+    layerCtx.putImageData(pixels, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+  }
+
+  /**
+   * Renders an element based on its type, turned around its pivot when it
+   * has a rotate angle
+   */
+  private renderTurnedElement(ctx: CanvasRenderingContext2D, element: RenderElement, config: CanvasConfig, template: RenderTemplate, variables?: TemplateVariables): void {
+    const turn = elementTurn(element, config.scaleFactor);
+    if (!turn) {
+      this.renderElementShape(ctx, element, config, template, variables);
+      return;
+    }
+
+    ctx.save();
+    ctx.translate(turn.pivot.x, turn.pivot.y);
+    ctx.rotate((turn.degrees * Math.PI) / 180);
+    ctx.translate(-turn.pivot.x, -turn.pivot.y);
+    try {
+      this.renderElementShape(ctx, element, config, template, variables, turn);
+    } finally {
+      ctx.restore();
+    }
+  }
+
+  private renderElementShape(
+    ctx: CanvasRenderingContext2D,
+    element: RenderElement,
+    config: CanvasConfig,
+    template: RenderTemplate,
+    variables?: TemplateVariables,
+    turn?: ElementTurn
+  ): void {
     switch (element.type) {
       case 'text':
-        this.renderTextElement(ctx, element, config, variables);
+        this.renderTextElement(ctx, element, this.fonts.resolve(elementFont(element, template.defaultFont)), config, variables, turn);
         break;
       case 'line':
         this.renderLineElement(ctx, element, config);
@@ -390,6 +717,16 @@ export class ImageProcessor {
       case 'grid':
         this.renderGridElement(ctx, element, config);
         break;
+      case 'barcode':
+        this.renderBarcodeElement(ctx, element, this.fonts.resolve(elementFont(element, template.defaultFont)), config, variables, turn);
+        break;
+      case 'qrcode':
+      case 'datamatrix':
+        this.renderMatrixCodeElement(ctx, element, config, variables, turn);
+        break;
+      case 'image':
+        this.renderImageElement(ctx, element, config, variables, template.dither);
+        break;
       default:
         this.logger.error(`Unknown element type: ${(element as any).type}`);
     }
@@ -398,15 +735,31 @@ export class ImageProcessor {
   /**
    * Renders all elements from a JSON template
    */
-  private renderFromTemplate(canvas: Canvas, config: CanvasConfig, template: RenderTemplate, variables?: Record<string, string | number>): void {
+  private renderFromTemplate(canvas: Canvas, config: CanvasConfig, template: RenderTemplate, variables?: TemplateVariables): void {
     const ctx = canvas.getContext('2d');
     
     this.logger.debug(`Rendering template: ${template.name} with ${template.elements.length} elements`);
     
     template.elements.forEach((element, index) => {
       try {
-        this.renderElement(ctx, element, config, variables);
+        this.renderElement(ctx, element, config, template, variables);
       } catch (error) {
+        // Unencodable data must not silently print a label without its code
+        if (error instanceof BarcodeError) {
+          throw new BarcodeError(`Element ${index + 1} (${element.type}): ${error.message}`);
+        }
+        // Neither must raw placeholders or an unfilled variable
+        if (error instanceof TemplateExpressionError) {
+          throw new TemplateExpressionError(`Element ${index + 1} (${element.type}): ${error.message}`);
+        }
+        // Nor text in a font that is not there (strict registries)
+        if (error instanceof FontError) {
+          throw new FontError(`Element ${index + 1} (${element.type}): ${error.message}`);
+        }
+        // Nor a label without its image
+        if (error instanceof ImageLoadError) {
+          throw new ImageLoadError(`Element ${index + 1} (${element.type}): ${error.message}`);
+        }
         this.logger.error(`Failed to render element ${index + 1} (${element.type})`, error as Error);
       }
     });
@@ -439,32 +792,42 @@ export class ImageProcessor {
   }
 
   /**
-   * Converts canvas to printer-ready byte array
+   * Reads the printed dots off the canvas; packBitmap turns them into the
+   * profile raster layout
    */
-  private canvasToImageData(canvas: Canvas, config: CanvasConfig): number[] {
+  private canvasToBitmap(canvas: Canvas, config: CanvasConfig): MonoBitmap {
     const { stride } = canvas;
     const pixels = canvas.toBuffer('raw');
-    const imageData: number[] = [];
-    
-    this.logger.debug(`Processing canvas: ${config.width}x${config.height}, stride: ${stride}`);
+    const bitmap = createBitmap(config.width, config.height);
 
-    for (let x = 0; x < config.width; x++) {
-      const bitChunk: number[] = [];
-      
-      for (let y = config.height - 1; y >= 0; y--) {
-        const pixelIndex = y * stride + x * 4; // RGBA format
-        const blueValue = pixels[pixelIndex];
-        const bit = blueValue === IMAGE_CONFIG.WHITE_PIXEL_VALUE ? 0 : 1;
-        bitChunk.unshift(bit);
-        
-        if (bitChunk.length === IMAGE_CONFIG.BITS_PER_BYTE) {
-          imageData.push(this.bitArrayToByte(bitChunk));
-          bitChunk.length = 0;
-        }
+    this.logger.debug(`Processing canvas: ${config.width}x${config.height}, stride: ${stride}, raster: ${this.raster.orientation}/${this.raster.byteOrder}`);
+
+    // 1 = printed dot (blue channel of the BGRA buffer is anything but white)
+    for (let y = 0; y < config.height; y++) {
+      for (let x = 0; x < config.width; x++) {
+        bitmap.pixels[y * config.width + x] = pixels[y * stride + x * 4] === IMAGE_CONFIG.WHITE_PIXEL_VALUE ? 0 : 1;
+      }
+    }
+
+    return bitmap;
+  }
+
+  /**
+   * Reads the canvas as grayscale luminance (BGRA buffer)
+   */
+  private canvasToGray(canvas: Canvas, config: CanvasConfig): GrayImage {
+    const { stride } = canvas;
+    const pixels = canvas.toBuffer('raw');
+    const gray: GrayImage = { width: config.width, height: config.height, pixels: new Uint8Array(config.width * config.height) };
+
+    for (let y = 0; y < config.height; y++) {
+      for (let x = 0; x < config.width; x++) {
+        const i = y * stride + x * 4;
+        gray.pixels[y * config.width + x] = Math.round(0.114 * pixels[i] + 0.587 * pixels[i + 1] + 0.299 * pixels[i + 2]);
       }
     }
 
-    return imageData;
+    return gray;
   }
 
   /**
@@ -598,54 +961,149 @@ export class ImageProcessor {
   }
 
   /**
-   * Creates a printer-ready image from a JSON template
+   * Creates a printer-ready image from a JSON template, along with the
+   * label's dots and canvas as it is read (before orientation/banner turns)
+   */
+  async createImageFromJson(options: JsonRenderOptions): Promise<JsonRenderResult> {
+    const { canvas, config } = this.drawJsonTemplate(options);
+    
+    // Save debug images if debugging is enabled
+    if (this.logger.isDebugMode()) {
+      await this.saveJsonDebugImage(canvas, config, options.template, options.variables);
+    }
+    
+    // Convert to printer data format; labels are drawn in reading
+    // orientation, then turned by the template orientation and, for
+    // banners, a further quarter so their length runs along the feed
+    const quarterTurns = labelQuarterTurns(options.template.orientation) + (options.banner ? 1 : 0);
+    const dots = this.canvasToBitmap(canvas, config);
+    const printed = quarterTurns % 4 !== 0 ? rotateBitmap(dots, quarterTurns) : dots;
+    const imageData = packBitmap(printed, this.raster);
+    
+    this.logger.debug(`Generated JSON template image data: ${imageData.length} bytes (${printed.width}x${printed.height} dots)`);
+    return {
+      imageData,
+      config: { ...config, width: printed.width, height: printed.height },
+      bitmap: dots,
+      printed,
+      gray: this.canvasToGray(canvas, config),
+    };
+  }
+
+  /**
+   * Renders a JSON template to a PNG of the label as it will print (dithering included)
+   */
+  async renderPreview(options: JsonRenderOptions): Promise<Buffer> {
+    const { canvas } = this.drawJsonTemplate(options);
+    return canvas.toBuffer('image/png');
+  }
+
+  /**
+   * Renders a JSON template as an SVG document (see renderSvgLabel), text
+   * measured with the fonts the canvas renderer uses; scale is output
+   * pixels per dot
    */
-  async createImageFromJson(options: JsonRenderOptions): Promise<{ imageData: number[]; config: CanvasConfig }> {
+  renderSvg(options: JsonRenderOptions, scale = 1): string {
+    const { canvas, config } = this.setupJsonCanvas(options);
+    const ctx = canvas.getContext('2d');
+    const template = options.template;
+
+    return renderSvgLabel(template, {
+      width: config.width,
+      height: config.height,
+      scaleFactor: config.scaleFactor,
+      defaultFontSize: config.adjustedFontSize,
+      textMargin: IMAGE_CONFIG.TEXT_MARGIN,
+      resolveFont: (request) => this.fonts.resolve(request),
+      measure: (text, size, font) => {
+        ctx.font = cssFont(font, size);
+        const metrics = ctx.measureText(text);
+        return {
+          width: metrics.width,
+          ascent: metrics.actualBoundingBoxAscent,
+          descent: metrics.actualBoundingBoxDescent,
+        };
+      },
+      drawImage: (element, src) => {
+        const image = renderRasterImage(src, {
+          width: this.scaleOptional(element.width, config),
+          height: this.scaleOptional(element.height, config),
+          fit: element.fit,
+          dither: element.dither ?? template.dither ?? DEFAULT_IMAGE_DITHER,
+        });
+        return { png: image.toBuffer('image/png'), width: image.width, height: image.height };
+      },
+      variables: options.variables,
+      scale,
+      logger: this.logger,
+    });
+  }
+
+  /**
+   * Draws a JSON template on a canvas sized for it
+   */
+  private drawJsonTemplate(options: JsonRenderOptions): { canvas: Canvas; config: CanvasConfig } {
+    const { canvas, config } = this.setupJsonCanvas(options);
+    const template = options.template;
+
+    // Render template elements
+    this.renderFromTemplate(canvas, config, template, options.variables);
+
+    // Dithering stage: without it any non-white pixel prints as a dot
+    if (template.dither) {
+      this.ditherCanvas(canvas, template.dither);
+    }
+
+    return { canvas, config };
+  }
+
+  /**
+   * Blank canvas sized for a JSON template (banner length, template dimensions)
+   */
+  private setupJsonCanvas(options: JsonRenderOptions): { canvas: Canvas; config: CanvasConfig } {
     const template = options.template;
     
     this.logger.debug(`Starting JSON template rendering: ${template.name}`);
+    this.fonts.addTemplateFonts(template.fonts);
+    this.fonts.prepare(template.elements
+      .filter((element): element is TextElement | BarcodeElement => (element.type === 'text' && !element.bitmapFont) || element.type === 'barcode')
+      .map((element) => elementFont(element, template.defaultFont)));
     
     // Override dimensions if specified in template
-    const effectiveDimensions = {
-      ...this.dimensions,
-      ...(template.dimensions && {
-        width: template.dimensions.width || this.dimensions.width,
-        height: template.dimensions.height || this.dimensions.height
-      })
-    };
+    const effectiveDimensions = options.banner
+      ? {
+          ...this.dimensions,
+          width: options.banner.lengthPx,
+          // height counts 8-dot rows: this gives a canvas exactly acrossPx high
+          height: options.banner.acrossPx / IMAGE_CONFIG.HEIGHT_MULTIPLIER
+        }
+      : {
+          ...this.dimensions,
+          ...(template.dimensions && {
+            width: template.dimensions.width || this.dimensions.width,
+            // template height is in dots, ImageDimensions.height in 8-dot rows
+            height: (template.dimensions.height || 0) / IMAGE_CONFIG.HEIGHT_MULTIPLIER || this.dimensions.height
+          })
+        };
     
     // Create temporary processor with effective dimensions
-    const tempProcessor = new ImageProcessor(effectiveDimensions, this.logger);
+    const tempProcessor = new ImageProcessor(effectiveDimensions, this.logger, this.raster, this.fonts);
     
     // Create dummy print options for canvas setup
     const dummyOptions: PrintOptions = {
       firstLine: '',
       secondLine: '',
       fontSize: template.defaultFont?.size || 12,
-      fontFamily: template.defaultFont?.family || 'Arial'
+      fontFamily: template.defaultFont?.family || DEFAULT_FONT_FAMILY
     };
     
-    const { canvas, config } = tempProcessor.setupCanvas(dummyOptions);
-    
-    // Render template elements
-    this.renderFromTemplate(canvas, config, template, options.variables);
-    
-    // Save debug images if debugging is enabled
-    if (this.logger.isDebugMode()) {
-      await this.saveJsonDebugImage(canvas, config, template, options.variables);
-    }
-    
-    // Convert to printer data format
-    const imageData = this.canvasToImageData(canvas, config);
-    
-    this.logger.debug(`Generated JSON template image data: ${imageData.length} bytes`);
-    return {imageData, config};
+    return tempProcessor.setupCanvas(dummyOptions);
   }
 
   /**
    * Saves debug images for JSON template rendering
    */
-  private async saveJsonDebugImage(canvas: Canvas, config: CanvasConfig, template: RenderTemplate, variables?: Record<string, string | number>): Promise<void> {
+  private async saveJsonDebugImage(canvas: Canvas, config: CanvasConfig, template: RenderTemplate, variables?: TemplateVariables): Promise<void> {
     try {
       const fs = await import('fs/promises');
       const path = await import('path');
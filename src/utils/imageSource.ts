@@ -0,0 +1,11 @@
+/**
+ * An image element's src could not be loaded: a missing or unreadable file,
+ * data canvas cannot decode or a remote URL. Canvas-free, so the SVG
+ * renderer can tell it apart from other element errors too.
+ */
+export class ImageLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageLoadError';
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Minimal JSON Schema (draft-07) validator for the keywords the bundled
+ * schemas use. Reports every problem with its JSON-pointer path, plus a
+ * "did you mean" suggestion for misspelled properties and enum values.
+ *
+ * oneOf honours the OpenAPI `discriminator` keyword: the branch is picked
+ * by the discriminator property, so errors point inside that branch
+ * instead of listing every alternative.
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  discriminator?: { propertyName: string };
+  definitions?: Record<string, JsonSchema>;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaIssue {
+  /** JSON pointer to the offending value ("" is the document root) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Escapes a key for use in a JSON pointer (RFC 6901)
+ */
+export function pointer(parent: string, key: string | number): string {
+  return `${parent}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * Edit distance where swapping two adjacent letters counts as one edit
+ * (optimal string alignment), case-insensitive
+ */
+function editDistance(a: string, b: string): number {
+  const [x, y] = [a.toLowerCase(), b.toLowerCase()];
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && x[i - 1] === y[j - 2] && x[i - 2] === y[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    [beforePrevious, previous] = [previous, current];
+  }
+  return previous[y.length];
+}
+
+/**
+ * Closest candidate to a misspelled or abbreviated word, if any is close enough
+ */
+export function suggest(word: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(word, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  if (bestDistance <= Math.max(1, Math.floor(word.length / 3))) {
+    return best;
+  }
+  // Abbreviations: "rect" -> "rectangle"
+  const prefixed = candidates.filter((candidate) => candidate.toLowerCase().startsWith(word.toLowerCase()));
+  return word.length >= 3 && prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+const didYouMean = (word: string, candidates: readonly string[]): string => {
+  const suggestion = suggest(word, candidates);
+  return suggestion ? `, did you mean "${suggestion}"?` : '';
+};
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  const schema = match ? root.definitions?.[match[1]] : undefined;
+  if (!schema) {
+    throw new Error(`Unsupported or unknown schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+const describe = (value: unknown): string => JSON.stringify(value);
+
+/**
+ * Validates a value against a schema and returns every issue found
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path = ''
+): SchemaIssue[] {
+  if (schema.$ref) {
+    return validateJsonSchema(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  const issues: SchemaIssue[] = [];
+  const report = (message: string, at = path): void => {
+    issues.push({ path: at, message });
+  };
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      report(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    report(`must be ${describe(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    const options = schema.enum.map(String);
+    report(
+      `must be one of ${options.join(', ')}, got ${describe(value)}`
+      + (typeof value === 'string' ? didYouMean(value, options) : '')
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      report(`must be > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    report(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    report(`must match ${schema.pattern}, got ${describe(value)}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(item, schema.items!, root, pointer(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(object, key)) {
+        report('required', pointer(path, key));
+      }
+    }
+
+    const known = Object.keys(schema.properties ?? {});
+    for (const [key, child] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateJsonSchema(child, propertySchema, root, pointer(path, key)));
+      } else if (schema.additionalProperties === false) {
+        report(`unknown property${didYouMean(key, known)}`, pointer(path, key));
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(child, schema.additionalProperties, root, pointer(path, key)));
+      }
+    }
+  }
+
+  if (schema.oneOf) {
+    issues.push(...validateOneOf(value, schema, root, path));
+  }
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((branch) => validateJsonSchema(value, branch, root, path));
+    if (!results.some((result) => result.length === 0)) {
+      issues.push(...closest(results));
+    }
+  }
+
+  return issues;
+}
+
+function validateOneOf(value: unknown, schema: JsonSchema, root: JsonSchema, path: string): SchemaIssue[] {
+  const branches = schema.oneOf!.map((branch) => (branch.$ref ? resolveRef(branch.$ref, root) : branch));
+  const property = schema.discriminator?.propertyName;
+
+  if (property) {
+    if (typeOf(value) !== 'object') {
+      return [{ path, message: `must be object, got ${typeOf(value)}` }];
+    }
+    const tag = (value as Record<string, unknown>)[property];
+    const tags = branches.map((branch) => branch.properties?.[property]?.const as string);
+    if (tag === undefined) {
+      return [{ path: pointer(path, property), message: `required (one of ${tags.join(', ')})` }];
+    }
+    const index = tags.indexOf(tag as string);
+    if (index < 0) {
+      return [{
+        path: pointer(path, property),
+        message: `unknown ${property} ${describe(tag)}, must be one of ${tags.join(', ')}`
+          + (typeof tag === 'string' ? didYouMean(tag, tags) : ''),
+      }];
+    }
+    return validateJsonSchema(value, branches[index], root, path);
+  }
+
+  const results = branches.map((branch) => validateJsonSchema(value, branch, root, path));
+  const passing = results.filter((result) => result.length === 0).length;
+  if (passing === 1) {
+    return [];
+  }
+  if (passing > 1) {
+    return [{ path, message: `matches ${passing} alternatives, expected exactly one` }];
+  }
+  return closest(results);
+}
+
+/**
+ * Issues of the alternative that came closest to matching
+ */
+function closest(results: SchemaIssue[][]): SchemaIssue[] {
+  return results.reduce((best, result) => (result.length < best.length ? result : best));
+}
@@ -0,0 +1,229 @@
+import { LabelMedia, LabelStock, Length, PaperType, PrinterProfile } from '../types/index.js';
+import { suggest } from './jsonSchema.js';
+import { lengthToDots, parseLength, UnitsError } from './units.js';
+
+/**
+ * Label stocks: the media a profile can print on, named in its catalogue
+ * (media.stocks) with physical sizes. A label is drawn in the stock's
+ * printable area and, on die-cut stock, padded to the whole label so the
+ * gap sensor stays in step; continuous stock gets its feed after the label.
+ * Profiles without a catalogue keep their media.diecut / media.continuous
+ * settings.
+ */
+
+/**
+ * Lines per inch of line-based feed commands (ESC/POS default spacing)
+ */
+const FEED_LINES_PER_INCH = 6;
+
+/**
+ * An unknown stock, a stock the printer cannot take or a label that does
+ * not fit its stock
+ */
+export class MediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaError';
+  }
+}
+
+/**
+ * What to print on: a stock id, or a paper type to take the profile's
+ * default stock of
+ */
+export interface MediaSelection {
+  stock?: string;
+  type?: PaperType;
+}
+
+/**
+ * Where a printed label goes on its media: the raster size and the label's
+ * top-left corner in it
+ */
+export interface LabelPlacement {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Stocks in a profile's catalogue
+ */
+export function listStocks(profile: PrinterProfile): LabelStock[] {
+  return profile.media.stocks ?? [];
+}
+
+/**
+ * A stock by id (MediaError naming the closest id if there is none)
+ */
+export function findStock(profile: PrinterProfile, id: string): LabelStock {
+  const stocks = listStocks(profile);
+  const stock = stocks.find((candidate) => candidate.id === id);
+  if (!stock) {
+    const ids = stocks.map((candidate) => candidate.id);
+    const suggestion = suggest(id, ids);
+    throw new MediaError(
+      `Unknown label stock "${id}" for ${profile.name}${suggestion ? `, did you mean "${suggestion}"?` : ''}`
+      + (ids.length > 0 ? ` Stocks: ${ids.join(', ')}` : ' (its profile has no stock catalogue)')
+    );
+  }
+  return stock;
+}
+
+/**
+ * A stock in dots at dpi. Throws MediaError if the printer cannot take it:
+ * a paper type it does not list, a die-cut stock without a height, lengths
+ * that are not lengths or a printable area wider than the printer.
+ */
+export function stockMedia(profile: PrinterProfile, stock: LabelStock, dpi = profile.dpi): LabelMedia {
+  const label = `Label stock "${stock.id}"`;
+  if (!profile.media.paperTypes.includes(stock.type)) {
+    throw new MediaError(
+      `${label} is ${stock.type}, which ${profile.name} does not take (${profile.media.paperTypes.join(', ')})`
+    );
+  }
+  const dots = (value: Length | undefined, what: string): number => {
+    if (value === undefined) {
+      return 0;
+    }
+    try {
+      const { value: amount, unit } = parseLength(value, 'dots');
+      const result = Math.round(lengthToDots(amount, unit, dpi));
+      if (result < 0) {
+        throw new UnitsError(`${what} cannot be negative`);
+      }
+      return result;
+    } catch (error) {
+      throw new MediaError(`${label}: ${(error as Error).message}`);
+    }
+  };
+
+  const widthPx = dots(stock.width, 'width');
+  const heightPx = stock.height !== undefined ? dots(stock.height, 'height') : undefined;
+  if (stock.type === 'diecut' && !heightPx) {
+    throw new MediaError(`${label} is die-cut and needs a height, the length of each label`);
+  }
+  const margins = stock.margins ?? {};
+  const [top, right, bottom, left] = [margins.top, margins.right, margins.bottom, margins.left]
+    .map((margin, index) => dots(margin, ['top', 'right', 'bottom', 'left'][index] + ' margin'));
+  const printable = {
+    x: left,
+    y: top,
+    width: widthPx - left - right,
+    ...(heightPx !== undefined && { height: heightPx - top - bottom }),
+  };
+  if (!(printable.width > 0) || (printable.height !== undefined && !(printable.height > 0))) {
+    throw new MediaError(`${label} has no printable area left inside its margins`);
+  }
+  const maxWidth = profile.limits.maxWidthPx;
+  if (maxWidth !== null && printable.x + printable.width > maxWidth) {
+    throw new MediaError(
+      `${label} prints ${printable.x + printable.width} dots across, over the ${profile.name} maximum of ${maxWidth}`
+    );
+  }
+
+  const media: LabelMedia = {
+    type: stock.type,
+    stock: stock.id,
+    name: stock.name ?? stock.id,
+    sensing: stock.sensing ?? (stock.type === 'diecut' ? 'gap' : 'none'),
+    widthPx,
+    ...(heightPx !== undefined && { heightPx }),
+    printable,
+  };
+  if (stock.type === 'continuous') {
+    if (stock.feedAfter !== undefined) {
+      media.feedAfterDots = dots(stock.feedAfter, 'feedAfter');
+      media.feedAfterLines = Math.round((media.feedAfterDots * FEED_LINES_PER_INCH) / dpi);
+    } else {
+      Object.assign(media, profileFeed(profile));
+    }
+  }
+  return media;
+}
+
+/**
+ * The profile's own feed after continuous labels
+ */
+function profileFeed(profile: PrinterProfile): Pick<LabelMedia, 'feedAfterDots' | 'feedAfterLines'> {
+  const { feedAfterDots, feedAfterLines } = profile.media.continuous ?? {};
+  return {
+    ...(feedAfterDots !== undefined && { feedAfterDots }),
+    ...(feedAfterLines !== undefined && { feedAfterLines }),
+  };
+}
+
+/**
+ * Media from the profile's media.diecut / media.continuous settings, for
+ * profiles without a stock catalogue
+ */
+function profileMedia(profile: PrinterProfile, type: PaperType): LabelMedia {
+  if (type === 'diecut') {
+    const widthPx = profile.media.diecut?.labelWidthPx ?? profile.limits.safeWidthPx;
+    const heightPx = profile.media.diecut?.labelHeightPx ?? profile.limits.safeHeightPx;
+    return {
+      type,
+      name: `${profile.name} die-cut labels`,
+      sensing: 'gap',
+      widthPx,
+      heightPx,
+      printable: { x: 0, y: 0, width: widthPx, height: heightPx },
+    };
+  }
+  const widthPx = profile.limits.maxWidthPx ?? profile.limits.safeWidthPx;
+  return {
+    type,
+    name: `${profile.name} continuous roll`,
+    sensing: 'none',
+    widthPx,
+    printable: { x: 0, y: 0, width: widthPx },
+    ...profileFeed(profile),
+  };
+}
+
+/**
+ * The media to print on. A named stock wins; otherwise the profile's
+ * default stock (or, for another paper type, its first stock of that type),
+ * then its media settings. Throws MediaError for unknown stocks, paper
+ * types the profile does not take and a stock of another type than asked.
+ */
+export function resolveMedia(profile: PrinterProfile, selection: MediaSelection = {}, dpi = profile.dpi): LabelMedia {
+  const stocks = listStocks(profile);
+  if (selection.stock) {
+    const stock = findStock(profile, selection.stock);
+    if (selection.type && stock.type !== selection.type) {
+      throw new MediaError(`Label stock "${stock.id}" is ${stock.type}, not ${selection.type}`);
+    }
+    return stockMedia(profile, stock, dpi);
+  }
+
+  const defaultStock = profile.media.defaultStock ? findStock(profile, profile.media.defaultStock) : undefined;
+  const type = selection.type ?? defaultStock?.type ?? profile.media.defaultType;
+  if (!profile.media.paperTypes.includes(type)) {
+    throw new MediaError(`${profile.name} does not take ${type} media (${profile.media.paperTypes.join(', ')})`);
+  }
+  const stock = defaultStock?.type === type ? defaultStock : stocks.find((candidate) => candidate.type === type);
+  return stock ? stockMedia(profile, stock, dpi) : profileMedia(profile, type);
+}
+
+/**
+ * Where a label printed width x height dots goes on its media: inside the
+ * printable area and, on die-cut media, on a raster as long as the label.
+ * Throws MediaError if the label is wider or longer than the printable area.
+ */
+export function placeLabel(media: LabelMedia, width: number, height: number, name = 'Label'): LabelPlacement {
+  const { printable } = media;
+  if (width > printable.width) {
+    throw new MediaError(`${name} is ${width} dots wide, over the ${printable.width} printable on ${media.name}`);
+  }
+  if (printable.height !== undefined && height > printable.height) {
+    throw new MediaError(`${name} is ${height} dots long, over the ${printable.height} printable on ${media.name}`);
+  }
+  return {
+    width: printable.x + width,
+    height: media.type === 'diecut' && media.heightPx !== undefined ? media.heightPx : printable.y + height,
+    x: printable.x,
+    y: printable.y,
+  };
+}
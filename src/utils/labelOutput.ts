@@ -0,0 +1,94 @@
+import path from 'path';
+import { LabelOutputFormat } from '../types/index.js';
+import { GrayImage, MonoBitmap, encodeGrayPng, encodePbm, encodePgm, scaleImage } from './monoImage.js';
+
+/**
+ * File formats a rendered label can be written as (--output), by extension:
+ *   png - the canvas as drawn (grayscale, antialiasing included)
+ *   pgm - the same canvas as a binary PGM
+ *   pbm - the exact 1-bit raster the printer receives, as printed (turned)
+ *   svg - vector rendering of the elements, for documentation
+ *   bin - the full protocol payload of one copy
+ * png, pgm and svg show the label as it is read, before orientation and
+ * banner turns.
+ */
+const FORMATS: Record<string, LabelOutputFormat> = {
+  '.png': 'png',
+  '.pgm': 'pgm',
+  '.pbm': 'pbm',
+  '.svg': 'svg',
+  '.bin': 'bin',
+};
+
+/**
+ * Largest preview scale, in output pixels per dot
+ */
+export const MAX_OUTPUT_SCALE = 16;
+
+/**
+ * Unsupported output file or scale
+ */
+export class LabelOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LabelOutputError';
+  }
+}
+
+/**
+ * What a rendered label can be written from
+ */
+export interface LabelOutputSource {
+  /** the canvas as drawn, in reading orientation */
+  gray: GrayImage;
+  /** the dots as they are sent */
+  printed: MonoBitmap;
+  payload: Buffer;
+  /** vector rendering at a scale, only called for svg */
+  svg: (scale: number) => string;
+}
+
+/**
+ * Output format for a file name, from its extension
+ */
+export function labelOutputFormat(file: string): LabelOutputFormat {
+  const format = FORMATS[path.extname(file).toLowerCase()];
+  if (!format) {
+    throw new LabelOutputError(
+      `Cannot write a label to "${file}": use one of ${Object.keys(FORMATS).join(', ')}`
+    );
+  }
+  return format;
+}
+
+/**
+ * Checks a preview scale: 1 writes one pixel per dot (dot-accurate), n
+ * enlarges every dot to n x n pixels
+ */
+export function checkOutputScale(scale: number | undefined): number {
+  const factor = scale ?? 1;
+  if (!Number.isInteger(factor) || factor < 1 || factor > MAX_OUTPUT_SCALE) {
+    throw new LabelOutputError(`Output scale must be a whole number from 1 to ${MAX_OUTPUT_SCALE}, got ${scale}`);
+  }
+  return factor;
+}
+
+/**
+ * Encodes a rendered label in a format. The payload is always written as
+ * is: scale only applies to images.
+ */
+export function encodeLabelOutput(format: LabelOutputFormat, label: LabelOutputSource, scale = 1): Buffer {
+  const factor = checkOutputScale(scale);
+  switch (format) {
+    case 'png':
+      return encodeGrayPng(scaleImage(label.gray, factor));
+    case 'pgm':
+      return encodePgm(scaleImage(label.gray, factor));
+    case 'pbm':
+      return encodePbm(scaleImage(label.printed, factor));
+    case 'svg':
+      return Buffer.from(label.svg(factor), 'utf8');
+    case 'bin':
+      return label.payload;
+  }
+}
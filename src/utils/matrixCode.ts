@@ -0,0 +1,90 @@
+import { QrErrorCorrection } from '../types/index.js';
+import { BarcodeError } from './barcode.js';
+import { encodeDataMatrix } from './datamatrix.js';
+import { encodeQrCode } from './qrcode.js';
+
+export type MatrixSymbology = 'qrcode' | 'datamatrix';
+
+/**
+ * A horizontal run of dark modules, in printer dots relative to the
+ * top-left corner of the quiet zone
+ */
+export interface MatrixCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MatrixCodeLayout {
+  cells: MatrixCell[];
+  /** Side length in dots, quiet zone included */
+  size: number;
+  moduleSize: number;
+  /** Side length in modules, quiet zone excluded */
+  modules: number;
+}
+
+export interface MatrixCodeLayoutOptions {
+  errorCorrection?: QrErrorCorrection;
+  /** Dots per module */
+  moduleSize?: number;
+  /** Target side length in dots; the module size is snapped down to whole dots */
+  targetSize?: number;
+  quietZone?: number;
+}
+
+/**
+ * Quiet zone per symbology, in modules
+ */
+export const DEFAULT_MATRIX_QUIET_ZONE: Record<MatrixSymbology, number> = {
+  qrcode: 4,
+  datamatrix: 1,
+};
+
+const DEFAULT_MODULE_SIZE = 2;
+
+/**
+ * Encodes a 2D code and lays it out on whole printer dots, so every module
+ * keeps its exact size when the canvas is thresholded to 1 bit
+ */
+export function layoutMatrixCode(
+  symbology: MatrixSymbology,
+  data: string,
+  options: MatrixCodeLayoutOptions = {}
+): MatrixCodeLayout {
+  const matrix = symbology === 'qrcode'
+    ? encodeQrCode(data, options.errorCorrection)
+    : encodeDataMatrix(data);
+  const quietZone = options.quietZone ?? DEFAULT_MATRIX_QUIET_ZONE[symbology];
+  const modules = matrix.length;
+  const span = modules + 2 * quietZone;
+
+  const moduleSize = options.targetSize !== undefined
+    ? Math.floor(options.targetSize / span)
+    : Math.round(options.moduleSize ?? DEFAULT_MODULE_SIZE);
+  if (moduleSize < 1) {
+    throw new BarcodeError(
+      `${symbology} "${data}" needs ${span} modules but only ${Math.floor(options.targetSize ?? 0)} dots are available`
+    );
+  }
+
+  const cells: MatrixCell[] = [];
+  matrix.forEach((row, y) => {
+    let runStart = -1;
+    row.forEach((dark, x) => {
+      if (dark && runStart < 0) runStart = x;
+      if (dark && !row[x + 1]) {
+        cells.push({
+          x: (quietZone + runStart) * moduleSize,
+          y: (quietZone + y) * moduleSize,
+          width: (x - runStart + 1) * moduleSize,
+          height: moduleSize,
+        });
+        runStart = -1;
+      }
+    });
+  });
+
+  return { cells, size: span * moduleSize, moduleSize, modules };
+}
@@ -0,0 +1,219 @@
+import { deflateSync } from 'zlib';
+import { RasterFormat } from '../types/index.js';
+
+/**
+ * 1-bit image of printed dots, as a thermal head sees it
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  /** row by row, 1 = printed (black) dot */
+  pixels: Uint8Array;
+}
+
+/**
+ * 8-bit grayscale image (the canvas as drawn, antialiasing included)
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  /** row by row, 0 = black, 255 = white */
+  pixels: Uint8Array;
+}
+
+export function createBitmap(width: number, height: number): MonoBitmap {
+  return { width, height, pixels: new Uint8Array(width * height) };
+}
+
+/**
+ * Number of printed dots (handy to tell a blank label from a printed one)
+ */
+export function countInk(bitmap: MonoBitmap): number {
+  return bitmap.pixels.reduce((total, pixel) => total + pixel, 0);
+}
+
+/**
+ * Copies source into target with its top-left corner at (x, y)
+ */
+export function drawBitmap(target: MonoBitmap, source: MonoBitmap, x: number, y: number): void {
+  for (let row = 0; row < source.height && y + row < target.height; row++) {
+    for (let column = 0; column < source.width && x + column < target.width; column++) {
+      target.pixels[(y + row) * target.width + x + column] = source.pixels[row * source.width + column];
+    }
+  }
+}
+
+/**
+ * Turns a bitmap by quarter turns clockwise: after one turn the left
+ * column is the top row
+ */
+export function rotateBitmap(bitmap: MonoBitmap, quarterTurns: number): MonoBitmap {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const { width, height, pixels } = bitmap;
+  const rotated = turns % 2 === 0 ? createBitmap(width, height) : createBitmap(height, width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [rx, ry] = turns === 0 ? [x, y]
+        : turns === 1 ? [height - 1 - y, x]
+          : turns === 2 ? [width - 1 - x, height - 1 - y]
+            : [y, width - 1 - x];
+      rotated.pixels[ry * rotated.width + rx] = pixels[y * width + x];
+    }
+  }
+  return rotated;
+}
+
+/**
+ * Enlarges an image by a whole factor, each pixel becoming a factor x factor
+ * block (nearest neighbour, so dots stay sharp)
+ */
+export function scaleImage<Image extends MonoBitmap | GrayImage>(image: Image, factor: number): Image {
+  if (factor === 1) {
+    return image;
+  }
+  const width = image.width * factor;
+  const height = image.height * factor;
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / factor) * image.width;
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = image.pixels[row + Math.floor(x / factor)];
+    }
+  }
+  return { ...image, width, height, pixels };
+}
+
+/**
+ * Packs a bitmap into printer raster bytes, 8 dots per byte:
+ *   column-major: columns left to right, ceil(height / 8) bytes each
+ *   row-major: rows top to bottom, ceil(width / 8) bytes each
+ * The last byte of a column or row is padded with white.
+ */
+export function packBitmap(bitmap: MonoBitmap, format: RasterFormat): number[] {
+  const { width, height, pixels } = bitmap;
+  const lsbFirst = format.byteOrder === 'topLSB' || format.byteOrder === 'leftLSB';
+  const bytes: number[] = [];
+  const pack = (count: number, dot: (index: number) => number): void => {
+    let byte = 0;
+    for (let i = 0; i < count; i++) {
+      if (dot(i)) byte |= lsbFirst ? 1 << i : 0x80 >> i;
+    }
+    bytes.push(byte);
+  };
+
+  if (format.orientation === 'column-major') {
+    for (let x = 0; x < width; x++) {
+      for (let y0 = 0; y0 < height; y0 += 8) {
+        pack(Math.min(8, height - y0), (i) => pixels[(y0 + i) * width + x]);
+      }
+    }
+  } else {
+    for (let y = 0; y < height; y++) {
+      for (let x0 = 0; x0 < width; x0 += 8) {
+        pack(Math.min(8, width - x0), (i) => pixels[y * width + x0 + i]);
+      }
+    }
+  }
+  return bytes;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Rows of 8 pixels per byte, MSB first, padded to a whole byte; set bits
+ * are the pixels where bit(pixel) is true
+ */
+function packRows(bitmap: MonoBitmap, bit: (pixel: number) => boolean, filterByte: boolean): Buffer {
+  const { width, height, pixels } = bitmap;
+  const rowBytes = Math.ceil(width / 8) + (filterByte ? 1 : 0);
+  const start = filterByte ? 1 : 0;
+  const raw = Buffer.alloc(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes + start;
+    for (let x = 0; x < width; x++) {
+      if (bit(pixels[y * width + x])) {
+        raw[row + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return raw;
+}
+
+/**
+ * PNG of a grayscale image at bitDepth 1 (raw rows: 1 = white) or 8
+ */
+function grayscalePng(width: number, height: number, bitDepth: 1 | 8, raw: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = 0; // grayscale
+  // compression, filter and interlace stay 0
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Encodes a bitmap as a 1-bit grayscale PNG (no canvas needed)
+ */
+export function encodePng(bitmap: MonoBitmap): Buffer {
+  // Each row: filter byte 0, then 8 pixels per byte, MSB first, 1 = white
+  const raw = packRows(bitmap, (pixel) => !pixel, true);
+  return grayscalePng(bitmap.width, bitmap.height, 1, raw);
+}
+
+/**
+ * Encodes a grayscale image as an 8-bit grayscale PNG
+ */
+export function encodeGrayPng(image: GrayImage): Buffer {
+  const { width, height, pixels } = image;
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+  return grayscalePng(width, height, 8, raw);
+}
+
+/**
+ * Encodes a bitmap as a binary PBM (P4): 1 = black, like the printer dots
+ */
+export function encodePbm(bitmap: MonoBitmap): Buffer {
+  const header = Buffer.from(`P4\n${bitmap.width} ${bitmap.height}\n`, 'ascii');
+  return Buffer.concat([header, packRows(bitmap, (pixel) => pixel === 1, false)]);
+}
+
+/**
+ * Encodes a grayscale image as a binary PGM (P5, maxval 255)
+ */
+export function encodePgm(image: GrayImage): Buffer {
+  const header = Buffer.from(`P5\n${image.width} ${image.height}\n255\n`, 'ascii');
+  return Buffer.concat([header, Buffer.from(image.pixels)]);
+}
@@ -0,0 +1,336 @@
+import { PrinterProfile, RasterFormat } from '../types/index.js';
+import { createBitmap, drawBitmap, MonoBitmap } from './monoImage.js';
+
+/**
+ * Decodes the byte stream sent to a printer (framing, GS v 0 rasters, feeds)
+ * back into commands and bitmaps, following the printer profile.
+ */
+
+const FRAME = [0x10, 0xFF, 0xFE];
+const GS_V0 = [0x1D, 0x76, 0x30];
+const ESC = 0x1B;
+const ESC_INIT = [ESC, 0x40];
+const ESC_FEED_DOTS = [ESC, 0x4A];
+const ESC_FEED_LINES = [ESC, 0x64];
+
+export type HeightUnit = 'dots' | 'bytes';
+
+export interface DecodedRaster {
+  widthPx: number;
+  heightPx: number;
+  /**
+   * How the header height was read. heightBytesBE-widthPxBE headers carry
+   * 8-dot bytes when sent by PrinterService but dots when sent by
+   * buildPayload (protocol.mjs); the raster length tells them apart.
+   */
+  heightUnit: HeightUnit;
+  /** bytes per column (column-major) or per row (row-major) */
+  lineBytes: number;
+  header: number[];
+  data: Uint8Array;
+}
+
+interface CommandBase {
+  /** position of the first byte in the stream */
+  offset: number;
+  length: number;
+}
+
+export type PayloadCommand = CommandBase & (
+  | { type: 'frame'; opcode: number }
+  | { type: 'firmware-request' }
+  | { type: 'status-request' }
+  | { type: 'init' }
+  | { type: 'feed'; amount: number; unit: 'dots' | 'lines' }
+  | { type: 'raster'; raster: DecodedRaster }
+  | { type: 'unknown'; bytes: number[] }
+);
+
+export interface PayloadDecoding {
+  commands: PayloadCommand[];
+  /** bytes consumed; the rest is an incomplete command waiting for more data */
+  consumed: number;
+  warnings: string[];
+}
+
+export interface DecodeOptions {
+  /**
+   * true (default) when the stream has ended: trailing bytes are decoded as
+   * far as possible. false while data is still arriving: an incomplete
+   * command is left unconsumed.
+   */
+  final?: boolean;
+  /** offset of bytes[0] in the whole stream, for command offsets */
+  offset?: number;
+}
+
+type Match = 'yes' | 'no' | 'more';
+
+/**
+ * Whether bytes at position start with signature ('more': too few bytes to tell)
+ */
+function matchAt(bytes: Uint8Array, position: number, signature: readonly number[]): Match {
+  for (let i = 0; i < signature.length; i++) {
+    if (position + i >= bytes.length) {
+      return 'more';
+    }
+    if (bytes[position + i] !== signature[i]) {
+      return 'no';
+    }
+  }
+  return 'yes';
+}
+
+const hex = (values: readonly number[]): string =>
+  values.map((value) => value.toString(16).padStart(2, '0')).join(' ');
+
+/**
+ * Decodes a payload. Commands: 0x10 0xFF 0xFE <op> frames, the profile's
+ * firmware and status requests, ESC @, ESC J n (feed dots), ESC d n (feed lines) and
+ * GS v 0 rasters; anything else comes back as "unknown" bytes.
+ */
+export function decodePayload(
+  input: Uint8Array | number[],
+  profile: PrinterProfile,
+  options: DecodeOptions = {}
+): PayloadDecoding {
+  const bytes = input instanceof Uint8Array ? input : Uint8Array.from(input);
+  const final = options.final ?? true;
+  const base = options.offset ?? 0;
+  const firmwareRequest = profile.protocol.firmwareRequest ?? [];
+  const statusRequest = profile.protocol.status?.request ?? [];
+  const commands: PayloadCommand[] = [];
+  const warnings: string[] = [];
+
+  const known: (readonly number[])[] = [FRAME, GS_V0, ESC_INIT, ESC_FEED_DOTS, ESC_FEED_LINES];
+  for (const request of [firmwareRequest, statusRequest]) {
+    if (request.length > 0) {
+      known.push(request);
+    }
+  }
+
+  /** whether a command (or the end of the stream) starts at position */
+  const boundaryAt = (position: number): Match => {
+    if (position > bytes.length) {
+      return final ? 'no' : 'more';
+    }
+    if (position === bytes.length) {
+      return final ? 'yes' : 'more';
+    }
+    const matches = known.map((signature) => matchAt(bytes, position, signature));
+    if (matches.includes('yes')) return 'yes';
+    return matches.includes('more') && !final ? 'more' : 'no';
+  };
+
+  /** whether what the profile sends after a raster (postfix, next block) starts at position */
+  const followers = [profile.protocol.postfix, [...profile.protocol.prefix, ...GS_V0]].filter((signature) => signature.length > 0);
+  const rasterEndsAt = (position: number): boolean =>
+    followers.some((signature) => matchAt(bytes, position, signature) === 'yes');
+
+  const push = (command: PayloadCommand): void => {
+    const last = commands[commands.length - 1];
+    if (command.type === 'unknown' && last?.type === 'unknown' && last.offset + last.length === command.offset) {
+      last.bytes.push(...command.bytes);
+      last.length += command.length;
+    } else {
+      commands.push(command);
+    }
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    const offset = base + i;
+    const at = (signature: readonly number[]) => matchAt(bytes, i, signature);
+
+    // A signature cut off by the end of the data: wait for the rest
+    if (!final && known.some((signature) => at(signature) === 'more')) {
+      break;
+    }
+
+    if (firmwareRequest.length > 0 && at(firmwareRequest) === 'yes') {
+      commands.push({ type: 'firmware-request', offset, length: firmwareRequest.length });
+      i += firmwareRequest.length;
+      continue;
+    }
+
+    if (statusRequest.length > 0 && at(statusRequest) === 'yes') {
+      commands.push({ type: 'status-request', offset, length: statusRequest.length });
+      i += statusRequest.length;
+      continue;
+    }
+
+    if (at(FRAME) === 'yes' && i + 3 < bytes.length) {
+      commands.push({ type: 'frame', opcode: bytes[i + 3], offset, length: 4 });
+      i += 4;
+      continue;
+    }
+    if (at(FRAME) === 'yes' && !final) {
+      break;
+    }
+
+    if (at(ESC_INIT) === 'yes') {
+      commands.push({ type: 'init', offset, length: 2 });
+      i += 2;
+      continue;
+    }
+
+    const feed = at(ESC_FEED_DOTS) === 'yes' ? 'dots' : at(ESC_FEED_LINES) === 'yes' ? 'lines' : undefined;
+    if (feed && i + 2 < bytes.length) {
+      commands.push({ type: 'feed', amount: bytes[i + 2], unit: feed, offset, length: 3 });
+      i += 3;
+      continue;
+    }
+    if (feed && !final) {
+      break;
+    }
+
+    if (at(GS_V0) === 'yes') {
+      const raster = decodeRaster(bytes, i, profile, { boundaryAt, rasterEndsAt }, final, warnings);
+      if (raster === 'more') {
+        break;
+      }
+      if (raster) {
+        commands.push({ type: 'raster', raster: raster.raster, offset, length: raster.length });
+        i += raster.length;
+        continue;
+      }
+    }
+
+    push({ type: 'unknown', bytes: [bytes[i]], offset, length: 1 });
+    i++;
+  }
+
+  for (const command of commands) {
+    if (command.type === 'unknown') {
+      warnings.push(`Unknown bytes at ${command.offset}: ${hex(command.bytes.slice(0, 16))}${command.bytes.length > 16 ? ' ...' : ''}`);
+    }
+  }
+  return { commands, consumed: i, warnings };
+}
+
+/**
+ * Reads GS v 0 [m] header [trailer] raster at position. Returns 'more' if the
+ * data is incomplete, undefined if the header itself is incomplete at the end.
+ */
+function decodeRaster(
+  bytes: Uint8Array,
+  position: number,
+  profile: PrinterProfile,
+  boundaries: { boundaryAt: (position: number) => Match; rasterEndsAt: (position: number) => boolean },
+  final: boolean,
+  warnings: string[]
+): { raster: DecodedRaster; length: number } | 'more' | undefined {
+  const { gsV0 } = profile.protocol;
+  const mLength = typeof gsV0.m === 'number' ? 1 : 0;
+  const trailer = gsV0.trailer ?? [];
+  const headerStart = position + GS_V0.length + mLength;
+  const dataStart = headerStart + 4 + trailer.length;
+  if (dataStart > bytes.length) {
+    return final ? undefined : 'more';
+  }
+
+  const header = Array.from(bytes.subarray(headerStart, headerStart + 4));
+  const trailerBytes = Array.from(bytes.subarray(headerStart + 4, dataStart));
+  if (trailerBytes.some((value, index) => value !== trailer[index])) {
+    warnings.push(`GS v 0 at ${position}: trailer ${hex(trailerBytes)}, profile expects ${hex(trailer)}`);
+  }
+
+  let candidates: { widthPx: number; heightPx: number; heightUnit: HeightUnit; lineBytes: number; length: number }[];
+  if (gsV0.headerFormat === 'widthBytesLE-heightDotsLE') {
+    const widthBytes = header[0] | (header[1] << 8);
+    const heightDots = header[2] | (header[3] << 8);
+    candidates = [{ widthPx: widthBytes * 8, heightPx: heightDots, heightUnit: 'dots', lineBytes: widthBytes, length: widthBytes * heightDots }];
+  } else {
+    const height = (header[0] << 8) | header[1];
+    const widthPx = (header[2] << 8) | header[3];
+    candidates = [
+      { widthPx, heightPx: height * 8, heightUnit: 'bytes', lineBytes: height, length: height * widthPx },
+      { widthPx, heightPx: height, heightUnit: 'dots', lineBytes: Math.ceil(height / 8), length: Math.ceil(height / 8) * widthPx },
+    ];
+  }
+
+  // The right reading is the one whose raster ends where a command (or the
+  // stream) starts. While an earlier reading still waits for data, a later one
+  // only wins if the postfix or the next block follows it.
+  let chosen = undefined as (typeof candidates)[number] | undefined;
+  let waiting = false;
+  for (const candidate of candidates) {
+    const end = dataStart + candidate.length;
+    const boundary = boundaries.boundaryAt(end);
+    if (boundary === 'yes' && (!waiting || boundaries.rasterEndsAt(end))) {
+      chosen = candidate;
+      break;
+    }
+    waiting ||= boundary === 'more';
+  }
+  if (!chosen && waiting) {
+    return 'more';
+  }
+
+  if (!chosen) {
+    const fits = candidates.filter((candidate) => dataStart + candidate.length <= bytes.length);
+    chosen = fits[0] ?? candidates[candidates.length - 1];
+    warnings.push(
+      dataStart + chosen.length > bytes.length
+        ? `GS v 0 at ${position}: raster truncated, ${bytes.length - dataStart} of ${chosen.length} bytes`
+        : `GS v 0 at ${position}: raster is not followed by a known command`
+    );
+  }
+
+  const data = new Uint8Array(chosen.length);
+  data.set(bytes.subarray(dataStart, Math.min(bytes.length, dataStart + chosen.length)));
+  const { length, ...shape } = chosen;
+  return {
+    raster: { ...shape, header, data },
+    length: Math.min(bytes.length, dataStart + length) - position,
+  };
+}
+
+/**
+ * Unpacks a raster into dots using the profile's raster format
+ */
+export function rasterToBitmap(raster: DecodedRaster, format: RasterFormat): MonoBitmap {
+  const bitmap = createBitmap(raster.widthPx, raster.heightPx);
+  const lsbFirst = format.byteOrder === 'topLSB' || format.byteOrder === 'leftLSB';
+  const bit = (value: number, index: number): number => (lsbFirst ? value >> index : value >> (7 - index)) & 1;
+
+  if (format.orientation === 'column-major') {
+    for (let x = 0; x < raster.widthPx; x++) {
+      for (let y = 0; y < raster.heightPx; y++) {
+        bitmap.pixels[y * raster.widthPx + x] = bit(raster.data[x * raster.lineBytes + (y >> 3)], y & 7);
+      }
+    }
+  } else {
+    for (let y = 0; y < raster.heightPx; y++) {
+      for (let x = 0; x < raster.widthPx; x++) {
+        bitmap.pixels[y * raster.widthPx + x] = bit(raster.data[y * raster.lineBytes + (x >> 3)], x & 7);
+      }
+    }
+  }
+  return bitmap;
+}
+
+/**
+ * Everything the rasters of a payload print, joined in the paper direction:
+ * side by side for column-major printers, one under another for row-major
+ */
+export function payloadBitmap(commands: PayloadCommand[], profile: PrinterProfile): MonoBitmap | undefined {
+  const parts = commands.flatMap((command) =>
+    command.type === 'raster' ? [rasterToBitmap(command.raster, profile.raster)] : []
+  );
+  if (parts.length === 0) {
+    return undefined;
+  }
+
+  const columnMajor = profile.raster.orientation === 'column-major';
+  const bitmap = columnMajor
+    ? createBitmap(parts.reduce((sum, part) => sum + part.width, 0), Math.max(...parts.map((part) => part.height)))
+    : createBitmap(Math.max(...parts.map((part) => part.width)), parts.reduce((sum, part) => sum + part.height, 0));
+
+  let position = 0;
+  for (const part of parts) {
+    drawBitmap(bitmap, part, columnMajor ? position : 0, columnMajor ? 0 : position);
+    position += columnMajor ? part.width : part.height;
+  }
+  return bitmap;
+}
@@ -0,0 +1,276 @@
+import { PrinterProfile } from '../types/index.js';
+import { countInk, MonoBitmap } from './monoImage.js';
+import { decodePayload, payloadBitmap, PayloadCommand, rasterToBitmap } from './payloadDecoder.js';
+
+/**
+ * Human-readable views of printer payloads: a command listing, the raster
+ * as ASCII art and a command-level diff of two payloads.
+ */
+
+export interface PayloadInspection {
+  profile: PrinterProfile;
+  /** payload size in bytes */
+  size: number;
+  commands: PayloadCommand[];
+  /** decoding problems plus hints (raster wider than the printer, blank raster) */
+  warnings: string[];
+  /** what the rasters print, if there are any */
+  bitmap?: MonoBitmap;
+}
+
+export type CommandChange = 'same' | 'added' | 'removed' | 'changed';
+
+export interface CommandDiff {
+  change: CommandChange;
+  before?: PayloadCommand;
+  after?: PayloadCommand;
+  /** what differs, for changed commands ("width 227 -> 300") */
+  details: string[];
+}
+
+export interface PayloadDiff {
+  identical: boolean;
+  entries: CommandDiff[];
+}
+
+const hex = (values: readonly number[]): string =>
+  values.map((value) => value.toString(16).padStart(2, '0')).join(' ');
+
+/**
+ * Decodes a payload and adds the hints that explain most blank labels
+ */
+export function inspectPayload(bytes: Uint8Array | number[], profile: PrinterProfile): PayloadInspection {
+  const { commands, warnings } = decodePayload(bytes, profile);
+  const hints: string[] = [];
+  for (const command of commands) {
+    if (command.type !== 'raster') {
+      continue;
+    }
+    const { widthPx, heightPx } = command.raster;
+    const { maxWidthPx, maxHeightPx } = profile.limits;
+    if (maxWidthPx !== null && widthPx > maxWidthPx) {
+      hints.push(`Raster at ${command.offset} is ${widthPx}px wide, over the ${profile.name} maximum of ${maxWidthPx}px`);
+    }
+    if (maxHeightPx !== null && heightPx > maxHeightPx) {
+      hints.push(`Raster at ${command.offset} is ${heightPx}px high, over the ${profile.name} maximum of ${maxHeightPx}px`);
+    }
+    if (countInk(rasterToBitmap(command.raster, profile.raster)) === 0) {
+      hints.push(`Raster at ${command.offset} is blank (no dot is printed)`);
+    }
+  }
+  if (!commands.some((command) => command.type === 'raster')) {
+    hints.push('Payload has no GS v 0 raster');
+  }
+
+  return {
+    profile,
+    size: bytes.length,
+    commands,
+    warnings: [...warnings, ...hints],
+    bitmap: payloadBitmap(commands, profile),
+  };
+}
+
+/**
+ * One-line description of a command with its decoded parameters
+ */
+export function describeCommand(command: PayloadCommand, profile: PrinterProfile): string {
+  switch (command.type) {
+    case 'frame':
+      return `frame 0x${hex([command.opcode])}`;
+    case 'firmware-request':
+      return 'firmware request';
+    case 'status-request':
+      return 'status request';
+    case 'init':
+      return 'initialize (ESC @)';
+    case 'feed':
+      return `feed ${command.amount} ${command.unit} (${command.unit === 'dots' ? 'ESC J' : 'ESC d'})`;
+    case 'raster': {
+      const { raster } = command;
+      const height = raster.heightUnit === 'bytes' ? `height ${raster.heightPx / 8} bytes` : `height ${raster.heightPx} dots`;
+      const ink = countInk(rasterToBitmap(raster, profile.raster));
+      return `GS v 0 raster ${raster.widthPx}x${raster.heightPx} dots ` +
+        `(header ${hex(raster.header)}: ${height}, ${profile.protocol.gsV0.headerFormat}), ` +
+        `${raster.data.length} data bytes, ${ink} dots inked`;
+    }
+    case 'unknown':
+      return `unknown ${hex(command.bytes.slice(0, 16))}${command.bytes.length > 16 ? ' ...' : ''}`;
+  }
+}
+
+/**
+ * Command listing with decimal and hex offsets, followed by the warnings
+ */
+export function formatInspection(inspection: PayloadInspection): string {
+  const { profile, size, commands, warnings } = inspection;
+  const lines = [
+    `${profile.id} payload: ${size} bytes, ${commands.length} commands`,
+    '   offset          length  command',
+    ...commands.map((command) =>
+      `  ${String(command.offset).padStart(7)} 0x${command.offset.toString(16).padStart(6, '0')} ` +
+      `${String(command.length).padStart(6)}  ${describeCommand(command, profile)}`
+    ),
+  ];
+  if (warnings.length > 0) {
+    lines.push('', ...warnings.map((warning) => `⚠️ ${warning}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Bitmap as text, '#' for ink. Wide bitmaps are scaled down to maxColumns;
+ * each character covers twice as many rows as columns, like a terminal cell.
+ */
+export function bitmapToAscii(bitmap: MonoBitmap, maxColumns = 100): string {
+  const scale = Math.max(1, Math.ceil(bitmap.width / maxColumns));
+  const rows: string[] = [];
+  for (let y = 0; y < bitmap.height; y += scale * 2) {
+    let row = '';
+    for (let x = 0; x < bitmap.width; x += scale) {
+      let inked = false;
+      for (let dy = 0; dy < scale * 2 && y + dy < bitmap.height && !inked; dy++) {
+        for (let dx = 0; dx < scale && x + dx < bitmap.width && !inked; dx++) {
+          inked = bitmap.pixels[(y + dy) * bitmap.width + x + dx] === 1;
+        }
+      }
+      row += inked ? '#' : '.';
+    }
+    rows.push(row);
+  }
+  return rows.join('\n');
+}
+
+/**
+ * What identifies a command for matching: its type and parameters, but not
+ * the raster data, so a raster whose pixels changed still lines up
+ */
+function commandKey(command: PayloadCommand): string {
+  switch (command.type) {
+    case 'frame':
+      return `frame:${command.opcode}`;
+    case 'feed':
+      return `feed:${command.unit}:${command.amount}`;
+    case 'raster':
+      return `raster:${command.raster.widthPx}x${command.raster.heightPx}`;
+    case 'unknown':
+      return `unknown:${command.bytes.join(',')}`;
+    default:
+      return command.type;
+  }
+}
+
+function commandDetails(
+  before: PayloadCommand,
+  after: PayloadCommand,
+  beforeProfile: PrinterProfile,
+  afterProfile: PrinterProfile
+): string[] {
+  if (before.type !== after.type) {
+    return [`${before.type} -> ${after.type}`];
+  }
+  if (before.type === 'raster' && after.type === 'raster') {
+    const a = before.raster;
+    const b = after.raster;
+    const details: string[] = [];
+    if (a.widthPx !== b.widthPx) details.push(`width ${a.widthPx} -> ${b.widthPx} dots`);
+    if (a.heightPx !== b.heightPx) details.push(`height ${a.heightPx} -> ${b.heightPx} dots`);
+    if (a.heightUnit !== b.heightUnit) details.push(`header height in ${a.heightUnit} -> ${b.heightUnit}`);
+    if (hex(a.header) !== hex(b.header)) details.push(`header ${hex(a.header)} -> ${hex(b.header)}`);
+
+    const dotsBefore = rasterToBitmap(a, beforeProfile.raster);
+    const dotsAfter = rasterToBitmap(b, afterProfile.raster);
+    if (dotsBefore.width === dotsAfter.width && dotsBefore.height === dotsAfter.height) {
+      const changed = dotsBefore.pixels.reduce((total, pixel, index) => total + (pixel !== dotsAfter.pixels[index] ? 1 : 0), 0);
+      if (changed > 0) details.push(`${changed} of ${dotsBefore.pixels.length} dots differ`);
+    }
+    const inkBefore = countInk(dotsBefore);
+    const inkAfter = countInk(dotsAfter);
+    if (inkBefore !== inkAfter) details.push(`dots inked ${inkBefore} -> ${inkAfter}`);
+    return details;
+  }
+  const a = describeCommand(before, beforeProfile);
+  const b = describeCommand(after, afterProfile);
+  return a === b ? [] : [`${a} -> ${b}`];
+}
+
+/**
+ * Command-level diff: commands are lined up by type and parameters (longest
+ * common subsequence), then a removed and an added command of the same type
+ * next to each other are reported as one change.
+ */
+export function diffPayloads(
+  before: Uint8Array | number[],
+  after: Uint8Array | number[],
+  beforeProfile: PrinterProfile,
+  afterProfile: PrinterProfile = beforeProfile
+): PayloadDiff {
+  const a = decodePayload(before, beforeProfile).commands;
+  const b = decodePayload(after, afterProfile).commands;
+  const keysA = a.map(commandKey);
+  const keysB = b.map(commandKey);
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keysA[i] === keysB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const entries: CommandDiff[] = [];
+  const compare = (x: PayloadCommand, y: PayloadCommand): CommandDiff => {
+    const details = commandDetails(x, y, beforeProfile, afterProfile);
+    return { change: details.length > 0 ? 'changed' : 'same', before: x, after: y, details };
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && keysA[i] === keysB[j]) {
+      entries.push(compare(a[i++], b[j++]));
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      entries.push({ change: 'removed', before: a[i++], details: [] });
+    } else {
+      // An added command replaces a just-removed one of the same type: one change
+      const added = b[j++];
+      let removed = -1;
+      for (let k = entries.length - 1; k >= 0 && entries[k].change === 'removed'; k--) {
+        if (entries[k].before!.type === added.type) removed = k;
+      }
+      if (removed >= 0) {
+        entries[removed] = compare(entries[removed].before!, added);
+      } else {
+        entries.push({ change: 'added', after: added, details: [] });
+      }
+    }
+  }
+
+  return { identical: entries.every((entry) => entry.change === 'same'), entries };
+}
+
+/**
+ * Diff as text: " " same, "-" removed, "+" added, "~" changed (with details)
+ */
+export function formatPayloadDiff(
+  diff: PayloadDiff,
+  beforeProfile: PrinterProfile,
+  afterProfile: PrinterProfile = beforeProfile
+): string {
+  if (diff.identical) {
+    return `Payloads are identical (${diff.entries.length} commands)`;
+  }
+  const marks: Record<CommandChange, string> = { same: ' ', removed: '-', added: '+', changed: '~' };
+  const lines: string[] = [];
+  for (const entry of diff.entries) {
+    const command = entry.after ?? entry.before!;
+    const offsets = [entry.before?.offset ?? '', entry.after?.offset ?? ''].map((offset) => String(offset).padStart(7));
+    const profile = entry.after ? afterProfile : beforeProfile;
+    lines.push(`${marks[entry.change]} ${offsets.join(' ')}  ${describeCommand(command, profile)}`);
+    for (const detail of entry.details) {
+      lines.push(`${' '.repeat(19)}${detail}`);
+    }
+  }
+  const count = (change: CommandChange) => diff.entries.filter((entry) => entry.change === change).length;
+  lines.push('', `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed, ${count('same')} unchanged`);
+  return lines.join('\n');
+}
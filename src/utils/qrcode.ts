@@ -0,0 +1,411 @@
+import { QrErrorCorrection } from '../types/index.js';
+import { BarcodeError } from './barcode.js';
+import { ReedSolomonEncoder } from './reedSolomon.js';
+
+/**
+ * Self-contained QR Code model 2 encoder (ISO/IEC 18004).
+ *
+ * Picks the most compact single mode for the data (numeric, alphanumeric or
+ * UTF-8 bytes), the smallest version 1-40 that fits the requested error
+ * correction level, and the mask with the lowest penalty score.
+ */
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/** Format-information bits per error correction level */
+const EC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+const EC_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+/** Error correction codewords per block, indexed [level][version] */
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+/** Number of error correction blocks, indexed [level][version] */
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+interface QrMode {
+  name: 'numeric' | 'alphanumeric' | 'byte';
+  indicator: number;
+  /** Character count bits for versions 1-9, 10-26 and 27-40 */
+  countBits: [number, number, number];
+}
+
+const MODES: Record<QrMode['name'], QrMode> = {
+  numeric: { name: 'numeric', indicator: 0x1, countBits: [10, 12, 14] },
+  alphanumeric: { name: 'alphanumeric', indicator: 0x2, countBits: [9, 11, 13] },
+  byte: { name: 'byte', indicator: 0x4, countBits: [8, 16, 16] },
+};
+
+const PENALTY = { N1: 3, N2: 3, N3: 40, N4: 10 } as const;
+
+const rs = new ReedSolomonEncoder(0x11D, 0);
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+}
+
+/**
+ * Segment payload: mode plus the data bits (without header)
+ */
+function encodeSegment(data: string): { mode: QrMode; count: number; bits: BitBuffer } {
+  const bits = new BitBuffer();
+
+  if (/^\d*$/.test(data)) {
+    for (let i = 0; i < data.length; i += 3) {
+      const group = data.slice(i, i + 3);
+      bits.append(Number(group), group.length * 3 + 1);
+    }
+    return { mode: MODES.numeric, count: data.length, bits };
+  }
+
+  if ([...data].every((char) => ALPHANUMERIC_CHARSET.includes(char))) {
+    for (let i = 0; i < data.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(data[i]);
+      if (i + 1 < data.length) {
+        bits.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(data[i + 1]), 11);
+      } else {
+        bits.append(first, 6);
+      }
+    }
+    return { mode: MODES.alphanumeric, count: data.length, bits };
+  }
+
+  const bytes = Buffer.from(data, 'utf-8');
+  bytes.forEach((byte) => bits.append(byte, 8));
+  return { mode: MODES.byte, count: bytes.length, bits };
+}
+
+function countBitsFor(mode: QrMode, version: number): number {
+  return mode.countBits[version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, level: QrErrorCorrection): number {
+  const ec = EC_INDEX[level];
+  return Math.floor(numRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[ec][version] * NUM_ERROR_CORRECTION_BLOCKS[ec][version];
+}
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+/**
+ * Splits data codewords into blocks, appends ECC and interleaves them
+ */
+function addEccAndInterleave(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const ec = EC_INDEX[level];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ec][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ec][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = rs.remainder(block, blockEccLen);
+    if (i < numShortBlocks) block.push(0); // placeholder, skipped when interleaving
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) this.drawAlignmentPattern(x, y);
+      });
+    });
+
+    // Reserve format areas now; the real bits are drawn once the mask is known
+    this.drawFormatBits('M', 0);
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(level: QrErrorCorrection, mask: number): void {
+    const data = (EC_FORMAT_BITS[level] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) {
+      rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+    }
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Places the codewords in the zigzag order, skipping function modules
+   */
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XORs a mask pattern over the data modules (applying it twice undoes it)
+   */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    let score = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map((row) => row[x])),
+    ];
+
+    // Runs of 5+ same-colour modules and finder-like 1:1:3:1:1 patterns
+    const finderLike = ['10111010000', '00001011101'];
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += PENALTY.N1 + (run - 5);
+          run = 1;
+        }
+      }
+      const text = line.map((dark) => (dark ? '1' : '0')).join('');
+      for (const pattern of finderLike) {
+        for (let at = text.indexOf(pattern); at >= 0; at = text.indexOf(pattern, at + 1)) {
+          score += PENALTY.N3;
+        }
+      }
+    }
+
+    // 2x2 blocks of the same colour
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          score += PENALTY.N2;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    score += Math.max(0, k) * PENALTY.N4;
+
+    return score;
+  }
+}
+
+/**
+ * Encodes data as a QR Code and returns its module matrix (true = dark),
+ * without quiet zone
+ */
+export function encodeQrCode(data: string, level: QrErrorCorrection = 'M'): boolean[][] {
+  if (!(level in EC_INDEX)) {
+    throw new BarcodeError(`Unknown QR error correction level: ${level} (use L, M, Q or H)`);
+  }
+
+  const segment = encodeSegment(data);
+
+  let version = MIN_VERSION;
+  let capacityBits = 0;
+  for (; version <= MAX_VERSION; version++) {
+    capacityBits = numDataCodewords(version, level) * 8;
+    const usedBits = 4 + countBitsFor(segment.mode, version) + segment.bits.bits.length;
+    if (usedBits <= capacityBits && segment.count < 1 << countBitsFor(segment.mode, version)) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new BarcodeError(
+      `QR code data too long: ${segment.count} ${segment.mode.name} characters do not fit version 40 at level ${level}`
+    );
+  }
+
+  const buffer = new BitBuffer();
+  buffer.append(segment.mode.indicator, 4);
+  buffer.append(segment.count, countBitsFor(segment.mode, version));
+  buffer.bits.push(...segment.bits.bits);
+
+  // Terminator, byte alignment and alternating pad codewords
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let pad = 0xEC; buffer.bits.length < capacityBits; pad ^= 0xEC ^ 0x11) {
+    buffer.append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < buffer.bits.length; i += 8) {
+    codewords.push(parseInt(buffer.bits.slice(i, i + 8).join(''), 2));
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addEccAndInterleave(codewords, version, level));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(level, mask);
+    const score = matrix.penaltyScore();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(level, bestMask);
+  return matrix.modules;
+}
@@ -0,0 +1,120 @@
+import { createCanvas, Canvas, Image } from 'canvas';
+import { DitherOptions, ImageFit } from '../types/index.js';
+import { ditherPixels } from './dither.js';
+import { ImageLoadError } from './imageSource.js';
+
+/**
+ * Where the image is drawn inside its box, in dots
+ */
+export interface ImagePlacement {
+  boxWidth: number;
+  boxHeight: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+export interface RasterImageOptions {
+  /** Box size in dots; a missing side keeps the image aspect ratio */
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  dither?: DitherOptions;
+}
+
+/**
+ * Images are photos or logos: diffuse the error unless told otherwise
+ */
+export const DEFAULT_IMAGE_DITHER: DitherOptions = { algorithm: 'floyd-steinberg' };
+
+/**
+ * Loads an image from a file path or a data URI. node-canvas decodes both
+ * synchronously, which keeps the renderers synchronous. Failures are
+ * ImageLoadErrors.
+ */
+export function loadImageSync(src: string): Image {
+  if (/^\s*https?:\/\//.test(src)) {
+    throw new ImageLoadError(`Remote images are not supported, use a file path or a data URI: ${src}`);
+  }
+
+  const image = new Image();
+  let loadError: Error | undefined;
+  image.onerror = (error: Error) => {
+    loadError = error;
+  };
+  image.src = src;
+
+  if (loadError || !image.complete || image.width === 0) {
+    const source = src.startsWith('data:') ? `${src.slice(0, 32)}...` : src;
+    throw new ImageLoadError(`Failed to load image "${source}": ${loadError?.message ?? 'unsupported or empty image'}`);
+  }
+  return image;
+}
+
+/**
+ * Computes the drawing rectangle for an image inside its box
+ */
+export function fitImage(
+  imageWidth: number,
+  imageHeight: number,
+  boxWidth?: number,
+  boxHeight?: number,
+  fit: ImageFit = 'contain'
+): ImagePlacement {
+  const width = Math.round(boxWidth ?? (boxHeight ? (imageWidth * boxHeight) / imageHeight : imageWidth));
+  const height = Math.round(boxHeight ?? (boxWidth ? (imageHeight * boxWidth) / imageWidth : imageHeight));
+
+  let dw: number;
+  let dh: number;
+  switch (fit) {
+    case 'fill':
+      dw = width;
+      dh = height;
+      break;
+    case 'none':
+      dw = imageWidth;
+      dh = imageHeight;
+      break;
+    case 'cover':
+    case 'contain': {
+      const pick = fit === 'cover' ? Math.max : Math.min;
+      const scale = pick(width / imageWidth, height / imageHeight);
+      dw = Math.round(imageWidth * scale);
+      dh = Math.round(imageHeight * scale);
+      break;
+    }
+    default:
+      throw new Error(`Unknown image fit: ${fit} (use fill, contain, cover or none)`);
+  }
+
+  return {
+    boxWidth: width,
+    boxHeight: height,
+    dx: Math.round((width - dw) / 2),
+    dy: Math.round((height - dh) / 2),
+    dw,
+    dh,
+  };
+}
+
+/**
+ * Draws an image into a box-sized canvas on white and dithers it to 1 bit,
+ * ready to be composited onto the label
+ */
+export function renderRasterImage(src: string, options: RasterImageOptions = {}): Canvas {
+  const image = loadImageSync(src);
+  const placement = fitImage(image.width, image.height, options.width, options.height, options.fit);
+
+  const canvas = createCanvas(Math.max(1, placement.boxWidth), Math.max(1, placement.boxHeight));
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, placement.dx, placement.dy, placement.dw, placement.dh);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  ditherPixels(pixels, options.dither ?? DEFAULT_IMAGE_DITHER);
+  ctx.putImageData(pixels, 0, 0);
+
+  return canvas;
+}
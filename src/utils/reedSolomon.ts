@@ -0,0 +1,72 @@
+/**
+ * Reed-Solomon error correction over GF(256), shared by the 2D symbologies.
+ *
+ * QR Code uses the primitive polynomial 0x11D with generator roots a^0..a^(n-1);
+ * Data Matrix ECC200 uses 0x12D with roots a^1..a^n.
+ */
+export class ReedSolomonEncoder {
+  private readonly exp: number[] = new Array(512).fill(0);
+  private readonly log: number[] = new Array(256).fill(0);
+  private readonly firstRoot: number;
+  private readonly divisors = new Map<number, number[]>();
+
+  constructor(primitive: number, firstRoot: number) {
+    this.firstRoot = firstRoot;
+
+    let value = 1;
+    for (let i = 0; i < 255; i++) {
+      this.exp[i] = value;
+      this.log[value] = i;
+      value <<= 1;
+      if (value & 0x100) value ^= primitive;
+    }
+    for (let i = 255; i < 512; i++) {
+      this.exp[i] = this.exp[i - 255];
+    }
+  }
+
+  private multiply(a: number, b: number): number {
+    return a === 0 || b === 0 ? 0 : this.exp[this.log[a] + this.log[b]];
+  }
+
+  /**
+   * Generator polynomial coefficients (leading 1 dropped), highest degree first
+   */
+  private divisor(degree: number): number[] {
+    const cached = this.divisors.get(degree);
+    if (cached) return cached;
+
+    let poly = [1];
+    for (let i = 0; i < degree; i++) {
+      const root = this.exp[(this.firstRoot + i) % 255];
+      const next = new Array(poly.length + 1).fill(0);
+      poly.forEach((coef, j) => {
+        next[j] ^= coef;
+        next[j + 1] ^= this.multiply(coef, root);
+      });
+      poly = next;
+    }
+
+    const divisor = poly.slice(1);
+    this.divisors.set(degree, divisor);
+    return divisor;
+  }
+
+  /**
+   * Computes the error correction codewords for a block of data codewords
+   */
+  remainder(data: readonly number[], eccLength: number): number[] {
+    const divisor = this.divisor(eccLength);
+    const result = new Array(eccLength).fill(0);
+
+    for (const byte of data) {
+      const factor = byte ^ result.shift();
+      result.push(0);
+      divisor.forEach((coef, i) => {
+        result[i] ^= this.multiply(coef, factor);
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,350 @@
+import {
+  RenderTemplate,
+  RenderElement,
+  TextElement,
+  BarcodeElement,
+  QrCodeElement,
+  DataMatrixElement,
+  ImageElement,
+  TemplateVariables,
+  ElementFont,
+} from '../types/index.js';
+import { Logger } from './logger.js';
+import { BarcodeError, layoutBarcode, DEFAULT_BARCODE_HEIGHT, DEFAULT_BARCODE_FONT_SIZE, BARCODE_TEXT_GAP } from './barcode.js';
+import { layoutMatrixCode } from './matrixCode.js';
+import { interpolate, TemplateExpressionError } from './templateExpression.js';
+import { availableTextSpace, fitFontSize, layoutTextBox, TextExtent } from './textLayout.js';
+import { ElementTurn, Rect, elementTurn, rotatePoint } from './transform.js';
+import { FontError, FontRequest, ResolvedFont, elementFont, fontWeight } from './fontRegistry.js';
+import { bitmapTextRects, findBitmapFont, measureBitmapText } from './bitmapFont.js';
+import { ImageLoadError } from './imageSource.js';
+
+/**
+ * Vector rendering of a template: the same geometry the canvas renderer
+ * draws (positions, auto-fit sizes, bars and modules in whole dots), as SVG
+ * in dots, for documentation. Canvas-free: text is measured by the caller.
+ */
+
+/**
+ * Ink extent of a string in a font at a size, in dots
+ */
+export type MeasureFontText = (text: string, fontSize: number, font: ResolvedFont) => TextExtent;
+
+/**
+ * An image element already fitted and dithered, as a PNG of its box
+ */
+export interface SvgImage {
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface SvgLabelOptions {
+  /** label size in dots */
+  width: number;
+  height: number;
+  /** dots per template unit */
+  scaleFactor: number;
+  /** text size when an element gives none, in dots */
+  defaultFontSize: number;
+  /** room auto-fit text keeps from the label edges, in dots */
+  textMargin: number;
+  measure: MeasureFontText;
+  /** picks the family and variant text is drawn in (FontRegistry.resolve); without it, the first family asked for */
+  resolveFont?: (request: FontRequest) => ResolvedFont;
+  /** draws image elements (an ImageLoadError fails the label); without it they are left out */
+  drawImage?: (element: ImageElement, src: string) => SvgImage;
+  variables?: TemplateVariables;
+  /** output pixels per dot (width/height attributes; the viewBox stays in dots) */
+  scale?: number;
+  logger?: Logger;
+}
+
+const BLACK = '#000';
+
+const TEXT_ANCHOR = { left: 'start', center: 'middle', right: 'end' } as const;
+
+/**
+ * Escapes text for SVG content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Short decimal for coordinates (whole dots stay integers)
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * One path of filled rectangles (bars, modules, stripes)
+ */
+function rectPath(rects: Rect[]): string {
+  const d = rects.map((r) => `M${num(r.x)} ${num(r.y)}h${num(r.width)}v${num(r.height)}h${num(-r.width)}z`).join('');
+  return d ? `<path d="${d}" fill="${BLACK}"/>` : '';
+}
+
+/**
+ * Turns elements into SVG markup, one at a time
+ */
+class SvgLabelWriter {
+  private readonly options: SvgLabelOptions;
+  private readonly defaultFont: RenderTemplate['defaultFont'];
+  private clips = 0;
+
+  constructor(options: SvgLabelOptions, defaultFont?: RenderTemplate['defaultFont']) {
+    this.options = options;
+    this.defaultFont = defaultFont;
+  }
+
+  private get scaleFactor(): number {
+    return this.options.scaleFactor;
+  }
+
+  private scale(value: number): number {
+    return Math.round(value * this.scaleFactor);
+  }
+
+  private scaleOptional(value: number | undefined): number | undefined {
+    return value !== undefined ? this.scale(value) : undefined;
+  }
+
+  /**
+   * Font an element is drawn in, and the families to list after it
+   */
+  private resolveFont(element: ElementFont): { font: ResolvedFont; families: string[] } {
+    const request = elementFont(element, this.defaultFont);
+    const font = this.options.resolveFont?.(request)
+      ?? { family: request.families[0], weight: fontWeight(request.weight), style: request.style ?? 'normal' };
+    const rest = request.families.filter((family) => family.toLowerCase() !== font.family.toLowerCase());
+    return { font, families: [font.family, ...rest] };
+  }
+
+  private font({ font, families }: { font: ResolvedFont; families: string[] }, size: number): string {
+    return `font-family="${escapeXml(families.join(', '))}" font-size="${size}"`
+      + (font.weight !== 400 ? ` font-weight="${font.weight}"` : '')
+      + (font.style !== 'normal' ? ` font-style="${font.style}"` : '');
+  }
+
+  element(element: RenderElement): string {
+    const turn = elementTurn(element, this.scaleFactor);
+    const shape = this.shape(element, turn);
+    return turn && shape
+      ? `<g transform="rotate(${num(turn.degrees)} ${turn.pivot.x} ${turn.pivot.y})">${shape}</g>`
+      : shape;
+  }
+
+  private shape(element: RenderElement, turn?: ElementTurn): string {
+    const variables = this.options.variables;
+    switch (element.type) {
+      case 'text':
+        return this.text(element, interpolate(element.content, variables), turn);
+      case 'line':
+        return `<line x1="${this.scale(element.start.x)}" y1="${this.scale(element.start.y)}" `
+          + `x2="${this.scale(element.end.x)}" y2="${this.scale(element.end.y)}" stroke="${BLACK}" stroke-width="${element.width || 1}"/>`;
+      case 'rectangle': {
+        const box = `x="${this.scale(element.position.x)}" y="${this.scale(element.position.y)}" `
+          + `width="${this.scale(element.width)}" height="${this.scale(element.height)}"`;
+        return element.filled ? `<rect ${box} fill="${BLACK}"/>` : `<rect ${box} fill="none" stroke="${BLACK}"/>`;
+      }
+      case 'circle': {
+        const circle = `cx="${this.scale(element.center.x)}" cy="${this.scale(element.center.y)}" r="${this.scale(element.radius)}"`;
+        return element.filled ? `<circle ${circle} fill="${BLACK}"/>` : `<circle ${circle} fill="none" stroke="${BLACK}"/>`;
+      }
+      case 'stripes': {
+        const bounds = this.bounds(element.bounds);
+        const spacing = this.scale(element.spacing);
+        const width = this.scale(element.width);
+        const rects: Rect[] = [];
+        if (element.direction === 'horizontal') {
+          for (let y = bounds.y; y < bounds.y + bounds.height; y += spacing) {
+            rects.push({ x: bounds.x, y, width: bounds.width, height: Math.min(width, bounds.y + bounds.height - y) });
+          }
+        } else {
+          for (let x = bounds.x; x < bounds.x + bounds.width; x += spacing) {
+            rects.push({ x, y: bounds.y, width: Math.min(width, bounds.x + bounds.width - x), height: bounds.height });
+          }
+        }
+        return rectPath(rects);
+      }
+      case 'grid': {
+        const bounds = this.bounds(element.bounds);
+        const cellWidth = this.scale(element.cellWidth);
+        const cellHeight = this.scale(element.cellHeight);
+        let d = '';
+        for (let x = bounds.x; x <= bounds.x + bounds.width; x += cellWidth) {
+          d += `M${x} ${bounds.y}V${bounds.y + bounds.height}`;
+        }
+        for (let y = bounds.y; y <= bounds.y + bounds.height; y += cellHeight) {
+          d += `M${bounds.x} ${y}H${bounds.x + bounds.width}`;
+        }
+        return `<path d="${d}" fill="none" stroke="${BLACK}" stroke-width="${element.lineWidth || 1}"/>`;
+      }
+      case 'barcode':
+        return this.barcode(element, interpolate(element.data, variables));
+      case 'qrcode':
+      case 'datamatrix':
+        return this.matrixCode(element, interpolate(element.data, variables));
+      case 'image':
+        return this.image(element, interpolate(element.src, variables));
+      default:
+        this.options.logger?.error(`Unknown element type: ${(element as any).type}`);
+        return '';
+    }
+  }
+
+  /**
+   * Stripes and grids cover the whole label unless bounds are given
+   */
+  private bounds(bounds?: Rect): Rect {
+    return bounds
+      ? { x: this.scale(bounds.x), y: this.scale(bounds.y), width: this.scale(bounds.width), height: this.scale(bounds.height) }
+      : { x: 0, y: 0, width: this.options.width, height: this.options.height };
+  }
+
+  private text(element: TextElement, content: string, turn?: ElementTurn): string {
+    const { measure, width: labelWidth, height: labelHeight } = this.options;
+    const fontSize = element.fontSize ? this.scale(element.fontSize) : this.options.defaultFontSize;
+    const font = this.resolveFont(element);
+    const bitmap = element.bitmapFont ? findBitmapFont(element.bitmapFont) : undefined;
+    const extent = (text: string, size: number): TextExtent =>
+      bitmap ? measureBitmapText(text, bitmap, size) : measure(text, size, font.font);
+    const align = element.align || 'left';
+    const x = this.scale(element.position.x);
+    const y = this.scale(element.position.y);
+
+    if (!element.box) {
+      const anchor = turn ? rotatePoint({ x, y }, turn.pivot, turn.degrees) : { x, y };
+      const size = fitFontSize(content, extent, {
+        fit: element.fit,
+        fontSize,
+        minFontSize: this.scaleOptional(element.minFontSize),
+        maxFontSize: this.scaleOptional(element.maxFontSize),
+        ...availableTextSpace(anchor.x, anchor.y, element.align, labelWidth, labelHeight, this.options.textMargin, turn?.degrees),
+      });
+      if (bitmap) {
+        return rectPath(bitmapTextRects(content, bitmap, size, x, y, align));
+      }
+      return `<text x="${x}" y="${y}" ${this.font(font, size)} text-anchor="${TEXT_ANCHOR[align]}" fill="${BLACK}">${escapeXml(content)}</text>`;
+    }
+
+    const width = this.scale(element.box.width);
+    const height = this.scaleOptional(element.box.height);
+    const layout = layoutTextBox(content, (text, size) => extent(text, size).width, {
+      width,
+      height,
+      fontSize,
+      lineHeight: element.lineHeight,
+      maxLines: element.maxLines,
+      overflow: element.overflow,
+      minFontSize: this.scaleOptional(element.minFontSize),
+    });
+
+    const lineX = align === 'center' ? x + width / 2 : align === 'right' ? x + width : x;
+    const blockHeight = layout.lines.length * layout.lineHeightPx;
+    const free = height !== undefined ? height - blockHeight : 0;
+    const offset = element.verticalAlign === 'bottom' ? free : element.verticalAlign === 'middle' ? free / 2 : 0;
+    const lineY = (i: number): number => Math.round(y + offset + (i + 0.5) * layout.lineHeightPx);
+    // Bitmap glyphs are dots already: one path, filled black like bars
+    const lines = bitmap
+      ? [rectPath(layout.lines.flatMap((line, i) => bitmapTextRects(line, bitmap, layout.fontSize, lineX, lineY(i), align, 'middle')))]
+      : layout.lines.map((line, i) => `<text x="${num(lineX)}" y="${lineY(i)}">${escapeXml(line)}</text>`);
+    const group = bitmap
+      ? ''
+      : ` ${this.font(font, layout.fontSize)} text-anchor="${TEXT_ANCHOR[align]}" dominant-baseline="central" fill="${BLACK}"`;
+
+    if (height === undefined || element.overflow === 'wrap') {
+      return `<g${group}>${lines.join('')}</g>`;
+    }
+    const id = `clip${++this.clips}`;
+    return `<clipPath id="${id}"><rect x="${x}" y="${y}" width="${width}" height="${height}"/></clipPath>`
+      + `<g clip-path="url(#${id})"${group}>${lines.join('')}</g>`;
+  }
+
+  private barcode(element: BarcodeElement, data: string): string {
+    const layout = layoutBarcode(element.symbology, data, {
+      moduleWidth: element.moduleWidth,
+      quietZone: element.quietZone,
+      checkDigit: element.checkDigit,
+    });
+    const x = this.scale(element.position.x);
+    const y = this.scale(element.position.y);
+    const height = this.scale(element.height ?? DEFAULT_BARCODE_HEIGHT);
+
+    let svg = rectPath(layout.bars.map((bar) => ({ x: x + bar.x, y, width: bar.width, height })));
+    if (element.humanReadable) {
+      const fontSize = this.scale(element.fontSize ?? DEFAULT_BARCODE_FONT_SIZE);
+      svg += `<text x="${x + Math.round(layout.width / 2)}" y="${y + height + BARCODE_TEXT_GAP + fontSize}" `
+        + `${this.font(this.resolveFont(element), fontSize)} text-anchor="middle" fill="${BLACK}">${escapeXml(layout.text)}</text>`;
+    }
+    return svg;
+  }
+
+  private matrixCode(element: QrCodeElement | DataMatrixElement, data: string): string {
+    const layout = layoutMatrixCode(element.type, data, {
+      errorCorrection: element.type === 'qrcode' ? element.errorCorrection : undefined,
+      moduleSize: element.moduleSize,
+      targetSize: element.size !== undefined ? element.size * this.scaleFactor : undefined,
+      quietZone: element.quietZone,
+    });
+    const x = this.scale(element.position.x);
+    const y = this.scale(element.position.y);
+    return rectPath(layout.cells.map((cell) => ({ ...cell, x: x + cell.x, y: y + cell.y })));
+  }
+
+  private image(element: ImageElement, src: string): string {
+    if (!this.options.drawImage) {
+      this.options.logger?.verbose(`Image "${src}" left out of the SVG`);
+      return '';
+    }
+    const image = this.options.drawImage(element, src);
+    return `<image x="${this.scale(element.position.x)}" y="${this.scale(element.position.y)}" `
+      + `width="${image.width}" height="${image.height}" href="data:image/png;base64,${image.png.toString('base64')}"/>`;
+  }
+}
+
+/**
+ * Renders a template as an SVG document in reading orientation (the
+ * template orientation and banner turns are not applied). Like the canvas
+ * renderer, unencodable codes, template expression errors, fonts a strict
+ * registry does not have and images that do not load fail the label; other
+ * element errors are logged and the element is left out.
+ */
+export function renderSvgLabel(template: RenderTemplate, options: SvgLabelOptions): string {
+  const { width, height } = options;
+  const scale = options.scale ?? 1;
+  const writer = new SvgLabelWriter(options, template.defaultFont);
+
+  const elements = template.elements.map((element, index) => {
+    try {
+      return writer.element(element);
+    } catch (error) {
+      if (error instanceof BarcodeError) {
+        throw new BarcodeError(`Element ${index + 1} (${element.type}): ${error.message}`);
+      }
+      if (error instanceof TemplateExpressionError) {
+        throw new TemplateExpressionError(`Element ${index + 1} (${element.type}): ${error.message}`);
+      }
+      if (error instanceof FontError) {
+        throw new FontError(`Element ${index + 1} (${element.type}): ${error.message}`);
+      }
+      if (error instanceof ImageLoadError) {
+        throw new ImageLoadError(`Element ${index + 1} (${element.type}): ${error.message}`);
+      }
+      options.logger?.error(`Failed to render element ${index + 1} (${element.type})`, error as Error);
+      return '';
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">`,
+    `<title>${escapeXml(template.name)}</title>`,
+    ...(template.description ? [`<desc>${escapeXml(template.description)}</desc>`] : []),
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    ...elements.filter(Boolean),
+    '</svg>',
+    '',
+  ].join('\n');
+}
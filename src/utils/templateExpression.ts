@@ -0,0 +1,369 @@
+import { TemplateValue, TemplateVariables } from '../types/index.js';
+
+/**
+ * Placeholder expressions used in template strings:
+ *
+ *   {{ name }}                      variable (dotted keys walk nested objects)
+ *   {{ item.sku }}
+ *   {{ name ?? "UNKNOWN" }}         default when the variable is missing/null
+ *   {{ sku | upper | pad(8, "0") }} filters, applied left to right
+ *   {{ counter:asset | pad(6, "0") }} persistent counter (see CounterService)
+ *   \{{ and \}}                     literal braces
+ *
+ * A missing variable without a default is an error, so a label is never
+ * printed with raw placeholders on it.
+ */
+
+/**
+ * Raised when a placeholder cannot be parsed or evaluated
+ */
+export class TemplateExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'path'; value: string }
+  | { kind: 'literal'; value: string | number }
+  | { kind: 'punct'; value: '??' | '|' | '(' | ')' | ',' | '}}' };
+
+type Operand = Extract<Token, { kind: 'path' | 'literal' }>;
+
+interface FilterCall {
+  name: string;
+  args: Operand[];
+}
+
+interface Expression {
+  source: string;
+  operands: Operand[];
+  filters: FilterCall[];
+}
+
+type Filter = (value: TemplateValue, args: TemplateValue[]) => TemplateValue;
+
+/**
+ * Prefix of counter references; their values are supplied as "counter:<name>" variables
+ */
+export const COUNTER_PREFIX = 'counter:';
+
+const PATH = /^(?:counter:[A-Za-z_][\w-]*|[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*)/;
+const NUMBER = /^-?\d+(?:\.\d+)?/;
+const PUNCTUATION = ['??', '}}', '|', '(', ')', ','] as const;
+
+/**
+ * Reads the tokens of one placeholder, starting right after its "{{".
+ * Returns them with the index just past the closing "}}".
+ */
+function tokenize(input: string, start: number): { tokens: Token[]; end: number } {
+  const tokens: Token[] = [];
+  let i = start;
+
+  while (i < input.length) {
+    const rest = input.slice(i);
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((candidate) => rest.startsWith(candidate));
+    if (punct) {
+      i += punct.length;
+      if (punct === '}}') {
+        return { tokens, end: i };
+      }
+      tokens.push({ kind: 'punct', value: punct });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new TemplateExpressionError(`Unterminated string in "${input.slice(start - 2)}"`);
+      }
+      i++;
+      tokens.push({ kind: 'literal', value });
+      continue;
+    }
+
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'literal', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const path = PATH.exec(rest);
+    if (path) {
+      tokens.push({ kind: 'path', value: path[0] });
+      i += path[0].length;
+      continue;
+    }
+
+    throw new TemplateExpressionError(`Unexpected "${char}" in "{{${input.slice(start, i + 1)}"`);
+  }
+
+  throw new TemplateExpressionError(`Unclosed placeholder "${input.slice(start - 2)}" (missing "}}")`);
+}
+
+/**
+ * expression := operand ("??" operand)* ("|" filter)*
+ * filter     := name ("(" operand ("," operand)* ")")?
+ */
+function parseExpression(tokens: Token[], source: string): Expression {
+  let position = 0;
+  const peek = (): Token | undefined => tokens[position];
+  const fail = (expected: string): never => {
+    const found = peek();
+    throw new TemplateExpressionError(
+      `Invalid placeholder "${source}": expected ${expected}${found ? ` but found "${found.value}"` : ''}`
+    );
+  };
+  const isPunct = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === 'punct' && token.value === value;
+  };
+  const operand = (): Operand => {
+    const token = peek();
+    if (!token || token.kind === 'punct') return fail('a variable or a literal');
+    position++;
+    return token as Operand;
+  };
+
+  const operands = [operand()];
+  while (isPunct('??')) {
+    position++;
+    operands.push(operand());
+  }
+
+  const filters: FilterCall[] = [];
+  while (isPunct('|')) {
+    position++;
+    const name = peek();
+    if (name?.kind !== 'path') return fail('a filter name');
+    position++;
+
+    const args: Operand[] = [];
+    if (isPunct('(')) {
+      position++;
+      if (!isPunct(')')) {
+        args.push(operand());
+        while (isPunct(',')) {
+          position++;
+          args.push(operand());
+        }
+      }
+      if (!isPunct(')')) fail('")"');
+      position++;
+    }
+    filters.push({ name: name.value, args });
+  }
+
+  if (position < tokens.length) fail('"??", "|" or "}}"');
+  return { source, operands, filters };
+}
+
+/**
+ * Resolves a key: a flat "a.b" entry wins, otherwise the dots walk nested objects
+ */
+function lookup(variables: TemplateVariables, path: string): TemplateValue | undefined {
+  if (Object.prototype.hasOwnProperty.call(variables, path)) {
+    return variables[path];
+  }
+
+  let current: TemplateValue | undefined = variables;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object' || current instanceof Date
+      || !Object.prototype.hasOwnProperty.call(current, key)) {
+      return undefined;
+    }
+    current = (current as Record<string, TemplateValue>)[key];
+  }
+  return current;
+}
+
+const toNumber = (value: TemplateValue, filter: string): number => {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (value === '' || !Number.isFinite(number)) {
+    throw new TemplateExpressionError(`${filter}: "${String(value)}" is not a number`);
+  }
+  return number;
+};
+
+const toDate = (value: TemplateValue): Date => {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'number') {
+    date = new Date(value);
+  } else {
+    // Plain dates are calendar days, not UTC midnight
+    const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value));
+    date = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(String(value));
+  }
+  if (Number.isNaN(date.getTime())) {
+    throw new TemplateExpressionError(`date: "${String(value)}" is not a valid date`);
+  }
+  return date;
+};
+
+const two = (value: number): string => String(value).padStart(2, '0');
+
+const FILTERS: Record<string, Filter> = {
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+
+  /** pad(width, char = " ", side = "left") */
+  pad: (value, [width, char = ' ', side = 'left']) => {
+    const text = stringify(value);
+    const length = toNumber(width, 'pad');
+    return side === 'right' ? text.padEnd(length, String(char)) : text.padStart(length, String(char));
+  },
+
+  /** truncate(length, suffix = ""): the result, suffix included, is at most length characters */
+  truncate: (value, [length, suffix = '']) => {
+    const characters = Array.from(stringify(value));
+    const max = toNumber(length, 'truncate');
+    if (characters.length <= max) return characters.join('');
+    const tail = String(suffix);
+    return characters.slice(0, Math.max(0, max - Array.from(tail).length)).join('') + tail;
+  },
+
+  /** number(decimals?, locale?): fixed decimals, grouped when a locale is given */
+  number: (value, [decimals, locale]) => {
+    const number = toNumber(value, 'number');
+    const digits = decimals !== undefined ? toNumber(decimals, 'number') : undefined;
+    if (locale !== undefined) {
+      return new Intl.NumberFormat(String(locale), {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(number);
+    }
+    return digits !== undefined ? number.toFixed(digits) : String(number);
+  },
+
+  /** date(format = "YYYY-MM-DD"): YYYY, YY, MM, DD, HH, mm, ss in local time */
+  date: (value, [format = 'YYYY-MM-DD']) => {
+    const date = toDate(value);
+    const parts: Record<string, string> = {
+      YYYY: String(date.getFullYear()),
+      YY: String(date.getFullYear()).slice(-2),
+      MM: two(date.getMonth() + 1),
+      DD: two(date.getDate()),
+      HH: two(date.getHours()),
+      mm: two(date.getMinutes()),
+      ss: two(date.getSeconds()),
+    };
+    return String(format).replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+  },
+};
+
+export const TEMPLATE_FILTERS: readonly string[] = Object.keys(FILTERS);
+
+function stringify(value: TemplateValue): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value !== null && typeof value === 'object') {
+    throw new TemplateExpressionError('Cannot print an object or a list, use a nested key (e.g. {{item.sku}})');
+  }
+  return String(value);
+}
+
+function evaluate(expression: Expression, variables: TemplateVariables): string {
+  const resolve = (operand: Operand): TemplateValue | undefined =>
+    operand.kind === 'literal' ? operand.value : lookup(variables, operand.value);
+
+  let value: TemplateValue | undefined;
+  for (const operand of expression.operands) {
+    value = resolve(operand);
+    if (value !== undefined && value !== null) break;
+  }
+  if (value === undefined || value === null) {
+    const missing = expression.operands.filter((operand) => operand.kind === 'path').map((operand) => operand.value);
+    const counter = missing.find((name) => name.startsWith(COUNTER_PREFIX));
+    throw new TemplateExpressionError(
+      `Missing variable ${missing.map((name) => `"${name}"`).join(' / ')} in "${expression.source}"`
+      + (counter ? ` (counters get their value when the label is printed, not in plain renders)` : '')
+    );
+  }
+
+  for (const call of expression.filters) {
+    const filter = FILTERS[call.name];
+    if (!filter) {
+      throw new TemplateExpressionError(
+        `Unknown filter "${call.name}" in "${expression.source}". Available filters: ${TEMPLATE_FILTERS.join(', ')}`
+      );
+    }
+    const args = call.args.map((arg) => {
+      const resolved = resolve(arg);
+      if (resolved === undefined) {
+        throw new TemplateExpressionError(`Missing variable "${arg.value}" in "${expression.source}"`);
+      }
+      return resolved;
+    });
+    value = filter(value, args);
+  }
+
+  return stringify(value);
+}
+
+/**
+ * Splits a template string into literal text and parsed placeholders
+ */
+function* segments(content: string): Generator<string | Expression> {
+  let text = '';
+  let i = 0;
+
+  while (i < content.length) {
+    if (content.startsWith('\\{{', i) || content.startsWith('\\}}', i)) {
+      text += content.slice(i + 1, i + 3);
+      i += 3;
+    } else if (content.startsWith('{{', i)) {
+      const { tokens, end } = tokenize(content, i + 2);
+      yield text;
+      yield parseExpression(tokens, content.slice(i, end));
+      text = '';
+      i = end;
+    } else {
+      text += content[i++];
+    }
+  }
+
+  yield text;
+}
+
+/**
+ * Replaces every {{ expression }} in a template string with its value
+ */
+export function interpolate(content: string, variables: TemplateVariables = {}): string {
+  let output = '';
+  for (const segment of segments(content)) {
+    output += typeof segment === 'string' ? segment : evaluate(segment, variables);
+  }
+  return output;
+}
+
+/**
+ * Variables a template string reads, defaults and filter arguments included
+ */
+export function referencedVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const segment of segments(content)) {
+    if (typeof segment === 'string') continue;
+    const operands = [...segment.operands, ...segment.filters.flatMap((call) => call.args)];
+    for (const operand of operands) {
+      if (operand.kind === 'path') names.add(operand.value);
+    }
+  }
+  return [...names];
+}
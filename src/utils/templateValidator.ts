@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JsonSchema, SchemaIssue, validateJsonSchema } from './jsonSchema.js';
+
+/**
+ * JSON Schema for RenderTemplate (schema/template.schema.json at the package
+ * root). Editors can use it too: "$schema": "../schema/template.schema.json"
+ */
+export const TEMPLATE_SCHEMA_PATH = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '..',
+  '..',
+  'schema',
+  'template.schema.json'
+);
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Raised when a template does not match the schema; carries every issue
+ */
+export class TemplateValidationError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[], source = 'Template') {
+    super(`${source} is invalid:\n${formatSchemaIssues(issues)}`);
+    this.name = 'TemplateValidationError';
+    this.issues = issues;
+  }
+}
+
+let templateSchema: JsonSchema | undefined;
+
+/**
+ * Loads the bundled template schema (read once, then cached)
+ */
+export function loadTemplateSchema(): JsonSchema {
+  templateSchema ??= JSON.parse(readFileSync(TEMPLATE_SCHEMA_PATH, 'utf-8')) as JsonSchema;
+  return templateSchema;
+}
+
+/**
+ * One "  /path: message" line per issue
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `  ${issue.path || '/'}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Checks a parsed template against the schema without throwing
+ */
+export function validateTemplate(template: unknown): TemplateValidationResult {
+  const issues = validateJsonSchema(template, loadTemplateSchema());
+  return { valid: issues.length === 0, issues };
+}
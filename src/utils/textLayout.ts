@@ -0,0 +1,257 @@
+import { RenderElement, RenderTemplate, TextElement, TextFit, TextOverflow } from '../types/index.js';
+import { distanceToEdge } from './transform.js';
+
+/**
+ * Measures the advance width of a string at a font size, in dots
+ */
+export type MeasureText = (text: string, fontSize: number) => number;
+
+/**
+ * Ink extent of a string at a font size, in dots: advance width plus the
+ * ascent/descent around the baseline (measureText actualBoundingBox*)
+ */
+export interface TextExtent {
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+export type MeasureTextExtent = (text: string, fontSize: number) => TextExtent;
+
+/**
+ * Room available to a single line of text around its anchor, in dots
+ */
+export interface TextSpace {
+  maxWidth: number;
+  maxAscent: number;
+  maxDescent: number;
+}
+
+export interface FitFontSizeOptions extends TextSpace {
+  fit?: TextFit;
+  fontSize: number;
+  minFontSize?: number;
+  maxFontSize?: number;
+}
+
+export interface TextBoxLayoutOptions {
+  /** Box size in dots; without height only maxLines limits the text */
+  width: number;
+  height?: number;
+  fontSize: number;
+  /** Line height as a multiple of the font size */
+  lineHeight?: number;
+  maxLines?: number;
+  overflow?: TextOverflow;
+  /** Smallest font size the shrink policy may use */
+  minFontSize?: number;
+}
+
+export interface TextBoxLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeightPx: number;
+  /** Text was cut (ellipsis/clip) or still overflows (wrap) */
+  overflowed: boolean;
+}
+
+export const DEFAULT_LINE_HEIGHT = 1.2;
+export const DEFAULT_MIN_FONT_SIZE = 6;
+export const DEFAULT_TEXT_FIT: TextFit = 'none';
+export const DEFAULT_TEXT_THRESHOLD = 128;
+const ELLIPSIS = '…';
+const HYPHEN = '-';
+
+/**
+ * Splits a word that is wider than the box into hyphenated chunks
+ */
+function hyphenate(word: string, fontSize: number, maxWidth: number, measure: MeasureText): string[] {
+  const chunks: string[] = [];
+  let rest = word;
+  while (measure(rest, fontSize) > maxWidth && rest.length > 1) {
+    let cut = rest.length - 1;
+    while (cut > 1 && measure(rest.slice(0, cut) + HYPHEN, fontSize) > maxWidth) {
+      cut--;
+    }
+    chunks.push(rest.slice(0, cut) + HYPHEN);
+    rest = rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks;
+}
+
+/**
+ * Breaks text into lines that fit maxWidth: on spaces first, hyphenating
+ * words that do not fit on a line of their own. Explicit newlines are kept.
+ */
+export function wrapText(text: string, fontSize: number, maxWidth: number, measure: MeasureText): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, fontSize) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      const chunks = hyphenate(word, fontSize, maxWidth, measure);
+      lines.push(...chunks.slice(0, -1));
+      line = chunks[chunks.length - 1];
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Shortens a line until it fits with a trailing ellipsis
+ */
+export function ellipsize(line: string, fontSize: number, maxWidth: number, measure: MeasureText): string {
+  let text = line;
+  while (text && measure(text + ELLIPSIS, fontSize) > maxWidth) {
+    text = text.slice(0, -1).trimEnd();
+  }
+  return text + ELLIPSIS;
+}
+
+/**
+ * Lays out text inside a box following the overflow policy:
+ *   wrap     - every line is kept, even past the box
+ *   clip     - lines past the box/maxLines are dropped (the renderer also clips)
+ *   ellipsis - like clip, the last kept line ends with "…"
+ *   shrink   - the font size goes down until every line fits (ellipsis at the minimum)
+ */
+export function layoutTextBox(text: string, measure: MeasureText, options: TextBoxLayoutOptions): TextBoxLayout {
+  const lineHeight = options.lineHeight ?? DEFAULT_LINE_HEIGHT;
+  const overflow = options.overflow ?? 'wrap';
+  const minFontSize = Math.min(options.fontSize, options.minFontSize ?? DEFAULT_MIN_FONT_SIZE);
+
+  const lineLimit = (fontSize: number): number => {
+    const fitting = options.height !== undefined
+      ? Math.floor(options.height / (fontSize * lineHeight))
+      : Infinity;
+    return Math.max(1, Math.min(options.maxLines ?? Infinity, fitting));
+  };
+
+  let fontSize = options.fontSize;
+  let lines = wrapText(text, fontSize, options.width, measure);
+
+  if (overflow === 'shrink') {
+    while (lines.length > lineLimit(fontSize) && fontSize > minFontSize) {
+      fontSize = Math.max(minFontSize, fontSize - 1);
+      lines = wrapText(text, fontSize, options.width, measure);
+    }
+  }
+
+  const limit = lineLimit(fontSize);
+  const overflowed = lines.length > limit;
+  if (overflowed && overflow !== 'wrap') {
+    const cutAt = limit - 1;
+    lines = lines.slice(0, limit);
+    if (overflow !== 'clip') {
+      lines[cutAt] = ellipsize(lines[cutAt], fontSize, options.width, measure);
+    }
+  }
+
+  return {
+    lines,
+    fontSize,
+    lineHeightPx: fontSize * lineHeight,
+    overflowed,
+  };
+}
+
+/**
+ * Space a single line anchored at (x, y) can use without leaving the label:
+ * margins on the side(s) the alignment grows towards, and the label edges
+ * above and below the baseline. A turned line (angle in degrees clockwise,
+ * anchor already turned) measures that room along its own baseline.
+ */
+export function availableTextSpace(
+  x: number,
+  y: number,
+  align: TextElement['align'],
+  labelWidth: number,
+  labelHeight: number,
+  margin: number,
+  angle = 0
+): TextSpace {
+  const anchor = { x, y };
+  const room = (degrees: number) => distanceToEdge(anchor, degrees, labelWidth, labelHeight);
+  const forward = room(angle);
+  const backward = room(angle + 180);
+
+  let maxWidth: number;
+  switch (align) {
+    case 'center':
+      maxWidth = forward + backward - 2 * margin;
+      break;
+    case 'right':
+      maxWidth = backward - margin;
+      break;
+    default:
+      maxWidth = forward - margin;
+  }
+
+  return {
+    maxWidth: Math.max(0, maxWidth),
+    maxAscent: Math.max(0, room(angle - 90)),
+    maxDescent: Math.max(0, room(angle + 90)),
+  };
+}
+
+/**
+ * Largest font size between minFontSize and maxFontSize (default: the
+ * element's own size) whose ink fits the available space. With 'width' only
+ * the advance width counts, 'height' checks ascent/descent, 'box' both.
+ * When even the minimum does not fit, the minimum is returned.
+ */
+export function fitFontSize(text: string, measure: MeasureTextExtent, options: FitFontSizeOptions): number {
+  const fit = options.fit ?? DEFAULT_TEXT_FIT;
+  if (fit === 'none') {
+    return options.fontSize;
+  }
+
+  const upper = Math.round(options.maxFontSize ?? options.fontSize);
+  const lower = Math.min(upper, Math.round(options.minFontSize ?? DEFAULT_MIN_FONT_SIZE));
+  const checkWidth = fit === 'width' || fit === 'box';
+  const checkHeight = fit === 'height' || fit === 'box';
+
+  const ratio = (available: number, used: number): number => (used > 0 ? available / used : Infinity);
+  const scaleFor = (extent: TextExtent): number => Math.min(
+    checkWidth ? ratio(options.maxWidth, extent.width) : Infinity,
+    checkHeight ? ratio(options.maxAscent, extent.ascent) : Infinity,
+    checkHeight ? ratio(options.maxDescent, extent.descent) : Infinity
+  );
+
+  // Extents grow roughly linearly with the size: estimate, then step down
+  // until the measured ink really fits (hinting is not exactly linear)
+  let size = Math.max(lower, Math.min(upper, Math.floor(upper * scaleFor(measure(text, upper)))));
+  while (size > lower && scaleFor(measure(text, size)) < 1) {
+    size--;
+  }
+  return size;
+}
+
+/**
+ * Luminance an element's text is cut to whole dots at (aliased rendering,
+ * bitmap fonts), or undefined when it prints antialiased
+ */
+export function aliasedTextThreshold(
+  element: RenderElement,
+  template: Pick<RenderTemplate, 'textRendering' | 'textThreshold'>
+): number | undefined {
+  if (element.type !== 'text' && element.type !== 'barcode') {
+    return undefined;
+  }
+  const rendering = element.textRendering ?? template.textRendering ?? 'antialiased';
+  if (rendering === 'antialiased' && !(element.type === 'text' && element.bitmapFont)) {
+    return undefined;
+  }
+  return element.textThreshold ?? template.textThreshold ?? DEFAULT_TEXT_THRESHOLD;
+}
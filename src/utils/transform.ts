@@ -0,0 +1,134 @@
+import { ElementRotation, Position, RenderElement } from '../types/index.js';
+
+/**
+ * Rotation geometry shared by the TypeScript core and render.mjs. Angles are
+ * in degrees, clockwise on the label (y grows downwards), the same sense as
+ * CanvasRenderingContext2D.rotate.
+ */
+
+/**
+ * Axis-aligned rectangle, in dots
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rotation of one element as drawn: pivot in dots
+ */
+export interface ElementTurn {
+  degrees: number;
+  pivot: Position;
+}
+
+const LABEL_ORIENTATIONS = [0, 90, 180, 270];
+
+/**
+ * cos/sin of an angle, exact on quarter turns so straight angles keep
+ * whole-dot coordinates
+ */
+function unitVector(degrees: number): { cos: number; sin: number } {
+  const turn = ((degrees % 360) + 360) % 360;
+  switch (turn) {
+    case 0: return { cos: 1, sin: 0 };
+    case 90: return { cos: 0, sin: 1 };
+    case 180: return { cos: -1, sin: 0 };
+    case 270: return { cos: 0, sin: -1 };
+  }
+  const radians = (turn * Math.PI) / 180;
+  return { cos: Math.cos(radians), sin: Math.sin(radians) };
+}
+
+/**
+ * Where a point lands when turned around pivot
+ */
+export function rotatePoint(point: Position, pivot: Position, degrees: number): Position {
+  const { cos, sin } = unitVector(degrees);
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  return {
+    x: pivot.x + dx * cos - dy * sin,
+    y: pivot.y + dx * sin + dy * cos,
+  };
+}
+
+/**
+ * Axis-aligned box around a rectangle turned around pivot
+ */
+export function rotatedBounds(rect: Rect, pivot: Position, degrees: number): Rect {
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x, y: rect.y + rect.height },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ].map((corner) => rotatePoint(corner, pivot, degrees));
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * True when any part of the rectangle falls off a width x height label
+ */
+export function exceedsLabel(rect: Rect, width: number, height: number): boolean {
+  return rect.x < 0 || rect.y < 0 || rect.x + rect.width > width || rect.y + rect.height > height;
+}
+
+/**
+ * Distance from a point to the edge of a width x height label, walking in
+ * the direction of the angle (0 = rightwards, 90 = downwards)
+ */
+export function distanceToEdge(point: Position, degrees: number, width: number, height: number): number {
+  const { cos, sin } = unitVector(degrees);
+  const along = (from: number, step: number, size: number): number => {
+    if (step > 0) return (size - from) / step;
+    if (step < 0) return -from / step;
+    return Infinity;
+  };
+  return Math.min(along(point.x, cos, width), along(point.y, sin, height));
+}
+
+/**
+ * Rotation of an element scaled to dots, or undefined when it is not turned.
+ * The pivot defaults to the element's anchor: its position, the circle
+ * center or the line start (stripes and grids cannot be turned).
+ */
+export function elementTurn(element: RenderElement, scale: number): ElementTurn | undefined {
+  const { rotate, pivot } = element as ElementRotation;
+  if (!rotate || rotate % 360 === 0) {
+    return undefined;
+  }
+
+  let anchor: Position;
+  switch (element.type) {
+    case 'line':
+      anchor = element.start;
+      break;
+    case 'circle':
+      anchor = element.center;
+      break;
+    case 'stripes':
+    case 'grid':
+      return undefined;
+    default:
+      anchor = element.position;
+  }
+  const origin = pivot ?? anchor;
+  return { degrees: rotate, pivot: { x: Math.round(origin.x * scale), y: Math.round(origin.y * scale) } };
+}
+
+/**
+ * Quarter turns clockwise for a template orientation (0, 90, 180 or 270)
+ */
+export function labelQuarterTurns(orientation: number | undefined): number {
+  const degrees = orientation ?? 0;
+  if (!LABEL_ORIENTATIONS.includes(degrees)) {
+    throw new RangeError(`Label orientation must be 0, 90, 180 or 270 degrees, got ${degrees}`);
+  }
+  return degrees / 90;
+}
@@ -0,0 +1,240 @@
+import { Length, LengthUnit, RenderTemplate } from '../types/index.js';
+
+/**
+ * Physical units for templates. A template declares the unit of its plain
+ * numbers with "units" (default px), and any length can carry its own:
+ * "12mm", "0.5in", "10px", "40dots".
+ *
+ *   px   - 1/96 in: the renderer's unit, scaled by dpi / 96 when drawing
+ *   dots - printer dots, the same on screen and on paper at any DPI
+ *   mm   - millimetres
+ *   in   - inches
+ *
+ * Printer-native values (dimensions, barcode and matrix modules, stroke
+ * widths of lines and grids) have always been counted in dots: as plain
+ * numbers they stay in dots unless the template is in mm or in.
+ */
+export const LENGTH_UNITS: readonly LengthUnit[] = ['px', 'dots', 'mm', 'in'];
+
+/**
+ * Renderer unit: px are 1/96 in (render.mjs takes it from config.scaleDpi)
+ */
+export const REFERENCE_DPI = 96;
+
+const MM_PER_INCH = 25.4;
+
+const LENGTH = /^(-?(?:\d+(?:\.\d+)?|\.\d+))(mm|in|px|dots)$/;
+
+/**
+ * How a length is rendered: scaled with the DPI (length) or drawn in
+ * whole printer dots (dots)
+ */
+export type LengthKind = 'length' | 'dots';
+
+/**
+ * A length that is not a number or a number with a known unit, or lengths
+ * that cannot be added without a DPI
+ */
+export class UnitsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnitsError';
+  }
+}
+
+/**
+ * Length properties of each element type, besides its points (position,
+ * start, end, center, pivot, offset), bounds and text box
+ */
+const ELEMENT_LENGTHS: Record<string, Record<string, LengthKind>> = {
+  text: { fontSize: 'length', minFontSize: 'length', maxFontSize: 'length' },
+  line: { width: 'dots' },
+  rectangle: { width: 'length', height: 'length' },
+  circle: { radius: 'length' },
+  stripes: { spacing: 'length', width: 'length' },
+  grid: { cellWidth: 'length', cellHeight: 'length', lineWidth: 'dots' },
+  barcode: { moduleWidth: 'dots', height: 'length', fontSize: 'length' },
+  qrcode: { moduleSize: 'dots', size: 'length' },
+  datamatrix: { moduleSize: 'dots', size: 'length' },
+  image: { width: 'length', height: 'length' },
+};
+
+const POINT_KEYS = ['position', 'start', 'end', 'center', 'pivot', 'offset'];
+
+/**
+ * Converts one length, given where it was found
+ */
+export type LengthConverter = (value: Length, kind: LengthKind) => Length;
+
+/**
+ * Unit of a plain number: printer-native values stay in dots in px templates
+ */
+export function plainUnit(kind: LengthKind, units: LengthUnit = 'px'): LengthUnit {
+  return kind === 'dots' && units === 'px' ? 'dots' : units;
+}
+
+/**
+ * Splits a length into its value and unit; plain numbers take the template's
+ * units
+ */
+export function parseLength(value: Length, units: LengthUnit = 'px', kind: LengthKind = 'length'): { value: number; unit: LengthUnit } {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { value, unit: plainUnit(kind, units) };
+  }
+  const match = typeof value === 'string' ? LENGTH.exec(value) : null;
+  if (!match) {
+    throw new UnitsError(
+      `Invalid length ${JSON.stringify(value)}: use a number or a number with a unit (${LENGTH_UNITS.join(', ')}), e.g. "12mm"`
+    );
+  }
+  return { value: Number(match[1]), unit: match[2] as LengthUnit };
+}
+
+/**
+ * Printer dots for a length at a DPI (not rounded)
+ */
+export function lengthToDots(value: number, unit: LengthUnit, dpi: number, referenceDpi = REFERENCE_DPI): number {
+  switch (unit) {
+    case 'dots':
+      return value;
+    case 'px':
+      return (value * dpi) / referenceDpi;
+    case 'mm':
+      return (value * dpi) / MM_PER_INCH;
+    case 'in':
+      return value * dpi;
+  }
+}
+
+/**
+ * Adds two lengths, as an include offset does to a partial's coordinates.
+ * Plain numbers are in units; mm and in add up as mm, other mixes need the
+ * DPI and are refused (adding zero always works).
+ */
+export function addLengths(a: Length, b: Length, units?: LengthUnit): Length {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a + b;
+  }
+  const left = parseLength(a, units);
+  const right = parseLength(b, units);
+  if (right.value === 0 || left.value === 0) {
+    return right.value === 0 ? a : b;
+  }
+  if (left.unit === right.unit) {
+    return `${left.value + right.value}${left.unit}`;
+  }
+  const toMm = ({ value, unit }: { value: number; unit: LengthUnit }): number | undefined =>
+    unit === 'mm' ? value : unit === 'in' ? value * MM_PER_INCH : undefined;
+  const [leftMm, rightMm] = [toMm(left), toMm(right)];
+  if (leftMm === undefined || rightMm === undefined) {
+    throw new UnitsError(
+      `Cannot add ${left.value}${left.unit} and ${right.value}${right.unit} without a DPI: write both in the same unit`
+    );
+  }
+  return `${leftMm + rightMm}mm`;
+}
+
+/**
+ * Applies convert to the given fields of an object
+ */
+function mapLengthFields(
+  object: Record<string, any>,
+  keys: string[],
+  convert: LengthConverter,
+  kind: LengthKind = 'length'
+): Record<string, any> {
+  const mapped = { ...object };
+  for (const key of keys) {
+    if (mapped[key] !== undefined) {
+      mapped[key] = convert(mapped[key], kind);
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Applies convert to every length of an element (and of slot defaults
+ * inside it)
+ */
+export function mapElementLengths<T extends object>(element: T, convert: LengthConverter): T {
+  const mapped: Record<string, any> = { ...element };
+  const type = mapped.type as string;
+
+  for (const key of POINT_KEYS) {
+    if (mapped[key] && typeof mapped[key] === 'object') {
+      mapped[key] = mapLengthFields(mapped[key], ['x', 'y'], convert);
+    }
+  }
+  if (mapped.bounds && typeof mapped.bounds === 'object') {
+    mapped.bounds = mapLengthFields(mapped.bounds, ['x', 'y', 'width', 'height'], convert);
+  }
+  if (type === 'text' && mapped.box && typeof mapped.box === 'object') {
+    mapped.box = mapLengthFields(mapped.box, ['width', 'height'], convert);
+  }
+  for (const [key, kind] of Object.entries(ELEMENT_LENGTHS[type] ?? {})) {
+    if (mapped[key] !== undefined) {
+      mapped[key] = convert(mapped[key], kind);
+    }
+  }
+  if (type === 'slot' && Array.isArray(mapped.elements)) {
+    mapped.elements = mapped.elements.map((child: object) => mapElementLengths(child, convert));
+  }
+  return mapped as T;
+}
+
+/**
+ * Applies convert to every length of a template: dimensions, default font
+ * size, elements and the content of its slots
+ */
+export function mapTemplateLengths<T extends object>(template: T, convert: LengthConverter): T {
+  const mapped: Record<string, any> = { ...template };
+  if (mapped.dimensions && typeof mapped.dimensions === 'object') {
+    mapped.dimensions = mapLengthFields(mapped.dimensions, ['width', 'height'], convert, 'dots');
+  }
+  if (mapped.defaultFont?.size !== undefined) {
+    mapped.defaultFont = { ...mapped.defaultFont, size: convert(mapped.defaultFont.size, 'length') };
+  }
+  if (Array.isArray(mapped.elements)) {
+    mapped.elements = mapped.elements.map((element: object) => mapElementLengths(element, convert));
+  }
+  if (mapped.slots && typeof mapped.slots === 'object') {
+    mapped.slots = Object.fromEntries(
+      Object.entries(mapped.slots as Record<string, object[]>).map(([name, elements]) => [
+        name,
+        Array.isArray(elements) ? elements.map((element) => mapElementLengths(element, convert)) : elements,
+      ])
+    );
+  }
+  return mapped as T;
+}
+
+/**
+ * Writes the unit into every plain number, so that the lengths keep their
+ * meaning when mixed with lengths in other units (extends, partials)
+ */
+export function withExplicitUnits<T extends object>(template: T, units: LengthUnit = 'px'): T {
+  return mapTemplateLengths(template, (value, kind) =>
+    typeof value === 'number' ? `${value}${plainUnit(kind, units)}` : value
+  );
+}
+
+/**
+ * Converts a template's lengths to the numbers the renderers draw with:
+ * element lengths in px at referenceDpi (unrounded, scaled by
+ * dpi / referenceDpi when drawn), dimensions in whole dots, modules and
+ * stroke widths in at least one whole dot. The result has no "units".
+ * Templates in px without unit strings come back unchanged.
+ */
+export function resolveTemplateUnits(template: RenderTemplate, dpi: number, referenceDpi = REFERENCE_DPI): RenderTemplate {
+  const units = template.units ?? 'px';
+  const resolved = mapTemplateLengths(template, (value, kind) => {
+    const { value: amount, unit } = parseLength(value, units, kind);
+    if (unit === plainUnit(kind, 'px')) {
+      return amount;
+    }
+    const dots = lengthToDots(amount, unit, dpi, referenceDpi);
+    return kind === 'dots' ? Math.max(1, Math.round(dots)) : (dots * referenceDpi) / dpi;
+  });
+  delete resolved.units;
+  return resolved;
+}
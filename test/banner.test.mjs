@@ -0,0 +1,109 @@
+// Test del modo banner: tamaño y límites (planBanner), giro y empaquetado del
+// bitmap, y que un banner largo sale como UN raster válido por PrinterService.
+// Sin canvas ni impresora.
+//
+//   npm run build && node test/banner.test.mjs
+import { planBanner, BannerError, DEFAULT_BANNER_MAX_LENGTH_PX } from "../dist/utils/banner.js";
+import { createBitmap, rotateBitmap, packBitmap } from "../dist/utils/monoImage.js";
+import { decodePayload, rasterToBitmap } from "../dist/utils/payloadDecoder.js";
+import { PrinterService } from "../dist/services/printerService.js";
+import { MemoryTransport } from "../dist/services/printerTransport.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { Logger } from "../dist/utils/logger.js";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const thrown = (fn) => {
+  try { fn(); } catch (error) { return error; }
+  return undefined;
+};
+
+const profiles = new ProfileService();
+const l1 = profiles.loadProfile("makeid-l1");
+const escpos = profiles.loadProfile("escpos-58");
+const logger = new Logger({ debugMode: false, verboseLogging: false });
+const banner = (width, height) => ({ name: "cable", banner: true, dimensions: { width, height }, elements: [] });
+
+// Bitmap de w x h con tinta donde ink(x, y)
+const bitmapOf = (w, h, ink) => {
+  const bitmap = createBitmap(w, h);
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) bitmap.pixels[y * w + x] = ink(x, y) ? 1 : 0;
+  return bitmap;
+};
+const rows = (bitmap) => Array.from({ length: bitmap.height }, (_, y) =>
+  [...bitmap.pixels.subarray(y * bitmap.width, (y + 1) * bitmap.width)].join(""));
+
+// --- planBanner ---------------------------------------------------------------------
+{
+  check("largo y ancho del banner", json(planBanner(banner(900, 136), l1)) === json({ lengthPx: 904, acrossPx: 136 }),
+    json(planBanner(banner(900, 136), l1)));
+  check("sin height usa el ancho seguro del perfil", planBanner({ ...banner(400), dimensions: { width: 400 } }, escpos).acrossPx === 384);
+
+  const wide = thrown(() => planBanner(banner(900, 300), l1));
+  check("más ancho que la impresora", wide instanceof BannerError && /300px across \(dimensions.height\), over the MakeID L1 maximum of 255px/.test(wide.message),
+    wide?.message);
+  const long = thrown(() => planBanner(banner(DEFAULT_BANNER_MAX_LENGTH_PX + 8, 136), l1));
+  check("más largo que el máximo por defecto", long instanceof BannerError && /4808px long, over the maximum of 4800px/.test(long.message), long?.message);
+  check("máximo configurable", planBanner(banner(6000, 136), l1, { maxLengthPx: 8000 }).lengthPx === 6000);
+  const capped = { ...l1, media: { ...l1.media, continuous: { ...l1.media.continuous, maxLengthPx: 1000 } } };
+  check("máximo del perfil", /over the maximum of 1000px/.test(thrown(() => planBanner(banner(1200, 136), capped))?.message ?? ""));
+  check("el campo de 16 bits manda", /over the maximum of 65535px/.test(thrown(() => planBanner(banner(70000, 136), l1, { maxLengthPx: 100000 }))?.message ?? ""));
+
+  const diecut = thrown(() => planBanner(banner(900, 136), l1, { mediaType: "diecut" }));
+  check("papel precortado: error", /needs continuous media, the printer is set up for diecut/.test(diecut?.message ?? ""), diecut?.message);
+  const noRoll = { ...l1, media: { ...l1.media, paperTypes: ["diecut"] } };
+  check("perfil sin papel continuo: error", /has no continuous media/.test(thrown(() => planBanner(banner(900, 136), noRoll))?.message ?? ""));
+  check("sin largo: error", /needs dimensions.width/.test(thrown(() => planBanner({ name: "x", banner: true, elements: [] }, l1))?.message ?? ""));
+}
+
+// --- Giro y empaquetado -------------------------------------------------------------
+{
+  const ell = bitmapOf(3, 2, (x, y) => y === 1 || x === 0);
+  check("un cuarto de vuelta horario", json(rows(rotateBitmap(ell, 1))) === json(["11", "10", "10"]), json(rows(rotateBitmap(ell, 1))));
+  check("media vuelta", json(rows(rotateBitmap(ell, 2))) === json(["111", "001"]));
+  check("-1 = tres cuartos", json(rows(rotateBitmap(ell, -1))) === json(rows(rotateBitmap(ell, 3))) && json(rows(rotateBitmap(ell, 3))) === json(["01", "01", "11"]));
+  check("cuatro cuartos = original", json(rows(rotateBitmap(ell, 4))) === json(rows(ell)));
+
+  const pattern = bitmapOf(13, 11, (x, y) => (x * 7 + y * 3) % 5 === 0);
+  for (const profile of [l1, escpos]) {
+    const data = packBitmap(pattern, profile.raster);
+    const lineBytes = profile.raster.orientation === "column-major" ? Math.ceil(11 / 8) : Math.ceil(13 / 8);
+    const back = rasterToBitmap({ widthPx: 13, heightPx: 11, lineBytes, data }, profile.raster);
+    check(`packBitmap es la inversa de rasterToBitmap (${profile.raster.orientation}/${profile.raster.byteOrder})`,
+      data.length === lineBytes * (profile.raster.orientation === "column-major" ? 13 : 11) && json(rows(back)) === json(rows(pattern)));
+  }
+  check("bits MSB primero", json(packBitmap(bitmapOf(3, 1, (x) => x === 0), { ...escpos.raster, byteOrder: "leftMSB" })) === "[128]");
+}
+
+// --- Banner completo por PrinterService ----------------------------------------------
+for (const profile of [l1, escpos]) {
+  const layout = planBanner(banner(1500, 40), profile);
+  // Dibujo en orientación de lectura: marco + marca al principio del texto
+  const drawn = bitmapOf(layout.lengthPx, layout.acrossPx, (x, y) =>
+    y === 0 || y === layout.acrossPx - 1 || x === 0 || x === layout.lengthPx - 1 || (x < 20 && y < 10));
+  const printed = rotateBitmap(drawn, 1);
+  const memory = new MemoryTransport("banner");
+  const config = { profile: profile.id, portPath: "memory://", baudRate: 57600, packetSize: 122, exitDelay: 0, packetDelay: 0 };
+  const printer = new PrinterService(config, profile, logger, memory);
+  await printer.open();
+  await printer.sendImageData(packBitmap(printed, profile.raster), { width: printed.width, height: Math.ceil(printed.height / 8), dpi: 203 });
+  await printer.close();
+
+  const { commands, warnings } = decodePayload(memory.data, profile);
+  const rasters = commands.filter((c) => c.type === "raster");
+  check(`${profile.id}: un solo raster`, rasters.length === 1 && warnings.length === 0, json(warnings));
+  const { widthPx, heightPx } = rasters[0]?.raster ?? {};
+  check(`${profile.id}: ancho = ancho del papel, alto = largo`, widthPx === 40 && heightPx === 1504, `${widthPx}x${heightPx}`);
+  const back = rotateBitmap(rasterToBitmap(rasters[0].raster, profile.raster), -1);
+  check(`${profile.id}: el banner impreso es el dibujo girado`, back.width === drawn.width && json(rows(back)) === json(rows(drawn)));
+  check(`${profile.id}: el principio del texto sale primero`, rasterToBitmap(rasters[0].raster, profile.raster).pixels[5 * 40 + 35] === 1);
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nBANNER OK");
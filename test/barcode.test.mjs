@@ -0,0 +1,45 @@
+// Test de codificadores de códigos de barras (sin canvas ni impresora).
+// Verifica dígitos de control, anchos en módulos y rechazo de datos inválidos.
+//
+//   npm run build && node test/barcode.test.mjs
+import { encodeBarcode, layoutBarcode, BarcodeError } from "../dist/utils/barcode.js";
+
+const rejects = (fn) => {
+  try {
+    fn();
+    return false;
+  } catch (e) {
+    return e instanceof BarcodeError;
+  }
+};
+
+const ean = encodeBarcode("ean13", "400638133393");
+const upc = encodeBarcode("upca", "03600029145");
+const c128 = encodeBarcode("code128", "PJJ123C");
+const c128c = encodeBarcode("code128", "123456");
+const c39 = encodeBarcode("code39", "CODE 39", true);
+const layout = layoutBarcode("ean13", "4006381333931", { moduleWidth: 2, quietZone: 11 });
+
+const checks = [];
+checks.push(["EAN-13 calcula el dígito de control", ean.text === "4006381333931", ean.text]);
+checks.push(["EAN-13 ocupa 95 módulos", ean.modules.length === 95, `got ${ean.modules.length}`]);
+checks.push(["UPC-A calcula el dígito de control", upc.text === "036000291452", upc.text]);
+checks.push(["UPC-A ocupa 95 módulos", upc.modules.length === 95, `got ${upc.modules.length}`]);
+// start + 7 datos + checksum = 9 símbolos de 11 módulos + stop (13)
+checks.push(["Code 128 (set B) longitud correcta", c128.modules.length === 9 * 11 + 13, `got ${c128.modules.length}`]);
+// start C + 3 pares + checksum = 5 símbolos + stop
+checks.push(["Code 128 usa set C para dígitos", c128c.modules.length === 5 * 11 + 13, `got ${c128c.modules.length}`]);
+checks.push(["Code 39 añade check mod 43", c39.text === "CODE 39R", c39.text]);
+checks.push(["layout en dots enteros con quiet zone", layout.width === (95 + 22) * 2 && layout.bars[0].x === 22, `width ${layout.width}, x0 ${layout.bars[0].x}`]);
+checks.push(["EAN-13 rechaza check digit incorrecto", rejects(() => encodeBarcode("ean13", "4006381333932")), ""]);
+checks.push(["EAN-13 rechaza no dígitos", rejects(() => encodeBarcode("ean13", "40063813339A")), ""]);
+checks.push(["Code 39 rechaza minúsculas", rejects(() => encodeBarcode("code39", "abc")), ""]);
+checks.push(["Code 128 rechaza no-ASCII", rejects(() => encodeBarcode("code128", "año")), ""]);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nBARCODE OK");
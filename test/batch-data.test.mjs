@@ -0,0 +1,91 @@
+// Test de los ficheros de datos para impresión por lotes (CSV / JSON Lines).
+//
+//   npm run build && node test/batch-data.test.mjs
+import {
+  parseCsv,
+  parseJsonLines,
+  parseColumnMapping,
+  parseRowFilter,
+  selectRows,
+  loadDataFile,
+  dataFormatOf,
+  BatchDataError,
+} from "../dist/utils/batchData.js";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const fails = (name, fn, pattern) => {
+  let error;
+  try { fn(); } catch (e) { error = e; }
+  check(name, error instanceof BatchDataError && pattern.test(error.message), error ? error.message : "no error");
+};
+
+// --- CSV ----------------------------------------------------------------------
+const csv = parseCsv('\uFEFFName,SKU,qty\r\n"Tornillo, M4",00123,5\r\n"Dice ""hola""",X-2,0\n\n"Dos\nlíneas",X-3\n');
+check("CSV: cabecera como nombres de variable", json(csv[0]) === json({ row: 1, variables: { Name: "Tornillo, M4", SKU: "00123", qty: "5" } }), json(csv[0]));
+check("CSV: comillas escapadas", csv[1].variables.Name === 'Dice "hola"', csv[1].variables.Name);
+check("CSV: salto de línea dentro de comillas y celdas finales vacías", csv[2].variables.Name === "Dos\nlíneas" && csv[2].variables.qty === "", json(csv[2]));
+check("CSV: líneas en blanco no cuentan como filas", csv.length === 3 && csv[2].row === 3, String(csv.length));
+check("CSV: los valores siguen siendo texto (ceros a la izquierda)", csv[0].variables.SKU === "00123");
+const semicolon = parseCsv("nombre;precio\nCafé;1,50\n");
+check("CSV: separador ; detectado (exportación de Excel)", semicolon[0].variables.precio === "1,50", json(semicolon));
+check("CSV: separador tabulador", parseCsv("a\tb\n1\t2")[0].variables.b === "2");
+check("CSV: vacío", parseCsv("").length === 0);
+fails("CSV: fila con columnas de más", () => parseCsv("a,b\n1,2,3"), /row 1 has 3 fields but the header has 2/);
+fails("CSV: columna duplicada", () => parseCsv("a,a\n1,2"), /Duplicate CSV column "a"/);
+fails("CSV: comilla sin cerrar", () => parseCsv('a\n"abc'), /Unclosed quoted field \(line 2\)/);
+
+// --- JSON Lines ---------------------------------------------------------------
+const lines = parseJsonLines('{"sku":"A","qty":3,"item":{"lot":7}}\n\n{"sku":"B","qty":0}\n');
+check("JSONL: un objeto por línea, tipos conservados", lines.length === 2 && lines[0].variables.qty === 3 && lines[0].variables.item.lot === 7, json(lines));
+check("JSONL: las líneas en blanco no cuentan", lines[1].row === 2);
+fails("JSONL: JSON inválido con número de línea", () => parseJsonLines('{"a":1}\n{oops}'), /Invalid JSON on line 2/);
+fails("JSONL: la línea debe ser un objeto", () => parseJsonLines("[1,2]"), /Line 1 must be a JSON object/);
+check("formato por extensión", dataFormatOf("x.jsonl") === "jsonl" && dataFormatOf("x.NDJSON") === "jsonl" && dataFormatOf("x.csv") === "csv");
+
+// --- --map / --where / --start-row ---------------------------------------------
+check("mapeo variable=columna", json(parseColumnMapping(["line1=Name", " line2 = SKU "])) === json({ line1: "Name", line2: "SKU" }));
+fails("mapeo inválido", () => parseColumnMapping(["line1"]), /expected variable=column/);
+check("filtro con operador", json(parseRowFilter("qty >= 10")) === json({ column: "qty", operator: ">=", value: "10" }));
+fails("filtro inválido", () => parseRowFilter("qty"), /Invalid row filter "qty"/);
+
+const rows = parseCsv("Name,qty,status\nA,5,new\nB,12,done\nC,0,new\nD,100,new\n");
+const pick = (selection) => selectRows(rows, selection).rows.map((row) => row.variables.Name).join("");
+check("filtro numérico (12 > 5, no \"12\" < \"5\")", pick({ where: [parseRowFilter("qty>5")] }) === "BD", pick({ where: [parseRowFilter("qty>5")] }));
+check("filtros combinados (AND)", pick({ where: [parseRowFilter("qty>0"), parseRowFilter("status!=done")] }) === "AD");
+check("filtro de texto", pick({ where: [parseRowFilter("status=done")] }) === "B");
+check("start-row reanuda desde la fila indicada", pick({ startRow: 3 }) === "CD");
+const selection = selectRows(rows, { startRow: 2, where: [parseRowFilter("status=new")], map: { line1: "Name" } });
+check("filas filtradas se informan aparte", json(selection.filtered.map((row) => row.row)) === "[2]", json(selection.filtered));
+check("mapeo añade la variable y conserva las columnas", selection.rows[0].variables.line1 === "C" && selection.rows[0].variables.Name === "C", json(selection.rows[0]));
+check("filtro sobre una variable mapeada", selectRows(rows, { map: { n: "qty" }, where: [parseRowFilter("n=0")] }).rows.length === 1);
+fails("columna mapeada desconocida con sugerencia", () => selectRows(rows, { map: { line1: "Nmae" } }), /Mapped column "Nmae".*did you mean "Name"/);
+fails("columna de filtro desconocida", () => selectRows(rows, { where: [parseRowFilter("stat=new")] }), /Filter column "stat"/);
+fails("start-row fuera de rango", () => selectRows(rows, { startRow: 9 }), /past the last data row \(4\)/);
+fails("start-row no válido", () => selectRows(rows, { startRow: 0 }), /positive integer/);
+
+// --- Ficheros -----------------------------------------------------------------
+const dir = mkdtempSync(path.join(tmpdir(), "lpc-batch-"));
+writeFileSync(path.join(dir, "rows.jsonl"), '{"a":1}\n{"a":2}\n');
+writeFileSync(path.join(dir, "bad.csv"), "a,b\n1,2,3\n");
+check("loadDataFile lee JSON Lines por extensión", (await loadDataFile(path.join(dir, "rows.jsonl"))).length === 2);
+for (const [name, file, pattern] of [
+  ["fichero inexistente", "missing.csv", /Data file ".*missing\.csv" not found/],
+  ["error con el nombre del fichero", "bad.csv", /bad\.csv: CSV row 1/],
+]) {
+  let error;
+  try { await loadDataFile(path.join(dir, file)); } catch (e) { error = e; }
+  check(name, error instanceof BatchDataError && pattern.test(error.message), error ? error.message : "no error");
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nBATCH DATA OK");
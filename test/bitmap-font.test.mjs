@@ -0,0 +1,147 @@
+// Test del modo de texto sin antialiasing: fuentes bitmap 5x7 y 8x16 (glifos,
+// escala en puntos enteros, medidas y rectángulos), corte de la capa de texto
+// aliased en su umbral, herencia textRendering/textThreshold y salida SVG.
+// Sin canvas: las capas se prueban sobre buffers RGBA.
+//
+//   npm run build && node test/bitmap-font.test.mjs
+import {
+  findBitmapFont,
+  bitmapScale,
+  bitmapGlyph,
+  measureBitmapText,
+  bitmapTextRects,
+  BITMAP_FONT_NAMES,
+} from "../dist/utils/bitmapFont.js";
+import { FontError } from "../dist/utils/fontRegistry.js";
+import { thresholdInk } from "../dist/utils/dither.js";
+import { aliasedTextThreshold, fitFontSize, layoutTextBox } from "../dist/utils/textLayout.js";
+import { renderSvgLabel } from "../dist/utils/svgLabel.js";
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = (fn) => { try { fn(); } catch (e) { return e; } };
+const dots = (rects) => rects.reduce((sum, r) => sum + r.width * r.height, 0);
+const bits = (rows) => rows.reduce((sum, row) => sum + row.toString(2).replace(/0/g, "").length, 0);
+
+// --- Fuentes ----------------------------------------------------------------------
+{
+  check("fuentes integradas", json(BITMAP_FONT_NAMES) === json(["5x7", "8x16"]));
+  for (const name of BITMAP_FONT_NAMES) {
+    const font = findBitmapFont(name);
+    const ascii = [...Array(95)].map((_, i) => String.fromCharCode(32 + i));
+    const missing = [...ascii, "á", "é", "í", "ó", "ú", "ü", "ñ", "Ñ", "¿", "¡", "°", "€"].filter((c) => !font.glyphs.has(c));
+    check(`${name}: ASCII imprimible y letras del español`, missing.length === 0, json(missing));
+    const bad = [...font.glyphs].filter(([, rows]) => rows.length !== font.height || rows.some((row) => row >= 1 << font.width));
+    check(`${name}: cada glifo de ${font.width} puntos y ${font.height} filas`, bad.length === 0, json(bad.map(([c]) => c)));
+    check(`${name}: el espacio no tiene puntos`, bits(bitmapGlyph(font, " ")) === 0);
+  }
+  const small = findBitmapFont("5x7");
+  check("5x7: H", json(bitmapGlyph(small, "H")) === json([0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11, 0, 0]));
+  check("5x7: descendentes bajo la línea base", bitmapGlyph(small, "g").slice(7).some(Boolean) && !bitmapGlyph(small, "a").slice(7).some(Boolean));
+  check("misma fuente en cada llamada", findBitmapFont("8x16") === findBitmapFont("8x16"));
+  check("sin glifo: la letra sin acento", bitmapGlyph(small, "Á") === bitmapGlyph(small, "A") && bitmapGlyph(small, "ç") === bitmapGlyph(small, "c"));
+  check("sin glifo ni letra base: ?", bitmapGlyph(small, "ж") === bitmapGlyph(small, "?"));
+
+  const unknown = caught(() => findBitmapFont("8x61"));
+  check("fuente desconocida: FontError con sugerencia", unknown instanceof FontError
+    && unknown.message === 'Unknown bitmap font "8x61" (did you mean "8x16"?), use 5x7, 8x16', unknown?.message);
+  check("ni propiedades heredadas", caught(() => findBitmapFont("constructor")) instanceof FontError);
+}
+
+// --- Escala, medidas y puntos -----------------------------------------------------
+{
+  const font = findBitmapFont("5x7");
+  check("escala: múltiplo entero que cabe en fontSize", bitmapScale(font, 8) === 1 && bitmapScale(font, 17) === 1
+    && bitmapScale(font, 18) === 2 && bitmapScale(font, 30) === 3);
+  check("ancho sin la columna final", json(measureBitmapText("AB", font, 18)) === json({ width: 22, ascent: 14, descent: 4 }));
+  check("texto vacío", measureBitmapText("", font, 9).width === 0);
+
+  const rects = bitmapTextRects("H", font, 18, 10, 40);
+  check("H a escala 2: un rectángulo por tramo de fila", rects.length === 13 && dots(rects) === 4 * bits(bitmapGlyph(font, "H")), json(rects));
+  check("todo en puntos enteros", rects.every((r) => [r.x, r.y, r.width, r.height].every(Number.isInteger) && r.width % 2 === 0 && r.height === 2));
+  check("línea base: arriba en y - ascent", Math.min(...rects.map((r) => r.y)) === 40 - 14 && Math.min(...rects.map((r) => r.x)) === 10);
+  const left = (align, x = 100) => Math.min(...bitmapTextRects("HH", font, 9, x, 20, align).map((r) => r.x));
+  check("alineación", left("left") === 100 && left("right") === 100 - 11 && left("center") === 95 && left("center", 101) === 96);
+  const middle = bitmapTextRects("H", font, 9, 0, 20, "left", "middle");
+  check("baseline middle: centrado en la línea", Math.min(...middle.map((r) => r.y)) === Math.round(20 - 4.5));
+
+  const big = findBitmapFont("8x16");
+  const fitted = fitFontSize("ETIQUETA", (t, size) => measureBitmapText(t, big, size), {
+    fit: "width", fontSize: 64, maxWidth: 130, maxAscent: 200, maxDescent: 200,
+  });
+  check("auto-fit: la escala mayor que cabe", bitmapScale(big, fitted) === 2 && measureBitmapText("ETIQUETA", big, fitted).width <= 130, String(fitted));
+  const box = layoutTextBox("uno dos tres cuatro", (t, size) => measureBitmapText(t, font, size).width, { width: 60, fontSize: 9 });
+  check("caja de texto: partida a la medida bitmap", json(box.lines) === json(["uno dos", "tres", "cuatro"]), json(box.lines));
+}
+
+// --- Capa aliased -----------------------------------------------------------------
+{
+  const layer = (alphas) => {
+    const data = new Uint8ClampedArray(alphas.length * 4);
+    alphas.forEach((a, i) => data.set([0, 0, 0, a], i * 4));
+    return { data, width: alphas.length, height: 1 };
+  };
+  const printed = (pixels) => [...Array(pixels.width)].map((_, i) => (pixels.data[i * 4 + 3] === 255 ? 1 : 0));
+  const alphas = [0, 60, 127, 128, 200, 255];
+
+  const half = layer(alphas);
+  thresholdInk(half);
+  check("umbral 128: solo píxeles cubiertos más de la mitad", json(printed(half)) === json([0, 0, 0, 1, 1, 1]), json(printed(half)));
+  check("sin grises: opaco o transparente", [...half.data].every((v, i) => i % 4 !== 3 || v === 0 || v === 255));
+  const bold = layer(alphas);
+  thresholdInk(bold, 220);
+  check("umbral alto: trazos más gruesos", json(printed(bold)) === json([0, 1, 1, 1, 1, 1]));
+  const thin = layer(alphas);
+  thresholdInk(thin, 40);
+  check("umbral bajo: trazos más finos", json(printed(thin)) === json([0, 0, 0, 0, 0, 1]));
+  const white = layer([255]);
+  thresholdInk(white, 128, [255, 255, 255]);
+  check("tinta blanca (fondo negro)", json([...white.data]) === json([255, 255, 255, 255]));
+
+  const text = { type: "text", content: "a", position: { x: 0, y: 0 } };
+  const barcode = { type: "barcode", symbology: "code128", data: "1", position: { x: 0, y: 0 } };
+  check("por defecto: antialiased", aliasedTextThreshold(text, {}) === undefined && aliasedTextThreshold(barcode, {}) === undefined);
+  check("plantilla aliased: texto y texto de códigos", aliasedTextThreshold(text, { textRendering: "aliased" }) === 128
+    && aliasedTextThreshold(barcode, { textRendering: "aliased", textThreshold: 100 }) === 100);
+  check("el elemento manda", aliasedTextThreshold({ ...text, textRendering: "antialiased" }, { textRendering: "aliased" }) === undefined
+    && aliasedTextThreshold({ ...text, textRendering: "aliased", textThreshold: 90 }, { textThreshold: 150 }) === 90);
+  check("fuente bitmap: siempre cortada", aliasedTextThreshold({ ...text, bitmapFont: "5x7" }, {}) === 128);
+  check("otros elementos: sin capa", aliasedTextThreshold({ type: "rectangle", position: { x: 0, y: 0 }, width: 1, height: 1 }, { textRendering: "aliased" }) === undefined);
+}
+
+// --- SVG y esquema ----------------------------------------------------------------
+{
+  const options = { width: 120, height: 80, scaleFactor: 1, defaultFontSize: 16, textMargin: 8, measure: () => ({ width: 0, ascent: 0, descent: 0 }) };
+  const font = findBitmapFont("5x7");
+  const line = { type: "text", content: "Lote 7", position: { x: 4, y: 20 }, bitmapFont: "5x7", fontSize: 18, fit: "none" };
+  const svg = renderSvgLabel({ name: "b", elements: [line] }, options);
+  const expected = bitmapTextRects("Lote 7", font, 18, 4, 20).map((r) => `M${r.x} ${r.y}h${r.width}v${r.height}h${-r.width}z`).join("");
+  check("SVG: el texto bitmap son sus puntos", svg.includes(`<path d="${expected}" fill="#000"/>`) && !svg.includes("<text"), svg);
+  const boxed = renderSvgLabel({ name: "b", elements: [{ ...line, content: "uno dos tres", box: { width: 60, height: 30 } }] }, options);
+  check("SVG: caja recortada", /<clipPath id="clip1">.*<g clip-path="url\(#clip1\)"><path d="M/.test(boxed), boxed);
+  const vector = renderSvgLabel({ name: "b", textRendering: "aliased", elements: [{ type: "text", content: "a", position: { x: 0, y: 0 }, box: { width: 60 } }] }, options);
+  check("SVG: texto aliased sigue siendo texto", /<g font-family="Norwester Condensed" font-size="16" text-anchor="start"/.test(vector), vector);
+
+  check("esquema: textRendering, textThreshold y bitmapFont", validateTemplate({
+    name: "b",
+    textRendering: "aliased",
+    textThreshold: 160,
+    elements: [
+      { type: "text", content: "a", position: { x: 0, y: 0 }, bitmapFont: "8x16", textRendering: "antialiased" },
+      { type: "barcode", symbology: "code128", data: "1", position: { x: 0, y: 0 }, textThreshold: 90 },
+    ],
+  }).valid);
+  check("esquema: valores no válidos", !validateTemplate({ name: "b", elements: [{ type: "text", content: "a", position: { x: 0, y: 0 }, bitmapFont: "6x9" }] }).valid
+    && !validateTemplate({ name: "b", textThreshold: 300, elements: [] }).valid
+    && !validateTemplate({ name: "b", textRendering: "none", elements: [] }).valid);
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nBITMAP FONT OK");
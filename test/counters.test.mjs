@@ -0,0 +1,112 @@
+// Test de los contadores persistentes ({{counter:name}}) sin impresora.
+//
+//   npm run build && node test/counters.test.mjs
+import { CounterService, CounterError, templateCounters } from "../dist/services/counterService.js";
+import { interpolate, referencedVariables } from "../dist/utils/templateExpression.js";
+import { mkdtempSync, writeFileSync, readFileSync, utimesSync, existsSync } from "node:fs";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const dir = mkdtempSync(path.join(tmpdir(), "lpc-counters-"));
+const file = path.join(dir, "counters.json");
+const counters = new CounterService(file);
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const fails = async (name, fn, pattern) => {
+  let error;
+  try { await fn(); } catch (e) { error = e; }
+  check(name, error instanceof CounterError && pattern.test(error.message), error ? error.message : "no error");
+};
+
+// --- Expresiones ----------------------------------------------------------------
+check("counter:name en una expresión", interpolate('SRV-{{counter:asset | pad(6, "0")}}', { "counter:asset": 123 }) === "SRV-000123");
+check("variables referenciadas (defaults y argumentos incluidos)",
+  json(referencedVariables("{{a ?? b | pad(width)}} \\{{x}} {{counter:n}}")) === json(["a", "b", "width", "counter:n"]));
+let missing;
+try { interpolate("{{counter:asset}}", {}); } catch (e) { missing = e.message; }
+check("contador sin valor explica por qué", /counters get their value when the label is printed/.test(missing ?? ""), missing);
+const template = {
+  name: "t",
+  elements: [
+    { type: "text", content: "SRV-{{counter:asset | pad(6, '0')}}", position: { x: 0, y: 0 } },
+    { type: "barcode", data: "{{counter:asset}}-{{counter:box}}", position: { x: 0, y: 0 } },
+  ],
+};
+check("contadores de una plantilla", json(templateCounters(template)) === json(["asset", "box"]));
+
+// --- Reservas -------------------------------------------------------------------
+check("peek de un contador nuevo empieza en 1", json(await counters.peek(["asset"])) === json({ "counter:asset": 1 }));
+check("peek no crea el fichero", !existsSync(file));
+
+const first = await counters.reserve(["asset"], 1);
+check("reserve asigna el siguiente número", json(counters.valuesFor(first, 0)) === json({ "counter:asset": 1 }));
+const second = await counters.reserve(["asset"], 3);
+check("otra reserva no repite números", second.start.asset === 2, json(second));
+await counters.release(first);
+check("con otra reserva viva, el siguiente libre va tras ella", (await counters.list()).asset.next === 5, json(await counters.list()));
+
+await counters.commit(second, 2);
+await counters.release(second);
+let info = (await counters.list()).asset;
+check("commit avanza solo lo impreso", info.next === 4 && info.reserved === 0, json(info));
+check("el estado persiste en el fichero", JSON.parse(readFileSync(file, "utf-8")).counters.asset.next === 4);
+
+const batch = await counters.reserve(["asset", "box"], 5);
+check("valores por etiqueta de una reserva", json(counters.valuesFor(batch, 2)) === json({ "counter:asset": 6, "counter:box": 3 }));
+await fails("etiqueta fuera de la reserva", async () => counters.valuesFor(batch, 5), /outside the reservation of 5/);
+await counters.commit(batch, 1);
+info = (await counters.list()).asset;
+check("list cuenta lo reservado sin imprimir", info.next === 9 && info.reserved === 4, json(info));
+await fails("reset rechazado con una reserva activa", () => counters.reset("asset", 1), /reserved by a running job/);
+await counters.release(batch);
+
+await counters.reset("asset", 100);
+check("reset fija el siguiente número", (await counters.list()).asset.next === 100);
+await fails("nombre inválido", () => counters.reserve(["bad name"]), /Invalid counter name/);
+await fails("valor de reset inválido", () => counters.reset("asset", -1), /non-negative integer/);
+
+// --- Procesos caídos y bloqueos ------------------------------------------------
+const state = JSON.parse(readFileSync(file, "utf-8"));
+state.reservations.push({ id: "dead", start: { asset: 100 }, count: 50, pid: 999999999, createdAt: "2020-01-01T00:00:00Z" });
+writeFileSync(file, JSON.stringify(state));
+check("las reservas de procesos muertos se ignoran", (await counters.list()).asset.next === 100);
+
+const lock = `${file}.lock`;
+writeFileSync(lock, "999999999");
+await fails("espera al bloqueo y se rinde", () => new CounterService(file, { lockTimeoutMs: 100 }).reset("other", 1), /Timed out waiting/);
+const old = new Date(Date.now() - 60_000);
+utimesSync(lock, old, old);
+await new CounterService(file, { lockTimeoutMs: 100 }).reset("other", 7);
+check("un bloqueo abandonado se recupera", (await counters.list()).other.next === 7 && !existsSync(lock));
+
+// --- Ejecuciones concurrentes ---------------------------------------------------
+const module = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "dist", "services", "counterService.js");
+const worker = `
+  const { CounterService } = await import(${json(module)});
+  const counters = new CounterService(${json(file)});
+  const got = [];
+  for (let i = 0; i < 10; i++) {
+    const reservation = await counters.reserve(["race"], 1);
+    got.push(reservation.start.race);
+    await counters.commit(reservation, 1);
+    await counters.release(reservation);
+  }
+  console.log(JSON.stringify(got));
+`;
+const runs = await Promise.all([1, 2, 3].map(() =>
+  promisify(execFile)(process.execPath, ["--input-type=module", "-e", worker], { timeout: 60_000 })));
+const numbers = runs.flatMap((run) => JSON.parse(run.stdout));
+check("3 procesos a la vez nunca reciben el mismo número",
+  new Set(numbers).size === 30 && Math.max(...numbers) === 30, json(numbers.sort((a, b) => a - b)));
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nCOUNTERS OK");
@@ -0,0 +1,37 @@
+// Test de tramado (dithering) a 1 bit sin canvas ni impresora.
+//
+//   npm run build && node test/dither.test.mjs
+import { ditherLuminance, ditherPixels } from "../dist/utils/dither.js";
+
+const W = 64, H = 64;
+const flat = (value) => new Float32Array(W * H).fill(value);
+const ratio = (ink) => ink.reduce((a, b) => a + b, 0) / ink.length;
+const near = (a, b, tol = 0.05) => Math.abs(a - b) <= tol;
+
+const gray = flat(128 + 64); // 25 % de negro
+const checks = [];
+for (const algorithm of ["floyd-steinberg", "atkinson", "ordered"]) {
+  const r = ratio(ditherLuminance(gray, W, H, { algorithm }));
+  checks.push([`${algorithm}: gris 25 % -> ~25 % de puntos`, near(r, 0.25, algorithm === "atkinson" ? 0.1 : 0.05), r.toFixed(3)]);
+}
+checks.push(["threshold: gris claro -> blanco", ratio(ditherLuminance(gray, W, H)) === 0, ""]);
+checks.push(["threshold configurable", ratio(ditherLuminance(gray, W, H, { threshold: 200 })) === 1, ""]);
+checks.push(["blanco puro nunca imprime", ["floyd-steinberg", "atkinson", "ordered"].every((a) => ratio(ditherLuminance(flat(255), W, H, { algorithm: a })) === 0), ""]);
+checks.push(["negro puro siempre imprime", ["floyd-steinberg", "atkinson", "ordered"].every((a) => ratio(ditherLuminance(flat(0), W, H, { algorithm: a })) === 1), ""]);
+
+// RGBA: píxel transparente = papel blanco; resultado solo 0/255 opaco
+const px = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 0, 0, 10, 10, 10, 255]) };
+ditherPixels(px, { algorithm: "threshold" });
+checks.push(["RGBA: transparente -> blanco, oscuro -> negro", px.data.join() === "255,255,255,255,0,0,0,255", px.data.join()]);
+
+let unknownRejected = false;
+try { ditherLuminance(gray, W, H, { algorithm: "halftone" }); } catch { unknownRejected = true; }
+checks.push(["algoritmo desconocido se rechaza", unknownRejected, ""]);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nDITHER OK");
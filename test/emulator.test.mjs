@@ -0,0 +1,185 @@
+// Test del emulador de impresora: decodifica los payloads de buildPayload y de
+// PrinterService (GS v 0, framing, feed, postfix), reconstruye la etiqueta y
+// contesta al firmware, en memoria y por TCP. Sin impresora ni canvas.
+//
+//   npm run build && node test/emulator.test.mjs
+import { decodePayload, payloadBitmap } from "../dist/utils/payloadDecoder.js";
+import { countInk, encodePng } from "../dist/utils/monoImage.js";
+import { PrinterEmulator } from "../dist/services/printerEmulator.js";
+import { createTransport, EmulatorTransport, TransportError } from "../dist/services/printerTransport.js";
+import { PrinterService } from "../dist/services/printerService.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { Logger } from "../dist/utils/logger.js";
+import { buildPayload } from "../protocol.mjs";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { once } from "node:events";
+import { tmpdir } from "node:os";
+import { inflateSync } from "node:zlib";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+
+const profiles = new ProfileService();
+const l1 = profiles.loadProfile("makeid-l1");
+const escpos = profiles.loadProfile("escpos-58");
+const logger = new Logger({ debugMode: false, verboseLogging: false });
+
+// Dibujo de prueba: marco + diagonal
+const ink = (x, y, w, h) => x === 0 || y === 0 || x === w - 1 || y === h - 1 || x === y;
+
+// Empaqueta el dibujo como lo haría ImageProcessor para el perfil
+function pack(profile, w, h) {
+  const lsb = profile.raster.byteOrder.endsWith("LSB");
+  const bytes = [];
+  const byte = (bits) => bits.reduce((value, bit, i) => value | (bit << (lsb ? i : 7 - i)), 0);
+  if (profile.raster.orientation === "column-major") {
+    for (let x = 0; x < w; x++) {
+      for (let y0 = 0; y0 < h; y0 += 8) {
+        bytes.push(byte(Array.from({ length: 8 }, (_, i) => (y0 + i < h && ink(x, y0 + i, w, h) ? 1 : 0))));
+      }
+    }
+  } else {
+    for (let y = 0; y < h; y++) {
+      for (let x0 = 0; x0 < w; x0 += 8) {
+        bytes.push(byte(Array.from({ length: 8 }, (_, i) => (x0 + i < w && ink(x0 + i, y, w, h) ? 1 : 0))));
+      }
+    }
+  }
+  return bytes;
+}
+
+// ¿El bitmap reproduce el dibujo de w x h (lo que sobre, en blanco)?
+const matches = (bitmap, w, h) =>
+  bitmap.pixels.every((pixel, i) => {
+    const x = i % bitmap.width;
+    const y = Math.floor(i / bitmap.width);
+    return pixel === (x < w && y < h && ink(x, y, w, h) ? 1 : 0);
+  });
+
+// --- Decodificador ------------------------------------------------------------------
+{
+  const payload = buildPayload(l1, pack(l1, 20, 16), 20, 16, { feedAfterDots: 300 });
+  const { commands, consumed, warnings } = decodePayload(payload, l1);
+  check("L1: comandos en orden",
+    json(commands.map((c) => c.type)) === json(["frame", "frame", "raster", "feed", "frame", "feed", "feed"]),
+    json(commands.map((c) => c.type)));
+  check("L1: todo consumido sin avisos", consumed === payload.length && warnings.length === 0, json(warnings));
+  const raster = commands.find((c) => c.type === "raster").raster;
+  check("L1: alto de la cabecera de buildPayload en dots", raster.heightUnit === "dots" && raster.widthPx === 20 && raster.heightPx === 16, json(raster));
+  check("L1: feed del postfix y del papel continuo",
+    json(commands.filter((c) => c.type === "feed").map((c) => c.amount)) === json([64, 255, 45]));
+  check("L1: frames del prefix y postfix", json(commands.filter((c) => c.type === "frame").map((c) => c.opcode)) === json([1, 0x40, 0x45]));
+  check("L1: imagen reconstruida", matches(payloadBitmap(commands, l1), 20, 16));
+
+  const rows = buildPayload(escpos, pack(escpos, 20, 10), 20, 10);
+  const decoded = decodePayload(rows, escpos);
+  const bitmap = payloadBitmap(decoded.commands, escpos);
+  check("ESC/POS: ancho redondeado a bytes", bitmap.width === 24 && bitmap.height === 10, `${bitmap.width}x${bitmap.height}`);
+  check("ESC/POS: imagen reconstruida (row-major, leftLSB)", matches(bitmap, 20, 10));
+  check("ESC/POS: postfix como feed en líneas", json(decoded.commands.at(-1)) === json({ type: "feed", amount: 3, unit: "lines", offset: rows.length - 3, length: 3 }));
+
+  const noisy = decodePayload([0x00, 0x01, ...rows, 0x02], escpos);
+  check("bytes desconocidos agrupados con aviso",
+    noisy.commands[0].type === "unknown" && json(noisy.commands[0].bytes) === "[0,1]" && noisy.warnings.some((w) => /Unknown bytes at 0: 00 01/.test(w)),
+    json(noisy.warnings));
+  const truncated = decodePayload(rows.subarray(0, 20), escpos);
+  check("raster truncado con aviso", truncated.warnings.some((w) => /truncated, 12 of 30 bytes/.test(w)), json(truncated.warnings));
+  const partial = decodePayload(rows.subarray(0, 20), escpos, { final: false });
+  check("sin final espera al resto del raster", partial.consumed === 0 && partial.commands.length === 0, json(partial));
+}
+
+// --- PNG ---------------------------------------------------------------------------
+{
+  const { commands } = decodePayload(buildPayload(l1, pack(l1, 20, 16), 20, 16), l1);
+  const bitmap = payloadBitmap(commands, l1);
+  const png = encodePng(bitmap);
+  check("PNG: firma", png.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])));
+  check("PNG: tamaño en IHDR", png.readUInt32BE(16) === 20 && png.readUInt32BE(20) === 16);
+  const idat = png.indexOf("IDAT");
+  const raw = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)));
+  // Fila 1 (filtro + 3 bytes): tinta en x=0, x=1 (diagonal) y x=19; 1 = blanco en el PNG
+  check("PNG: píxeles (negro = tinta)", json([...raw.subarray(4, 8)]) === json([0, 0b00111111, 0xff, 0b11100000]), json([...raw.subarray(4, 8)]));
+  check("tinta contada", countInk(bitmap) === 2 * 20 + 2 * 14 + 14);
+}
+
+// --- Sesiones: llegada por trozos, varias etiquetas --------------------------------------
+{
+  const emulator = new PrinterEmulator(l1, { firmwareVersion: "EMU-9" });
+  const labels = [];
+  emulator.on("label", (label) => labels.push(label));
+  const answers = [];
+  const session = emulator.openSession((data) => answers.push(data.toString()));
+  const first = buildPayload(l1, pack(l1, 20, 16), 20, 16, { feedAfterDots: 64 });
+  const second = buildPayload(l1, pack(l1, 12, 8), 12, 8);
+  const stream = Buffer.concat([Buffer.from(l1.protocol.firmwareRequest), first, second]);
+  for (let i = 0; i < stream.length; i += 7) {
+    session.receive(stream.subarray(i, i + 7));
+  }
+  check("contesta al firmware", json(answers) === json(["EMU-9"]));
+  check("la etiqueta se cierra al empezar la siguiente", labels.length === 1 && matches(labels[0].bitmap, 20, 16), String(labels.length));
+  check("el feed tras el postfix es de la etiqueta", labels[0].feed.dots === 128, json(labels[0]?.feed));
+  emulator.endSession(session);
+  check("cerrar emite la última", labels.length === 2 && labels[1].index === 2 && matches(labels[1].bitmap, 12, 8));
+  check("bytes por etiqueta", labels[0].bytes + labels[1].bytes === stream.length - l1.protocol.firmwareRequest.length);
+  check("sin avisos", labels.every((label) => label.warnings.length === 0), json(labels.map((l) => l.warnings)));
+
+  const idle = new PrinterEmulator(escpos, { idleMs: 20 });
+  idle.openSession().receive(buildPayload(escpos, pack(escpos, 16, 4), 16, 4).subarray(0, -3));
+  const [label] = await once(idle, "label");
+  check("sin postfix se emite tras el silencio", label.bitmap.height === 4 && label.warnings.length === 0, json(label.warnings));
+}
+
+// --- PrinterService sobre EmulatorTransport ----------------------------------------
+{
+  const dir = mkdtempSync(path.join(tmpdir(), "lpc-emulator-"));
+  const transport = createTransport(`emulator://makeid-l1?out=${dir}`);
+  check("emulator:// crea el transporte", transport instanceof EmulatorTransport && transport.uri === "emulator://makeid-l1");
+  const config = { profile: "makeid-l1", portPath: "emulator://", baudRate: 57600, packetSize: 122, exitDelay: 0, packetDelay: 0 };
+  const printer = new PrinterService(config, l1, logger, transport);
+  await printer.open();
+  check("firmware del emulador", (await printer.getFirmwareVersion()) === "EMULATOR");
+  // 300 px > maxWidthPx (255): PrinterService lo manda en dos bloques
+  await printer.sendImageData(pack(l1, 300, 16), { width: 300, height: 2, dpi: 203 });
+  await printer.close();
+  const [label] = transport.emulator.labels;
+  check("bloques unidos en una etiqueta", label?.bitmap.width === 300 && label.bitmap.height === 16 && matches(label.bitmap, 300, 16),
+    label && `${label.bitmap.width}x${label.bitmap.height}`);
+  check("alto de la cabecera de PrinterService en bytes",
+    label?.commands.filter((c) => c.type === "raster").every((c) => c.raster.heightUnit === "bytes"));
+  check("PNG guardado en ?out=", label?.file === path.join(dir, "label-0001.png") && readFileSync(label.file).readUInt32BE(16) === 300);
+
+  const fromProfile = createTransport("emulator://", { profile: escpos });
+  check("sin id usa el perfil de las opciones", fromProfile.uri === "emulator://escpos-58");
+  let error;
+  try { createTransport("emulator://"); } catch (e) { error = e; }
+  check("sin perfil es un error", error instanceof TransportError && /needs a printer profile/.test(error.message), error?.message);
+  const byDefault = new PrinterService({ ...config, portPath: "emulator://" }, escpos, logger);
+  check("PrinterService pasa su perfil", byDefault.device === "emulator://escpos-58");
+}
+
+// --- TCP ---------------------------------------------------------------------------
+{
+  const emulator = new PrinterEmulator(escpos, { firmwareVersion: "TCP-EMU" });
+  const { host, port } = await emulator.listen(0);
+  check("escucha en loopback", host === "127.0.0.1" && port > 0);
+  const tcp = createTransport(`tcp://${host}:${port}`);
+  await tcp.open();
+  await tcp.write(escpos.protocol.firmwareRequest);
+  check("firmware por TCP", (await tcp.read()).toString() === "TCP-EMU");
+  const labelled = once(emulator, "label");
+  await tcp.write(buildPayload(escpos, pack(escpos, 32, 6), 32, 6));
+  await tcp.close();
+  const [label] = await labelled;
+  check("etiqueta por TCP", matches(label.bitmap, 32, 6));
+  await emulator.close();
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nEMULATOR OK");
@@ -0,0 +1,211 @@
+// Test del registro de fuentes: fuentes del bundle leídas de sus ficheros,
+// variantes de peso/estilo, cadenas de fallback, aviso o error (strict) ante una
+// familia no registrada, fuentes de sistema bajo demanda y fuentes declaradas
+// por la plantilla. Sin canvas: registerFont se sustituye por una función que anota.
+//
+//   npm run build && node test/font-registry.test.mjs
+import {
+  FontRegistry,
+  FontError,
+  readFontInfo,
+  elementFont,
+  fontWeight,
+  cssFont,
+  FONTS_DIR,
+} from "../dist/utils/fontRegistry.js";
+import { TemplateService } from "../dist/services/templateService.js";
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+import { renderSvgLabel } from "../dist/utils/svgLabel.js";
+import { ArgumentParser } from "../dist/utils/argumentParser.js";
+import { getPrinterConfig } from "../dist/utils/config.js";
+import { copyFileSync, mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = (fn) => { try { fn(); } catch (e) { return e; } };
+const font = (name) => path.join(FONTS_DIR, name);
+
+// Registro sin canvas ni fuentes de sistema; anota registros y avisos
+const registry = (options = {}) => {
+  const registered = [];
+  const warnings = [];
+  const errors = [];
+  const logger = { info: (m) => warnings.push(m), error: (m) => errors.push(m), debug() {}, verbose() {} };
+  const fonts = new FontRegistry({ register: (file, face) => registered.push([path.basename(file), face]), logger, systemDirs: false, ...options });
+  return { fonts, registered, warnings, errors };
+};
+
+// --- Ficheros de fuente -----------------------------------------------------------------
+{
+  check("familia y peso del fichero", json(readFontInfo(font("Rajdhani-Bold.ttf"))) === json({ family: "Rajdhani", weight: 700, style: "normal" })
+    && readFontInfo(font("VT323-Regular.ttf")).family === "VT323");
+  const missing = caught(() => readFontInfo(font("nope.ttf")));
+  check("fichero que no existe", missing instanceof FontError && missing.name === "FontError" && /Cannot read font ".*nope.ttf"/.test(missing.message), missing?.message);
+  const notFont = caught(() => readFontInfo(path.join(FONTS_DIR, "fonts.json")));
+  check("fichero que no es una fuente", notFont instanceof FontError && /is not a TrueType or OpenType font/.test(notFont.message), notFont?.message);
+
+  const { fonts, registered } = registry();
+  fonts.addBundledFonts();
+  check("bundle: familias de los ficheros y alias de fonts.json", json(fonts.families()) === json([
+    "Audiowide", "Norwester", "Norwester Condensed", "Rajdhani", "Saira Stencil One", "Share Tech Mono", "Stardos Stencil", "VT323",
+  ]), json(fonts.families()));
+  check("registerFont con peso y estilo", registered.some(([file, face]) => file === "norwester.ttf"
+    && json(face) === json({ family: "Norwester Condensed", weight: "400", style: "normal" })), json(registered));
+  const count = registered.length;
+  fonts.addBundledFonts();
+  check("registrar dos veces no repite", registered.length === count);
+}
+
+// --- Variantes y fallbacks --------------------------------------------------------------
+{
+  const { fonts, warnings } = registry();
+  fonts.addBundledFonts();
+  const file = font("ShareTechMono-Regular.ttf");
+  fonts.addFont(file, { family: "Test", weight: 300, style: "normal" });
+  fonts.addFont(file, { family: "Test", weight: 500, style: "normal" });
+  fonts.addFont(file, { family: "Test", weight: 700, style: "italic" });
+
+  const weight = (request) => fonts.resolve({ families: ["Test"], ...request }).weight;
+  check("peso más cercano", weight({ weight: 300 }) === 300 && weight({ weight: 900 }) === 500 && weight({ weight: "bold" }) === 500);
+  check("empate: más fino bajo 500, más grueso desde 500", weight({ weight: "normal" }) === 300 && weight({ weight: 600 }) === 500
+    && fonts.resolve({ families: ["Test"], style: "italic", weight: 400 }).weight === 700);
+  check("estilo antes que peso", json(fonts.resolve({ families: ["Test"], style: "italic" })) === json({ family: "Test", weight: 700, style: "italic" }));
+  check("sin la variante: la que haya", json(fonts.resolve({ families: ["Rajdhani"] })) === json({ family: "Rajdhani", weight: 700, style: "normal" }));
+  check("familia sin distinguir mayúsculas", fonts.resolve({ families: ["share tech mono"] }).family === "Share Tech Mono");
+
+  check("cadena: la primera registrada", fonts.resolve({ families: ["Consolas", "VT323", "Audiowide"] }).family === "VT323" && warnings.length === 0);
+  check("familia genérica al final de la cadena", fonts.resolve({ families: ["Consolas", "monospace"] }).family === "monospace" && warnings.length === 0);
+  check("CSS para el canvas", cssFont({ family: "VT323", weight: 700, style: "italic" }, 16) === 'italic 700 16px "VT323"');
+
+  const missing = fonts.resolve({ families: ["VT32"] });
+  fonts.resolve({ families: ["VT32"] });
+  check("no registrada: aviso (una vez) y la familia por defecto", missing.family === "Norwester Condensed"
+    && warnings.length === 1 && warnings[0] === '⚠️ Font "VT32" is not registered (did you mean "VT323"?), drawing in "Norwester Condensed"', json(warnings));
+
+  const strict = registry({ strict: true });
+  strict.fonts.addBundledFonts();
+  const refused = caught(() => strict.fonts.resolve({ families: ["Consolas", "Menlo"] }));
+  check("strict: FontError con las fuentes registradas", refused instanceof FontError
+    && /^Font "Consolas", "Menlo" are not registered\. Fonts: Audiowide, Norwester, /.test(refused.message) && strict.warnings.length === 0, refused?.message);
+
+  const badWeight = caught(() => fontWeight("heavy"));
+  check("peso no válido", badWeight instanceof FontError && /Invalid font weight "heavy"/.test(badWeight.message), badWeight?.message);
+}
+
+// --- Directorios y fuentes de sistema ---------------------------------------------------------
+{
+  const dir = mkdtempSync(path.join(tmpdir(), "lpc-fonts-"));
+  mkdirSync(path.join(dir, "sub"));
+  copyFileSync(font("VT323-Regular.ttf"), path.join(dir, "sub", "terminal.ttf"));
+  copyFileSync(font("Audiowide-Regular.ttf"), path.join(dir, "wide.ttf"));
+  writeFileSync(path.join(dir, "broken.ttf"), "not a font");
+  writeFileSync(path.join(dir, "fonts.json"), json({ "wide.ttf": { family: "Wide", weight: "bold", aliases: ["Wide Display"] } }));
+
+  const { fonts, errors } = registry();
+  const added = fonts.addDirectory(dir);
+  check("directorio: manifiesto, subdirectorios y alias", json(fonts.families()) === json(["VT323", "Wide", "Wide Display"])
+    && fonts.variants("wide")[0].weight === 700 && added.length === 3, json(added));
+  check("fichero roto: se salta con error", errors.length === 1 && /Skipping font ".*broken.ttf"/.test(errors[0]), json(errors));
+  const noDir = caught(() => fonts.addDirectory(path.join(dir, "nope")));
+  check("directorio que no existe", noDir instanceof FontError && /Font directory ".*nope" does not exist/.test(noDir.message), noDir?.message);
+
+  const system = registry({ systemDirs: [path.join(dir, "sub")] });
+  system.fonts.addBundledFonts();
+  system.fonts.resolve({ families: ["Audiowide"] });
+  check("sistema: no se escanea si no hace falta", system.registered.every(([file]) => file !== "terminal.ttf"));
+  const before = system.registered.length;
+  system.fonts.prepare([{ families: ["Norwester Condensed"] }, { families: ["VT323"] }]);
+  system.fonts.prepare([{ families: ["Audiowide"] }, { families: ["Ghost"] }]);
+  check("sistema: escaneo una sola vez, ante la primera familia ausente", system.registered.length === before + 1
+    && system.registered.at(-1)[0] === "terminal.ttf", json(system.registered.slice(before)));
+}
+
+// --- Elementos y plantillas -------------------------------------------------------------
+{
+  const defaultFont = { family: "VT323", size: 14, fallback: ["monospace"] };
+  check("elemento: familia y fallback propios", json(elementFont({ fontFamily: "Audiowide", fontFallback: ["sans-serif"], weight: "bold" }, defaultFont))
+    === json({ families: ["Audiowide", "sans-serif"], weight: "bold" }));
+  check("elemento sin familia: la de defaultFont", json(elementFont({}, defaultFont).families) === json(["VT323", "monospace"])
+    && json(elementFont({}).families) === json(["Norwester Condensed"]));
+
+  const dir = mkdtempSync(path.join(tmpdir(), "lpc-template-fonts-"));
+  mkdirSync(path.join(dir, "brand"));
+  copyFileSync(font("Audiowide-Regular.ttf"), path.join(dir, "brand", "logo.ttf"));
+  const write = (file, value) => writeFileSync(path.join(dir, file), json(value));
+  write("brand/base.json", { name: "base", fonts: [{ family: "Brand", src: "logo.ttf" }], elements: [] });
+  write("tag.json", {
+    name: "tag",
+    extends: "brand/base.json",
+    fonts: [{ family: "Brand Bold", src: "brand/logo.ttf", weight: 700 }],
+    elements: [{ type: "text", content: "x", position: { x: 0, y: 10 }, fontFamily: "Brand" }],
+  });
+  const template = await new TemplateService(dir).loadTemplate("tag");
+  check("plantilla: src relativo al fichero que la declara, tras las del padre",
+    json(template.fonts.map((f) => [f.family, path.relative(dir, f.src)])) === json([["Brand", path.join("brand", "logo.ttf")], ["Brand Bold", path.join("brand", "logo.ttf")]]),
+    json(template.fonts));
+
+  const { fonts, registered } = registry();
+  fonts.addTemplateFonts(template.fonts);
+  check("fuentes de la plantilla registradas", json(fonts.resolve({ families: ["Brand Bold"], weight: "bold" })) === json({ family: "Brand Bold", weight: 700, style: "normal" })
+    && registered.length === 2, json(registered));
+  const missing = caught(() => fonts.addTemplateFonts([{ family: "Gone", src: path.join(dir, "gone.ttf") }]));
+  check("fuente de plantilla que no existe", missing instanceof FontError && /^Template font "Gone": Cannot read font/.test(missing.message), missing?.message);
+
+  check("esquema: fonts, weight, fontStyle y fontFallback", validateTemplate({
+    name: "f",
+    defaultFont: { family: "VT323", size: 12, fallback: ["monospace"] },
+    fonts: [{ family: "Brand", src: "brand.ttf", weight: 700, style: "italic" }],
+    elements: [
+      { type: "text", content: "a", position: { x: 0, y: 0 }, weight: "bold", fontStyle: "italic", fontFallback: ["Audiowide"] },
+      { type: "barcode", symbology: "code128", data: "A", position: { x: 0, y: 0 }, humanReadable: true, fontFallback: ["monospace"] },
+    ],
+  }).valid);
+  check("esquema: peso y fuente no válidos", !validateTemplate({ name: "f", elements: [{ type: "text", content: "a", position: { x: 0, y: 0 }, weight: "heavy" }] }).valid
+    && !validateTemplate({ name: "f", fonts: [{ family: "Brand" }], elements: [] }).valid);
+}
+
+// --- SVG ------------------------------------------------------------------------------
+{
+  const measure = (text, size) => ({ width: text.length * size * 0.6, ascent: size * 0.7, descent: size * 0.2 });
+  const options = { width: 227, height: 136, scaleFactor: 1, defaultFontSize: 14, textMargin: 8, measure };
+  const template = {
+    name: "svg",
+    defaultFont: { family: "Share Tech Mono", size: 14 },
+    elements: [
+      { type: "text", content: "a", position: { x: 0, y: 20 }, fit: "none" },
+      { type: "text", content: "b", position: { x: 0, y: 40 }, fit: "none", fontFamily: "Consolas", fontFallback: ["VT323", "monospace"], weight: "bold" },
+    ],
+  };
+  const plain = renderSvgLabel(template, options);
+  check("SVG: defaultFont de la plantilla", plain.includes('font-family="Share Tech Mono" font-size="14"'), plain);
+
+  const { fonts } = registry();
+  fonts.addBundledFonts();
+  const resolved = renderSvgLabel(template, { ...options, resolveFont: (request) => fonts.resolve(request) });
+  check("SVG: familia resuelta y el resto de la cadena", resolved.includes('font-family="VT323, Consolas, monospace" font-size="14" text-anchor'), resolved);
+}
+
+// --- Configuración ----------------------------------------------------------------------
+{
+  const parsed = ArgumentParser.parse(["--json", "simple-text", "--font-dir", "a", "--font-dir", "b", "--strict-fonts", "--list-fonts"]);
+  check("--font-dir repetible, --strict-fonts y --list-fonts", json(parsed.printerConfig.fontDirs) === json(["a", "b"])
+    && parsed.printerConfig.strictFonts === true && parsed.listFonts === true, json(parsed));
+  check("ayuda", ArgumentParser.getHelpText().includes("--font-dir <dir>"));
+  process.env.FONT_DIRS = ["x", "y"].join(path.delimiter);
+  process.env.STRICT_FONTS = "true";
+  const config = getPrinterConfig();
+  check("env FONT_DIRS y STRICT_FONTS", json(config.fontDirs) === json(["x", "y"]) && config.strictFonts === true);
+  delete process.env.FONT_DIRS;
+  delete process.env.STRICT_FONTS;
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nFONT REGISTRY OK");
@@ -0,0 +1,125 @@
+// Test del catálogo de stocks de etiquetas: tamaños físicos a puntos, elección
+// del stock, relleno de etiquetas precortadas y alimentación del papel continuo
+// en el payload de PrinterService. Sin canvas ni impresora.
+//
+//   npm run build && node test/label-media.test.mjs
+import {
+  resolveMedia,
+  stockMedia,
+  findStock,
+  placeLabel,
+  MediaError,
+} from "../dist/utils/labelMedia.js";
+import { getFeedCommand, getPrinterConfig } from "../dist/utils/config.js";
+import { createBitmap, packBitmap } from "../dist/utils/monoImage.js";
+import { decodePayload } from "../dist/utils/payloadDecoder.js";
+import { PrinterService } from "../dist/services/printerService.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+import { ArgumentParser } from "../dist/utils/argumentParser.js";
+import { Logger } from "../dist/utils/logger.js";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = (fn) => { try { fn(); } catch (e) { return e; } };
+
+const profiles = new ProfileService();
+const l1 = profiles.loadProfile("makeid-l1");
+const escpos = profiles.loadProfile("escpos-58");
+const logger = new Logger({ debugMode: false, verboseLogging: false });
+
+// --- Catálogo ---------------------------------------------------------------------
+{
+  const label = resolveMedia(l1);
+  check("L1 por defecto: 28.4x17 mm = 227x136 puntos", label.stock === "l1-28x17mm-diecut" && label.type === "diecut"
+    && label.sensing === "gap" && label.widthPx === 227 && label.heightPx === 136
+    && json(label.printable) === json({ x: 0, y: 0, width: 227, height: 136 }), json(label));
+  const tall = resolveMedia(l1, { stock: "l1-14x40mm-diecut" });
+  check("14x40 mm", tall.widthPx === 112 && tall.heightPx === 320, json(tall));
+  check("300 dpi", resolveMedia(l1, { stock: "l1-14x40mm-diecut" }, 300).heightPx === 472);
+
+  const roll = resolveMedia(l1, { type: "continuous" });
+  check("continuo del L1: sin alto, 8 mm de avance", roll.stock === "l1-continuous" && roll.heightPx === undefined
+    && roll.sensing === "none" && roll.feedAfterDots === 64, json(roll));
+  const receipt = resolveMedia(escpos);
+  check("ESC/POS 58: 48 mm imprimibles, avance del perfil en líneas", receipt.stock === "58mm-continuous"
+    && receipt.printable.width === 384 && receipt.feedAfterLines === 3, json(receipt));
+  const margins = resolveMedia(escpos, { type: "diecut" });
+  check("márgenes: área imprimible dentro de la etiqueta", json(margins.printable) === json({ x: 0, y: 8, width: 320, height: 224 })
+    && margins.heightPx === 240, json(margins));
+
+  const unknown = caught(() => findStock(l1, "l1-28x17-diecut"));
+  check("stock desconocido: error con sugerencia", unknown instanceof MediaError && unknown.name === "MediaError"
+    && /Unknown label stock "l1-28x17-diecut" for MakeID L1, did you mean "l1-28x17mm-diecut"\? Stocks: /.test(unknown.message), unknown?.message);
+  const wrongType = caught(() => resolveMedia(l1, { stock: "l1-continuous", type: "diecut" }));
+  check("stock de otro tipo que el pedido", wrongType instanceof MediaError && /is continuous, not diecut/.test(wrongType.message), wrongType?.message);
+
+  const diecutOnly = { ...l1, media: { ...l1.media, paperTypes: ["diecut"] } };
+  const refused = caught(() => stockMedia(diecutOnly, findStock(l1, "l1-continuous")));
+  check("tipo que el perfil no admite", refused instanceof MediaError && /is continuous, which MakeID L1 does not take \(diecut\)/.test(refused.message), refused?.message);
+  const noHeight = caught(() => stockMedia(l1, { id: "x", type: "diecut", width: "20mm" }));
+  check("precortado sin alto", noHeight instanceof MediaError && /needs a height/.test(noHeight.message), noHeight?.message);
+  const wide = caught(() => stockMedia(l1, { id: "wide", type: "continuous", width: "40mm" }));
+  check("más ancho que la impresora", wide instanceof MediaError && /prints 320 dots across, over the MakeID L1 maximum of 255/.test(wide.message), wide?.message);
+  const badLength = caught(() => stockMedia(l1, { id: "cm", type: "continuous", width: "2cm" }));
+  check("longitud no válida", badLength instanceof MediaError && /Label stock "cm": Invalid length "2cm"/.test(badLength.message), badLength?.message);
+
+  const legacy = { ...l1, media: { ...l1.media, stocks: undefined, defaultStock: undefined } };
+  check("perfil sin catálogo: media.diecut / continuous", json(resolveMedia(legacy).printable) === json({ x: 0, y: 0, width: 227, height: 136 })
+    && resolveMedia(legacy, { type: "continuous" }).feedAfterDots === 64 && resolveMedia(legacy).stock === undefined);
+
+  const duplicated = caught(() => profiles.validateProfile({ ...l1, media: { ...l1.media, stocks: [...l1.media.stocks, l1.media.stocks[0]] } }));
+  check("perfil con ids repetidos", /repeated one: l1-28x17mm-diecut/.test(duplicated?.message), duplicated?.message);
+  const badDefault = caught(() => profiles.validateProfile({ ...l1, media: { ...l1.media, defaultStock: "nope" } }));
+  check("perfil con defaultStock desconocido", badDefault instanceof MediaError, badDefault?.message);
+}
+
+// --- Colocación -------------------------------------------------------------------
+{
+  const label = resolveMedia(l1);
+  check("precortada más baja: se rellena hasta la etiqueta", json(placeLabel(label, 227, 100)) === json({ width: 227, height: 136, x: 0, y: 0 }));
+  check("continuo: tan largo como la etiqueta", json(placeLabel(resolveMedia(l1, { type: "continuous" }), 136, 904)) === json({ width: 136, height: 904, x: 0, y: 0 }));
+  check("márgenes: etiqueta desplazada", json(placeLabel(resolveMedia(escpos, { type: "diecut" }), 300, 200)) === json({ width: 300, height: 240, x: 0, y: 8 }));
+  const long = caught(() => placeLabel(label, 227, 192, 'Template "big"'));
+  check("más larga que la etiqueta", long instanceof MediaError && /Template "big" is 192 dots long, over the 136 printable on MakeID 28.4 x 17 mm die-cut/.test(long.message), long?.message);
+  const wide = caught(() => placeLabel(label, 255, 136));
+  check("más ancha que el área imprimible", wide instanceof MediaError && /is 255 dots wide, over the 227 printable/.test(wide.message), wide?.message);
+}
+
+// --- Avance y payload -------------------------------------------------------------
+{
+  check("ESC J en trozos de 255 puntos", json(getFeedCommand(l1, { feedAfterDots: 300 })) === json([27, 74, 255, 27, 74, 45]));
+  check("ESC d en líneas", json(getFeedCommand(escpos, { feedAfterDots: 64, feedAfterLines: 3 })) === json([27, 100, 3]));
+
+  const config = { profile: l1.id, portPath: "memory://", baudRate: 57600, packetSize: 122, exitDelay: 0, packetDelay: 0 };
+  const printer = new PrinterService(config, l1, logger);
+  const bitmap = createBitmap(16, 8);
+  const dims = { width: 16, height: 1, dpi: 203 };
+  const feeds = (payload) => decodePayload(payload, l1).commands.filter((c) => c.type === "feed").map((c) => c.amount);
+  const diecut = printer.buildPayload(packBitmap(bitmap, l1.raster), dims, resolveMedia(l1));
+  const roll = printer.buildPayload(packBitmap(bitmap, l1.raster), dims, resolveMedia(l1, { type: "continuous" }));
+  check("precortada: solo el postfix", diecut.subarray(-7).equals(Buffer.from(l1.protocol.postfix)));
+  check("continuo: avance tras el postfix", roll.length === diecut.length + 3 && json([...roll.subarray(-3)]) === json([27, 74, 64])
+    && json(feeds(roll)) === json([...feeds(diecut), 64]), json(feeds(roll)));
+}
+
+// --- Selección --------------------------------------------------------------------
+{
+  const parsed = ArgumentParser.parse(["--json", "asset-metric", "--stock", "l1-14x40mm-diecut", "--list-stocks"]);
+  check("--stock y --list-stocks", parsed.printerConfig.stock === "l1-14x40mm-diecut" && parsed.listStocks === true, json(parsed));
+  check("ayuda", ArgumentParser.getHelpText().includes("--stock <id>"));
+  process.env.LABEL_STOCK = "l1-continuous";
+  check("env LABEL_STOCK", getPrinterConfig().stock === "l1-continuous");
+  delete process.env.LABEL_STOCK;
+  check("esquema: stock en la plantilla", validateTemplate({ name: "s", stock: "l1-14x40mm-diecut", elements: [] }).valid
+    && !validateTemplate({ name: "s", stock: 3, elements: [] }).valid);
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nLABEL MEDIA OK");
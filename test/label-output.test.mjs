@@ -0,0 +1,129 @@
+// Test de --output: formato por extensión, escala, codificadores PBM/PGM/PNG
+// en gris y render SVG vectorial (medida de texto falsa). Sin canvas.
+//
+//   npm run build && node test/label-output.test.mjs
+import {
+  labelOutputFormat,
+  checkOutputScale,
+  encodeLabelOutput,
+  LabelOutputError,
+} from "../dist/utils/labelOutput.js";
+import { createBitmap, scaleImage, encodePbm, encodePgm, encodeGrayPng } from "../dist/utils/monoImage.js";
+import { renderSvgLabel } from "../dist/utils/svgLabel.js";
+import { BarcodeError } from "../dist/utils/barcode.js";
+import { ImageLoadError } from "../dist/utils/imageSource.js";
+import { ArgumentParser } from "../dist/utils/argumentParser.js";
+import { inflateSync } from "node:zlib";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = (fn) => { try { fn(); } catch (e) { return e; } };
+
+// Mapa de bits 3x2 con la diagonal impresa y gris de 2x1
+const dots = createBitmap(3, 2);
+dots.pixels.set([1, 0, 0, 0, 1, 0]);
+const gray = { width: 2, height: 1, pixels: Uint8Array.from([0, 200]) };
+
+// --- Formato y escala -----------------------------------------------------------------
+{
+  check("formato por extensión", json(["a.png", "b.PBM", "c.pgm", "d/e.svg", "f.bin"].map(labelOutputFormat)) === json(["png", "pbm", "pgm", "svg", "bin"]));
+  const unknown = caught(() => labelOutputFormat("label.jpg"));
+  check("extensión desconocida", unknown instanceof LabelOutputError && unknown.name === "LabelOutputError"
+    && /Cannot write a label to "label.jpg": use one of .png, .pgm, .pbm, .svg, .bin/.test(unknown.message), unknown?.message);
+  check("escala por defecto 1:1", checkOutputScale(undefined) === 1 && checkOutputScale(4) === 4);
+  const bad = [0, 1.5, 17].map((scale) => caught(() => checkOutputScale(scale)));
+  check("escala no válida", bad.every((e) => e instanceof LabelOutputError && /whole number from 1 to 16/.test(e.message)), json(bad.map((e) => e?.message)));
+
+  const big = scaleImage(dots, 2);
+  check("escalado vecino más próximo", big.width === 6 && big.height === 4
+    && json([...big.pixels]) === json([1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0]), json([...big.pixels]));
+  check("escala 1 devuelve la misma imagen", scaleImage(dots, 1) === dots);
+}
+
+// --- Codificadores --------------------------------------------------------------------
+{
+  const pbm = encodePbm(dots);
+  check("PBM P4: cabecera y bits (1 = negro)", pbm.subarray(0, 7).toString() === "P4\n3 2\n" && json([...pbm.subarray(7)]) === json([0x80, 0x40]),
+    json([...pbm]));
+  const pgm = encodePgm(gray);
+  check("PGM P5", pgm.toString("latin1", 0, 11) === "P5\n2 1\n255\n" && json([...pgm.subarray(11)]) === json([0, 200]), json([...pgm]));
+
+  const png = encodeGrayPng(gray);
+  const ihdr = png.indexOf("IHDR");
+  const idat = png.indexOf("IDAT");
+  const raw = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)));
+  check("PNG en gris de 8 bits", png.readUInt32BE(ihdr + 4) === 2 && png[ihdr + 12] === 8 && png[ihdr + 13] === 0 && json([...raw]) === json([0, 0, 200]),
+    json([...raw]));
+
+  const payload = Buffer.from([0x1b, 0x40]);
+  let svgScale;
+  const label = { gray, printed: dots, payload, svg: (scale) => { svgScale = scale; return "<svg/>"; } };
+  check("bin: el payload tal cual, sin escalar", encodeLabelOutput("bin", label, 3) === payload);
+  check("pbm: los puntos impresos escalados", encodeLabelOutput("pbm", label, 2).subarray(0, 7).toString() === "P4\n6 4\n");
+  check("svg: se pide a la escala dada", encodeLabelOutput("svg", label, 5).toString() === "<svg/>" && svgScale === 5);
+}
+
+// --- SVG ------------------------------------------------------------------------------
+{
+  // Medida falsa: 0.6 del tamaño por carácter
+  const measure = (text, size) => ({ width: text.length * size * 0.6, ascent: size * 0.7, descent: size * 0.2 });
+  const options = { width: 227, height: 136, scaleFactor: 1, defaultFontSize: 14, textMargin: 8, measure };
+  const svg = renderSvgLabel({
+    name: "doc <1>",
+    description: "Tom & Jerry",
+    elements: [
+      { type: "text", content: "Hola {{name}}", position: { x: 113, y: 30 }, align: "center", fontSize: 20 },
+      { type: "rectangle", position: { x: 2, y: 2 }, width: 20, height: 10 },
+      { type: "line", start: { x: 0, y: 50 }, end: { x: 100, y: 50 }, width: 2, rotate: 90 },
+      { type: "barcode", symbology: "code128", data: "A1", position: { x: 10, y: 60 }, moduleWidth: 1, height: 20, quietZone: 0 },
+      { type: "qrcode", data: "x", position: { x: 150, y: 60 }, moduleSize: 2 },
+      { type: "text", content: "uno dos tres cuatro", position: { x: 10, y: 100 }, box: { width: 60, height: 12 }, overflow: "ellipsis", fontSize: 10 },
+      { type: "image", src: "logo.png", position: { x: 0, y: 0 } },
+    ],
+  }, { ...options, variables: { name: "<Ana>" }, scale: 3 });
+
+  check("tamaño escalado, viewBox en puntos", svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="681" height="408" viewBox="0 0 227 136"'), svg.slice(0, 120));
+  check("título y descripción escapados", svg.includes("<title>doc &#60;1&#62;</title>") && svg.includes("<desc>Tom &#38; Jerry</desc>"));
+  check("texto centrado con variables escapadas", svg.includes('<text x="113" y="30" font-family="Norwester Condensed" font-size="20" text-anchor="middle" fill="#000">Hola &#60;Ana&#62;</text>'),
+    svg.split("\n").find((l) => l.includes("Hola")));
+  check("rectángulo sin relleno", svg.includes('<rect x="2" y="2" width="20" height="10" fill="none" stroke="#000"/>'));
+  check("giro alrededor del inicio de la línea", svg.includes('<g transform="rotate(90 0 50)"><line x1="0" y1="50" x2="100" y2="50" stroke="#000" stroke-width="2"/></g>'));
+  const bars = svg.split("\n").find((l) => l.startsWith('<path d="M10 60h'));
+  check("barras en puntos enteros", bars && /^<path d="(M\d+ 60h\d+v20h-\d+z)+" fill="#000"\/>$/.test(bars), bars);
+  check("módulos del QR tras la zona de silencio", svg.split("\n").some((l) => l.startsWith('<path d="M158 68h14v2h-14z')));
+  check("caja de texto recortada con elipsis", /<clipPath id="clip1"><rect x="10" y="100" width="60" height="12"\/><\/clipPath><g clip-path="url\(#clip1\)"[^>]*dominant-baseline="central"[^>]*><text x="10" y="106">[^<]*…<\/text><\/g>/.test(svg),
+    svg.split("\n").find((l) => l.includes("clip")));
+  check("imagen sin drawImage: fuera", !svg.includes("<image"));
+
+  const withImage = renderSvgLabel({ name: "i", elements: [{ type: "image", src: "logo.png", position: { x: 4, y: 5 } }] },
+    { ...options, drawImage: () => ({ png: Buffer.from("png"), width: 8, height: 6 }) });
+  check("imagen incrustada como PNG", withImage.includes('<image x="4" y="5" width="8" height="6" href="data:image/png;base64,cG5n"/>'));
+  const missing = caught(() => renderSvgLabel({ name: "i", elements: [{ type: "image", src: "gone.png", position: { x: 0, y: 0 } }] },
+    { ...options, drawImage: (_, src) => { throw new ImageLoadError(`Failed to load image "${src}"`); } }));
+  check("imagen que no carga: falla la etiqueta", missing instanceof ImageLoadError && missing.message === 'Element 1 (image): Failed to load image "gone.png"',
+    missing?.message);
+
+  // 227 - 100 - 8 = 119 dots libres: 119 / (9 * 0.6) = 22
+  const fitted = renderSvgLabel({ name: "f", elements: [{ type: "text", content: "MUY LARGO", position: { x: 100, y: 40 }, fontSize: 40, fit: "width" }] }, options);
+  check("auto-fit como en el canvas", /font-size="(\d+)"/.exec(fitted)?.[1] === "22", /font-size="(\d+)"/.exec(fitted)?.[1]);
+
+  const badCode = caught(() => renderSvgLabel({ name: "b", elements: [{ type: "text", content: "x", position: { x: 0, y: 0 } },
+    { type: "barcode", symbology: "ean13", data: "12", position: { x: 0, y: 0 } }] }, options));
+  check("código no codificable: BarcodeError con el elemento", badCode instanceof BarcodeError && /^Element 2 \(barcode\):/.test(badCode.message), badCode?.message);
+}
+
+// --- CLI ------------------------------------------------------------------------------
+{
+  const parsed = ArgumentParser.parse(["--json", "asset-qr", "--render-only", "--output", "label.svg", "--scale", "4"]);
+  check("--output y --scale", parsed.output === "label.svg" && parsed.scale === 4 && parsed.renderOnly === true, json(parsed));
+  check("ayuda", ArgumentParser.getHelpText().includes("--output <file>"));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nLABEL OUTPUT OK");
@@ -0,0 +1,154 @@
+// Test de la API de librería: resultados tipados de la cola (settle), payload
+// idéntico al que se envía (buildPayload) y ningún process.exit ni manejador
+// de señales fuera del CLI, un lote que se cierra una sola vez e imágenes que
+// fallan la etiqueta. Sin impresora (memory://); el lote y las imágenes se
+// dibujan con canvas.
+//
+//   npm run build && node test/library-api.test.mjs
+import { PrintQueue, PrintQueueError, PrintCancelledError } from "../dist/services/printQueue.js";
+import { PrinterService, PrinterPayloadError } from "../dist/services/printerService.js";
+import { MemoryTransport } from "../dist/services/printerTransport.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { Logger } from "../dist/utils/logger.js";
+import { ArgumentParser } from "../dist/utils/argumentParser.js";
+import { ImageLoadError } from "../dist/utils/imageSource.js";
+import { createBitmap, encodePng } from "../dist/utils/monoImage.js";
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const caught = async (fn) => { try { await fn(); } catch (e) { return e; } };
+
+const template = { name: "t", elements: [] };
+
+// --- settle: resultado o error tipado ------------------------------------------------
+{
+  const sent = [];
+  const queue = new PrintQueue({
+    render: async (job) => {
+      if (job.variables.n === 2) throw new RangeError("no cabe");
+      return `label ${job.variables.n}`;
+    },
+    send: async (job, label) => {
+      sent.push(label);
+      await sleep(20);
+    },
+  });
+
+  const ok = queue.enqueue({ template, variables: { n: 1 }, copies: 2 });
+  const { job, label } = await queue.settle(ok.id);
+  check("settle devuelve el trabajo y la etiqueta", job.state === "done" && job.copiesPrinted === 2 && label === "label 1", json({ job, label }));
+
+  const bad = queue.enqueue({ template, variables: { n: 2 } });
+  const error = await caught(() => queue.settle(bad.id));
+  check("settle rechaza con el error original", error instanceof RangeError && error.message === "no cabe", String(error));
+
+  const long = queue.enqueue({ template, variables: { n: 3 }, copies: 5 });
+  const settled = queue.settle(long.id);
+  await sleep(30);
+  queue.cancel(long.id);
+  const cancelled = await caught(() => settled);
+  check("cancelado: PrintCancelledError", cancelled instanceof PrintCancelledError && cancelled instanceof PrintQueueError
+    && cancelled.name === "PrintCancelledError" && /cancelled after [12]\/5 copies/.test(cancelled.message), cancelled?.message);
+  check("las copias siguientes no se envían", sent.filter((l) => l === "label 3").length < 5, json(sent));
+
+  const unknown = await caught(() => queue.settle("nope"));
+  check("trabajo desconocido", unknown instanceof PrintQueueError && /Unknown print job/.test(unknown.message), unknown?.message);
+}
+
+// --- buildPayload = bytes enviados ---------------------------------------------------
+{
+  const profiles = new ProfileService();
+  const logger = new Logger({ debugMode: false, verboseLogging: false });
+  const config = { profile: "makeid-l1", portPath: "memory://", baudRate: 57600, packetSize: 64, exitDelay: 0, packetDelay: 0 };
+
+  const sameBytes = async (profileId, data, dimensions) => {
+    const memory = new MemoryTransport(profileId);
+    const printer = new PrinterService({ ...config, profile: profileId }, profiles.loadProfile(profileId), logger, memory);
+    const payload = printer.buildPayload(data, dimensions);
+    check(`${profileId}: buildPayload no abre el puerto`, !memory.isOpen && memory.writes.length === 0);
+    await printer.open();
+    await printer.sendImageData(data, dimensions);
+    await printer.close();
+    return [payload, memory.data];
+  };
+
+  const column = Array.from({ length: 300 * 2 }, (_, i) => i % 251);
+  const [wide, wideSent] = await sameBytes("makeid-l1", column, { width: 300, height: 2, dpi: 203 });
+  check("makeid-l1: imagen partida en dos, mismos bytes", Buffer.isBuffer(wide) && wide.equals(wideSent) && wide.length > column.length,
+    `${wide.length} / ${wideSent.length}`);
+
+  const rows = Array.from({ length: 4 * 4 }, (_, i) => i);
+  const [escpos, escposSent] = await sameBytes("escpos-58", rows, { width: 32, height: 4, dpi: 203 });
+  check("escpos-58: mismos bytes", escpos.equals(escposSent), `${escpos.toString("hex")} / ${escposSent.toString("hex")}`);
+
+  const printer = new PrinterService(config, profiles.loadProfile("makeid-l1"), logger, new MemoryTransport());
+  const short = await caught(() => printer.buildPayload([1, 2, 3], { width: 2, height: 2, dpi: 203 }));
+  check("datos que no cuadran: PrinterPayloadError", short instanceof PrinterPayloadError, short?.message);
+}
+
+// --- Lote: resumen y cierre una sola vez --------------------------------------------
+{
+  const { JsonPrinterApp } = await import("../dist/jsonPrinterApp.js");
+  const dir = mkdtempSync(path.join(tmpdir(), "batch-"));
+  const templateFile = path.join(dir, "lote.json");
+  writeFileSync(templateFile, json({ name: "lote", elements: [{ type: "rectangle", position: { x: 2, y: 2 }, width: 20, height: 10, filled: true }] }));
+  writeFileSync(path.join(dir, "filas.csv"), "sku\nA1\nA2\n");
+
+  const app = new JsonPrinterApp(ArgumentParser.parse(["--port", "memory://lote", "--exit-delay", "0"]));
+  // Impresora en memoria que contesta la versión de firmware
+  app.printerService.transport.respond = () => "V1.2\r\n\0";
+  const logged = [];
+  app.logger.info = (message) => logged.push(message);
+  let closes = 0;
+  const close = app.printerService.close.bind(app.printerService);
+  app.printerService.close = async () => { closes++; await close(); };
+
+  const report = await app.runBatchWithFile(templateFile, { data: path.join(dir, "filas.csv"), report: path.join(dir, "informe.json") });
+  const times = (prefix) => logged.filter((message) => message.startsWith(prefix)).length;
+  check("lote impreso por memory://", report.printed === 2 && report.failed === 0, json(report));
+  check("resumen e informe una sola vez", times("📊 Batch finished") === 1 && times("📝 Report written") === 1, json(logged));
+  check("impresora cerrada una sola vez", closes === 1, String(closes));
+}
+
+// --- Imágenes: relativas a la plantilla, y sin imagen no hay etiqueta ----------------
+{
+  const { JsonPrinterApp } = await import("../dist/jsonPrinterApp.js");
+  const dir = mkdtempSync(path.join(tmpdir(), "image-"));
+  writeFileSync(path.join(dir, "logo.png"), encodePng(createBitmap(8, 8)));
+  const image = (src) => ({ name: "img", elements: [{ type: "image", src, position: { x: 2, y: 2 }, width: 8 }] });
+  writeFileSync(path.join(dir, "logo.json"), json(image("logo.png")));
+  writeFileSync(path.join(dir, "gone.json"), json(image("gone.png")));
+
+  const app = new JsonPrinterApp(ArgumentParser.parse(["--exit-delay", "0"]));
+  const label = await caught(() => app.renderFileOnly(path.join(dir, "logo.json")));
+  check("imagen junto a la plantilla, no en el directorio de trabajo", label === undefined, label?.message);
+  const missing = await caught(() => app.renderFileOnly(path.join(dir, "gone.json")));
+  check("imagen que falta: la etiqueta falla", missing instanceof ImageLoadError
+    && missing.message.startsWith("Element 1 (image): Failed to load image") && missing.message.includes(path.join(dir, "gone.png")), missing?.message);
+  await app.close();
+}
+
+// --- Sin efectos sobre el proceso fuera del CLI --------------------------------------
+{
+  const dist = fileURLToPath(new URL("../dist/", import.meta.url));
+  const files = readdirSync(dist, { recursive: true })
+    .filter((file) => file.endsWith(".js") && file !== "index.js");
+  const offenders = files.filter((file) => /process\.(exit|on|once)\(/.test(readFileSync(path.join(dist, file), "utf8")));
+  check("la librería no llama a process.exit ni instala señales", files.includes("lib.js") && offenders.length === 0, json(offenders));
+  const cli = readFileSync(path.join(dist, "index.js"), "utf8");
+  check("el CLI decide el código de salida", /process\.exitCode/.test(cli) && /SIGINT/.test(cli));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nLIBRARY API OK");
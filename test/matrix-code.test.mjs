@@ -0,0 +1,58 @@
+// Test de códigos 2D (QR / Data Matrix) sin canvas ni impresora.
+// Verifica tamaño de símbolo, patrones fijos y el ajuste de módulos a dots enteros.
+//
+//   npm run build && node test/matrix-code.test.mjs
+import { encodeQrCode } from "../dist/utils/qrcode.js";
+import { encodeDataMatrix } from "../dist/utils/datamatrix.js";
+import { layoutMatrixCode } from "../dist/utils/matrixCode.js";
+import { BarcodeError } from "../dist/utils/barcode.js";
+
+const rejects = (fn) => {
+  try {
+    fn();
+    return false;
+  } catch (e) {
+    return e instanceof BarcodeError;
+  }
+};
+
+// Patrón localizador 7x7 del QR en la esquina superior izquierda
+const hasFinder = (m, x0, y0) => {
+  for (let y = 0; y < 7; y++)
+    for (let x = 0; x < 7; x++) {
+      const d = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      if (m[y0 + y][x0 + x] !== (d !== 2)) return false;
+    }
+  return true;
+};
+
+const qr1 = encodeQrCode("SRV-000123", "M");
+const qrUrl = encodeQrCode("https://inventory.example.com/asset/SRV-000123", "H");
+const dm = encodeDataMatrix("123456");
+const dmLong = encodeDataMatrix("ASSET-000123/RACK-07");
+const snapped = layoutMatrixCode("qrcode", "SRV-000123", { targetSize: 100 });
+const fixed = layoutMatrixCode("datamatrix", "123456", { moduleSize: 3 });
+
+const checks = [];
+checks.push(["QR corto cabe en versión 1 (21x21)", qr1.length === 21, `got ${qr1.length}`]);
+checks.push(["QR tiene los 3 localizadores", hasFinder(qr1, 0, 0) && hasFinder(qr1, 14, 0) && hasFinder(qr1, 0, 14), ""]);
+checks.push(["QR nivel H crece de versión", qrUrl.length > 21 && (qrUrl.length - 17) % 4 === 0, `got ${qrUrl.length}`]);
+checks.push(["Data Matrix 6 dígitos -> 10x10", dm.length === 10, `got ${dm.length}`]);
+checks.push(["Data Matrix: borde izquierdo e inferior sólidos", dm.every((row) => row[0]) && dm[9].every(Boolean), ""]);
+checks.push(["Data Matrix: timing superior alterno", dm[0].every((v, x) => v === (x % 2 === 0)), ""]);
+checks.push(["Data Matrix largo elige símbolo mayor", dmLong.length > 10, `got ${dmLong.length}`]);
+// 21 módulos + 2*4 de quiet zone = 29 -> floor(100/29) = 3 dots por módulo
+checks.push(["size se ajusta a dots enteros por módulo", snapped.moduleSize === 3 && snapped.size === 87, `${snapped.moduleSize} / ${snapped.size}`]);
+checks.push(["celdas alineadas a la rejilla de módulos", snapped.cells.every((c) => c.x % 3 === 0 && c.y % 3 === 0 && c.width % 3 === 0), ""]);
+checks.push(["moduleSize fijo en dots", fixed.moduleSize === 3 && fixed.size === (10 + 2) * 3, `${fixed.moduleSize} / ${fixed.size}`]);
+checks.push(["size demasiado pequeño se rechaza", rejects(() => layoutMatrixCode("qrcode", "SRV-000123", { targetSize: 20 })), ""]);
+checks.push(["QR demasiado largo se rechaza", rejects(() => encodeQrCode("x".repeat(3000), "H")), ""]);
+checks.push(["Data Matrix rechaza fuera de Latin-1", rejects(() => encodeDataMatrix("€")), ""]);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nMATRIX CODES OK");
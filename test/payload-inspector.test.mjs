@@ -0,0 +1,98 @@
+// Test del inspector de payloads: listado de comandos con offsets, avisos
+// (raster demasiado ancho, en blanco), raster en ASCII y diff por comandos.
+//
+//   npm run build && node test/payload-inspector.test.mjs
+import {
+  inspectPayload,
+  formatInspection,
+  bitmapToAscii,
+  diffPayloads,
+  formatPayloadDiff,
+} from "../dist/utils/payloadInspector.js";
+import { getPrinterProtocol } from "../dist/utils/config.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { buildPayload } from "../protocol.mjs";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+
+const l1 = new ProfileService().loadProfile("makeid-l1");
+
+// Raster column-major topLSB de w x h con tinta donde ink(x, y)
+const column = (w, h, ink) => {
+  const bytes = [];
+  for (let x = 0; x < w; x++) {
+    for (let y0 = 0; y0 < h; y0 += 8) {
+      let byte = 0;
+      for (let i = 0; i < 8 && y0 + i < h; i++) if (ink(x, y0 + i)) byte |= 1 << i;
+      bytes.push(byte);
+    }
+  }
+  return bytes;
+};
+const frame = (x, y) => x === 0 || y === 0 || x === 15 || y === 7;
+
+// --- Listado ------------------------------------------------------------------------
+{
+  const payload = buildPayload(l1, column(16, 8, frame), 16, 8);
+  const inspection = inspectPayload(payload, l1);
+  const text = formatInspection(inspection);
+  check("cabecera del listado", text.startsWith(`makeid-l1 payload: ${payload.length} bytes, 5 commands`), text);
+  check("offsets decimal y hex", /\n\s+8 0x000008\s+24  GS v 0 raster 16x8 dots/.test(text), text);
+  check("parámetros de la cabecera decodificados", /header 00 08 00 10: height 8 dots, heightBytesBE-widthPxBE/.test(text), text);
+  check("tinta contada", /16 data bytes, 44 dots inked/.test(text), text);
+  check("feed y frames", /feed 64 dots \(ESC J\)/.test(text) && /frame 0x45/.test(text), text);
+  check("sin avisos", inspection.warnings.length === 0, json(inspection.warnings));
+  check("raster en ASCII", bitmapToAscii(inspection.bitmap) === ["################", "#..............#", "#..............#", "################"].join("\n"),
+    "\n" + bitmapToAscii(inspection.bitmap));
+  check("ASCII escalado a maxColumns", bitmapToAscii(inspection.bitmap, 4) === "####", bitmapToAscii(inspection.bitmap, 4));
+}
+
+// --- Avisos que explican una etiqueta en blanco ----------------------------------------
+{
+  const wide = inspectPayload(buildPayload(l1, column(300, 8, frame), 300, 8), l1);
+  check("raster más ancho que la impresora", wide.warnings.some((w) => /300px wide, over the .* maximum of 255px/.test(w)), json(wide.warnings));
+  const blank = inspectPayload(buildPayload(l1, column(16, 8, () => false), 16, 8), l1);
+  check("raster en blanco", blank.warnings.some((w) => /is blank/.test(w)), json(blank.warnings));
+  const none = inspectPayload(Buffer.from([0x1b, 0x40, 0x42]), l1);
+  check("sin raster y bytes desconocidos", none.warnings.some((w) => /no GS v 0 raster/.test(w)) && none.warnings.some((w) => /Unknown bytes at 2: 42/.test(w)),
+    json(none.warnings));
+}
+
+// --- Diff ---------------------------------------------------------------------------
+{
+  const before = buildPayload(l1, column(16, 8, frame), 16, 8);
+  check("payloads idénticos", diffPayloads(before, before, l1).identical);
+  check("texto de idénticos", formatPayloadDiff(diffPayloads(before, before, l1), l1) === "Payloads are identical (5 commands)");
+
+  const dotted = buildPayload(l1, column(16, 8, (x, y) => frame(x, y) || (x === 5 && y === 3)), 16, 8);
+  const pixels = diffPayloads(before, dotted, l1);
+  const changed = pixels.entries.filter((e) => e.change === "changed");
+  check("un punto distinto", changed.length === 1 && json(changed[0].details) === json(["1 of 128 dots differ", "dots inked 44 -> 45"]), json(changed.map((e) => e.details)));
+
+  const wider = buildPayload(l1, column(24, 8, frame), 24, 8, { feedAfterDots: 32 });
+  const diff = diffPayloads(before, wider, l1);
+  check("cambios de tamaño y feed añadido",
+    json(diff.entries.map((e) => e.change)) === json(["same", "same", "changed", "same", "same", "added"]), json(diff.entries.map((e) => e.change)));
+  check("detalle del ancho", diff.entries[2].details.includes("width 16 -> 24 dots"), json(diff.entries[2].details));
+  const text = formatPayloadDiff(diff, l1);
+  check("marcas ~ y +", /^~ +8 +8  GS v 0 raster 24x8/m.test(text) && /^\+ +\d+  feed 32 dots/m.test(text), text);
+  check("resumen", text.endsWith("1 changed, 1 added, 0 removed, 4 unchanged"), text);
+
+  // Mismo dibujo enviado por el core TS (alto en bytes) y por protocol.mjs (alto en dots)
+  const protocol = getPrinterProtocol(l1, { width: 16, height: 1, dpi: 203 });
+  const core = Buffer.from([...protocol.prefix, ...column(16, 8, frame), ...protocol.postfix]);
+  const units = diffPayloads(before, core, l1);
+  const raster = units.entries.find((e) => e.before?.type === "raster");
+  check("misma imagen con otra cabecera",
+    raster.change === "changed" && json(raster.details) === json(["header height in dots -> bytes", "header 00 08 00 10 -> 00 01 00 10"]), json(raster.details));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nPAYLOAD INSPECTOR OK");
@@ -0,0 +1,180 @@
+// Test de la cola de impresión (estados, reintentos, cancelación) sin impresora.
+//
+//   npm run build && node test/print-queue.test.mjs
+import { PrintQueue, PrintQueueError, isTransientPrinterError } from "../dist/services/printQueue.js";
+import { PrinterError, PrinterNotReadyError } from "../dist/services/printerService.js";
+
+const template = { name: "t", elements: [] };
+const busy = () => Object.assign(new Error("Error Resource temporarily unavailable Cannot lock port"), { code: "EAGAIN" });
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Backend falso: registra lo que se renderiza/envía; failures[n] es el error
+ * del envío n (0, 1, ...) si existe
+ */
+function fakeBackend({ failures = [], sendMs = 0, renderError } = {}) {
+  const log = [];
+  let sends = 0;
+  return {
+    log,
+    render: async (job) => {
+      log.push(`render ${job.variables.n}`);
+      if (renderError) throw renderError;
+      return `label ${job.variables.n}`;
+    },
+    send: async (job, label) => {
+      const attempt = sends++;
+      log.push(`send ${label} @${job.device}`);
+      if (sendMs) await sleep(sendMs);
+      if (failures[attempt]) throw failures[attempt];
+    },
+    finish: async (job) => {
+      log.push(`finish ${job.variables.n} ${job.state}`);
+    },
+  };
+}
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+
+// --- Estados y copias -----------------------------------------------------------
+{
+  const backend = fakeBackend();
+  const queue = new PrintQueue(backend, { device: "COM3" });
+  const states = [];
+  queue.on("job", (job) => states.push(job.state));
+  const job = queue.enqueue({ template, variables: { n: 1 }, copies: 2 });
+  check("enqueue devuelve el trabajo en cola", job.state === "queued" && job.device === "COM3" && job.copies === 2, json(job));
+  const done = await queue.wait(job.id);
+  check("queued -> rendering -> sending -> done", json(states) === json(["queued", "rendering", "sending", "sending", "done"]), json(states));
+  check("renderiza una vez y envía cada copia", json(backend.log) === json(["render 1", "send label 1 @COM3", "send label 1 @COM3", "finish 1 done"]), json(backend.log));
+  check("copias impresas", done.copiesPrinted === 2);
+  check("wait de un trabajo terminado", (await queue.wait(job.id)).state === "done");
+  let error;
+  try { queue.enqueue({ template, copies: 0 }); } catch (e) { error = e; }
+  check("copias inválidas", error instanceof PrintQueueError && /positive integer/.test(error.message), error?.message);
+  error = undefined;
+  try { queue.cancel("nope"); } catch (e) { error = e; }
+  check("trabajo desconocido", error instanceof PrintQueueError && /Unknown print job/.test(error.message), error?.message);
+}
+
+// --- Un trabajo a la vez por dispositivo ---------------------------------------
+{
+  const backend = fakeBackend({ sendMs: 20 });
+  const queue = new PrintQueue(backend);
+  let running = 0;
+  let maxRunning = 0;
+  const send = backend.send;
+  backend.send = async (job, label) => {
+    if (job.device === "A") maxRunning = Math.max(maxRunning, ++running);
+    try { await send(job, label); } finally { if (job.device === "A") running--; }
+  };
+  const jobs = [1, 2, 3].map((n) => queue.enqueue({ template, variables: { n }, device: "A" }));
+  const other = queue.enqueue({ template, variables: { n: 9 }, device: "B" });
+  await queue.idle();
+  const order = backend.log.filter((line) => line.endsWith("@A"));
+  check("FIFO en el mismo dispositivo", json(order) === json(["send label 1 @A", "send label 2 @A", "send label 3 @A"]), json(order));
+  check("nunca dos envíos a la vez en un dispositivo", maxRunning === 1, String(maxRunning));
+  check("otro dispositivo no espera a la cola de A", backend.log.indexOf("send label 9 @B") < backend.log.indexOf("send label 3 @A"), json(backend.log));
+  check("list guarda el historial", queue.list().length === 4 && queue.list().every((job) => job.state === "done"));
+  check("get devuelve una copia", (() => { const got = queue.get(jobs[0].id); got.state = "x"; return queue.get(jobs[0].id).state === "done"; })());
+  check("get de trabajo de otro dispositivo", queue.get(other.id).device === "B");
+}
+
+// --- Reintentos -------------------------------------------------------------------
+{
+  const backend = fakeBackend({ failures: [busy(), busy()] });
+  const queue = new PrintQueue(backend, { backoffMs: 10 });
+  const errors = [];
+  queue.on("job", (job) => job.error && errors.push(job.error));
+  const started = Date.now();
+  const job = await queue.wait(queue.enqueue({ template, variables: { n: 1 } }).id);
+  const elapsed = Date.now() - started;
+  check("error transitorio: reintenta y termina", job.state === "done" && job.attempts === 3 && !job.error, json(job));
+  check("espera exponencial (10 + 20 ms)", elapsed >= 30, `${elapsed} ms`);
+  check("cada reintento se notifica", errors.length === 2 && /retry 2\/3 in 20 ms/.test(errors[1]), json(errors));
+}
+{
+  const backend = fakeBackend({ failures: [busy(), busy(), busy()] });
+  const job = await (async () => {
+    const queue = new PrintQueue(backend, { retries: 2, backoffMs: 1 });
+    return queue.wait(queue.enqueue({ template, variables: { n: 1 } }).id);
+  })();
+  check("se agotan los reintentos", job.state === "failed" && job.attempts === 3 && /Cannot lock port/.test(job.error), json(job));
+  check("finish se llama también al fallar", backend.log.at(-1) === "finish 1 failed");
+}
+{
+  const backend = fakeBackend({ failures: [new Error("Image width 500px exceeds the maximum")] });
+  const queue = new PrintQueue(backend, { backoffMs: 1 });
+  const job = await queue.wait(queue.enqueue({ template, variables: { n: 1 } }).id);
+  check("error no transitorio: sin reintentos", job.state === "failed" && job.attempts === 1, json(job));
+}
+{
+  const backend = fakeBackend({ renderError: new Error("Missing variable \"sku\"") });
+  const queue = new PrintQueue(backend);
+  const job = await queue.wait(queue.enqueue({ template, variables: { n: 1 } }).id);
+  check("error al renderizar: failed sin enviar", job.state === "failed" && !backend.log.some((line) => line.startsWith("send")), json(backend.log));
+}
+check("errores transitorios reconocidos",
+  isTransientPrinterError(Object.assign(new Error("x"), { code: "EBUSY" }))
+  && isTransientPrinterError(new Error("Port is not open"))
+  && !isTransientPrinterError(new Error("Template not found")));
+{
+  const missing = new PrinterNotReadyError("no-printer", "No answer to the firmware query from /dev/ttyUSB0 within 2000 ms", "ETIMEDOUT");
+  check("impresora ausente, sin papel o payload rechazado: no transitorios", !isTransientPrinterError(missing)
+    && !isTransientPrinterError(new PrinterNotReadyError("not-ready", "Out of paper", "EIO"))
+    && !isTransientPrinterError(new PrinterError("bad-payload", "Payload rejected", "EIO"))
+    && isTransientPrinterError(new PrinterNotReadyError("busy", "Printer is busy", "EBUSY")));
+  const backend = fakeBackend({ failures: [missing, missing, missing, missing] });
+  const queue = new PrintQueue(backend, { backoffMs: 1 });
+  const job = await queue.wait(queue.enqueue({ template, variables: { n: 1 } }).id);
+  check("impresora ausente (ETIMEDOUT): sin reintentos", job.state === "failed" && job.attempts === 1
+    && backend.log.filter((line) => line.startsWith("send")).length === 1, json(job));
+}
+
+// --- Cancelación ------------------------------------------------------------------
+{
+  const backend = fakeBackend({ sendMs: 20 });
+  const queue = new PrintQueue(backend);
+  const first = queue.enqueue({ template, variables: { n: 1 } });
+  const second = queue.enqueue({ template, variables: { n: 2 } });
+  check("cancelar un trabajo en cola", queue.cancel(second.id) === true && queue.get(second.id).state === "cancelled");
+  await queue.idle();
+  check("el cancelado no se imprime", !backend.log.some((line) => line.includes("label 2")), json(backend.log));
+  check("no se cancela un trabajo terminado", queue.cancel(first.id) === false);
+}
+{
+  const backend = fakeBackend({ failures: [busy()] });
+  const queue = new PrintQueue(backend, { backoffMs: 60_000 });
+  const job = queue.enqueue({ template, variables: { n: 1 } });
+  await sleep(20);
+  queue.cancel(job.id);
+  const ended = await queue.wait(job.id);
+  check("cancelar durante la espera de un reintento", ended.state === "cancelled" && ended.copiesPrinted === 0, json(ended));
+}
+{
+  const backend = fakeBackend({ sendMs: 20 });
+  const queue = new PrintQueue(backend);
+  const job = queue.enqueue({ template, variables: { n: 1 }, copies: 5 });
+  await sleep(30);
+  queue.cancel(job.id);
+  const ended = await queue.wait(job.id);
+  check("cancelar entre copias", ended.state === "cancelled" && ended.copiesPrinted >= 1 && ended.copiesPrinted < 5, json(ended));
+}
+
+// --- Historial -------------------------------------------------------------------
+{
+  const queue = new PrintQueue(fakeBackend(), { historyLimit: 2 });
+  for (const n of [1, 2, 3]) queue.enqueue({ template, variables: { n } });
+  await queue.idle();
+  check("historyLimit descarta los más antiguos", json(queue.list().map((job) => job.variables.n)) === "[2,3]", json(queue.list()));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nPRINT QUEUE OK");
@@ -0,0 +1,154 @@
+// Test del servidor HTTP (preview, print, templates, printers, jobs, rutas de
+// las plantillas en línea) con un transporte falso: ni impresora ni canvas.
+//
+//   npm run build && node test/print-server.test.mjs
+import { PrintServer } from "../dist/services/printServer.js";
+import { PrintQueue } from "../dist/services/printQueue.js";
+import { TemplateService } from "../dist/services/templateService.js";
+import { interpolate } from "../dist/utils/templateExpression.js";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const dir = mkdtempSync(path.join(tmpdir(), "lpc-server-"));
+const write = (file, content) => writeFileSync(path.join(dir, file), typeof content === "string" ? content : JSON.stringify(content));
+const text = (content) => ({ type: "text", content, position: { x: 0, y: 20 } });
+write("hello.json", { name: "hello", description: "Saludo", elements: [text("Hola {{name}}")] });
+write("broken.json", "{ not json");
+
+// Transporte falso: "imprime" guardando el texto interpolado de cada etiqueta
+const sent = [];
+const queue = new PrintQueue({
+  render: async (job) => job.template.elements.map((element) => interpolate(element.content, job.variables)).join("|"),
+  send: async (job, label) => { sent.push(label); },
+}, { device: "mock" });
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const previews = [];
+let previewed;
+
+const server = new PrintServer({
+  templateService: new TemplateService(dir),
+  queue,
+  preview: async (template, variables) => {
+    previewed = template;
+    previews.push(template.elements.map((element) => interpolate(element.content ?? "", variables)).join("|"));
+    return PNG;
+  },
+  printers: () => [{ id: "mock", name: "Mock printer", dpi: 203, maxWidthPx: 384, active: true, device: "mock" }],
+}, { port: 0, maxCopies: 5, maxBodyBytes: 2048 });
+const { host, port } = await server.listen();
+const base = `http://${host}:${port}`;
+
+const request = async (method, url, body, headers = { "Content-Type": "application/json" }) => {
+  const response = await fetch(base + url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+  const type = response.headers.get("content-type") ?? "";
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: type.startsWith("application/json") ? await response.json() : Buffer.from(await response.arrayBuffer()),
+  };
+};
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+
+check("por defecto solo escucha en loopback", host === "127.0.0.1" && port > 0, `${host}:${port}`);
+
+// --- GET /templates y /printers ---------------------------------------------------
+let res = await request("GET", "/templates");
+const templates = res.body.templates;
+check("GET /templates lista las plantillas", res.status === 200 && json(templates.map((t) => t.name)) === json(["broken", "hello"]), json(res.body));
+check("con su descripción", templates.find((t) => t.name === "hello")?.description === "Saludo");
+check("una plantilla rota se lista con su error", /Failed to load template "broken"/.test(templates.find((t) => t.name === "broken")?.error ?? ""), json(templates));
+res = await request("GET", "/printers");
+check("GET /printers", res.status === 200 && res.body.printers[0].id === "mock" && res.body.printers[0].active, json(res.body));
+
+// --- POST /preview ----------------------------------------------------------------
+res = await request("POST", "/preview", { template: "hello", variables: { name: "Ana" } });
+check("POST /preview devuelve un PNG", res.status === 200 && res.headers.get("content-type") === "image/png" && res.body.equals(PNG), String(res.status));
+check("renderiza con las variables", previews.at(-1) === "Hola Ana", json(previews));
+res = await request("POST", "/preview", { template: { name: "inline", elements: [text("{{a}}-{{b}}")] }, variables: { a: 1, b: "x" } });
+check("preview de una plantilla en línea", res.status === 200 && previews.at(-1) === "1-x", json(previews));
+res = await request("POST", "/preview", { template: "hello" });
+check("variable que falta: 422", res.status === 422 && /Missing variable "name"/.test(res.body.error), json(res.body));
+res = await request("POST", "/preview", { template: "hello", copies: 2 });
+check("preview no acepta copies", res.status === 400 && /Unknown field\(s\) "copies"/.test(res.body.error), json(res.body));
+
+// --- Validación de peticiones -----------------------------------------------------
+res = await request("POST", "/preview", { template: "nope" });
+check("plantilla desconocida: 404 con las disponibles", res.status === 404 && json(res.body.details.available) === json(["broken", "hello"]), json(res.body));
+res = await request("POST", "/preview", { template: "../package" });
+check("los nombres no salen del directorio de plantillas", res.status === 404, json(res.body));
+{
+  const image = (src) => ({ type: "image", src, position: { x: 0, y: 0 } });
+  const inline = (extra) => ({ template: { name: "inline", elements: [], ...extra } });
+  const refused = async (name, body, pattern = /outside the templates directory/) => {
+    const res = await request("POST", "/preview", body);
+    check(name, res.status === 422 && pattern.test(res.body.error), json(res.body));
+  };
+  await refused("plantilla en línea: imagen fuera de templates/", inline({ elements: [image("../secret.png")] }));
+  await refused("plantilla en línea: ruta absoluta", inline({ elements: [image(path.join(tmpdir(), "secret.png"))] }));
+  await refused("plantilla en línea: fuente fuera de templates/", inline({ fonts: [{ family: "X", src: "/etc/passwd" }] }));
+  await refused("plantilla en línea: extends fuera de templates/", inline({ extends: "../../package.json" }));
+  await refused("plantilla en línea: partial fuera de templates/", inline({ elements: [{ type: "include", partial: "../../../secret" }] }));
+  await refused("plantilla en línea: expresión en la ruta de una imagen", inline({ elements: [image("{{file}}")] }), /only data URIs may/);
+  const ok = await request("POST", "/preview", inline({ elements: [image("logos/logo.png"), image("data:image/png;base64,{{logo}}")] }));
+  check("plantilla en línea: rutas dentro de templates/ y data URIs", ok.status === 200
+    && previewed?.elements[0].src === path.join(dir, "logos", "logo.png") && previewed.elements[1].src === "data:image/png;base64,{{logo}}",
+    json(previewed?.elements));
+}
+res = await request("POST", "/preview", { template: { name: "bad", elements: [{ type: "text", position: { x: 0, y: 0 } }] } });
+check("plantilla inválida: 422 con punteros JSON", res.status === 422 && res.body.details.issues.some((issue) => issue.path === "/elements/0/content"), json(res.body));
+res = await request("POST", "/preview", { template: 42 });
+check("template de tipo incorrecto: 400", res.status === 400 && /template name or a template object/.test(res.body.error), json(res.body));
+res = await request("POST", "/preview", { template: "hello", variables: ["x"] });
+check("variables debe ser un objeto", res.status === 400 && /"variables" must be an object/.test(res.body.error), json(res.body));
+res = await request("POST", "/preview", "{ nope");
+check("JSON inválido: 400", res.status === 400 && /not valid JSON/.test(res.body.error), json(res.body));
+res = await request("POST", "/preview", "[]");
+check("el cuerpo debe ser un objeto", res.status === 400, json(res.body));
+res = await request("POST", "/preview", json({ template: "hello" }), { "Content-Type": "text/plain" });
+check("solo application/json: 415", res.status === 415, json(res.body));
+res = await request("POST", "/preview", { template: "hello", variables: { name: "x".repeat(4096) } });
+check("cuerpo demasiado grande: 413", res.status === 413, json(res.body));
+
+// --- POST /print y GET /jobs/:id ---------------------------------------------------
+res = await request("POST", "/print", { template: "hello", variables: { name: "Bea" }, copies: 2 });
+const job = res.body.job;
+check("POST /print encola: 202", res.status === 202 && job.state === "queued" && job.copies === 2, json(res.body));
+check("con Location al trabajo", res.headers.get("location") === `/jobs/${job.id}`);
+check("el trabajo lleva el nombre de la plantilla", job.template === "hello", json(job));
+await queue.wait(job.id);
+res = await request("GET", `/jobs/${job.id}`);
+check("GET /jobs/:id da el estado final", res.status === 200 && res.body.job.state === "done" && res.body.job.copiesPrinted === 2, json(res.body));
+check("el transporte recibe cada copia", json(sent) === json(["Hola Bea", "Hola Bea"]), json(sent));
+res = await request("POST", "/print", { template: "hello", variables: { name: "x" }, copies: 6 });
+check("copies por encima del máximo: 400", res.status === 400 && /from 1 to 5/.test(res.body.error), json(res.body));
+res = await request("POST", "/print", { template: "hello" });
+const failed = await queue.wait(res.body.job.id);
+check("un fallo al renderizar queda en el trabajo", failed.state === "failed" && /Missing variable/.test(failed.error), json(failed));
+res = await request("GET", "/jobs/nope");
+check("trabajo desconocido: 404", res.status === 404, json(res.body));
+res = await request("GET", "/jobs/%E0%A4%A");
+check("id con un escape roto: 404, no 500", res.status === 404 && res.body.error === 'Unknown print job "%E0%A4%A"', json(res.body));
+
+// --- Rutas ------------------------------------------------------------------------
+res = await request("GET", "/nope");
+check("ruta desconocida: 404", res.status === 404);
+res = await request("GET", "/print");
+check("método no permitido: 405 con Allow", res.status === 405 && res.headers.get("allow") === "POST", json(res.body));
+
+await server.close();
+
+let failedChecks = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failedChecks = true;
+}
+if (failedChecks) process.exit(1);
+console.log("\nPRINT SERVER OK");
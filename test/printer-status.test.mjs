@@ -0,0 +1,194 @@
+// Test de los tiempos de espera, el estado de la impresora (firmware + flags) y
+// los errores con motivo (no-printer / busy / not-ready / timeout / bad-payload),
+// sobre transportes en memoria y el emulador. Sin impresora.
+//
+//   npm run build && node test/printer-status.test.mjs
+import {
+  PrinterService,
+  PrinterError,
+  PrinterTimeoutError,
+  PrinterNotReadyError,
+  PrinterPayloadError,
+} from "../dist/services/printerService.js";
+import { MemoryTransport, EmulatorTransport, createTransport } from "../dist/services/printerTransport.js";
+import { PrinterEmulator } from "../dist/services/printerEmulator.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { isTransientPrinterError } from "../dist/services/printQueue.js";
+import { decodePayload } from "../dist/utils/payloadDecoder.js";
+import { Logger } from "../dist/utils/logger.js";
+import { once } from "node:events";
+import net from "node:net";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = async (fn) => {
+  try { await fn(); } catch (error) { return error; }
+  return undefined;
+};
+
+const profiles = new ProfileService();
+const l1 = profiles.loadProfile("makeid-l1");
+const escpos = profiles.loadProfile("escpos-58");
+const logger = new Logger({ debugMode: false, verboseLogging: false });
+const config = { profile: "makeid-l1", portPath: "memory://", baudRate: 57600, packetSize: 122, exitDelay: 0, packetDelay: 0, responseTimeout: 50 };
+const service = (profile, transport) => new PrinterService({ ...config, profile: profile.id }, profile, logger, transport);
+
+// --- Tiempos de espera ----------------------------------------------------------------
+{
+  const silent = new MemoryTransport("silent");
+  const printer = service(l1, silent);
+  await printer.open();
+  const started = Date.now();
+  const error = await caught(() => printer.getFirmwareVersion());
+  check("sin respuesta: PrinterTimeoutError", error instanceof PrinterTimeoutError && error instanceof PrinterError && error.reason === "timeout",
+    error?.stack);
+  check("con la operación y el tiempo", error?.operation === "firmware request" && error.timeoutMs === 50 && /within 50 ms/.test(error.message), error?.message);
+  check("no espera de más", Date.now() - started < 1000, `${Date.now() - started} ms`);
+
+  const notReady = await caught(() => printer.checkReady());
+  check("checkReady sin respuesta: no hay impresora", notReady instanceof PrinterNotReadyError && notReady.reason === "no-printer" && /is the printer on/.test(notReady.message),
+    notReady?.message);
+  check("la cola no lo reintenta: la impresora no está", notReady?.code === "ETIMEDOUT" && !isTransientPrinterError(notReady));
+
+  // Una respuesta que llega tarde no se pierde en la lectura caducada
+  silent.respond = () => "LATE";
+  await silent.write([0]);
+  check("la respuesta tardía queda para la siguiente lectura", (await silent.read(50)).toString() === "LATE");
+  await printer.close();
+}
+
+// --- Firmware y estado --------------------------------------------------------------
+{
+  const printer = service(l1, new MemoryTransport("l1", () => "V1.2\r\n\0"));
+  await printer.open();
+  check("firmware sin relleno", (await printer.getFirmwareVersion()) === "V1.2");
+  const status = await printer.checkReady();
+  check("estado del L1 (sin consulta de flags)",
+    json(status) === json({ device: "memory://l1", model: "MakeID L1", flags: {}, ready: true, firmware: "V1.2" }), json(status));
+  await printer.close();
+
+  const emulator = new PrinterEmulator(escpos, { firmwareVersion: "ESC-2.0" });
+  const pos = service(escpos, new EmulatorTransport(emulator));
+  await pos.open();
+  const ok = await pos.getStatus();
+  check("estado ESC/POS por DLE EOT 2", ok.ready && ok.statusByte === 0x12 && ok.firmware === "ESC-2.0"
+    && json(ok.flags) === json({ coverOpen: false, paperOut: false, error: false }), json(ok));
+
+  emulator.statusByte = 0x12 | 0x20 | 0x04;
+  const error = await caught(() => pos.checkReady());
+  check("sin papel y tapa abierta: not-ready", error instanceof PrinterNotReadyError && error.reason === "not-ready"
+    && /not ready \(coverOpen, paperOut\)/.test(error.message), error?.message);
+  check("el error lleva el estado", error?.status?.flags.paperOut === true && error.status.ready === false);
+  check("no se reintenta", !isTransientPrinterError(error));
+  await pos.close();
+
+  const busyProfile = { ...escpos, protocol: { ...escpos.protocol, status: { request: [16, 4, 1], flags: { busy: 8 } } } };
+  const busy = service(busyProfile, new MemoryTransport("busy", (data) => (data[0] === 16 ? Buffer.from([8]) : "FW")));
+  await busy.open();
+  const busyError = await caught(() => busy.checkReady());
+  check("flag busy: reason busy, reintentable", busyError?.reason === "busy" && busyError.code === "EBUSY" && isTransientPrinterError(busyError),
+    busyError?.message);
+  await busy.close();
+
+  check("el decodificador reconoce la consulta de estado",
+    decodePayload([16, 4, 2], escpos).commands[0]?.type === "status-request");
+}
+
+// --- Respuestas en varios trozos ---------------------------------------------------
+{
+  // Puerto serie que entrega cada respuesta en trozos, 10 ms uno tras otro
+  const splitTransport = (answer) => {
+    const queue = [];
+    let waiting;
+    const deliver = (chunk) => {
+      const reader = waiting;
+      waiting = undefined;
+      if (reader) reader(Buffer.from(chunk));
+      else queue.push(Buffer.from(chunk));
+    };
+    return {
+      uri: "split://", isOpen: true, readable: true, deliver,
+      async open() {}, async drain() {}, async close() {},
+      async write(data) {
+        (answer(Buffer.from(data)) ?? []).forEach((chunk, index) => setTimeout(() => deliver(chunk), index * 10));
+      },
+      read: (timeoutMs) => new Promise((resolve, reject) => {
+        if (queue.length) return resolve(queue.shift());
+        const timer = setTimeout(() => {
+          waiting = undefined;
+          reject(Object.assign(new Error(`No answer within ${timeoutMs} ms`), { code: "ETIMEDOUT" }));
+        }, timeoutMs);
+        waiting = (chunk) => { clearTimeout(timer); resolve(chunk); };
+      }),
+      discard: () => { queue.length = 0; },
+    };
+  };
+
+  const split = splitTransport((data) => (data[0] === 16 ? [[0x12]] : ["FW1.", "23\r\n"]));
+  const printer = service(escpos, split);
+  split.deliver("FW0.9\r\n");
+  const status = await printer.checkReady().catch((error) => error);
+  check("firmware en dos trozos, respuesta vieja descartada", status.firmware === "FW1.23" && status.statusByte === 0x12 && status.ready === true, json(status));
+
+  const open = splitTransport((data) => (data[0] === 16 ? [[0x12]] : ["ESC", "-2.0"]));
+  const quiet = await service(escpos, open).getStatus();
+  check("sin terminador: el silencio cierra la respuesta", quiet.firmware === "ESC-2.0" && quiet.statusByte === 0x12, json(quiet));
+}
+
+// --- Errores al abrir ---------------------------------------------------------------
+{
+  const missing = await caught(() => service(l1, createTransport("file:///nonexistent-dir/lp0")).open());
+  check("dispositivo que no existe: no-printer", missing instanceof PrinterNotReadyError && missing.reason === "no-printer" && missing.code === "ENOENT",
+    missing?.message);
+
+  const server = net.createServer();
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address();
+  server.close();
+  await once(server, "close");
+  const refused = await caught(() => service(l1, createTransport(`tcp://127.0.0.1:${port}`)).open());
+  check("conexión rechazada: no-printer", refused?.reason === "no-printer" && refused.code === "ECONNREFUSED", refused?.message);
+
+  const locked = {
+    uri: "serial://COM3?baud=57600",
+    isOpen: false,
+    readable: true,
+    open: async () => { throw new Error("Error: Resource temporarily unavailable Cannot lock port"); },
+  };
+  const busy = await caught(() => service(l1, locked).open());
+  check("puerto bloqueado: busy", busy instanceof PrinterNotReadyError && busy.reason === "busy" && busy.code === "EBUSY", busy?.message);
+}
+
+// --- Payload incorrecto ---------------------------------------------------------------
+{
+  const memory = new MemoryTransport("payload");
+  const printer = service(l1, memory);
+  await printer.open();
+  const short = await caught(() => printer.sendImageData([1, 2, 3], { width: 2, height: 2, dpi: 203 }));
+  check("datos que no cuadran: bad-payload", short instanceof PrinterPayloadError && short.reason === "bad-payload" && /3 bytes/.test(short.message),
+    short?.message);
+  check("no se envía nada", memory.writes.length === 0);
+  const empty = await caught(() => printer.sendImageData([], { width: 0, height: 2, dpi: 203 }));
+  check("dimensiones inválidas", empty?.reason === "bad-payload", empty?.message);
+  const wide = await caught(() => service(escpos, memory).sendImageData(new Array(63 * 8).fill(0), { width: 500, height: 1, dpi: 203 }));
+  check("más ancho que la impresora (row-major)", wide?.reason === "bad-payload" && /exceeds/.test(wide.message), wide?.message);
+  await printer.close();
+}
+
+// --- Perfil ---------------------------------------------------------------------------
+{
+  const bad = { ...escpos, protocol: { ...escpos.protocol, status: { request: [16, 4, 2], flags: { jammed: 8 } } } };
+  let error;
+  try { profiles.validateProfile(bad); } catch (e) { error = e; }
+  check("flag desconocido en el perfil", /invalid status flag "jammed"/.test(error?.message ?? ""), error?.message);
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nPRINTER STATUS OK");
@@ -2,7 +2,7 @@
 // Verifica que el pipeline render→payload produce exactamente los bytes
 // esperados sin necesidad de impresora (dry-run).
 //
-//   node test/render.test.mjs
+//   npm run build && node test/render.test.mjs
 import { printJob } from "../print-usb.mjs";
 import { readFileSync, writeFileSync, mkdtempSync } from "node:fs";
 import { tmpdir } from "node:os";
@@ -0,0 +1,119 @@
+// Test de giros: geometría (rotatePoint, rotatedBounds, distanceToEdge), pivot
+// por defecto de cada elemento, auto-fit a lo largo de una línea girada y
+// orientation de la plantilla. Sin canvas.
+//
+//   npm run build && node test/rotation.test.mjs
+import {
+  rotatePoint,
+  rotatedBounds,
+  exceedsLabel,
+  distanceToEdge,
+  elementTurn,
+  labelQuarterTurns,
+} from "../dist/utils/transform.js";
+import { availableTextSpace, fitFontSize } from "../dist/utils/textLayout.js";
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+import { TemplateService } from "../dist/services/templateService.js";
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const near = (a, b) => Math.abs(a - b) < 1e-6;
+
+// --- Geometría ----------------------------------------------------------------------
+{
+  check("cuarto de vuelta horario exacto", json(rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, 90)) === json({ x: 0, y: 10 }),
+    json(rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, 90)));
+  check("media vuelta alrededor del pivot", json(rotatePoint({ x: 10, y: 5 }, { x: 5, y: 5 }, 180)) === json({ x: 0, y: 5 }));
+  check("-90 = 270", json(rotatePoint({ x: 3, y: 4 }, { x: 1, y: 1 }, -90)) === json(rotatePoint({ x: 3, y: 4 }, { x: 1, y: 1 }, 270)));
+  const diagonal = rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, 45);
+  check("ángulo libre (45°)", near(diagonal.x, Math.SQRT1_2 * 10) && near(diagonal.y, Math.SQRT1_2 * 10), json(diagonal));
+
+  const bar = { x: 0, y: 0, width: 100, height: 20 };
+  check("caja girada 90°", json(rotatedBounds(bar, { x: 0, y: 0 }, 90)) === json({ x: -20, y: 0, width: 20, height: 100 }),
+    json(rotatedBounds(bar, { x: 0, y: 0 }, 90)));
+  const tilted = rotatedBounds({ x: 0, y: 0, width: 10, height: 10 }, { x: 5, y: 5 }, 45);
+  check("caja girada 45° alrededor del centro", near(tilted.width, 10 * Math.SQRT2) && near(tilted.x, 5 - 5 * Math.SQRT2), json(tilted));
+
+  // Código de 100x40 en x=150: no cabe en 227 de ancho, girado 90° en su esquina sí
+  const code = { x: 150, y: 10, width: 100, height: 40 };
+  check("límites sin girar: se sale", exceedsLabel(code, 227, 136));
+  check("límites con la caja girada: cabe", !exceedsLabel(rotatedBounds(code, { x: 150, y: 10 }, 90), 227, 136),
+    json(rotatedBounds(code, { x: 150, y: 10 }, 90)));
+
+  const from = { x: 50, y: 40 };
+  check("distancia al borde en las cuatro direcciones",
+    json([0, 90, 180, 270].map((a) => distanceToEdge(from, a, 227, 136))) === json([177, 96, 50, 40]),
+    json([0, 90, 180, 270].map((a) => distanceToEdge(from, a, 227, 136))));
+  check("distancia al borde en diagonal", near(distanceToEdge(from, 45, 227, 136), 96 * Math.SQRT2));
+}
+
+// --- Pivot por defecto --------------------------------------------------------------
+{
+  const text = { type: "text", content: "x", position: { x: 10, y: 20 } };
+  check("sin rotate no hay giro", elementTurn(text, 2) === undefined && elementTurn({ ...text, rotate: 360 }, 2) === undefined);
+  check("texto: gira en su posición (escalada)", json(elementTurn({ ...text, rotate: 90 }, 2)) === json({ degrees: 90, pivot: { x: 20, y: 40 } }));
+  check("pivot explícito", json(elementTurn({ ...text, rotate: -30, pivot: { x: 1.4, y: 3 } }, 2)) === json({ degrees: -30, pivot: { x: 3, y: 6 } }));
+  const line = { type: "line", start: { x: 5, y: 6 }, end: { x: 50, y: 6 }, rotate: 90 };
+  check("línea: gira en su inicio", json(elementTurn(line, 1)?.pivot) === json({ x: 5, y: 6 }));
+  check("círculo: gira en su centro", json(elementTurn({ type: "circle", center: { x: 7, y: 8 }, radius: 3, rotate: 45 }, 1)?.pivot) === json({ x: 7, y: 8 }));
+  check("franjas y rejillas no giran", elementTurn({ type: "stripes", direction: "vertical", spacing: 4, width: 1, rotate: 90 }, 1) === undefined);
+}
+
+// --- Auto-fit con la geometría girada -----------------------------------------------
+{
+  const cases = [[0, 40, "left"], [113, 0, "center"], [200, 0, "right"], [240, 150, "left"]];
+  check("ángulo 0 = espacio de siempre",
+    cases.every(([x, y, align]) => json(availableTextSpace(x, y, align, 227, 136, 8, 0)) === json(availableTextSpace(x, y, align, 227, 136, 8))));
+  check("texto hacia arriba (270): el largo es la altura libre",
+    json(availableTextSpace(20, 120, "left", 227, 136, 8, 270)) === json({ maxWidth: 112, maxAscent: 20, maxDescent: 207 }),
+    json(availableTextSpace(20, 120, "left", 227, 136, 8, 270)));
+  check("centrado hacia abajo (90): alto de la etiqueta menos márgenes",
+    availableTextSpace(100, 30, "center", 227, 136, 8, 90).maxWidth === 120);
+  check("cabeza abajo (180): derecha y arriba se invierten",
+    json(availableTextSpace(100, 60, "right", 227, 136, 8, 180)) === json({ maxWidth: 119, maxAscent: 76, maxDescent: 60 }),
+    json(availableTextSpace(100, 60, "right", 227, 136, 8, 180)));
+
+  // Anclada abajo a la izquierda: en horizontal cabe grande, hacia arriba encoge
+  const extent = (t, size) => ({ width: t.length * size * 0.6, ascent: size * 0.7, descent: size * 0.2 });
+  const flat = fitFontSize("HOLA", extent, { fit: "width", fontSize: 80, ...availableTextSpace(20, 120, "left", 227, 136, 8) });
+  const upright = fitFontSize("HOLA", extent, { fit: "width", fontSize: 80, ...availableTextSpace(20, 120, "left", 227, 136, 8, 270) });
+  check("fit width a lo largo de la línea girada", flat === 80 && upright === 46 && extent("HOLA", upright).width <= 112, `${flat} / ${upright}`);
+}
+
+// --- orientation de la plantilla ----------------------------------------------------
+{
+  check("cuartos de vuelta por orientation",
+    json([undefined, 0, 90, 180, 270].map(labelQuarterTurns)) === json([0, 0, 1, 2, 3]));
+  let error;
+  try { labelQuarterTurns(45); } catch (e) { error = e; }
+  check("orientation no recta: error", error instanceof RangeError && /must be 0, 90, 180 or 270 degrees, got 45/.test(error.message), error?.message);
+}
+
+// --- Esquema y composición ----------------------------------------------------------
+{
+  const issuesOf = (tpl) => validateTemplate(tpl).issues.map((i) => `${i.path}: ${i.message}`);
+  const text = { type: "text", content: "x", position: { x: 0, y: 0 } };
+  check("esquema: orientation, rotate y pivot válidos",
+    issuesOf({ name: "t", orientation: 270, elements: [{ ...text, rotate: 12.5, pivot: { x: 4, y: 4 } }] }).length === 0);
+  const bad = issuesOf({ name: "t", orientation: 45, elements: [{ type: "grid", cellWidth: 5, cellHeight: 5, rotate: 90 }] });
+  check("esquema: orientation no recta", bad.includes("/orientation: must be one of 0, 90, 180, 270, got 45"), bad.join("; "));
+  check("esquema: la rejilla no gira", bad.some((i) => i.startsWith("/elements/0/rotate: unknown property")), bad.join("; "));
+
+  const dir = mkdtempSync(path.join(tmpdir(), "lpc-rotate-"));
+  mkdirSync(path.join(dir, "partials"));
+  writeFileSync(path.join(dir, "partials", "tag.json"), json({ name: "tag", elements: [{ ...text, rotate: 90, pivot: { x: 2, y: 3 } }] }));
+  const resolved = await new TemplateService(dir).resolveTemplate({ name: "t", elements: [{ type: "include", partial: "tag", offset: { x: 10, y: 20 } }] });
+  check("include con offset mueve también el pivot", json(resolved.elements[0].pivot) === json({ x: 12, y: 23 }), json(resolved.elements[0]));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nROTATION OK");
@@ -0,0 +1,132 @@
+// Test de composición de plantillas (extends, slots, partials, rutas de
+// imágenes) sin canvas.
+//
+//   npm run build && node test/template-composition.test.mjs
+import { TemplateService, TemplateCompositionError } from "../dist/services/templateService.js";
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const dir = mkdtempSync(path.join(tmpdir(), "lpc-compose-"));
+mkdirSync(path.join(dir, "partials"));
+const write = (file, json) => writeFileSync(path.join(dir, file), JSON.stringify(json));
+const text = (content, x, y) => ({ type: "text", content, position: { x, y } });
+
+write("base.json", {
+  name: "base",
+  dimensions: { width: 227, height: 136 },
+  defaultFont: { family: "Norwester Condensed", size: 40 },
+  elements: [
+    { type: "include", partial: "frame", params: { w: 200 } },
+    { type: "slot", name: "body" },
+    { type: "slot", name: "footer", elements: [text("pie", 4, 130)] },
+  ],
+});
+write("partials/frame.json", {
+  name: "frame",
+  params: { h: 120, title: "LOGO", family: null },
+  elements: [
+    { type: "rectangle", position: { x: 0, y: 0 }, width: "${w}", height: "${h}" },
+    { type: "text", content: "${title} {{line1}}", position: { x: 2, y: 10 }, fontFamily: "${family}" },
+  ],
+});
+write("child.json", {
+  name: "child",
+  extends: "base",
+  defaultFont: { size: 20 },
+  slots: { body: [text("{{line1}}", 10, 60), { type: "include", partial: "frame", params: { w: 50, title: "MINI", family: null }, offset: { x: 100, y: 5 } }] },
+  elements: [text("extra", 0, 100)],
+});
+write("grandchild.json", { name: "grandchild", extends: "child.json", dimensions: { height: 80 }, slots: { footer: [] }, elements: [] });
+write("bad-slot.json", { name: "bad-slot", extends: "base", slots: { bodi: [] } });
+write("bad-param.json", { name: "bad-param", elements: [{ type: "include", partial: "frame", params: { w: 1, titles: "x" } }] });
+write("no-param.json", { name: "no-param", elements: [{ type: "include", partial: "frame" }] });
+write("orphan.json", { name: "orphan", extends: "missing-base", elements: [] });
+write("cycle-a.json", { name: "cycle-a", extends: "cycle-b", elements: [] });
+write("cycle-b.json", { name: "cycle-b", extends: "cycle-a", elements: [] });
+write("partials/loop.json", { name: "loop", elements: [{ type: "include", partial: "loop" }] });
+write("loop.json", { name: "loop", elements: [{ type: "include", partial: "loop" }] });
+
+const service = new TemplateService(dir);
+const checks = [];
+const fails = async (name, file, pattern) => {
+  let error;
+  try { await service.loadTemplate(file); } catch (e) { error = e; }
+  checks.push([name, error instanceof TemplateCompositionError && pattern.test(error.message), error ? error.message : "no error"]);
+};
+
+const child = await service.loadTemplate("child");
+const types = child.elements.map((e) => e.type).join(",");
+checks.push(["extends: hereda elementos, rellena slots y añade los suyos", types === "rectangle,text,text,rectangle,text,text,text", types]);
+checks.push(["defaultFont se mezcla clave a clave", child.defaultFont.family === "Norwester Condensed" && child.defaultFont.size === 20, JSON.stringify(child.defaultFont)]);
+checks.push(["dimensions heredadas", child.dimensions.width === 227 && child.dimensions.height === 136, JSON.stringify(child.dimensions)]);
+checks.push(["sin restos de extends/slots", !("extends" in child) && !("slots" in child), Object.keys(child).join()]);
+
+const [frame, title] = child.elements;
+checks.push(["partial: params con tipo y valores por defecto", frame.width === 200 && frame.height === 120, JSON.stringify(frame)]);
+checks.push(["partial: ${param} dentro de texto, {{variable}} intacta", title.content === "LOGO {{line1}}", title.content]);
+checks.push(["partial: param sin valor omite la propiedad", !("fontFamily" in child.elements[4]), JSON.stringify(child.elements[4])]);
+const mini = child.elements[3];
+checks.push(["partial: offset desplaza coordenadas", mini.position.x === 100 && mini.position.y === 5 && mini.width === 50, JSON.stringify(mini)]);
+checks.push(["slot sin rellenar usa su contenido por defecto", child.elements[5].content === "pie", JSON.stringify(child.elements[5])]);
+
+const grand = await service.loadTemplate("grandchild");
+checks.push(["extends encadenado por ruta .json", grand.dimensions.height === 80 && grand.dimensions.width === 227 && grand.defaultFont.size === 20, JSON.stringify(grand.dimensions)]);
+checks.push(["slot rellenado vacío en el nieto", !grand.elements.some((e) => e.content === "pie") && grand.elements.length === 6, String(grand.elements.length)]);
+
+await fails("slot desconocido con sugerencia", "bad-slot", /no such slot \(did you mean "body"\?\)/);
+await fails("param desconocido con sugerencia", "bad-param", /no parameter "titles" \(did you mean "title"\?\)/);
+await fails("param requerido sin valor", "no-param", /uses \$\{w\} but no value was given/);
+await fails("padre inexistente", "orphan", /extends "missing-base", but .*missing-base\.json was not found/);
+await fails("ciclo de herencia", "cycle-a", /inheritance cycle: .*cycle-a\.json -> .*cycle-b\.json -> .*cycle-a\.json/);
+await fails("ciclo de partials", "loop", /include cycle/);
+
+// src de imágenes relativo al fichero que las declara, como las fuentes
+{
+  const image = (src) => ({ type: "image", src, position: { x: 0, y: 0 } });
+  const absolute = path.join(dir, "abs.png");
+  mkdirSync(path.join(dir, "brand"));
+  write("partials/stamp.json", { name: "stamp", elements: [image("stamp.png")] });
+  write("brand/tag.json", {
+    name: "tag",
+    extends: "../base.json",
+    slots: { body: [image("slot.png")] },
+    elements: [
+      image("./logo.png"),
+      image("../shared/{{brand}}.png"),
+      image("{{logo}}"),
+      image("data:image/png;base64,AAAA"),
+      image(absolute),
+      { type: "include", partial: "../partials/stamp.json" },
+    ],
+  });
+  const tag = await service.loadTemplateFromFile(path.join(dir, "brand", "tag.json"));
+  const srcs = tag.elements.filter((e) => e.type === "image").map((e) => e.src);
+  const brand = path.join(dir, "brand");
+  checks.push(["imagen: relativa a su plantilla, slot incluido", srcs[0] === path.join(brand, "slot.png") && srcs[1] === path.join(brand, "logo.png"), JSON.stringify(srcs)]);
+  checks.push(["imagen: expresión en la ruta intacta", srcs[2] === `${brand}${path.sep}../shared/{{brand}}.png`, srcs[2]]);
+  checks.push(["imagen: variable, data URI y ruta absoluta sin tocar", srcs[3] === "{{logo}}" && srcs[4] === "data:image/png;base64,AAAA" && srcs[5] === absolute, JSON.stringify(srcs.slice(3, 6))]);
+  checks.push(["imagen de un partial: relativa al partial", srcs[6] === path.join(dir, "partials", "stamp.png"), srcs[6]]);
+  const inline = await service.resolveTemplate({ name: "inline", elements: [image("logo.png")] });
+  checks.push(["plantilla como objeto: ruta sin tocar", inline.elements[0].src === "logo.png", inline.elements[0].src]);
+}
+
+// Las plantillas incluidas que usan extends/partials se resuelven y validan
+const bundled = new TemplateService(path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "templates"));
+for (const name of ["backups-label", "backups-stack", "hello-big", "hello-big2"]) {
+  let ok = false, detail = "";
+  try {
+    const tpl = await bundled.loadTemplate(name);
+    ok = tpl.elements.filter((e) => e.type === "text").length === 2;
+  } catch (e) { detail = e.message; }
+  checks.push([`templates/${name}.json se resuelve`, ok, detail]);
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nTEMPLATE COMPOSITION OK");
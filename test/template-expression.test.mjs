@@ -0,0 +1,70 @@
+// Test del lenguaje de expresiones de las plantillas ({{ ... }}) sin canvas.
+//
+//   npm run build && node test/template-expression.test.mjs
+import { interpolate, TemplateExpressionError } from "../dist/utils/templateExpression.js";
+
+const vars = {
+  name: "Ana",
+  sku: "ab-12",
+  qty: 7,
+  price: 1234.5,
+  empty: "",
+  none: null,
+  day: "2026-03-09",
+  "a.b": "plana",
+  item: { sku: "X-1", lot: { id: 42 } },
+  list: ["cero", "uno"],
+};
+
+const checks = [];
+const eq = (name, tpl, expected) => {
+  let got;
+  try { got = interpolate(tpl, vars); } catch (e) { got = `ERROR: ${e.message}`; }
+  checks.push([name, got === expected, `"${got}" != "${expected}"`]);
+};
+const fails = (name, tpl, pattern) => {
+  let error;
+  try { interpolate(tpl, vars); } catch (e) { error = e; }
+  checks.push([name, error instanceof TemplateExpressionError && pattern.test(error.message), error ? error.message : "no error"]);
+};
+
+eq("variable simple", "Hola {{name}}!", "Hola Ana!");
+eq("espacios dentro de la llave", "{{ name }}", "Ana");
+eq("números", "{{qty}} uds", "7 uds");
+eq("claves anidadas", "{{item.sku}} / {{item.lot.id}}", "X-1 / 42");
+eq("índice de lista", "{{list.1}}", "uno");
+eq("clave plana con punto tiene prioridad", "{{a.b}}", "plana");
+eq("?? con literal", "{{missing ?? \"UNKNOWN\"}}", "UNKNOWN");
+eq("?? con otra variable", "{{missing ?? name}}", "Ana");
+eq("?? con null", "{{none ?? 'N/A'}}", "N/A");
+eq("?? no salta una cadena vacía", "[{{empty ?? 'x'}}]", "[]");
+eq("upper / lower", "{{name | upper}} {{name | lower}}", "ANA ana");
+eq("filtros encadenados", "{{sku | upper | pad(8, \"0\")}}", "000AB-12");
+eq("pad a la derecha", "[{{name | pad(5, '.', 'right')}}]", "[Ana..]");
+eq("truncate con sufijo", "{{\"Tornillo hexagonal\" | truncate(10, \"…\")}}", "Tornillo …");
+eq("truncate sin cortar", "{{name | truncate(10)}}", "Ana");
+eq("number con decimales", "{{price | number(2)}}", "1234.50");
+eq("number con locale", "{{price | number(2, 'es-ES')}}", "1234,50");
+eq("number con locale en-US agrupa", "{{price | number(1, 'en-US')}}", "1,234.5");
+eq("date por defecto", "{{day | date}}", "2026-03-09");
+eq("date con formato", "{{day | date('DD/MM/YY')}}", "09/03/26");
+eq("llaves literales escapadas", "\\{{name\\}} = {{name}}", "{{name}} = Ana");
+eq("texto sin llaves intacto", "SKU: 100% } {", "SKU: 100% } {");
+eq("literal con llaves", "{{ '}}' }}", "}}");
+
+fails("variable ausente = error", "{{missing}}", /Missing variable "missing"/);
+fails("ninguna alternativa definida", "{{missing ?? other}}", /"missing" \/ "other"/);
+fails("filtro desconocido", "{{name | shout}}", /Unknown filter "shout".*upper/);
+fails("número inválido", "{{name | number}}", /not a number/);
+fails("fecha inválida", "{{name | date}}", /not a valid date/);
+fails("objeto sin clave anidada", "{{item}}", /nested key/);
+fails("llave sin cerrar", "{{name", /Unclosed placeholder/);
+fails("sintaxis inválida", "{{name name}}", /expected/);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nTEMPLATE EXPRESSIONS OK");
@@ -0,0 +1,60 @@
+// Test de validación de plantillas contra schema/template.schema.json (sin canvas).
+//
+//   npm run build && node test/template-schema.test.mjs
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const TEMPLATES = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "templates");
+const base = (elements, extra = {}) => ({ name: "t", elements, ...extra });
+const issuesOf = (tpl) => validateTemplate(tpl).issues.map((i) => `${i.path}: ${i.message}`);
+const has = (issues, text) => issues.some((i) => i.includes(text));
+
+const checks = [];
+
+// Todas las plantillas incluidas validan (los ficheros vacíos no son plantillas)
+for (const file of readdirSync(TEMPLATES).filter((f) => f.endsWith(".json"))) {
+  const full = path.join(TEMPLATES, file);
+  if (statSync(full).size === 0) continue;
+  const issues = issuesOf(JSON.parse(readFileSync(full, "utf8")));
+  checks.push([`templates/${file} es válida`, issues.length === 0, issues.join("; ")]);
+}
+
+const text = { type: "text", content: "x", position: { x: 0, y: 0 } };
+const rect = { type: "rectangle", position: { x: 0, y: 0 }, width: 10, height: 5 };
+
+let issues = issuesOf(base([text, rect, { type: "text", content: "x", positon: { x: 0, y: 0 } }]));
+checks.push(["errata -> propiedad desconocida con sugerencia", has(issues, '/elements/2/positon: unknown property, did you mean "position"?'), issues.join("; ")]);
+checks.push(["errata -> falta la propiedad requerida", has(issues, "/elements/2/position: required"), issues.join("; ")]);
+
+issues = issuesOf(base([{ type: "rectangle", position: { x: 0, y: 0 }, height: 5 }]));
+checks.push(["rectángulo sin width", issues.join() === "/elements/0/width: required", issues.join("; ")]);
+
+issues = issuesOf(base([{ type: "rect", position: { x: 0, y: 0 } }]));
+checks.push(["tipo desconocido con sugerencia", has(issues, '/elements/0/type: unknown type "rect"') && has(issues, 'did you mean "rectangle"?'), issues.join("; ")]);
+
+issues = issuesOf(base([{ ...text, align: "centre", fontSize: "12" }]));
+checks.push(["enum con sugerencia", has(issues, '/elements/0/align: must be one of left, center, right, got "centre", did you mean "center"?'), issues.join("; ")]);
+checks.push(["longitud sin unidad", has(issues, '/elements/0/fontSize: must match ^(\\d+(\\.\\d+)?|\\.\\d+)(mm|in|px|dots)$, got "12"'), issues.join("; ")]);
+
+issues = issuesOf(base([{ ...text, fontSize: true }]));
+checks.push(["tipo incorrecto", has(issues, "/elements/0/fontSize: must be number or string, got boolean"), issues.join("; ")]);
+
+issues = issuesOf(base([{ type: "barcode", symbology: "code128", data: "A", position: { x: 0, y: "1" }, quietZone: -1 }]));
+checks.push(["rutas anidadas y mínimos", has(issues, "/elements/0/position/y: must match") && has(issues, "/elements/0/quietZone: must be >= 0"), issues.join("; ")]);
+
+issues = issuesOf({ elements: "nope", dither: { algorithm: "floyd" } });
+checks.push(["raíz: name requerido, elements array", has(issues, "/name: required") && has(issues, "/elements: must be array"), issues.join("; ")]);
+checks.push(["dither de plantilla validado", has(issues, "/dither/algorithm: must be one of"), issues.join("; ")]);
+
+issues = issuesOf(base([text], { "a/b": 1 }));
+checks.push(["puntero JSON escapado (RFC 6901)", has(issues, "/a~1b: unknown property"), issues.join("; ")]);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nTEMPLATE SCHEMA OK");
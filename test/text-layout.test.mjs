@@ -0,0 +1,71 @@
+// Test de maquetación de texto (cajas y auto-fit) sin canvas: medida falsa de
+// 0,5 × tamaño de fuente por carácter (monoespaciada).
+//
+//   npm run build && node test/text-layout.test.mjs
+import { wrapText, layoutTextBox, fitFontSize, availableTextSpace } from "../dist/utils/textLayout.js";
+
+const measure = (text, size) => text.length * size * 0.5;
+// 10 px de fuente -> 5 px por carácter; caja de 100 px = 20 caracteres
+const opts = (extra) => ({ width: 100, fontSize: 10, ...extra });
+const text = "Tornillo hexagonal de acero inoxidable M8 x 40 mm";
+
+const checks = [];
+
+const wrapped = wrapText(text, 10, 100, measure);
+checks.push(["wrap: corta por palabras", wrapped.join("|") === "Tornillo hexagonal|de acero inoxidable|M8 x 40 mm", wrapped.join("|")]);
+checks.push(["wrap: ninguna línea excede el ancho", wrapped.every((l) => measure(l, 10) <= 100), ""]);
+
+const hyph = wrapText("Donaudampfschifffahrtsgesellschaft", 10, 100, measure);
+checks.push(["palabra larga: guion de corte", hyph.join("|") === "Donaudampfschifffah-|rtsgesellschaft", hyph.join("|")]);
+
+const para = wrapText("Lote 42\nCaduca 2026", 10, 100, measure);
+checks.push(["saltos de línea explícitos", para.join("|") === "Lote 42|Caduca 2026", para.join("|")]);
+
+// Caja de 30 px de alto con interlineado 1,2 -> caben 2 líneas
+const box = { height: 30 };
+const wrap = layoutTextBox(text, measure, opts({ ...box, overflow: "wrap" }));
+checks.push(["overflow wrap: conserva todas las líneas", wrap.lines.length === 3 && wrap.overflowed, `${wrap.lines.length}`]);
+
+const clip = layoutTextBox(text, measure, opts({ ...box, overflow: "clip" }));
+checks.push(["overflow clip: corta a lo que cabe", clip.lines.join("|") === "Tornillo hexagonal|de acero inoxidable", clip.lines.join("|")]);
+
+const ell = layoutTextBox(text, measure, opts({ ...box, overflow: "ellipsis" }));
+checks.push(["overflow ellipsis: última línea con …", ell.lines.length === 2 && ell.lines[1].endsWith("…") && measure(ell.lines[1], 10) <= 100, ell.lines.join("|")]);
+
+const max = layoutTextBox(text, measure, opts({ maxLines: 1, overflow: "ellipsis" }));
+checks.push(["maxLines sin alto de caja", max.lines.length === 1 && max.lines[0].endsWith("…"), max.lines.join("|")]);
+
+const shrink = layoutTextBox(text, measure, opts({ ...box, overflow: "shrink" }));
+const fits = shrink.lines.length * shrink.lineHeightPx <= 30 && shrink.lines.every((l) => measure(l, shrink.fontSize) <= 100);
+checks.push(["overflow shrink: reduce la fuente hasta que cabe", shrink.fontSize < 10 && fits && !shrink.lines.join(" ").includes("…"), `${shrink.fontSize}px ${shrink.lines.join("|")}`]);
+
+const floor = layoutTextBox(text.repeat(4), measure, opts({ ...box, overflow: "shrink", minFontSize: 8 }));
+checks.push(["shrink con mínimo: acaba en elipsis", floor.fontSize === 8 && floor.lines[floor.lines.length - 1].endsWith("…"), `${floor.fontSize}px`]);
+
+const short = layoutTextBox("Lote 42", measure, opts({ ...box, overflow: "shrink" }));
+checks.push(["texto corto no cambia", short.fontSize === 10 && short.lines.join("|") === "Lote 42" && !short.overflowed, ""]);
+
+// Auto-fit de una línea: ascent 0,7 y descent 0,2 del tamaño
+const extent = (t, size) => ({ width: measure(t, size), ascent: size * 0.7, descent: size * 0.2 });
+const space = availableTextSpace(0, 40, "left", 227, 136, 8);
+checks.push(["espacio disponible (left)", space.maxWidth === 219 && space.maxAscent === 40 && space.maxDescent === 96, JSON.stringify(space)]);
+checks.push(["espacio disponible (center/right)", availableTextSpace(113, 0, "center", 227, 136, 8).maxWidth === 211 && availableTextSpace(200, 0, "right", 227, 136, 8).maxWidth === 192, ""]);
+
+const big = { fontSize: 127, ...space };
+const byWidth = fitFontSize("HOLA", extent, { ...big, fit: "width" });
+checks.push(["fit width: ignora el alto", byWidth === 109 && measure("HOLA", byWidth) <= 219, `${byWidth}`]);
+const byBox = fitFontSize("HOLA", extent, { ...big, fit: "box" });
+checks.push(["fit box: el ascent cabe sobre la línea base", byBox === 57 && byBox * 0.7 <= 40, `${byBox}`]);
+checks.push(["fit height: solo el alto", fitFontSize("HOLA MUNDO CRUEL", extent, { ...big, fit: "height" }) === 57, ""]);
+checks.push(["fit none: tamaño intacto", fitFontSize("HOLA MUNDO CRUEL", extent, { ...big, fit: "none" }) === 127, ""]);
+checks.push(["sin fit: tamaño intacto (la plantilla lo pide)", fitFontSize("HOLA MUNDO CRUEL", extent, big) === 127, ""]);
+checks.push(["maxFontSize: el texto corto crece", fitFontSize("OK", extent, { ...space, fit: "width", fontSize: 20, maxFontSize: 40 }) === 40, ""]);
+checks.push(["minFontSize: no baja del mínimo", fitFontSize("X".repeat(200), extent, { ...space, fit: "width", fontSize: 20, minFontSize: 12 }) === 12, ""]);
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nTEXT LAYOUT OK");
@@ -0,0 +1,166 @@
+// Test de los transportes (URI de dispositivo, memoria, archivo, TCP 9100) y de
+// PrinterService sobre MemoryTransport, sin impresora.
+//
+//   npm run build && node test/transports.test.mjs
+import {
+  createTransport,
+  parseDeviceUri,
+  SerialTransport,
+  DeviceFileTransport,
+  TcpRawTransport,
+  MemoryTransport,
+  TransportError,
+} from "../dist/services/printerTransport.js";
+import { PrinterService } from "../dist/services/printerService.js";
+import { ProfileService } from "../dist/services/profileService.js";
+import { Logger } from "../dist/utils/logger.js";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { once } from "node:events";
+import net from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const fails = async (name, fn, pattern) => {
+  let error;
+  try { await fn(); } catch (e) { error = e; }
+  check(name, error !== undefined && pattern.test(error.message), error ? error.message : "no error");
+  return error;
+};
+
+// --- URIs de dispositivo ----------------------------------------------------------
+const serialPattern = "^COM\\d+$|ttyUSB|ttyACM|ttyS|ttyAMA|cu\\.";
+const cases = [
+  ["serial:///dev/ttyUSB0", { kind: "serial", path: "/dev/ttyUSB0" }],
+  ["serial://COM3?baud=115200", { kind: "serial", path: "COM3", baudRate: 115200 }],
+  ["file:///dev/usb/lp0", { kind: "file", path: "/dev/usb/lp0" }],
+  ["tcp://192.168.1.50", { kind: "tcp", path: "192.168.1.50", port: 9100 }],
+  ["tcp://printer.lan:9101/", { kind: "tcp", path: "printer.lan", port: 9101 }],
+  ["tcp://[::1]:9100", { kind: "tcp", path: "::1", port: 9100 }],
+  ["memory://test", { kind: "memory", path: "test" }],
+  ["COM3", { kind: "serial", path: "COM3" }],
+  ["/dev/ttyUSB0", { kind: "serial", path: "/dev/ttyUSB0" }],
+  ["/dev/usb/lp0", { kind: "file", path: "/dev/usb/lp0" }],
+];
+for (const [device, expected] of cases) {
+  const got = parseDeviceUri(device, serialPattern);
+  check(`URI ${device}`, json(got) === json(expected), json(got));
+}
+check("sin patrón del perfil solo COMn es serie", parseDeviceUri("/dev/ttyUSB0").kind === "file");
+for (const [device, pattern] of [
+  ["lpt://x", /Unknown printer device scheme "lpt:"/],
+  ["tcp://host:port", /Invalid network printer/],
+  ["serial://COM3?baud=fast", /Invalid serial device/],
+  ["", /Empty printer device/],
+]) {
+  let error;
+  try { parseDeviceUri(device); } catch (e) { error = e; }
+  check(`URI inválida "${device}"`, error instanceof TransportError && pattern.test(error.message), error?.message);
+}
+check("createTransport elige la clase",
+  createTransport("serial://COM3") instanceof SerialTransport
+  && createTransport("/dev/usb/lp0") instanceof DeviceFileTransport
+  && createTransport("tcp://localhost") instanceof TcpRawTransport
+  && createTransport("memory://x") instanceof MemoryTransport);
+check("la velocidad de la URI gana a la de las opciones", createTransport("serial://COM3?baud=9600", { baudRate: 57600 }).uri === "serial://COM3?baud=9600");
+
+// --- Memoria --------------------------------------------------------------------
+{
+  const memory = new MemoryTransport("t", (data) => (data[0] === 0x10 ? "FW 1.0" : undefined));
+  await fails("escribir sin abrir", () => memory.write([1]), /not open/);
+  await memory.open();
+  await memory.write([1, 2]);
+  await memory.write(Buffer.from([3]));
+  check("memoria guarda lo escrito", json([...memory.data]) === "[1,2,3]" && memory.writes.length === 2);
+  await memory.write([0x10]);
+  check("memoria responde", (await memory.read()).toString() === "FW 1.0");
+  memory.failNextWrite(Object.assign(new Error("busy"), { code: "EBUSY" }));
+  const error = await fails("fallo simulado", () => memory.write([4]), /busy/);
+  check("el fallo simulado conserva el código", error?.code === "EBUSY");
+  await memory.write([5]);
+  check("solo falla una escritura", memory.data.at(-1) === 5);
+  const pending = memory.read();
+  await memory.close();
+  await fails("cerrar rechaza las lecturas pendientes", () => pending, /not open/);
+}
+
+// --- Archivo de dispositivo --------------------------------------------------------
+{
+  const file = path.join(mkdtempSync(path.join(tmpdir(), "lpc-transport-")), "lp0");
+  const device = createTransport(`file://${file}`);
+  await device.open();
+  await device.write([0x1b, 0x40]);
+  await device.write([0x0a]);
+  await device.drain();
+  await device.close();
+  check("archivo recibe los bytes en orden", json([...readFileSync(file)]) === "[27,64,10]");
+  check("archivo no se puede leer", device.readable === false);
+  await fails("escribir en un archivo cerrado", () => device.write([1]), /not open/);
+}
+
+// --- TCP 9100 -------------------------------------------------------------------
+{
+  const received = [];
+  const server = net.createServer((socket) => {
+    socket.on("data", (data) => {
+      received.push(...data);
+      if (data.includes(0x10)) socket.write("FW-TCP");
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address();
+  const tcp = createTransport(`tcp://127.0.0.1:${port}`);
+  await tcp.open();
+  await tcp.open();
+  await tcp.write([1, 2, 3]);
+  await tcp.write([0x10]);
+  check("TCP: respuesta de la impresora", (await tcp.read()).toString() === "FW-TCP");
+  await tcp.drain();
+  await tcp.close();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  check("TCP: el servidor recibe los bytes", json(received) === "[1,2,3,16]", json(received));
+  check("TCP: cerrado", !tcp.isOpen);
+  server.close();
+  await once(server, "close");
+
+  const refused = await fails("TCP: conexión rechazada", () => createTransport(`tcp://127.0.0.1:${port}`).open(), /ECONNREFUSED/);
+  check("TCP: el rechazo lleva código de errno", typeof refused?.code === "string", refused?.code);
+}
+
+// --- PrinterService sobre MemoryTransport ------------------------------------------
+{
+  const profile = new ProfileService().loadProfile("makeid-l1");
+  const config = { profile: "makeid-l1", portPath: "memory://", baudRate: 57600, packetSize: 4, exitDelay: 0, packetDelay: 0 };
+  const memory = new MemoryTransport("l1", () => "V1.2");
+  const printer = new PrinterService(config, profile, new Logger({ debugMode: false, verboseLogging: false }), memory);
+  await printer.open();
+  check("PrinterService usa el transporte dado", printer.device === "memory://l1");
+  check("firmware a través del transporte", (await printer.getFirmwareVersion()) === "V1.2");
+  memory.writes.length = 0;
+  memory.respond = undefined;
+  const raster = [0xaa, 0x55, 0xff, 0x00];
+  await printer.sendImageData(raster, { width: 2, height: 2, dpi: 203 });
+  const bytes = [...memory.data];
+  const start = bytes.indexOf(0x1d);
+  check("cabecera GS v 0 y raster en el transporte",
+    json(bytes.slice(start, start + 3)) === json([0x1d, 0x76, 0x30]) && json(bytes.slice(-raster.length - profile.protocol.postfix.length, bytes.length - profile.protocol.postfix.length)) === json(raster),
+    json(bytes));
+  check("paquetes del tamaño configurado", memory.writes.slice(0, -1).every((chunk) => chunk.length <= 4), json(memory.writes.map((chunk) => chunk.length)));
+  check("postfix al final", json(bytes.slice(-profile.protocol.postfix.length)) === json(profile.protocol.postfix));
+  const file = new PrinterService(config, profile, new Logger({ debugMode: false, verboseLogging: false }), new DeviceFileTransport("/dev/null"));
+  await file.open();
+  check("sin lectura el firmware es unknown", (await file.getFirmwareVersion()) === "unknown");
+  await file.close();
+  await printer.close();
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nTRANSPORTS OK");
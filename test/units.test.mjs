@@ -0,0 +1,159 @@
+// Test de unidades físicas en plantillas: mm, in, px y dots convertidos con el
+// DPI del perfil, composición con unidades mezcladas y SVG a 203 y 300 dpi. Sin canvas.
+//
+//   npm run build && node test/units.test.mjs
+import {
+  parseLength,
+  lengthToDots,
+  addLengths,
+  resolveTemplateUnits,
+  UnitsError,
+} from "../dist/utils/units.js";
+import { TemplateService, TemplateCompositionError } from "../dist/services/templateService.js";
+import { validateTemplate } from "../dist/utils/templateValidator.js";
+import { renderSvgLabel } from "../dist/utils/svgLabel.js";
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const checks = [];
+const check = (name, ok, detail = "") => checks.push([name, ok, detail]);
+const json = (value) => JSON.stringify(value);
+const caught = (fn) => { try { fn(); } catch (e) { return e; } };
+// Puntos en papel de un valor en px resuelto, como lo dibuja el renderer
+const dotsAt = (px, dpi) => Math.round((px * dpi) / 96);
+
+// --- Longitudes -----------------------------------------------------------------------
+{
+  check("número con unidad", json(["12mm", ".5in", "-3px", "40dots"].map((v) => parseLength(v)))
+    === json([{ value: 12, unit: "mm" }, { value: 0.5, unit: "in" }, { value: -3, unit: "px" }, { value: 40, unit: "dots" }]));
+  check("número sin unidad: la de la plantilla", parseLength(7, "mm").unit === "mm" && parseLength(7).unit === "px");
+  check("dimensiones y módulos: dots en plantillas px", parseLength(227, "px", "dots").unit === "dots" && parseLength(2, "mm", "dots").unit === "mm");
+  const bad = caught(() => parseLength("12cm"));
+  check("unidad desconocida", bad instanceof UnitsError && bad.name === "UnitsError" && /Invalid length "12cm": .*px, dots, mm, in/.test(bad.message), bad?.message);
+  check("a puntos", lengthToDots(25.4, "mm", 203) === 203 && lengthToDots(1, "in", 300) === 300 && lengthToDots(96, "px", 203) === 203 && lengthToDots(5, "dots", 600) === 5);
+
+  check("sumas", addLengths(1, 2) === 3 && addLengths("5mm", "1in") === "30.4mm" && addLengths("2mm", 3, "mm") === "5mm"
+    && addLengths("2mm", 0) === "2mm" && addLengths(0, "4dots") === "4dots");
+  const mixed = caught(() => addLengths("5mm", 10));
+  check("px + mm sin DPI: error", mixed instanceof UnitsError && /Cannot add 5mm and 10px without a DPI/.test(mixed.message), mixed?.message);
+}
+
+// --- Resolución -----------------------------------------------------------------------
+{
+  const legacy = {
+    name: "legacy",
+    dimensions: { width: 227, height: 136 },
+    defaultFont: { family: "Arial", size: 14 },
+    elements: [
+      { type: "text", content: "x", position: { x: 54, y: 14 }, fontSize: 14 },
+      { type: "line", start: { x: 0, y: 1 }, end: { x: 10, y: 1 }, width: 2 },
+      { type: "barcode", symbology: "code128", data: "A", position: { x: 0, y: 20 }, moduleWidth: 1, height: 24 },
+    ],
+  };
+  check("plantilla px sin unidades: sin cambios", json(resolveTemplateUnits(legacy, 203)) === json(legacy));
+
+  const metric = {
+    name: "metric",
+    units: "mm",
+    dimensions: { width: 28, height: 17 },
+    elements: [
+      { type: "rectangle", position: { x: 12, y: "0.5in" }, width: 20, height: "40dots" },
+      { type: "line", start: { x: 0, y: 0 }, end: { x: 10, y: 0 }, width: 0.25 },
+      { type: "qrcode", data: "x", position: { x: 0, y: 0 }, moduleSize: 0.05 },
+    ],
+  };
+  const sizes = [203, 300].map((dpi) => {
+    const t = resolveTemplateUnits(metric, dpi);
+    const [rect, line, qr] = t.elements;
+    return {
+      units: t.units,
+      dimensions: t.dimensions,
+      x: dotsAt(rect.position.x, dpi),
+      y: dotsAt(rect.position.y, dpi),
+      width: dotsAt(rect.width, dpi),
+      height: dotsAt(rect.height, dpi),
+      stroke: line.width,
+      module: qr.moduleSize,
+    };
+  });
+  check("mm a 203 dpi", json(sizes[0]) === json({ dimensions: { width: 224, height: 136 }, x: 96, y: 102, width: 160, height: 40, stroke: 2, module: 1 }), json(sizes[0]));
+  check("mm a 300 dpi", json(sizes[1]) === json({ dimensions: { width: 331, height: 201 }, x: 142, y: 150, width: 236, height: 40, stroke: 3, module: 1 }), json(sizes[1]));
+
+  const dots = resolveTemplateUnits({ name: "d", units: "dots", dimensions: { width: 400 }, elements: [{ type: "circle", center: { x: 100, y: 50 }, radius: 30 }] }, 300);
+  check("units dots: puntos exactos", dots.dimensions.width === 400 && dotsAt(dots.elements[0].center.x, 300) === 100 && dotsAt(dots.elements[0].radius, 300) === 30);
+
+  check("esquema: units y longitudes con unidad", validateTemplate(metric).valid && !validateTemplate({ ...metric, units: "cm" }).valid);
+}
+
+// --- Composición con unidades mezcladas -----------------------------------------------------
+{
+  const dir = mkdtempSync(path.join(tmpdir(), "lpc-units-"));
+  mkdirSync(path.join(dir, "partials"));
+  const write = (file, value) => writeFileSync(path.join(dir, file), JSON.stringify(value));
+  write("base.json", {
+    name: "base",
+    dimensions: { width: 227, height: 136 },
+    elements: [{ type: "rectangle", position: { x: 1, y: 1 }, width: 20, height: 10 }, { type: "slot", name: "body" }],
+  });
+  write("partials/mark.json", {
+    name: "mark",
+    units: "mm",
+    elements: [{ type: "circle", center: { x: 2, y: 2 }, radius: 1 }],
+  });
+  write("metric.json", {
+    name: "metric",
+    extends: "base",
+    units: "mm",
+    slots: { body: [{ type: "text", content: "a", position: { x: 3, y: 4 } }] },
+    elements: [{ type: "include", partial: "mark", offset: { x: 10, y: "0.1in" } }],
+  });
+  write("pixels.json", { name: "pixels", elements: [{ type: "include", partial: "mark", offset: { x: 10, y: 0 } }] });
+  write("pixels-mm.json", { name: "pixels-mm", elements: [{ type: "include", partial: "mark", offset: { x: "10mm", y: "1mm" } }] });
+
+  const service = new TemplateService(dir);
+  const metric = await service.loadTemplate("metric");
+  check("padre px en hijo mm: unidades explícitas", json(metric.dimensions) === json({ width: "227dots", height: "136dots" })
+    && json(metric.elements[0].position) === json({ x: "1px", y: "1px" }) && metric.elements[0].width === "20px", json(metric.elements[0]));
+  check("slot y partial en mm del hijo", json(metric.elements[1].position) === json({ x: 3, y: 4 })
+    && json(metric.elements[2].center) === json({ x: 12, y: "4.54mm" }) && metric.units === "mm", json(metric.elements.slice(1)));
+
+  const resolved = resolveTemplateUnits(metric, 203);
+  check("padre sin cambiar de tamaño", resolved.dimensions.width === 227 && resolved.elements[0].width === 20, json(resolved.elements[0]));
+
+  const mm = await service.loadTemplate("pixels-mm");
+  check("offset en mm sobre partial en mm", json(mm.elements[0].center) === json({ x: "12mm", y: "3mm" }) && mm.elements[0].radius === "1mm", json(mm.elements[0]));
+
+  const refused = await service.loadTemplate("pixels").catch((e) => e);
+  check("offset px sobre partial mm: error de composición", refused instanceof TemplateCompositionError
+    && /Partial "mark" cannot be offset: Cannot add 2mm and 10px/.test(refused.message), refused?.message);
+}
+
+// --- Mismo tamaño físico a 203 y 300 dpi (SVG, medida de texto falsa) ------------------------
+{
+  const measure = (text, size) => ({ width: text.length * size * 0.6, ascent: size * 0.7, descent: size * 0.2 });
+  const template = await new TemplateService().loadTemplate("asset-metric");
+  const svgs = [203, 300].map((dpi) => {
+    const resolved = resolveTemplateUnits(template, dpi);
+    return renderSvgLabel(resolved, {
+      ...resolved.dimensions,
+      scaleFactor: dpi / 96,
+      defaultFontSize: 14,
+      textMargin: 8,
+      measure,
+      variables: { line1: "A-1", line2: "Sala 2" },
+    });
+  });
+  const frame = svgs.map((svg) => /<rect x="(\d+)" y="(\d+)" width="(\d+)" height="(\d+)" fill="none"/.exec(svg)?.slice(1).map(Number));
+  // 27 mm de ancho: 215.8 puntos a 203 dpi, 318.9 a 300
+  check("asset-metric: marco de 27x16 mm", json(frame) === json([[4, 4, 216, 128], [6, 6, 319, 189]]), json(frame));
+  check("asset-metric: etiqueta de 28x17 mm", svgs[0].includes('viewBox="0 0 224 136"') && svgs[1].includes('viewBox="0 0 331 201"'));
+}
+
+let failed = false;
+for (const [name, ok, detail] of checks) {
+  console.log(`${ok ? "✓" : "✗"} ${name}${ok ? "" : ` — ${detail}`}`);
+  if (!ok) failed = true;
+}
+if (failed) process.exit(1);
+console.log("\nUNITS OK");